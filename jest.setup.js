@@ -1,8 +1,13 @@
 import '@testing-library/jest-dom';
 import { TextEncoder, TextDecoder } from 'util';
 
-// Polyfills for Node.js environment
-global.TextEncoder = TextEncoder;
+// Polyfills for Node.js environment. util's encoder returns Node's Uint8Array, which fails the
+// instanceof checks of libraries such as tweetnacl inside the jsdom realm, so copy into this one.
+global.TextEncoder = class extends TextEncoder {
+  encode(input) {
+    return new Uint8Array(super.encode(input));
+  }
+};
 global.TextDecoder = TextDecoder;
 
 // Mock crypto.getRandomValues for Node.js environment
@@ -0,0 +1,358 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import AESEngine from '@/crypto/engines/aes';
+import { AESBlockCipher } from '@/crypto/primitives/aes';
+import { gcmEncrypt, gcmDecrypt } from '@/crypto/modes/gcm';
+import { ccmEncrypt, ccmDecrypt } from '@/crypto/modes/ccm';
+import { sivEncrypt, sivDecrypt } from '@/crypto/modes/siv';
+import { ocbEncrypt, ocbDecrypt } from '@/crypto/modes/ocb';
+import { cmac } from '@/crypto/modes/cmac';
+import { hexToBytes, bytesToHex } from '@/lib/crypto-utils';
+
+describe('AES block primitive', () => {
+  // FIPS 197 Appendix C
+  test.each([
+    ['000102030405060708090a0b0c0d0e0f', '69c4e0d86a7b0430d8cdb78070b4c55a'],
+    ['000102030405060708090a0b0c0d0e0f1011121314151617', 'dda97ca4864cdfe06eaf70a0ec0d7191'],
+    ['000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f', '8ea2b7ca516745bfeafc49904b496089']
+  ])('encrypts and decrypts the FIPS 197 example with key %s', (key, expected) => {
+    const cipher = new AESBlockCipher(hexToBytes(key));
+    const plaintext = hexToBytes('00112233445566778899aabbccddeeff');
+    const ciphertext = cipher.encryptBlock(plaintext);
+    expect(bytesToHex(ciphertext)).toBe(expected);
+    expect(bytesToHex(cipher.decryptBlock(ciphertext))).toBe('00112233445566778899aabbccddeeff');
+  });
+
+  test('rejects invalid key sizes', () => {
+    expect(() => new AESBlockCipher(new Uint8Array(20))).toThrow('AES key must be 16, 24 or 32 bytes');
+  });
+});
+
+describe('GCM mode', () => {
+  const K = 'feffe9928665731c6d6a8f9467308308';
+  const P =
+    'd9313225f88406e5a55909c5aff5269a86a7a9531534f7da2e4c303d8a318a72' +
+    '1c3c0c95956809532fcf0e2449a6b525b16aedf5aa0de657ba637b39';
+  const A = 'feedfacedeadbeeffeedfacedeadbeefabaddad2';
+
+  // Test cases from McGrew & Viega, "The Galois/Counter Mode of Operation (GCM)"
+  const vectors = [
+    {
+      name: 'Test Case 1 (empty plaintext)',
+      key: '00'.repeat(16), iv: '00'.repeat(12), plaintext: '', aad: '',
+      ciphertext: '', tag: '58e2fccefa7e3061367f1d57a4e7455a'
+    },
+    {
+      name: 'Test Case 2 (one zero block)',
+      key: '00'.repeat(16), iv: '00'.repeat(12), plaintext: '00'.repeat(16), aad: '',
+      ciphertext: '0388dace60b6a392f328c2b971b2fe78', tag: 'ab6e47d42cec13bdf53a67b21257bddf'
+    },
+    {
+      name: 'Test Case 3 (no AAD)',
+      key: K, iv: 'cafebabefacedbaddecaf888', plaintext: P + '1aafd255', aad: '',
+      ciphertext:
+        '42831ec2217774244b7221b784d0d49ce3aa212f2c02a4e035c17e2329aca12e' +
+        '21d514b25466931c7d8f6a5aac84aa051ba30b396a0aac973d58e091473f5985',
+      tag: '4d5c2af327cd64a62cf35abd2ba6fab4'
+    },
+    {
+      name: 'Test Case 4 (AAD, partial final block)',
+      key: K, iv: 'cafebabefacedbaddecaf888', plaintext: P, aad: A,
+      ciphertext:
+        '42831ec2217774244b7221b784d0d49ce3aa212f2c02a4e035c17e2329aca12e' +
+        '21d514b25466931c7d8f6a5aac84aa051ba30b396a0aac973d58e091',
+      tag: '5bc94fbc3221a5db94fae95ae7121a47'
+    },
+    {
+      name: 'Test Case 5 (64-bit IV)',
+      key: K, iv: 'cafebabefacedbad', plaintext: P, aad: A,
+      ciphertext:
+        '61353b4c2806934a777ff51fa22a4755699b2a714fcdc6f83766e5f97b6c7423' +
+        '73806900e49f24b22b097544d4896b424989b5e1ebac0f07c23f4598',
+      tag: '3612d2e79e3b0785561be14aaca2fccb'
+    },
+    {
+      name: 'Test Case 6 (480-bit IV)',
+      key: K,
+      iv:
+        '9313225df88406e555909c5aff5269aa6a7a9538534f7da1e4c303d2a318a728' +
+        'c3c0c95156809539fcf0e2429a6b525416aedbf5a0de6a57a637b39b',
+      plaintext: P, aad: A,
+      ciphertext:
+        '8ce24998625615b603a033aca13fb894be9112a5c3a211a8ba262a3cca7e2ca7' +
+        '01e4a9a4fba43c90ccdcb281d48c7c6fd62875d2aca417034c34aee5',
+      tag: '619cc5aefffe0bfa462af43c1699d050'
+    },
+    {
+      name: 'Test Case 7 (AES-192, empty plaintext)',
+      key: '00'.repeat(24), iv: '00'.repeat(12), plaintext: '', aad: '',
+      ciphertext: '', tag: 'cd33b28ac773f74ba00ed1f312572435'
+    },
+    {
+      name: 'Test Case 14 (AES-256, one zero block)',
+      key: '00'.repeat(32), iv: '00'.repeat(12), plaintext: '00'.repeat(16), aad: '',
+      ciphertext: 'cea7403d4d606b6e074ec5d3baf39d18', tag: 'd0d1c8a799996bf0265b98b5d48ab919'
+    }
+  ];
+
+  test.each(vectors)('$name', ({ key, iv, plaintext, aad, ciphertext, tag }) => {
+    const cipher = new AESBlockCipher(hexToBytes(key));
+    const sealed = gcmEncrypt(cipher, hexToBytes(iv), hexToBytes(plaintext), hexToBytes(aad));
+    expect(bytesToHex(sealed.ciphertext)).toBe(ciphertext);
+    expect(bytesToHex(sealed.tag)).toBe(tag);
+
+    const opened = gcmDecrypt(cipher, hexToBytes(iv), hexToBytes(ciphertext), hexToBytes(tag), hexToBytes(aad));
+    expect(bytesToHex(opened)).toBe(plaintext);
+  });
+
+  test('truncates the tag to the requested length', () => {
+    const cipher = new AESBlockCipher(hexToBytes(K));
+    const sealed = gcmEncrypt(cipher, hexToBytes('cafebabefacedbaddecaf888'), hexToBytes(P), hexToBytes(A), 12);
+    expect(bytesToHex(sealed.tag)).toBe('5bc94fbc3221a5db94fae95a');
+  });
+
+  test('rejects unsupported tag lengths and empty IVs', () => {
+    const cipher = new AESBlockCipher(hexToBytes(K));
+    expect(() => gcmEncrypt(cipher, hexToBytes('cafebabefacedbaddecaf888'), new Uint8Array(0), new Uint8Array(0), 8)).toThrow();
+    expect(() => gcmEncrypt(cipher, new Uint8Array(0), new Uint8Array(0), new Uint8Array(0))).toThrow();
+  });
+});
+
+describe('AESEngine GCM', () => {
+  const engine = new AESEngine();
+  const key = 'feffe9928665731c6d6a8f9467308308';
+  const iv = 'cafebabefacedbaddecaf888';
+  const plaintext = 'The quick brown fox jumps over the lazy dog';
+  const ciphertext = 'cfda49c7a8861ba2850b4a0044529c260362f05c53433e4a68ad2168c6ef0b28558c384ba074e36f362f03';
+  const tag = '8d46b58538a155ad70d11651b2089747';
+  const gcmParams = { key, iv, mode: 'GCM' as const, variant: 'aes-128', additionalData: 'header' };
+
+  test('encrypts with AAD and appends the tag', async () => {
+    const result = await engine.encrypt({ ...gcmParams, plaintext });
+    expect(result.success).toBe(true);
+    expect(result.result).toBe(ciphertext + tag);
+    expect(result.metadata?.tag).toBe(tag);
+    expect(result.metadata?.ivLength).toBe(12);
+  });
+
+  test('supports truncated tags', async () => {
+    const result = await engine.encrypt({ ...gcmParams, plaintext, tagLength: 12 });
+    expect(result.result).toBe(ciphertext + tag.slice(0, 24));
+
+    const decrypted = await engine.decrypt({ ...gcmParams, ciphertext: result.result!, tagLength: 12 });
+    expect(decrypted.result).toBe(plaintext);
+  });
+
+  test('decrypts and rejects tampering with a distinct error code', async () => {
+    const ok = await engine.decrypt({ ...gcmParams, ciphertext: ciphertext + tag });
+    expect(ok.success).toBe(true);
+    expect(ok.result).toBe(plaintext);
+
+    const wrongAad = await engine.decrypt({ ...gcmParams, ciphertext: ciphertext + tag, additionalData: 'other' });
+    expect(wrongAad.success).toBe(false);
+    expect(wrongAad.errorCode).toBe('AUTHENTICATION_FAILED');
+
+    const wrongTag = await engine.decrypt({ ...gcmParams, ciphertext, tag: '00'.repeat(16) });
+    expect(wrongTag.errorCode).toBe('AUTHENTICATION_FAILED');
+  });
+
+  test('generates a 96-bit IV when none is supplied', async () => {
+    const result = await engine.encrypt({ plaintext, key, mode: 'GCM', variant: 'aes-128' });
+    expect(result.success).toBe(true);
+    expect(result.metadata?.iv).toMatch(/^[0-9a-f]{24}$/);
+  });
+
+  test('rejects invalid tag lengths', async () => {
+    const result = await engine.encrypt({ ...gcmParams, plaintext, tagLength: 8 });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('CMAC', () => {
+  // RFC 4493 Section 4
+  test.each([
+    ['', 'bb1d6929e95937287fa37d129b756746'],
+    ['6bc1bee22e409f96e93d7e117393172a', '070a16b46b4d4144f79bdd9dd04a287c'],
+    [
+      '6bc1bee22e409f96e93d7e117393172aae2d8a571e03ac9c9eb76fac45af8e5130c81c46a35ce411',
+      'dfa66747de9ae63030ca32611497c827'
+    ]
+  ])('matches the RFC 4493 example for message %s', (message, expected) => {
+    const cipher = new AESBlockCipher(hexToBytes('2b7e151628aed2a6abf7158809cf4f3c'));
+    expect(bytesToHex(cmac(cipher, hexToBytes(message)))).toBe(expected);
+  });
+});
+
+describe('CCM mode', () => {
+  test('RFC 3610 packet vector #1', () => {
+    const cipher = new AESBlockCipher(hexToBytes('c0c1c2c3c4c5c6c7c8c9cacbcccdcecf'));
+    const nonce = hexToBytes('00000003020100a0a1a2a3a4a5');
+    const aad = hexToBytes('0001020304050607');
+    const plaintext = '08090a0b0c0d0e0f101112131415161718191a1b1c1d1e';
+
+    const sealed = ccmEncrypt(cipher, nonce, hexToBytes(plaintext), aad, 8);
+    expect(bytesToHex(sealed.ciphertext)).toBe('588c979a61c663d2f066d0c2c0f989806d5f6b61dac384');
+    expect(bytesToHex(sealed.tag)).toBe('17e8d12cfdf926e0');
+    expect(bytesToHex(ccmDecrypt(cipher, nonce, sealed.ciphertext, sealed.tag, aad))).toBe(plaintext);
+  });
+
+  test('rejects invalid nonce and tag lengths', () => {
+    const cipher = new AESBlockCipher(new Uint8Array(16));
+    expect(() => ccmEncrypt(cipher, new Uint8Array(6), new Uint8Array(0), new Uint8Array(0))).toThrow('CCM nonce');
+    expect(() => ccmEncrypt(cipher, new Uint8Array(12), new Uint8Array(0), new Uint8Array(0), 5)).toThrow('CCM tag length');
+  });
+});
+
+describe('SIV mode', () => {
+  const siv = (key: string) => {
+    const bytes = hexToBytes(key);
+    return [new AESBlockCipher(bytes.subarray(0, 16)), new AESBlockCipher(bytes.subarray(16))] as const;
+  };
+
+  test('RFC 5297 A.1 deterministic authenticated encryption', () => {
+    const [macCipher, ctrCipher] = siv('fffefdfcfbfaf9f8f7f6f5f4f3f2f1f0f0f1f2f3f4f5f6f7f8f9fafbfcfdfeff');
+    const aad = [hexToBytes('101112131415161718191a1b1c1d1e1f2021222324252627')];
+
+    const sealed = sivEncrypt(macCipher, ctrCipher, hexToBytes('112233445566778899aabbccddee'), aad);
+    expect(bytesToHex(sealed.siv)).toBe('85632d07c6e8f37f950acd320a2ecc93');
+    expect(bytesToHex(sealed.ciphertext)).toBe('40c02b9690c4dc04daef7f6afe5c');
+    expect(bytesToHex(sivDecrypt(macCipher, ctrCipher, sealed.siv, sealed.ciphertext, aad))).toBe('112233445566778899aabbccddee');
+  });
+
+  test('RFC 5297 A.2 nonce-based authenticated encryption with multiple components', () => {
+    const [macCipher, ctrCipher] = siv('7f7e7d7c7b7a79787776757473727170404142434445464748494a4b4c4d4e4f');
+    const components = [
+      hexToBytes('00112233445566778899aabbccddeeffdeaddadadeaddadaffeeddccbbaa99887766554433221100'),
+      hexToBytes('102030405060708090a0'),
+      hexToBytes('09f911029d74e35bd84156c5635688c0')
+    ];
+    const plaintext =
+      '7468697320697320736f6d6520706c61696e7465787420746f20656e6372797074207573696e67205349562d414553';
+
+    const sealed = sivEncrypt(macCipher, ctrCipher, hexToBytes(plaintext), components);
+    expect(bytesToHex(sealed.siv)).toBe('7bdb6e3b432667eb06f4d14bff2fbd0f');
+    expect(bytesToHex(sealed.ciphertext)).toBe(
+      'cb900f2fddbe404326601965c889bf17dba77ceb094fa663b7a3f748ba8af829ea64ad544a272e9c485b62a3fd5c0d'
+    );
+
+    // Swapping two components changes the synthetic IV
+    expect(() => sivDecrypt(macCipher, ctrCipher, sealed.siv, sealed.ciphertext, [components[1], components[0], components[2]]))
+      .toThrow('Authentication failed');
+  });
+});
+
+describe('OCB mode', () => {
+  const sequence = (length: number) => Uint8Array.from({ length }, (_, i) => i);
+
+  // RFC 7253 Appendix A
+  test('sample with 128-bit tag', () => {
+    const cipher = new AESBlockCipher(sequence(16));
+    const nonce = hexToBytes('bbaa99887766554433221101');
+
+    const sealed = ocbEncrypt(cipher, nonce, sequence(8), sequence(8));
+    expect(bytesToHex(sealed.ciphertext)).toBe('6820b3657b6f615a');
+    expect(bytesToHex(sealed.tag)).toBe('5725bda0d3b4eb3a257c9af1f8f03009');
+    expect(ocbDecrypt(cipher, nonce, sealed.ciphertext, sealed.tag, sequence(8))).toEqual(sequence(8));
+  });
+
+  test('sample with 96-bit tag', () => {
+    const cipher = new AESBlockCipher(hexToBytes('0f0e0d0c0b0a09080706050403020100'));
+    const nonce = hexToBytes('bbaa9988776655443322110d');
+
+    const sealed = ocbEncrypt(cipher, nonce, sequence(40), sequence(40), 12);
+    expect(bytesToHex(sealed.ciphertext)).toBe(
+      '1792a4e31e0755fb03e31b22116e6c2ddf9efd6e33d536f1a0124b0a55bae884ed93481529c76b6a'
+    );
+    expect(bytesToHex(sealed.tag)).toBe('d0c515f4d1cdd4fdac4f02aa');
+    expect(ocbDecrypt(cipher, nonce, sealed.ciphertext, sealed.tag, sequence(40))).toEqual(sequence(40));
+  });
+
+  test('rejects nonces longer than 120 bits', () => {
+    const cipher = new AESBlockCipher(sequence(16));
+    expect(() => ocbEncrypt(cipher, new Uint8Array(16), new Uint8Array(0), new Uint8Array(0))).toThrow('OCB nonce');
+  });
+});
+
+describe('AESEngine CCM, SIV and OCB', () => {
+  const engine = new AESEngine();
+  const key = 'feffe9928665731c6d6a8f9467308308';
+  const iv = 'cafebabefacedbaddecaf888';
+  const plaintext = 'The quick brown fox jumps over the lazy dog';
+
+  test.each([
+    {
+      mode: 'CCM' as const,
+      ciphertext: '85cabe4e18b9ef9c3e8e5f916b324686445321ee06e39b8dfa87466d15caaf31f3a62e298963f148c3fbec',
+      tag: '5af170f29b637eb6a6aa7d67a5a2aaec'
+    },
+    {
+      mode: 'OCB' as const,
+      ciphertext: 'b970ef2173399839b76749cee91714fbf25cfebfa1b23f802cadacdf43772547351b723810f90c4e6cd7b4',
+      tag: '80ebaec4e429852866a033011da83a2c'
+    }
+  ])('$mode encrypts with AAD, appends the tag and detects tampering', async ({ mode, ciphertext, tag }) => {
+    const params = { key, iv, mode, variant: 'aes-128', additionalData: 'header' };
+    const result = await engine.encrypt({ ...params, plaintext });
+    expect(result.success).toBe(true);
+    expect(result.result).toBe(ciphertext + tag);
+
+    const decrypted = await engine.decrypt({ ...params, ciphertext: ciphertext + tag });
+    expect(decrypted.result).toBe(plaintext);
+
+    const tampered = await engine.decrypt({ ...params, ciphertext: ciphertext + tag, additionalData: 'other' });
+    expect(tampered.errorCode).toBe('AUTHENTICATION_FAILED');
+  });
+
+  test('CCM honours shorter tags', async () => {
+    const result = await engine.encrypt({ plaintext, key, iv, mode: 'CCM', variant: 'aes-128', tagLength: 8 });
+    expect(result.metadata?.tagLength).toBe(8);
+
+    const decrypted = await engine.decrypt({ ciphertext: result.result!, key, iv, mode: 'CCM', variant: 'aes-128', tagLength: 8 });
+    expect(decrypted.result).toBe(plaintext);
+  });
+
+  describe('SIV', () => {
+    const sivKey = key + '000102030405060708090a0b0c0d0e0f';
+    const sivParams = { key: sivKey, mode: 'SIV' as const, variant: 'aes-128' };
+
+    test('requires a double-length key', async () => {
+      const result = await engine.encrypt({ ...sivParams, key, plaintext });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('32 bytes');
+      expect(await engine.generateKey(64)).toMatch(/^[0-9a-f]{128}$/);
+    });
+
+    test('is deterministic without a nonce and prefixes the synthetic IV', async () => {
+      const first = await engine.encrypt({ ...sivParams, plaintext, additionalData: 'header' });
+      const second = await engine.encrypt({ ...sivParams, plaintext, additionalData: 'header' });
+      expect(first.success).toBe(true);
+      expect(first.result).toBe(second.result);
+      expect(first.result!.slice(0, 32)).toBe(first.metadata?.tag);
+      expect(first.metadata?.iv).toBeUndefined();
+
+      const decrypted = await engine.decrypt({ ...sivParams, ciphertext: first.result!, additionalData: 'header' });
+      expect(decrypted.result).toBe(plaintext);
+    });
+
+    test('authenticates each associated data component and the nonce', async () => {
+      const params = { ...sivParams, iv, additionalDataComponents: ['user=alice', 'version=1'] };
+      const sealed = await engine.encrypt({ ...params, plaintext });
+      expect(sealed.success).toBe(true);
+
+      const opened = await engine.decrypt({ ...params, ciphertext: sealed.result! });
+      expect(opened.result).toBe(plaintext);
+
+      const reordered = await engine.decrypt({
+        ...params,
+        ciphertext: sealed.result!,
+        additionalDataComponents: ['version=1', 'user=alice']
+      });
+      expect(reordered.errorCode).toBe('AUTHENTICATION_FAILED');
+
+      const withoutNonce = await engine.decrypt({ ...params, iv: undefined, ciphertext: sealed.result! });
+      expect(withoutNonce.errorCode).toBe('AUTHENTICATION_FAILED');
+    });
+  });
+});
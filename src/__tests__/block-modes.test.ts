@@ -0,0 +1,116 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { AESBlockCipher } from '@/crypto/primitives/aes';
+import { BLOCK_MODES, encryptWithMode, decryptWithMode } from '@/crypto/modes/block-modes';
+import { hexToBytes, bytesToHex } from '@/lib/crypto-utils';
+import AESEngine from '@/crypto/engines/aes';
+import { TeaEngine } from '@/crypto/engines/tea';
+import { XteaEngine } from '@/crypto/engines/xtea';
+import { DESEngine } from '@/crypto/engines/des';
+import { TripleDESEngine } from '@/crypto/engines/3des';
+import { BlowfishEngine } from '@/crypto/engines/blowfish';
+
+describe('Block cipher modes', () => {
+  // NIST SP 800-38A Appendix F (AES-128)
+  const cipher = new AESBlockCipher(hexToBytes('2b7e151628aed2a6abf7158809cf4f3c'));
+  const iv = hexToBytes('000102030405060708090a0b0c0d0e0f');
+  const plaintext = '6bc1bee22e409f96e93d7e117393172aae2d8a571e03ac9c9eb76fac45af8e51';
+
+  test.each([
+    ['CFB' as const, plaintext, '3b3fd92eb72dad20333449f8e83cfb4ac8a64537a0b3a93fcde3cdad9f1ce58b'],
+    ['CFB8' as const, plaintext.slice(0, 36), '3b79424c9c0dd436bace9e0ed4586a4f32b9'],
+    ['CFB1' as const, plaintext.slice(0, 4), '68b3'],
+    ['OFB' as const, plaintext, '3b3fd92eb72dad20333449f8e83cfb4a7789508d16918f03f53c52dac54ed825']
+  ])('%s matches SP 800-38A', (mode, input, expected) => {
+    const ciphertext = encryptWithMode(cipher, mode, hexToBytes(input), iv);
+    expect(bytesToHex(ciphertext)).toBe(expected);
+    expect(bytesToHex(decryptWithMode(cipher, mode, ciphertext, iv))).toBe(input);
+  });
+
+  test('CTR matches SP 800-38A', () => {
+    const counter = hexToBytes('f0f1f2f3f4f5f6f7f8f9fafbfcfdfeff');
+    const ciphertext = encryptWithMode(cipher, 'CTR', hexToBytes(plaintext), counter);
+    expect(bytesToHex(ciphertext)).toBe('874d6191b620e3261bef6864990db6ce9806f66b7970fdff8617187bb9fffdff');
+  });
+
+  test('CBC matches SP 800-38A before the PKCS#7 padding block', () => {
+    const ciphertext = encryptWithMode(cipher, 'CBC', hexToBytes(plaintext), iv);
+    expect(bytesToHex(ciphertext).slice(0, 64)).toBe('7649abac8119b246cee98e9b12e9197d5086cb9b507219ee95db113a917678b2');
+    expect(ciphertext.length).toBe(48);
+    expect(bytesToHex(decryptWithMode(cipher, 'CBC', ciphertext, iv))).toBe(plaintext);
+  });
+
+  // RFC 3962 Appendix B (AES-128 CBC with ciphertext stealing, zero IV)
+  test.each([
+    ['4920776f756c64206c696b652074686520', 'c6353568f2bf8cb4d8a580362da7ff7f97'],
+    [
+      '4920776f756c64206c696b65207468652047656e6572616c20476175277320',
+      'fc00783e0efdb2c1d445d4c8eff7ed2297687268d6ecccc0c07b25e25ecfe5'
+    ],
+    [
+      '4920776f756c64206c696b65207468652047656e6572616c2047617527732043',
+      '39312523a78662d5be7fcbcc98ebf5a897687268d6ecccc0c07b25e25ecfe584'
+    ]
+  ])('CTS matches RFC 3962 for %s', (input, expected) => {
+    const kerberos = new AESBlockCipher(hexToBytes('636869636b656e207465726979616b69'));
+    const zeroIV = new Uint8Array(16);
+    const ciphertext = encryptWithMode(kerberos, 'CTS', hexToBytes(input), zeroIV);
+    expect(bytesToHex(ciphertext)).toBe(expected);
+    expect(bytesToHex(decryptWithMode(kerberos, 'CTS', ciphertext, zeroIV))).toBe(input);
+  });
+
+  test('PCBC propagates corruption into every following block', () => {
+    const ciphertext = encryptWithMode(cipher, 'PCBC', hexToBytes(plaintext + plaintext), iv);
+    expect(bytesToHex(decryptWithMode(cipher, 'PCBC', ciphertext, iv))).toBe(plaintext + plaintext);
+
+    ciphertext[0] ^= 1;
+    expect(() => decryptWithMode(cipher, 'PCBC', ciphertext, iv)).toThrow();
+  });
+
+  test('rejects CTS input shorter than one block and missing IVs', () => {
+    expect(() => encryptWithMode(cipher, 'CTS', new Uint8Array(15), iv)).toThrow('at least one full block');
+    expect(() => encryptWithMode(cipher, 'CBC', new Uint8Array(16))).toThrow('IV is required for CBC mode');
+  });
+});
+
+describe('Block engines on the shared mode layer', () => {
+  const engines = [
+    { engine: new AESEngine(), key: '000102030405060708090a0b0c0d0e0f', variant: 'aes-128' },
+    { engine: new TeaEngine(), key: '000102030405060708090a0b0c0d0e0f', variant: 'tea' },
+    { engine: new XteaEngine(), key: '000102030405060708090a0b0c0d0e0f', variant: 'xtea' },
+    { engine: new DESEngine(), key: '133457799bbcdff1', variant: 'des-56' },
+    { engine: new TripleDESEngine(), key: '0123456789abcdef23456789abcdef01456789abcdef0123', variant: '3des-168' },
+    { engine: new BlowfishEngine(), key: '000102030405060708090a0b0c0d0e0f', variant: 'blowfish-128' }
+  ];
+  const plaintext = 'Every block primitive gains every mode';
+
+  test.each(engines.flatMap(({ engine, key, variant }) =>
+    BLOCK_MODES.map(mode => ({ name: engine.metadata.name, engine, key, variant, mode }))
+  ))('$name round-trips in $mode mode', async ({ engine, key, variant, mode }) => {
+    expect(engine.metadata.modes).toContain(mode);
+
+    const encrypted = await engine.encrypt({ plaintext, key, variant, mode });
+    expect(encrypted.success).toBe(true);
+
+    const decrypted = await engine.decrypt({ ciphertext: encrypted.result!, key, variant, mode, iv: encrypted.metadata?.iv });
+    expect(decrypted.result).toBe(plaintext);
+  });
+
+  test('3DES CBC matches OpenSSL', async () => {
+    const result = await new TripleDESEngine().encrypt({
+      plaintext: 'The quick brown fox',
+      key: '0123456789abcdef23456789abcdef01456789abcdef0123',
+      iv: '1234567890abcdef',
+      mode: 'CBC'
+    });
+    expect(result.result).toBe('5ba523a59a5109710da06400f058192a9a07ce2e2be9780d');
+  });
+
+  test('rejects keys that do not match the variant', async () => {
+    const result = await new TeaEngine().encrypt({ plaintext, key: '0011', mode: 'ECB' });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('16 bytes');
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { BlowfishBlockCipher } from '@/crypto/primitives/blowfish';
+import { hexToBytes, bytesToHex } from '@/lib/crypto-utils';
+
+describe('Blowfish block primitive', () => {
+  // Schneier's published test vectors
+  test.each([
+    ['0000000000000000', '0000000000000000', '4ef997456198dd78'],
+    ['ffffffffffffffff', 'ffffffffffffffff', '51866fd5b85ecb8a'],
+    ['0123456789abcdef', '1111111111111111', '61f9c3802281b096'],
+    ['f0e1d2c3b4a5968778695a4b3c2d1e0f0011223344556677', 'fedcba9876543210', '05044b62fa52d080']
+  ])('key %s encrypts %s', (key, plaintext, expected) => {
+    const cipher = new BlowfishBlockCipher(hexToBytes(key));
+    const ciphertext = cipher.encryptBlock(hexToBytes(plaintext));
+    expect(bytesToHex(ciphertext)).toBe(expected);
+    expect(bytesToHex(cipher.decryptBlock(ciphertext))).toBe(plaintext);
+  });
+
+  test('rejects keys outside 4-56 bytes', () => {
+    expect(() => new BlowfishBlockCipher(new Uint8Array(3))).toThrow('Blowfish key must be between 4 and 56 bytes');
+    expect(() => new BlowfishBlockCipher(new Uint8Array(57))).toThrow('Blowfish key must be between 4 and 56 bytes');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import CipherRegistry from '@/crypto/registry';
+import AESEngine from '@/crypto/engines/aes';
+import { bytesToHex } from '@/lib/crypto-utils';
+
+// Not valid UTF-8: a lone continuation byte, an overlong lead and an unpaired lead byte
+const BINARY = new Uint8Array([0xff, 0xfe, 0x00, 0x80, 0xc3, 0x28, 0x01, 0x02, 0x03, 0xe2, 0x82]);
+
+const engines = CipherRegistry.getAllIds().map(id => CipherRegistry.getEngine(id)!);
+const encryptingIds = engines.filter(engine => !engine.metadata.signatureOnly).map(engine => engine.metadata.id);
+const signingIds = engines.filter(engine => engine.sign).map(engine => engine.metadata.id);
+
+describe('Byte-oriented engine API', () => {
+  test.each(encryptingIds)('%s round-trips binary data', async (id) => {
+    const engine = CipherRegistry.getEngine(id)!;
+    const { metadata } = engine;
+
+    // Public-key engines encrypt and decrypt with different halves of a key pair
+    const keyPair = engine.generateKeyPair && await engine.generateKeyPair();
+    const key = keyPair ? keyPair.publicKey : await engine.generateKey();
+    const variant = metadata.variants.find(v => v.keySize * 2 === key.length)?.id;
+    const iv = metadata.ivRequired && engine.generateIV ? await engine.generateIV(metadata.ivSize) : undefined;
+    const nonce = metadata.nonceRequired && engine.generateNonce ? await engine.generateNonce(metadata.nonceSize) : undefined;
+    const params = { key, iv, nonce, variant, mode: metadata.modes?.[0] };
+
+    const encrypted = await engine.encryptBytes({ ...params, plaintext: BINARY });
+    expect(encrypted.success).toBe(true);
+    expect(encrypted.result).toBeInstanceOf(Uint8Array);
+
+    const decrypted = await engine.decryptBytes({
+      ...params,
+      key: keyPair ? keyPair.privateKey : key,
+      iv: iv ?? encrypted.metadata?.iv,
+      nonce: nonce ?? encrypted.metadata?.nonce,
+      ciphertext: encrypted.result!
+    });
+    expect(decrypted.success).toBe(true);
+    expect(bytesToHex(decrypted.result!)).toBe(bytesToHex(BINARY));
+  }, 30000);
+
+  test.each(signingIds)('%s signs and verifies binary data', async (id) => {
+    const engine = CipherRegistry.getEngine(id)!;
+    const { publicKey, privateKey } = await engine.generateKeyPair!();
+
+    const signed = await engine.sign!({ message: BINARY, key: privateKey });
+    expect(signed.success).toBe(true);
+    expect(signed.result!.length).toBe(signed.metadata?.signatureLength);
+
+    const verified = await engine.verify!({ message: BINARY, signature: signed.result!, key: publicKey });
+    expect(verified).toMatchObject({ success: true, result: true });
+
+    const rejected = await engine.verify!({ message: BINARY.subarray(1), signature: signed.result!, key: publicKey });
+    expect(rejected).toMatchObject({ success: true, result: false });
+  }, 30000);
+
+  test('the string API is hex over the byte API', async () => {
+    const engine = new AESEngine();
+    const params = { key: '000102030405060708090a0b0c0d0e0f', iv: '0f0e0d0c0b0a09080706050403020100', variant: 'aes-128' };
+
+    const bytes = await engine.encryptBytes({ ...params, plaintext: new TextEncoder().encode('hello') });
+    const text = await engine.encrypt({ ...params, plaintext: 'hello' });
+    expect(text.result).toBe(bytesToHex(bytes.result!));
+  });
+
+  test('string decryption reports binary plaintexts instead of mangling them', async () => {
+    const engine = new AESEngine();
+    const params = { key: '000102030405060708090a0b0c0d0e0f', variant: 'aes-128', mode: 'ECB' as const };
+    const encrypted = await engine.encryptBytes({ ...params, plaintext: BINARY });
+
+    const decrypted = await engine.decrypt({ ...params, ciphertext: bytesToHex(encrypted.result!) });
+    expect(decrypted.success).toBe(false);
+    expect(decrypted.error).toContain('not valid UTF-8');
+    expect(decrypted.metadata?.mode).toBe('ECB');
+  });
+
+  test('string decryption rejects non-hex ciphertext', async () => {
+    const result = await new AESEngine().decrypt({ ciphertext: 'xyz', key: '00'.repeat(32) });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('hexadecimal');
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import Chacha20Engine from '@/crypto/engines/chacha20';
+
+// RFC 8439 Section 2.4.2
+const RFC_KEY = '000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f';
+const RFC_NONCE = '000000000000004a00000000';
+const RFC_PLAINTEXT = "Ladies and Gentlemen of the class of '99: If I could offer you only one tip for the future, sunscreen would be it.";
+const RFC_CIPHERTEXT =
+  '6e2e359a2568f98041ba0728dd0d6981e97e7aec1d4360c20a27afccfd9fae0b' +
+  'f91b65c5524733ab8f593dabcd62b3571639d624e65152ab8f530c359f0861d8' +
+  '07ca0dbf500d6a6156a38e088a22b65e52bc514d16ccf806818ce91ab7793736' +
+  '5af90bbf74a35be6b40b8eedf2785e42874d';
+
+// RFC 8439 Section 2.8.2 key and nonce with a text AAD, so only the tag differs from the RFC
+const AEAD_KEY = '808182838485868788898a8b8c8d8e8f909192939495969798999a9b9c9d9e9f';
+const AEAD_NONCE = '070000004041424344454647';
+const AEAD_AAD = 'version=1;user=alice';
+const AEAD_CIPHERTEXT =
+  'd31a8d34648e60db7b86afbc53ef7ec2a4aded51296e08fea9e2b5a736ee62d6' +
+  '3dbea45e8ca9671282fafb69da92728b1a71de0a9e060b2905d6a5b67ecd3b36' +
+  '92ddbd7f2d778b8c9803aee328091b58fab324e4fad675945585808b4831d7bc' +
+  '3ff4def08e4b7a9de576d26586cec64b6116';
+const AEAD_TAG = 'c79b84f9ce448ebfc12fd3ea923256c7';
+
+// draft-irtf-cfrg-xchacha Appendix A.3.1 key, nonce and plaintext with the text AAD above, so only the tag
+// differs from the draft
+const XCHACHA_KEY = AEAD_KEY;
+const XCHACHA_NONCE = '404142434445464748494a4b4c4d4e4f5051525354555657';
+const XCHACHA_CIPHERTEXT =
+  'bd6d179d3e83d43b9576579493c0e939572a1700252bfaccbed2902c21396cbb' +
+  '731c7f1b0b4aa6440bf3a82f4eda7e39ae64c6708c54c216cb96b72e1213b452' +
+  '2f8c9ba40db5d945b11b69b982c1bb9e3f3fac2bc369488f76b2383565d3fff9' +
+  '21f9664c97637da9768812f615c68b13b52e';
+const XCHACHA_TAG = 'ea457b1c6389b1dde118427c1d0c55a8';
+
+const ZERO_KEY = '00'.repeat(32);
+const ZERO_NONCE = '00'.repeat(12);
+
+describe('ChaCha20Engine', () => {
+  const engine = new Chacha20Engine();
+
+  test('metadata describes a 256-bit stream cipher with a 96-bit nonce', () => {
+    expect(engine.metadata.modes).toEqual(['Stream']);
+    expect(engine.metadata.nonceRequired).toBe(true);
+    expect(engine.metadata.nonceSize).toBe(12);
+    expect(engine.metadata.keyRequirements.keySizes).toEqual([32]);
+  });
+
+  describe('RFC 8439 test vectors', () => {
+    test('encrypts the sunscreen example (Section 2.4.2)', async () => {
+      const result = await engine.encrypt({
+        plaintext: RFC_PLAINTEXT,
+        key: RFC_KEY,
+        nonce: RFC_NONCE,
+        counter: 1
+      });
+      expect(result.success).toBe(true);
+      expect(result.result).toBe(RFC_CIPHERTEXT);
+    });
+
+    test('decrypts the sunscreen example (Section 2.4.2)', async () => {
+      const result = await engine.decrypt({
+        ciphertext: RFC_CIPHERTEXT,
+        key: RFC_KEY,
+        nonce: RFC_NONCE,
+        counter: 1
+      });
+      expect(result.success).toBe(true);
+      expect(result.result).toBe(RFC_PLAINTEXT);
+    });
+
+    test('produces the block function keystream (Appendix A.1 #1 and #2)', async () => {
+      const zeros = '\0'.repeat(64);
+
+      const block0 = await engine.encrypt({ plaintext: zeros, key: ZERO_KEY, nonce: ZERO_NONCE, counter: 0 });
+      expect(block0.result).toBe(
+        '76b8e0ada0f13d90405d6ae55386bd28bdd219b8a08ded1aa836efcc8b770dc7' +
+        'da41597c5157488d7724e03fb8d84a376a43b8f41518a11cc387b669b2ee6586'
+      );
+
+      const block1 = await engine.encrypt({ plaintext: zeros, key: ZERO_KEY, nonce: ZERO_NONCE, counter: 1 });
+      expect(block1.result).toBe(
+        '9f07e7be5551387a98ba977c732d080dcb0f29a048e3656912c6533e32ee7aed' +
+        '29b721769ce64e43d57133b074d839d531ed1f28510afb45ace10a1f4b794d6f'
+      );
+    });
+
+    test('encrypts with a non-zero nonce (Appendix A.2 #2 prefix)', async () => {
+      const result = await engine.encrypt({
+        plaintext: 'Any submission to the IETF',
+        key: '00'.repeat(31) + '01',
+        nonce: '000000000000000000000002',
+        counter: 1
+      });
+      expect(result.result).toBe('a3fbf07df3fa2fde4f376ca23e82737041605d9f4f4f57bd8cff');
+    });
+  });
+
+  test('defaults the initial counter to 1 and generates a nonce when omitted', async () => {
+    const result = await engine.encrypt({ plaintext: 'hello', key: RFC_KEY });
+    expect(result.success).toBe(true);
+    expect(result.metadata?.counter).toBe(1);
+    expect(result.metadata?.nonce).toMatch(/^[0-9a-f]{24}$/);
+
+    const roundTrip = await engine.decrypt({
+      ciphertext: result.result!,
+      key: RFC_KEY,
+      nonce: result.metadata?.nonce
+    });
+    expect(roundTrip.result).toBe('hello');
+  });
+
+  test('rejects invalid keys, nonces and counters', async () => {
+    const shortKey = await engine.encrypt({ plaintext: 'x', key: '00'.repeat(16), nonce: RFC_NONCE });
+    expect(shortKey.success).toBe(false);
+
+    const shortNonce = await engine.encrypt({ plaintext: 'x', key: RFC_KEY, nonce: '00'.repeat(8) });
+    expect(shortNonce.success).toBe(false);
+
+    const negativeCounter = await engine.encrypt({ plaintext: 'x', key: RFC_KEY, nonce: RFC_NONCE, counter: -1 });
+    expect(negativeCounter.success).toBe(false);
+
+    const overflow = await engine.encrypt({ plaintext: 'x'.repeat(65), key: RFC_KEY, nonce: RFC_NONCE, counter: 0xffffffff });
+    expect(overflow.success).toBe(false);
+    expect(overflow.error).toMatch(/too long/);
+
+    const missingNonce = await engine.decrypt({ ciphertext: RFC_CIPHERTEXT, key: RFC_KEY });
+    expect(missingNonce.success).toBe(false);
+  });
+
+  describe('ChaCha20-Poly1305 AEAD', () => {
+    const aeadParams = { key: AEAD_KEY, nonce: AEAD_NONCE, variant: 'chacha20-poly1305', additionalData: AEAD_AAD };
+
+    test('is offered as an authenticated variant', () => {
+      const variant = engine.metadata.variants.find(v => v.id === 'chacha20-poly1305');
+      expect(variant?.aead).toBe(true);
+    });
+
+    test('appends the tag to the ciphertext and returns it in metadata', async () => {
+      const result = await engine.encrypt({ ...aeadParams, plaintext: RFC_PLAINTEXT });
+      expect(result.success).toBe(true);
+      expect(result.result).toBe(AEAD_CIPHERTEXT + AEAD_TAG);
+      expect(result.metadata?.tag).toBe(AEAD_TAG);
+      expect(result.metadata?.tagLength).toBe(16);
+    });
+
+    test('decrypts with the tag appended or supplied separately', async () => {
+      const appended = await engine.decrypt({ ...aeadParams, ciphertext: AEAD_CIPHERTEXT + AEAD_TAG });
+      expect(appended.success).toBe(true);
+      expect(appended.result).toBe(RFC_PLAINTEXT);
+
+      const separate = await engine.decrypt({ ...aeadParams, ciphertext: AEAD_CIPHERTEXT, tag: AEAD_TAG });
+      expect(separate.result).toBe(RFC_PLAINTEXT);
+    });
+
+    test('fails authentication when the ciphertext, tag or AAD is tampered with', async () => {
+      const flipped = (AEAD_CIPHERTEXT[0] === '0' ? '1' : '0') + AEAD_CIPHERTEXT.slice(1);
+      const badTag = AEAD_TAG.slice(0, -2) + '00';
+
+      const results = await Promise.all([
+        engine.decrypt({ ...aeadParams, ciphertext: flipped + AEAD_TAG }),
+        engine.decrypt({ ...aeadParams, ciphertext: AEAD_CIPHERTEXT + badTag }),
+        engine.decrypt({ ...aeadParams, ciphertext: AEAD_CIPHERTEXT + AEAD_TAG, additionalData: 'version=2;user=alice' })
+      ]);
+
+      for (const result of results) {
+        expect(result.success).toBe(false);
+        expect(result.errorCode).toBe('AUTHENTICATION_FAILED');
+        expect(result.result).toBeUndefined();
+      }
+    });
+
+    test('does not report an authentication failure for malformed input', async () => {
+      const result = await engine.decrypt({ ...aeadParams, ciphertext: 'abcd' });
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBeUndefined();
+    });
+
+    test('rejects a custom initial counter', async () => {
+      const result = await engine.encrypt({ ...aeadParams, plaintext: 'x', counter: 5 });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('XChaCha20 extended nonce', () => {
+    test('takes 24-byte nonces for the X variants only', () => {
+      expect(engine.metadata.nonceSizeByVariant).toEqual({ 'xchacha20': 24, 'xchacha20-poly1305': 24 });
+      expect(engine.metadata.variants.find(v => v.id === 'xchacha20-poly1305')?.aead).toBe(true);
+    });
+
+    test('produces the XChaCha20 keystream under the Appendix A.3.1 key and nonce', async () => {
+      // 80 bytes from counter 0, so the last 16 bytes begin the block at counter 1
+      const block0 = await engine.encrypt({
+        plaintext: '\0'.repeat(80),
+        key: XCHACHA_KEY,
+        nonce: XCHACHA_NONCE,
+        variant: 'xchacha20',
+        counter: 0
+      });
+      expect(block0.result).toBe(
+        '7b191f80f361f099094f6f4b8fb97df847cc6873a8f2b190dd73807183f907d5' +
+        'a1cb27385b00329f7ddc127059d6882551a120e7631352e9b0381572e950155a' +
+        'f10c73f45bf0f45afb1277d3f6ae9d55'
+      );
+
+      const block1 = await engine.encrypt({ plaintext: '\0'.repeat(32), key: XCHACHA_KEY, nonce: XCHACHA_NONCE, variant: 'xchacha20' });
+      expect(block1.result).toBe('f10c73f45bf0f45afb1277d3f6ae9d553247726e05449ceccabaf50c42550dc8');
+      expect(block1.metadata?.nonceLength).toBe(24);
+    });
+
+    test('XChaCha20-Poly1305 seals and opens the sunscreen example', async () => {
+      const params = { key: XCHACHA_KEY, nonce: XCHACHA_NONCE, variant: 'xchacha20-poly1305', additionalData: AEAD_AAD };
+
+      const sealed = await engine.encrypt({ ...params, plaintext: RFC_PLAINTEXT });
+      expect(sealed.result).toBe(XCHACHA_CIPHERTEXT + XCHACHA_TAG);
+      expect(sealed.metadata?.tag).toBe(XCHACHA_TAG);
+
+      const opened = await engine.decrypt({ ...params, ciphertext: XCHACHA_CIPHERTEXT, tag: XCHACHA_TAG });
+      expect(opened.result).toBe(RFC_PLAINTEXT);
+
+      const tampered = await engine.decrypt({ ...params, ciphertext: XCHACHA_CIPHERTEXT + XCHACHA_TAG, additionalData: 'version=2;user=alice' });
+      expect(tampered.errorCode).toBe('AUTHENTICATION_FAILED');
+    });
+
+    test('generates a random 24-byte nonce and rejects a 12-byte one', async () => {
+      const result = await engine.encrypt({ plaintext: 'hello', key: RFC_KEY, variant: 'xchacha20-poly1305' });
+      expect(result.metadata?.nonce).toMatch(/^[0-9a-f]{48}$/);
+
+      const roundTrip = await engine.decrypt({
+        ciphertext: result.result!,
+        key: RFC_KEY,
+        nonce: result.metadata?.nonce,
+        variant: 'xchacha20-poly1305'
+      });
+      expect(roundTrip.result).toBe('hello');
+
+      const shortNonce = await engine.encrypt({ plaintext: 'x', key: RFC_KEY, nonce: RFC_NONCE, variant: 'xchacha20' });
+      expect(shortNonce.error).toContain('24 bytes');
+
+      const longNonce = await engine.encrypt({ plaintext: 'x', key: RFC_KEY, nonce: XCHACHA_NONCE });
+      expect(longNonce.success).toBe(false);
+    });
+  });
+});
@@ -60,6 +60,8 @@ const mockEngine: CipherEngine = {
   metadata: mockMetadata[0],
   encrypt: jest.fn().mockResolvedValue({ success: true, data: 'encrypted' }),
   decrypt: jest.fn().mockResolvedValue({ success: true, data: 'decrypted' }),
+  encryptBytes: jest.fn().mockResolvedValue({ success: true, result: new Uint8Array([1]) }),
+  decryptBytes: jest.fn().mockResolvedValue({ success: true, result: new Uint8Array([2]) }),
   generateKey: jest.fn().mockReturnValue('generatedkey'),
   validateKey: jest.fn().mockReturnValue(true),
 };
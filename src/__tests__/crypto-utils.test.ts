@@ -12,7 +12,17 @@ import {
   isValidHex, 
   isValidBase64, 
   validateKeyLength, 
-  deriveKeyFromPassphrase 
+  deriveKeyFromPassphrase,
+  pbkdf2,
+  hkdfSha256,
+  hexToBytes,
+  bytesToHex,
+  bytesToBase64,
+  base64ToBytes,
+  decodeData,
+  encodeData,
+  detectDataFormat,
+  convertFormat
 } from '@/lib/crypto-utils';
 
 describe('Crypto Utils', () => {
@@ -143,6 +153,91 @@ describe('Crypto Utils', () => {
       expect(key16.length).toBeLessThan(key32.length);
       expect(key16).not.toEqual(key32.slice(0, key16.length));
     });
+
+    test('deriveKeyFromPassphrase hashes with the selected algorithm and accepts a binary salt', async () => {
+      const salt = new Uint8Array([0x00, 0xff, 0x10]);
+      await deriveKeyFromPassphrase('password', salt, 1000, 32, 'PBKDF2-SHA512');
+
+      expect(crypto.subtle.deriveBits).toHaveBeenLastCalledWith(
+        expect.objectContaining({ name: 'PBKDF2', hash: 'SHA-512', salt, iterations: 1000 }),
+        expect.anything(),
+        256
+      );
+    });
+
+    test.each([
+      // RFC 6070
+      ['PBKDF2-SHA1', 'password', 'salt', 2, 20, 'ea6c014dc72d6f8ccd1ed92ace1d41f0d8de8957'],
+      // RFC 7914 section 11
+      ['PBKDF2-SHA256', 'passwd', 'salt', 1, 64,
+        '55ac046e56e3089fec1691c22544b605f94185216dde0465e68b9d57c20dacbc49ca9cccf179b645991664b39d77ef317c71b845b1e30bd509112041d3a19783'],
+      ['PBKDF2-SHA512', 'password', 'salt', 2, 64,
+        'e1d9c16aa681708a45f5c7c4e215ceb66e011a2e9f0040713f18aefdb866d53cf76cab2868a39b9f7840edce4fef5a82be67335c77a6068e04112754f27ccf4e'],
+      // Key lengths that are not a whole number of words are truncated
+      ['PBKDF2-SHA256', 'pass', 'salt', 3, 5, 'f6894ed57d']
+    ] as const)('pbkdf2 %s matches the reference vector for %p', (algorithm, passphrase, salt, iterations, keyLength, expected) => {
+      expect(pbkdf2(passphrase, salt, iterations, keyLength, algorithm)).toBe(expected);
+    });
+
+    test('pbkdf2 takes a binary salt as raw bytes', () => {
+      expect(pbkdf2('pässwörd', new Uint8Array([0x00, 0xff, 0x10]), 10, 16)).toBe('97f69b5852851799e66ffa04d2575dab');
+    });
+
+    // RFC 5869 appendix A.1 and A.3
+    test.each([
+      ['000102030405060708090a0b0c', 'f0f1f2f3f4f5f6f7f8f9',
+        '3cb25f25faacd57a90434f64d0362f2a2d2d0a90cf1a5a4c5db02d56ecc4c5bf34007208d5b887185865'],
+      ['', '', '8da4e775a563c18f715f802a063c5a31b8a11f5c5ee1879ec3454e5f3c738d2d9d201395faa4b61a96c8']
+    ])('hkdfSha256 with salt %p and info %p matches the reference vector', (salt, info, expected) => {
+      const ikm = new Uint8Array(22).fill(0x0b);
+      expect(bytesToHex(hkdfSha256(ikm, hexToBytes(salt), hexToBytes(info), 42))).toBe(expected);
+    });
+  });
+
+  describe('Data Formats', () => {
+    const binary = new Uint8Array([0x00, 0xff, 0xfe, 0x80, 0x7f]);
+
+    test('base64 round-trips binary data', () => {
+      expect(bytesToBase64(binary)).toBe('AP/+gH8=');
+      expect(base64ToBytes('AP/+gH8=')).toEqual(binary);
+    });
+
+    test('base64ToBytes accepts URL-safe input without padding', () => {
+      expect(base64ToBytes('AP_-gH8')).toEqual(binary);
+      expect(() => base64ToBytes('A')).toThrow('Invalid base64');
+    });
+
+    test('decodeData ignores whitespace and a 0x prefix', () => {
+      expect(decodeData('0x00ff fe\n807f', 'hex')).toEqual(binary);
+      expect(decodeData('AP/+\ngH8=', 'base64')).toEqual(binary);
+      expect(Array.from(decodeData('Hi', 'text'))).toEqual([0x48, 0x69]);
+      expect(() => decodeData('abc', 'hex')).toThrow('Invalid hex');
+      expect(() => decodeData('***', 'base64')).toThrow('Invalid base64');
+    });
+
+    test('encodeData refuses to show binary data as text', () => {
+      expect(encodeData(binary, 'hex')).toBe('00fffe807f');
+      expect(encodeData(binary, 'base64')).toBe('AP/+gH8=');
+      expect(() => encodeData(binary, 'text')).toThrow('not valid UTF-8');
+    });
+
+    test('convertFormat is lossless for binary data', () => {
+      expect(convertFormat('00fffe807f', 'hex', 'base64')).toBe('AP/+gH8=');
+      expect(convertFormat('AP/+gH8=', 'base64', 'hex')).toBe('00fffe807f');
+      expect(convertFormat('Hello', 'text', 'hex')).toBe('48656c6c6f');
+      expect(() => convertFormat('00ff', 'hex', 'text')).toThrow('Failed to convert from hex to text');
+    });
+
+    test.each([
+      ['deadbeef', 'hex'],
+      ['0xDEADBEEF', 'hex'],
+      ['SGVsbG8gV29ybGQ=', 'base64'],
+      ['Password', 'text'],
+      ['hello world', 'text'],
+      ['', 'text']
+    ])('detectDataFormat(%p) is %s', (input, expected) => {
+      expect(detectDataFormat(input)).toBe(expected);
+    });
   });
 
   describe('Edge Cases', () => {
@@ -0,0 +1,34 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { DESBlockCipher, TripleDESBlockCipher } from '@/crypto/primitives/des';
+import { hexToBytes, bytesToHex } from '@/lib/crypto-utils';
+
+describe('DES block primitive', () => {
+  test('encrypts the classic worked example', () => {
+    const cipher = new DESBlockCipher(hexToBytes('133457799bbcdff1'));
+    const ciphertext = cipher.encryptBlock(hexToBytes('0123456789abcdef'));
+    expect(bytesToHex(ciphertext)).toBe('85e813540f0ab405');
+    expect(bytesToHex(cipher.decryptBlock(ciphertext))).toBe('0123456789abcdef');
+  });
+
+  test('Triple DES with three identical keys degenerates to single DES', () => {
+    const key = '133457799bbcdff1';
+    const triple = new TripleDESBlockCipher(hexToBytes(key.repeat(3)));
+    expect(bytesToHex(triple.encryptBlock(hexToBytes('0123456789abcdef')))).toBe('85e813540f0ab405');
+  });
+
+  test('two-key Triple DES reuses K1 as K3', () => {
+    const twoKey = new TripleDESBlockCipher(hexToBytes('0123456789abcdef23456789abcdef01'));
+    const threeKey = new TripleDESBlockCipher(hexToBytes('0123456789abcdef23456789abcdef010123456789abcdef'));
+    const block = hexToBytes('4e6f772069732074');
+    expect(twoKey.encryptBlock(block)).toEqual(threeKey.encryptBlock(block));
+    expect(twoKey.decryptBlock(twoKey.encryptBlock(block))).toEqual(block);
+  });
+
+  test('rejects invalid key sizes', () => {
+    expect(() => new DESBlockCipher(new Uint8Array(7))).toThrow('DES key must be 8 bytes');
+    expect(() => new TripleDESBlockCipher(new Uint8Array(8))).toThrow('Triple DES key must be 16 or 24 bytes');
+  });
+});
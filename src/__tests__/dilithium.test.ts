@@ -0,0 +1,136 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { sha3_256 } from 'js-sha3';
+import { DilithiumEngine } from '@/crypto/engines/dilithium';
+import {
+  ML_DSA_PARAMETERS,
+  MlDsaParameterSet,
+  mlDsaKeyGen,
+  mlDsaSign,
+  mlDsaVerify,
+  publicKeySize,
+  secretKeySize,
+  signatureSize
+} from '@/crypto/primitives/ml-dsa';
+import { bytesToHex } from '@/lib/crypto-utils';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const seed = Uint8Array.from({ length: 32 }, (_, i) => i);
+const message = encode('ML-DSA');
+const context = encode('ctx');
+
+describe('ML-DSA primitive (FIPS 204)', () => {
+  // SHA3-256 digests of the public key from the seed 00..1f and of the deterministic signature
+  // over "ML-DSA" with context "ctx", as computed by the ACVP-validated @noble/post-quantum
+  test.each([
+    ['ML-DSA-44',
+      '373c7bf2cac5bd2a6c35933bab0fa1c951f22247e1333383fcb618822080373f',
+      '069ad837328ae25acda67559243ccd92c494c928f20b3154aa4da680598e92a2'],
+    ['ML-DSA-65',
+      '1800725067e388d837d911fe4f66101cc1961b1bb755030dc574272cfb00013f',
+      'a574ac59eaae43c675142c6707c011ae0951a98d09174b1778c5655aaa267e0f'],
+    ['ML-DSA-87',
+      'e6cf50a9c2fa5234f59949ff61f8161db4d629532127f4aefa8bb10811ecfb1e',
+      '3b2571db8b9c5c778b6798e926f3c05ab332184544904becf521a79e198eca64']
+  ] as [MlDsaParameterSet, string, string][])('%s', (name, publicKeyDigest, signatureDigest) => {
+    const params = ML_DSA_PARAMETERS[name];
+    const { publicKey, secretKey } = mlDsaKeyGen(params, seed);
+    expect(sha3_256(publicKey)).toBe(publicKeyDigest);
+    // The secret key begins with rho, which it shares with the public key
+    expect(bytesToHex(secretKey.subarray(0, 32))).toBe(bytesToHex(publicKey.subarray(0, 32)));
+
+    const signature = mlDsaSign(params, secretKey, message, { context, deterministic: true });
+    expect(sha3_256(signature)).toBe(signatureDigest);
+    expect(mlDsaVerify(params, publicKey, message, signature, context)).toBe(true);
+  }, 30000);
+
+  test('rejects tampered signatures, other messages and other contexts', () => {
+    const params = ML_DSA_PARAMETERS['ML-DSA-44'];
+    const { publicKey, secretKey } = mlDsaKeyGen(params, seed);
+    const signature = mlDsaSign(params, secretKey, message, { context });
+
+    const tampered = signature.slice();
+    tampered[0] ^= 1;
+    expect(mlDsaVerify(params, publicKey, message, tampered, context)).toBe(false);
+    expect(mlDsaVerify(params, publicKey, encode('ML-DSB'), signature, context)).toBe(false);
+    expect(mlDsaVerify(params, publicKey, message, signature)).toBe(false);
+    expect(mlDsaVerify(params, publicKey, message, signature.subarray(1), context)).toBe(false);
+  });
+
+  test('rejects malformed hints instead of throwing', () => {
+    const params = ML_DSA_PARAMETERS['ML-DSA-44'];
+    const { publicKey, secretKey } = mlDsaKeyGen(params, seed);
+    const signature = mlDsaSign(params, secretKey, message, { deterministic: true });
+
+    // A running hint count beyond omega
+    const overfull = signature.slice();
+    overfull[signature.length - 1] = params.omega + 1;
+    expect(mlDsaVerify(params, publicKey, message, overfull)).toBe(false);
+  });
+
+  test('hedged signing randomizes the signature', () => {
+    const params = ML_DSA_PARAMETERS['ML-DSA-44'];
+    const { publicKey, secretKey } = mlDsaKeyGen(params, seed);
+    const first = mlDsaSign(params, secretKey, message);
+    const second = mlDsaSign(params, secretKey, message);
+    expect(bytesToHex(first)).not.toBe(bytesToHex(second));
+    expect(mlDsaVerify(params, publicKey, message, first)).toBe(true);
+    expect(mlDsaVerify(params, publicKey, message, second)).toBe(true);
+  });
+
+  test('key and signature sizes match FIPS 204 table 2', () => {
+    const sets = Object.values(ML_DSA_PARAMETERS);
+    expect(sets.map(publicKeySize)).toEqual([1312, 1952, 2592]);
+    expect(sets.map(secretKeySize)).toEqual([2560, 4032, 4896]);
+    expect(sets.map(signatureSize)).toEqual([2420, 3309, 4627]);
+  });
+});
+
+describe('DilithiumEngine (ML-DSA)', () => {
+  const engine = new DilithiumEngine();
+
+  test.each(['ml-dsa-44', 'ml-dsa-65', 'ml-dsa-87'])('%s signs and verifies with a context string', async variant => {
+    const { publicKey, privateKey } = await engine.generateKeyPair(variant);
+    expect(engine.validateKey(publicKey)).toBe(true);
+    expect(engine.validateKey(privateKey)).toBe(true);
+
+    const signed = await engine.sign({ message, key: privateKey, variant, context: 'app' });
+    expect(signed.metadata).toMatchObject({ variant, keyLength: privateKey.length / 2, signatureLength: signed.result!.length });
+
+    const verified = await engine.verify({ message, signature: signed.result!, key: publicKey, variant, context: 'app' });
+    expect(verified).toMatchObject({ success: true, result: true });
+
+    const wrongContext = await engine.verify({ message, signature: signed.result!, key: publicKey, variant, context: 'other' });
+    expect(wrongContext).toMatchObject({ success: true, result: false });
+  }, 30000);
+
+  test('deterministic signing repeats the signature', async () => {
+    const { privateKey } = await engine.generateKeyPair();
+    const first = await engine.sign({ message, key: privateKey, deterministic: true });
+    const second = await engine.sign({ message, key: privateKey, deterministic: true });
+    expect(bytesToHex(first.result!)).toBe(bytesToHex(second.result!));
+  });
+
+  test('rejects keys of the wrong kind or parameter set and refuses to encrypt', async () => {
+    const { publicKey, privateKey } = await engine.generateKeyPair('ml-dsa-44');
+
+    const signedWithPublicKey = await engine.sign({ message, key: publicKey });
+    expect(signedWithPublicKey.success).toBe(false);
+    expect(signedWithPublicKey.error).toContain('2560 bytes');
+
+    const otherSet = await engine.sign({ message, key: privateKey, variant: 'ml-dsa-65' });
+    expect(otherSet.success).toBe(false);
+
+    const encrypted = await engine.encrypt({ plaintext: 'x', key: publicKey });
+    expect(encrypted.success).toBe(false);
+    expect(encrypted.error).toContain('signature scheme');
+  });
+
+  test('is listed as a post-quantum signature scheme with a context string', () => {
+    expect(engine.metadata.category).toBe('post-quantum');
+    expect(engine.metadata.signatureOnly).toBe(true);
+    expect(engine.metadata.signatureContext).toBe(true);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { EccEngine } from '@/crypto/engines/ecc';
+import { bytesToHex } from '@/lib/crypto-utils';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe('EccEngine (ECIES)', () => {
+  const engine = new EccEngine();
+  const privateKey = 'c9afa9d845ba75166b5c215767b1d6934e50c3db36e89b127b8a622b120f6721';
+
+  // Ciphertexts produced independently with Node's ECDH, HKDF, AES-256-CTR and HMAC for a fixed
+  // ephemeral key, authenticating the shared information "header" followed by its 64-bit bit length
+  test.each([
+    ['ecies-secp256k1',
+      '0484bf7562262bbd6940085748f3be6afa52ae317155181ece31b66351ccffa4b08cc43d63b2859d469fee15f31c9edb5324266e6fd0407e87382d60fc4511acd8' +
+      'a43c8634f61acdb0970fed2492a68ab65b5beb0c94ec4287db0b466d9d69c21c37f608c309a95ffddbbfcc54'],
+    ['ecies-p256',
+      '04515c3d6eb9e396b904d3feca7f54fdcd0cc1e997bf375dca515ad0a6c3b4035f4536be3a50f318fbf9a5475902a221502bef0d57e08c53b2cc0a56f17d9f9354' +
+      'a7a1903c2e9feefd3cab803bd99c6016c2f2bc22e4ab7590ff887c791eb5711956c43f71a38385f0c59c5180']
+  ])('%s decrypts the reference ciphertext', async (variant, ciphertext) => {
+    const decrypted = await engine.decrypt({ ciphertext, key: privateKey, variant, additionalData: 'header' });
+    expect(decrypted.result).toBe('Hello, ECIES');
+
+    const tampered = await engine.decrypt({ ciphertext, key: privateKey, variant, additionalData: 'other' });
+    expect(tampered.success).toBe(false);
+    expect(tampered.errorCode).toBe('AUTHENTICATION_FAILED');
+  });
+
+  test.each(['ecies-secp256k1', 'ecies-p256'])('%s round-trips with a generated key pair', async variant => {
+    const { publicKey, privateKey } = await engine.generateKeyPair(variant);
+    expect(publicKey).toMatch(/^04[0-9a-f]{128}$/);
+    expect(privateKey).toMatch(/^[0-9a-f]{64}$/);
+
+    const encrypted = await engine.encryptBytes({ plaintext: encode('ECIES round trip'), key: publicKey, variant });
+    expect(encrypted.success).toBe(true);
+    // Ephemeral public key, body and HMAC-SHA256 tag
+    expect(encrypted.result!.length).toBe(65 + 16 + 32);
+    expect(encrypted.metadata?.tag).toBe(bytesToHex(encrypted.result!.subarray(-32)));
+
+    const decrypted = await engine.decryptBytes({ ciphertext: encrypted.result!, key: privateKey, variant });
+    expect(new TextDecoder().decode(decrypted.result)).toBe('ECIES round trip');
+  });
+
+  test('bytes moved between the body and the shared information fail authentication', async () => {
+    const { publicKey, privateKey } = await engine.generateKeyPair();
+    const encrypted = await engine.encryptBytes({ plaintext: encode('boundary'), key: publicKey, additionalData: 'header' });
+    const sealed = encrypted.result!;
+    const head = sealed.subarray(0, sealed.length - 32);
+    const tag = sealed.subarray(sealed.length - 32);
+
+    // The "h" of the shared information appended to the body instead; without the length the MAC
+    // input would be unchanged
+    const shifted = new Uint8Array([...head, 0x68, ...tag]);
+    const decrypted = await engine.decryptBytes({ ciphertext: shifted, key: privateKey, additionalData: 'eader' });
+    expect(decrypted.errorCode).toBe('AUTHENTICATION_FAILED');
+  });
+
+  test('uses a fresh ephemeral key for every message', async () => {
+    const { publicKey } = await engine.generateKeyPair();
+    const first = await engine.encrypt({ plaintext: 'same', key: publicKey });
+    const second = await engine.encrypt({ plaintext: 'same', key: publicKey });
+    expect(first.result).not.toBe(second.result);
+  });
+
+  test('rejects points that are not on the curve and keys for the wrong operation', async () => {
+    const offCurve = await engine.encrypt({ plaintext: 'x', key: '04' + '11'.repeat(64) });
+    expect(offCurve.success).toBe(false);
+    expect(offCurve.error).toContain('not on the curve');
+
+    const withPrivateKey = await engine.encrypt({ plaintext: 'x', key: privateKey });
+    expect(withPrivateKey.success).toBe(false);
+  });
+
+  test('a key pair from one curve does not decrypt on the other', async () => {
+    const { publicKey, privateKey } = await engine.generateKeyPair('ecies-p256');
+    const encrypted = await engine.encrypt({ plaintext: 'P-256 only', key: publicKey, variant: 'ecies-p256' });
+    const decrypted = await engine.decrypt({ ciphertext: encrypted.result!, key: privateKey, variant: 'ecies-secp256k1' });
+    expect(decrypted.success).toBe(false);
+  });
+});
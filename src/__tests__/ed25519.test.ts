@@ -0,0 +1,79 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { Ed25519Engine } from '@/crypto/engines/ed25519';
+import { bytesToHex, hexToBytes } from '@/lib/crypto-utils';
+
+// RFC 8032 section 7.1, tests 1 to 3
+const VECTORS = [
+  {
+    name: 'TEST 1 (empty message)',
+    privateKey: '9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60',
+    publicKey: 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a',
+    message: '',
+    signature: 'e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b'
+  },
+  {
+    name: 'TEST 2 (one byte)',
+    privateKey: '4ccd089b28ff96da9db6c346ec114e0f5b8a319f35aba624da8cf6ed4fb8a6fb',
+    publicKey: '3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c',
+    message: '72',
+    signature: '92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00'
+  },
+  {
+    name: 'TEST 3 (two bytes)',
+    privateKey: 'c5aa8df43f9f837bedb7442f31dcb7b166d38535076f094b85ce3a2e0b4458f7',
+    publicKey: 'fc51cd8e6218a1a38da47ed00230f0580816ed13ba3303ac5deb911548908025',
+    message: 'af82',
+    signature: '6291d657deec24024827e69c3abe01a30ce548a284743a445e3680d7db5ac3ac18ff9b538d16f290ae67f760984dc6594a7c15e9716ed28dc027beceea1ec40a'
+  }
+];
+
+describe('Ed25519Engine', () => {
+  const engine = new Ed25519Engine();
+
+  test.each(VECTORS)('RFC 8032 $name', async ({ privateKey, publicKey, message, signature }) => {
+    const signed = await engine.sign({ message: hexToBytes(message), key: privateKey });
+    expect(bytesToHex(signed.result!)).toBe(signature);
+    expect(signed.metadata?.signatureLength).toBe(64);
+
+    const verified = await engine.verify({ message: hexToBytes(message), signature: hexToBytes(signature), key: publicKey });
+    expect(verified).toMatchObject({ success: true, result: true });
+  });
+
+  test('rejects a signature for another message, key or length', async () => {
+    const [first, second] = VECTORS;
+    const signature = hexToBytes(first.signature);
+
+    const otherMessage = await engine.verify({ message: hexToBytes('00'), signature, key: first.publicKey });
+    expect(otherMessage).toMatchObject({ success: true, result: false });
+
+    const otherKey = await engine.verify({ message: new Uint8Array(), signature, key: second.publicKey });
+    expect(otherKey).toMatchObject({ success: true, result: false });
+
+    const truncated = await engine.verify({ message: new Uint8Array(), signature: signature.subarray(1), key: first.publicKey });
+    expect(truncated).toMatchObject({ success: true, result: false });
+  });
+
+  test('generated key pairs match the public key derived from the seed', async () => {
+    const { publicKey, privateKey } = await engine.generateKeyPair();
+    expect(publicKey).toMatch(/^[0-9a-f]{64}$/);
+    expect(privateKey).toMatch(/^[0-9a-f]{64}$/);
+
+    const message = new TextEncoder().encode('Ed25519 round trip');
+    const signed = await engine.sign({ message, key: privateKey });
+    const verified = await engine.verify({ message, signature: signed.result!, key: publicKey });
+    expect(verified.result).toBe(true);
+  });
+
+  test('cannot encrypt and rejects malformed keys', async () => {
+    const encrypted = await engine.encrypt({ plaintext: 'x', key: VECTORS[0].publicKey });
+    expect(encrypted.success).toBe(false);
+    expect(encrypted.error).toContain('signature scheme');
+
+    const signed = await engine.sign({ message: new Uint8Array(), key: 'abcd' });
+    expect(signed.success).toBe(false);
+    expect(signed.error).toContain('Must be 32 bytes');
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import CipherRegistry from '@/crypto/registry';
+import AESEngine from '@/crypto/engines/aes';
+import Chacha20Engine from '@/crypto/engines/chacha20';
+import { Salsa20Engine } from '@/crypto/engines/salsa20';
+import { createEnvelope, serializeEnvelope, parseEnvelope, ENVELOPE_VERSION } from '@/crypto/envelope';
+import { bytesToBase64Url } from '@/lib/crypto-utils';
+import { KdfParams } from '@/types/crypto';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const decode = (bytes?: Uint8Array) => new TextDecoder().decode(bytes);
+
+// A compact envelope that carries the KDF algorithm but not its iterations or key length
+const PARTIAL_KDF_COMPACT = serializeEnvelope(
+  { version: ENVELOPE_VERSION, cipher: 'aes', ciphertext: '', kdf: { algorithm: 'PBKDF2-SHA256' } as KdfParams },
+  'compact'
+);
+
+describe('Ciphertext envelopes', () => {
+  const aesKey = '000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f';
+
+  test.each(['json' as const, 'compact' as const])('AES-GCM with AAD round-trips through the %s form', async (encoding) => {
+    const operation = await new AESEngine().encryptBytes({
+      plaintext: encode('sealed and labelled'), key: aesKey, mode: 'GCM', additionalData: 'header'
+    });
+    const envelope = createEnvelope('aes', operation, { additionalData: 'header' });
+    expect(envelope).toMatchObject({ version: ENVELOPE_VERSION, cipher: 'aes', variant: 'aes-256', mode: 'GCM' });
+    expect(envelope.tag).toHaveLength(32);
+    expect(envelope.aadHash).toHaveLength(64);
+
+    const serialized = serializeEnvelope(envelope, encoding);
+    if (encoding === 'compact') {
+      expect(serialized).toMatch(/^[A-Za-z0-9_-]+$/);
+    }
+    expect(parseEnvelope(serialized)).toEqual(envelope);
+
+    const opened = await CipherRegistry.openEnvelope(serialized, aesKey, { additionalData: 'header' });
+    expect(decode(opened.result)).toBe('sealed and labelled');
+  });
+
+  test('AES-SIV keeps its leading synthetic IV apart from the ciphertext', async () => {
+    const key = aesKey + aesKey;
+    const operation = await new AESEngine().encryptBytes({ plaintext: encode('deterministic'), key, mode: 'SIV', variant: 'aes-256' });
+    const envelope = createEnvelope('aes', operation);
+    expect(envelope.ciphertext).toHaveLength(26);
+
+    const opened = await CipherRegistry.openEnvelope(serializeEnvelope(envelope, 'compact'), key);
+    expect(decode(opened.result)).toBe('deterministic');
+  });
+
+  test('records the IV and padding of unauthenticated modes', async () => {
+    const operation = await new AESEngine().encryptBytes({
+      plaintext: encode('padded'), key: aesKey, mode: 'CBC', padding: 'ISO7816-4'
+    });
+    const envelope = createEnvelope('aes', operation);
+    expect(envelope.padding).toBe('ISO7816-4');
+    expect(envelope.iv).toBe(operation.metadata?.iv);
+
+    const opened = await CipherRegistry.openEnvelope(envelope, aesKey);
+    expect(decode(opened.result)).toBe('padded');
+  });
+
+  test('ChaCha20-Poly1305 and salt/KDF parameters survive the compact form', async () => {
+    const key = 'ff'.repeat(32);
+    const operation = await new Chacha20Engine().encryptBytes({ plaintext: encode('stream'), key, variant: 'chacha20-poly1305' });
+    const envelope = createEnvelope('chacha20', operation, {
+      salt: '0011223344556677',
+      kdf: { algorithm: 'PBKDF2-SHA512', iterations: 210000, keyLength: 32 }
+    });
+
+    const parsed = parseEnvelope(serializeEnvelope(envelope, 'compact'));
+    expect(parsed.kdf).toEqual({ algorithm: 'PBKDF2-SHA512', iterations: 210000, keyLength: 32 });
+    expect(parsed.salt).toBe('0011223344556677');
+
+    const opened = await CipherRegistry.openEnvelope(parsed, key);
+    expect(decode(opened.result)).toBe('stream');
+    expect(opened.metadata?.salt).toBe('0011223344556677');
+    expect(opened.metadata?.kdf?.algorithm).toBe('PBKDF2-SHA512');
+  });
+
+  test.each(['json' as const, 'compact' as const])('a Salsa20 keystream offset survives the %s form', async (encoding) => {
+    const key = 'ee'.repeat(32);
+    // Past 2^32, so the compact form needs the 8-byte field
+    const offset = 2 ** 40 + 5;
+    const operation = await new Salsa20Engine().encryptBytes({ plaintext: encode('from the middle'), key, offset });
+    const envelope = createEnvelope('salsa20', operation);
+    expect(envelope.offset).toBe(offset);
+
+    const parsed = parseEnvelope(serializeEnvelope(envelope, encoding));
+    expect(parsed).toEqual(envelope);
+
+    const opened = await CipherRegistry.openEnvelope(parsed, key);
+    expect(decode(opened.result)).toBe('from the middle');
+    expect(opened.metadata?.offset).toBe(offset);
+  });
+
+  test('rejects associated data that does not match the recorded hash', async () => {
+    const operation = await new AESEngine().encryptBytes({
+      plaintext: encode('x'), key: aesKey, mode: 'GCM', additionalData: 'header'
+    });
+    const envelope = createEnvelope('aes', operation, { additionalData: 'header' });
+
+    const opened = await CipherRegistry.openEnvelope(envelope, aesKey, { additionalData: 'other' });
+    expect(opened.success).toBe(false);
+    expect(opened.errorCode).toBe('INVALID_ENVELOPE');
+    expect(opened.error).toContain('associated data does not match');
+  });
+
+  test('passes authentication failures through from the engine', async () => {
+    const operation = await new AESEngine().encryptBytes({ plaintext: encode('x'), key: aesKey, mode: 'GCM' });
+    const envelope = createEnvelope('aes', operation);
+    envelope.tag = '00'.repeat(16);
+
+    const opened = await CipherRegistry.openEnvelope(envelope, aesKey);
+    expect(opened.errorCode).toBe('AUTHENTICATION_FAILED');
+  });
+
+  test.each([
+    ['{"version":2,"cipher":"aes","ciphertext":""}', 'Unsupported envelope version 2'],
+    ['{"version":1,"cipher":"enigma","ciphertext":""}', 'Unknown cipher in envelope: enigma'],
+    ['{"version":1,"cipher":"aes","ciphertext":"zz"}', 'must be hexadecimal'],
+    ['{"version":1,"cipher":"salsa20","ciphertext":"","offset":-1}', 'non-negative integer'],
+    ['{"version":1,"cipher":"aes","ciphertext":"","kdf":{"algorithm":"PBKDF2-SHA256","keyLength":32}}', 'must include the algorithm, iterations and key length'],
+    [PARTIAL_KDF_COMPACT, 'must include the algorithm, iterations and key length'],
+    [bytesToBase64Url(new Uint8Array([0x41, 0x42, 1])), 'missing "CE" header'],
+    [bytesToBase64Url(new Uint8Array([0x43, 0x45, 1, 14, 0, 0, 0, 9, 1])), 'truncated']
+  ])('rejects malformed envelope %s', async (input, message) => {
+    const opened = await CipherRegistry.openEnvelope(input, aesKey);
+    expect(opened.success).toBe(false);
+    expect(opened.errorCode).toBe('INVALID_ENVELOPE');
+    expect(opened.error).toContain(message);
+  });
+});
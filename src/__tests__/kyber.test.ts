@@ -0,0 +1,152 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { sha3_256 } from 'js-sha3';
+import { KyberEngine } from '@/crypto/engines/kyber';
+import {
+  ML_KEM_PARAMETERS,
+  MlKemParameterSet,
+  mlKemKeyGen,
+  mlKemEncapsulate,
+  mlKemDecapsulate
+} from '@/crypto/primitives/ml-kem';
+import { bytesToHex, hexToBytes } from '@/lib/crypto-utils';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const sequence = (start: number, length: number) => Uint8Array.from({ length }, (_, i) => start + i);
+
+describe('ML-KEM primitive (FIPS 203)', () => {
+  const d = sequence(0x00, 32);
+  const z = sequence(0x20, 32);
+  const m = sequence(0x80, 32);
+
+  // SHA3-256 digests of the keys and ciphertext, the shared secret, and the implicit-rejection secret
+  // for the ciphertext with its first bit flipped, as computed by two independent ACVP-validated
+  // implementations (@noble/post-quantum and mlkem) from the same seeds
+  test.each([
+    ['ML-KEM-512',
+      '82f101ff648063b376e2bb6c5b7455f655a50c2feadade150efa0e0e6f365aea',
+      '0bd3f5df01098ac9c29d687c7f1bd0588a5573feeef8f1e3b4573fa7f6ab57c8',
+      '35de09073975757f70871e39e250f9ee60aad945d5795b78aee1f38caceb3435',
+      '74a91ec5873cd675a267bb08a2ab43c1746f67923d2b95d5c5616102ca34f28a',
+      'b2831d752b119a2b555954992c657f8a8e9857f8d0bb23d27cc0ff8158c26287'],
+    ['ML-KEM-768',
+      'a24e16d8f8f9383a95b77050f4d9fd2f5733eec1d63ef3c23ebf9918173669a7',
+      '1149f17c3c4ac6ab1e3e2d9d8bd0171355ac0fa31bb8855c48ceade874c0864b',
+      'df7ac66499b94b59272371c2ebbace7fc7efa27c07d02959c7501c84644bbc40',
+      'ef91db44b6cd5b2c50f483481a3d6e2a08cc149764fcb8dc568851332da45ed9',
+      '016b585c8abc901fa45387c496d0ed74332aa06501ace2bb65ab9f8458a35bfc'],
+    ['ML-KEM-1024',
+      '61349e5c131a7e116a0463861d7d18663c5627c38c7147ddaadfd48acd7a4535',
+      'f0db5d938027fcd9bad87847d52c14cf0c4abcf0703b749793f212111ffb303b',
+      '280d42c04e2853d74a9072cd0e304b62ee7efb8b4014ff6e3bd44da675efa248',
+      '7d9404fdb9a12fafe778c3cec2c017de229fdb1c8564964830db5541970e8079',
+      'd35f7dfb8f0945bf574a3b2ae51630bb7766e769b68cb6983bab3e337f4b97dc']
+  ] as [MlKemParameterSet, string, string, string, string, string][])(
+    '%s keygen, encapsulate and decapsulate',
+    (name, ekDigest, dkDigest, ctDigest, sharedSecret, rejectionSecret) => {
+      const params = ML_KEM_PARAMETERS[name];
+      const { encapsulationKey, decapsulationKey } = mlKemKeyGen(params, d, z);
+      expect(sha3_256(encapsulationKey)).toBe(ekDigest);
+      expect(sha3_256(decapsulationKey)).toBe(dkDigest);
+
+      const { ciphertext, sharedSecret: secret } = mlKemEncapsulate(params, encapsulationKey, m);
+      expect(sha3_256(ciphertext)).toBe(ctDigest);
+      expect(bytesToHex(secret)).toBe(sharedSecret);
+      expect(bytesToHex(mlKemDecapsulate(params, decapsulationKey, ciphertext))).toBe(sharedSecret);
+
+      const tampered = ciphertext.slice();
+      tampered[0] ^= 1;
+      expect(bytesToHex(mlKemDecapsulate(params, decapsulationKey, tampered))).toBe(rejectionSecret);
+    }
+  );
+
+  test('key, ciphertext and secret sizes match FIPS 203 table 3', () => {
+    const sizes = (Object.keys(ML_KEM_PARAMETERS) as MlKemParameterSet[]).map(name => {
+      const params = ML_KEM_PARAMETERS[name];
+      const { encapsulationKey, decapsulationKey } = mlKemKeyGen(params);
+      const { ciphertext, sharedSecret } = mlKemEncapsulate(params, encapsulationKey);
+      return [encapsulationKey.length, decapsulationKey.length, ciphertext.length, sharedSecret.length];
+    });
+    expect(sizes).toEqual([
+      [800, 1632, 768, 32],
+      [1184, 2400, 1088, 32],
+      [1568, 3168, 1568, 32]
+    ]);
+  });
+
+  test('rejects malformed encapsulation and decapsulation keys', () => {
+    const params = ML_KEM_PARAMETERS['ML-KEM-512'];
+    const { encapsulationKey, decapsulationKey } = mlKemKeyGen(params, d, z);
+
+    // The first 12-bit coefficient set to 4095, which is not reduced modulo q
+    const unreduced = encapsulationKey.slice();
+    unreduced[0] = 0xff;
+    unreduced[1] |= 0x0f;
+    expect(() => mlKemEncapsulate(params, unreduced, m)).toThrow('not reduced modulo q');
+    expect(() => mlKemEncapsulate(params, encapsulationKey.subarray(1), m)).toThrow('must be 800 bytes');
+
+    const { ciphertext } = mlKemEncapsulate(params, encapsulationKey, m);
+    const corrupted = decapsulationKey.slice();
+    corrupted[768 * 2] ^= 1;
+    expect(() => mlKemDecapsulate(params, corrupted, ciphertext)).toThrow('hash does not match');
+    expect(() => mlKemDecapsulate(params, decapsulationKey, ciphertext.subarray(1))).toThrow('must be 768 bytes');
+  });
+});
+
+describe('KyberEngine (ML-KEM + AES-256-GCM)', () => {
+  const engine = new KyberEngine();
+
+  test.each(['ml-kem-512', 'ml-kem-768', 'ml-kem-1024'])('%s round-trips with a generated key pair', async variant => {
+    const { publicKey, privateKey } = await engine.generateKeyPair(variant);
+    expect(engine.validateKey(publicKey)).toBe(true);
+    expect(engine.validateKey(privateKey)).toBe(true);
+
+    const encrypted = await engine.encryptBytes({ plaintext: encode('Lattice round trip'), key: publicKey, variant, additionalData: 'header' });
+    expect(encrypted.success).toBe(true);
+    expect(encrypted.metadata?.tag).toBe(bytesToHex(encrypted.result!.subarray(-16)));
+
+    const decrypted = await engine.decryptBytes({ ciphertext: encrypted.result!, key: privateKey, variant, additionalData: 'header' });
+    expect(new TextDecoder().decode(decrypted.result)).toBe('Lattice round trip');
+
+    const wrongAad = await engine.decryptBytes({ ciphertext: encrypted.result!, key: privateKey, variant, additionalData: 'other' });
+    expect(wrongAad.errorCode).toBe('AUTHENTICATION_FAILED');
+  });
+
+  test('a tampered KEM ciphertext decapsulates to an unrelated secret and fails authentication', async () => {
+    const { publicKey, privateKey } = await engine.generateKeyPair('ml-kem-512');
+    const encrypted = await engine.encrypt({ plaintext: 'implicit rejection', key: publicKey, variant: 'ml-kem-512' });
+    const bytes = hexToBytes(encrypted.result!);
+    bytes[100] ^= 0x01;
+
+    const decrypted = await engine.decrypt({ ciphertext: bytesToHex(bytes), key: privateKey, variant: 'ml-kem-512' });
+    expect(decrypted.success).toBe(false);
+    expect(decrypted.errorCode).toBe('AUTHENTICATION_FAILED');
+  });
+
+  test('serializes the KEM ciphertext, GCM ciphertext and tag', async () => {
+    const { publicKey } = await engine.generateKeyPair('ml-kem-768');
+    const first = await engine.encryptBytes({ plaintext: encode('same'), key: publicKey, variant: 'ml-kem-768' });
+    const second = await engine.encryptBytes({ plaintext: encode('same'), key: publicKey, variant: 'ml-kem-768' });
+    expect(first.result!.length).toBe(1088 + 4 + 16);
+    expect(bytesToHex(first.result!)).not.toBe(bytesToHex(second.result!));
+  });
+
+  test('rejects keys for the wrong variant or operation', async () => {
+    const { publicKey, privateKey } = await engine.generateKeyPair('ml-kem-512');
+
+    const wrongVariant = await engine.encrypt({ plaintext: 'x', key: publicKey, variant: 'ml-kem-768' });
+    expect(wrongVariant.success).toBe(false);
+    expect(wrongVariant.error).toContain('1184 bytes');
+
+    const withPrivateKey = await engine.encrypt({ plaintext: 'x', key: privateKey, variant: 'ml-kem-512' });
+    expect(withPrivateKey.success).toBe(false);
+    expect(engine.validateKey('00'.repeat(32))).toBe(false);
+  });
+
+  test('is listed as a post-quantum cipher', () => {
+    expect(engine.metadata.category).toBe('post-quantum');
+    expect(engine.metadata.references.some(reference => reference.url.includes('example.com'))).toBe(false);
+  });
+});
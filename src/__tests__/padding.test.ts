@@ -0,0 +1,102 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { pad, unpad, PADDING_SCHEMES } from '@/crypto/modes/padding';
+import { hexToBytes, bytesToHex, PaddingError } from '@/lib/crypto-utils';
+import AESEngine from '@/crypto/engines/aes';
+import { BlowfishEngine } from '@/crypto/engines/blowfish';
+
+describe('Padding schemes', () => {
+  const data = hexToBytes('0102030405');
+
+  test.each([
+    ['PKCS7' as const, '0102030405030303'],
+    ['ISO7816-4' as const, '0102030405800000'],
+    ['ANSIX923' as const, '0102030405000003'],
+    ['Zero' as const, '0102030405000000']
+  ])('%s pads to the block boundary', (scheme, expected) => {
+    const padded = pad(data, 8, scheme);
+    expect(bytesToHex(padded)).toBe(expected);
+    expect(bytesToHex(unpad(padded, 8, scheme))).toBe('0102030405');
+  });
+
+  test('ISO 10126 ends in the pad length after random filler', () => {
+    const padded = pad(data, 8, 'ISO10126');
+    expect(padded.length).toBe(8);
+    expect(padded[7]).toBe(3);
+    expect(bytesToHex(unpad(padded, 8, 'ISO10126'))).toBe('0102030405');
+  });
+
+  test.each(PADDING_SCHEMES.filter(scheme => scheme !== 'Zero' && scheme !== 'None'))(
+    '%s adds a whole block to aligned input',
+    (scheme) => {
+      const aligned = new Uint8Array(8).fill(0xaa);
+      const padded = pad(aligned, 8, scheme);
+      expect(padded.length).toBe(16);
+      expect(unpad(padded, 8, scheme)).toEqual(aligned);
+    }
+  );
+
+  test('zero padding and no padding leave aligned input untouched', () => {
+    const aligned = new Uint8Array(8).fill(0xaa);
+    expect(pad(aligned, 8, 'Zero')).toEqual(aligned);
+    expect(pad(aligned, 8, 'None')).toEqual(aligned);
+    expect(() => pad(data, 8, 'None')).toThrow('multiple of 8 bytes');
+  });
+
+  test('reports exactly what is wrong with invalid padding', () => {
+    expect(() => unpad(hexToBytes('0102030405030203'), 8, 'PKCS7'))
+      .toThrow('Invalid PKCS#7 padding: byte 6 is 0x02 but expected 0x03');
+    expect(() => unpad(hexToBytes('0102030405060709'), 8, 'PKCS7'))
+      .toThrow('pad length 9 is outside 1-8');
+    expect(() => unpad(hexToBytes('0102030405010003'), 8, 'ANSIX923'))
+      .toThrow('Invalid ANSI X9.23 padding: byte 5 is 0x01 but expected 0x00');
+    expect(() => unpad(hexToBytes('0102030405000000'), 8, 'ISO7816-4'))
+      .toThrow('byte 4 is 0x05 but expected the 0x80 marker');
+    expect(() => unpad(new Uint8Array(16), 8, 'ISO7816-4'))
+      .toThrow('no 0x80 marker in the final 8 bytes');
+    expect(() => unpad(new Uint8Array(0), 8, 'PKCS7')).toThrow(PaddingError);
+  });
+});
+
+describe('Padding in block engines', () => {
+  const key = '000102030405060708090a0b0c0d0e0f';
+
+  test.each(PADDING_SCHEMES.filter(scheme => scheme !== 'None'))('AES-CBC round-trips with %s', async (padding) => {
+    const engine = new AESEngine();
+    const encrypted = await engine.encrypt({ plaintext: 'pad me', key, variant: 'aes-128', mode: 'CBC', padding });
+    expect(encrypted.metadata?.padding).toBe(padding);
+
+    const decrypted = await engine.decrypt({
+      ciphertext: encrypted.result!, key, variant: 'aes-128', mode: 'CBC', iv: encrypted.metadata?.iv, padding
+    });
+    expect(decrypted.result).toBe('pad me');
+  });
+
+  test('no padding requires block-aligned plaintext', async () => {
+    const engine = new BlowfishEngine();
+    const aligned = await engine.encrypt({ plaintext: 'eight by', key, mode: 'ECB', padding: 'None' });
+    expect(aligned.result).toHaveLength(16);
+
+    const unaligned = await engine.encrypt({ plaintext: 'seven b', key, mode: 'ECB', padding: 'None' });
+    expect(unaligned.success).toBe(false);
+    expect(unaligned.error).toContain('multiple of 8 bytes');
+  });
+
+  test('flags bad padding with an error code', async () => {
+    const engine = new AESEngine();
+    const encrypted = await engine.encrypt({ plaintext: 'pad me', key, variant: 'aes-128', mode: 'ECB', padding: 'ISO7816-4' });
+    const decrypted = await engine.decrypt({ ciphertext: encrypted.result!, key, variant: 'aes-128', mode: 'ECB', padding: 'PKCS7' });
+    expect(decrypted.success).toBe(false);
+    expect(decrypted.errorCode).toBe('INVALID_PADDING');
+  });
+
+  test('stream-like modes ignore the padding scheme', async () => {
+    const result = await new AESEngine().encrypt({
+      plaintext: 'pad me', key, variant: 'aes-128', mode: 'CTR', padding: 'None'
+    });
+    expect(result.result).toHaveLength(12);
+    expect(result.metadata?.padding).toBeUndefined();
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { poly1305, poly1305AeadData } from '@/crypto/primitives/poly1305';
+import { hexToBytes, bytesToHex } from '@/lib/crypto-utils';
+
+describe('Poly1305', () => {
+  test('matches the RFC 8439 Section 2.5.2 test vector', () => {
+    const key = hexToBytes('85d6be7857556d337f4452fe42d506a80103808afb0db2fd4abff6af4149f51b');
+    const message = new TextEncoder().encode('Cryptographic Forum Research Group');
+    expect(bytesToHex(poly1305(key, message))).toBe('a8061dc1305136c6c22b8baf0c0127a9');
+  });
+
+  test('returns s when the message is empty', () => {
+    const key = hexToBytes('00'.repeat(16) + '36e5f6b5c5e06070f0efca96227a863e');
+    expect(bytesToHex(poly1305(key, new Uint8Array(0)))).toBe('36e5f6b5c5e06070f0efca96227a863e');
+  });
+
+  test('rejects keys that are not 32 bytes', () => {
+    expect(() => poly1305(new Uint8Array(16), new Uint8Array(0))).toThrow('Poly1305 key must be 32 bytes');
+  });
+
+  test('pads AAD and ciphertext to 16 bytes and appends their lengths', () => {
+    const data = poly1305AeadData(new Uint8Array([1, 2, 3]), new Uint8Array([4]));
+    expect(data.length).toBe(16 + 16 + 16);
+    expect(bytesToHex(data.subarray(32))).toBe('0300000000000000' + '0100000000000000');
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { Salsa20Engine } from '@/crypto/engines/salsa20';
+import { bytesToHex } from '@/lib/crypto-utils';
+
+// eSTREAM Salsa20/20 verified test vectors, Set 1 vector 0: key 80 00 .. 00 and an all-zero nonce
+const SET1_NONCE = '00'.repeat(8);
+const SET1_KEY_256 = '80' + '00'.repeat(31);
+const SET1_KEY_128 = '80' + '00'.repeat(15);
+const SET1_STREAM_256 =
+  'e3be8fdd8beca2e3ea8ef9475b29a6e7003951e1097a5c38d23b7a5fad9f6844' +
+  'b22c97559e2723c7cbbd3fe4fc8d9a0744652a83e72a9c461876af4d7ef1a117';
+const SET1_STREAM_128 =
+  '4dfa5e481da23ea09a31022050859936da52fcee218005164f267cb65f5cfd7f' +
+  '2b4f97e0ff16924a52df269515110a07f9e460bc65ef95da58f740b7d1dbb0aa';
+
+// Blocks 3, 4 and 7 of the same vectors: stream[192..255], stream[256..319] and stream[448..511]
+const SET1_BLOCKS_256: [number, string][] = [
+  [3, '57be81f47b17d9ae7c4ff15429a73e10acf250ed3a90a93c711308a74c6216a9ed84cd126da7f28e8abf8bb63517e1ca98e712f4fb2e1a6aed9fdc73291faa17'],
+  [4, '958211c4ba2ebd5838c635edb81f513a91a294e194f1c039aeec657dce40aa7e7c0af57cacefa40c9f14b71a4b3456a63e162ec7d8d10b8ffb1810d71001b618'],
+  [7, '696afcfd0cddcc83c7e77f11a649d79acdc3354e9635ff137e929933a0bd6f5377efa105a3a4266b7c0d089d08f1e855cc32b15b93784a36e56a76cc64bc8477']
+];
+const SET1_BLOCKS_128: [number, string][] = [
+  [3, 'da9c1581f429e0a00f7d67e23b730676783b262e8eb43a25f55fb90b3e753aef8c6713ec66c51881111593ccb3e8cb8f8de124080501eeeb389c4bcb6977cf95'],
+  [4, '7d5789631eb4554400e1e025935dfa7b3e9039d61bdc58a8697d36815bf1985cefdf7ae112e5bb81e37ecf0616ce7147fc08a93a367e08631f23c03b00a8da2f'],
+  [7, 'b375703739daced4dd4059fd71c3c47fc2f9939670fad4a46066adcc6a5645783308b90ffb72be04a6b147cbe38cc0c3b9267c296a92a7c69873f9f263be9703']
+];
+
+// Blocks whose counter needs the high 32-bit word, from an independent reference implementation
+const HIGH_COUNTER_BLOCKS: [bigint, string][] = [
+  [BigInt(2) ** BigInt(32), 'f58c0a5ba638a4ee71075a0258232f0c307d1c207366001b556c22fbbe1fd636a6a219d7fa360a71f9e2866bb313162ea7098ae50069837dcce98f6ee5fd6b96'],
+  [BigInt(2) ** BigInt(64) - BigInt(1), '6d54944fe4e8e67fe4bc96e7a8a0b7a1c849320b8ec30cbcf97d3f37eb1484ebb5d01dbe419d9bb1cf3265360c77e3622625b4e758fecad3f1bb9f4716184a1d']
+];
+
+// The crypto_stream test of NaCl (tests/stream.c): XSalsa20 under crypto_box's first key
+const XSALSA_KEY = '1b27556473e985d462cd51197a9a46c76009549eac6474f206c4ee0844f68389';
+const XSALSA_NONCE = '69696ee955b62b73cd62bda875fc73d68219e0036b7a0b37';
+const XSALSA_STREAM =
+  'eea6a7251c1e72916d11c2cb214d3c252539121d8e234e652d651fa4c8cff880' +
+  '309e645a74e9e0a60d8243acd9177ab51a1beb8d5a2f5d700c093c5e55855796';
+
+const zeros = (length: number) => new Uint8Array(length);
+
+describe('Salsa20Engine', () => {
+  const engine = new Salsa20Engine();
+
+  test.each([
+    ['256-bit', SET1_KEY_256, SET1_STREAM_256],
+    ['128-bit', SET1_KEY_128, SET1_STREAM_128]
+  ])('eSTREAM Set 1 vector 0 with a %s key', async (_, key, stream) => {
+    const encrypted = await engine.encryptBytes({ plaintext: zeros(64), key, nonce: SET1_NONCE });
+    expect(bytesToHex(encrypted.result!)).toBe(stream);
+    expect(encrypted.metadata?.keyLength).toBe(key.length / 2);
+  });
+
+  test('XSalsa20 produces the NaCl crypto_stream keystream', async () => {
+    const encrypted = await engine.encryptBytes({ plaintext: zeros(64), key: XSALSA_KEY, nonce: XSALSA_NONCE, variant: 'xsalsa20' });
+    expect(bytesToHex(encrypted.result!)).toBe(XSALSA_STREAM);
+    expect(encrypted.metadata?.nonceLength).toBe(24);
+  });
+
+  test.each(['salsa20/8', 'salsa20/12', 'salsa20/20', 'xsalsa20'])('%s round-trips across several blocks', async variant => {
+    const key = await engine.generateKey();
+    const plaintext = 'Salsa20 round trip '.repeat(10);
+    const encrypted = await engine.encrypt({ plaintext, key, variant });
+    expect(encrypted.metadata?.nonce).toHaveLength(variant === 'xsalsa20' ? 48 : 16);
+
+    const decrypted = await engine.decrypt({ ciphertext: encrypted.result!, key, nonce: encrypted.metadata!.nonce, variant });
+    expect(decrypted.result).toBe(plaintext);
+  });
+
+  test('reduced-round variants give different keystreams', async () => {
+    const streams = await Promise.all(['salsa20/8', 'salsa20/12'].map(variant =>
+      engine.encryptBytes({ plaintext: zeros(64), key: SET1_KEY_256, nonce: SET1_NONCE, variant })
+    ));
+    expect(new Set([...streams.map(s => bytesToHex(s.result!)), SET1_STREAM_256]).size).toBe(3);
+  });
+
+  test('checks key and nonce sizes per variant', async () => {
+    const shortNonce = await engine.encrypt({ plaintext: 'x', key: XSALSA_KEY, nonce: SET1_NONCE, variant: 'xsalsa20' });
+    expect(shortNonce.error).toContain('24 bytes');
+
+    const shortKey = await engine.encrypt({ plaintext: 'x', key: SET1_KEY_128, nonce: XSALSA_NONCE, variant: 'xsalsa20' });
+    expect(shortKey.error).toContain('32 bytes');
+
+    const longNonce = await engine.encrypt({ plaintext: 'x', key: SET1_KEY_256, nonce: XSALSA_NONCE });
+    expect(longNonce.error).toContain('8 bytes');
+
+    const missingNonce = await engine.decrypt({ ciphertext: 'abcd', key: SET1_KEY_256 });
+    expect(missingNonce.error).toContain('Nonce is required');
+
+    expect(engine.metadata.nonceSizeByVariant).toEqual({ 'xsalsa20': 24 });
+  });
+
+  describe('keystream blocks and seeking', () => {
+    test.each([
+      ['256-bit', SET1_KEY_256, SET1_BLOCKS_256],
+      ['128-bit', SET1_KEY_128, SET1_BLOCKS_128]
+    ])('returns eSTREAM Set 1 vector 0 blocks with a %s key', async (_, key, blocks) => {
+      for (const [counter, block] of blocks) {
+        const result = await engine.keystreamBlock({ key, nonce: SET1_NONCE, counter });
+        expect(bytesToHex(result.result!)).toBe(block);
+      }
+    });
+
+    test('block 0 is the start of the stream', async () => {
+      const block = await engine.keystreamBlock({ key: SET1_KEY_256, nonce: SET1_NONCE, counter: 0 });
+      expect(bytesToHex(block.result!)).toBe(SET1_STREAM_256);
+    });
+
+    test.each(HIGH_COUNTER_BLOCKS)('takes the full 64-bit counter (%s)', async (counter, block) => {
+      const result = await engine.keystreamBlock({ key: SET1_KEY_256, nonce: SET1_NONCE, counter });
+      expect(bytesToHex(result.result!)).toBe(block);
+    });
+
+    test('encrypts from a byte offset, including part-way into a block', async () => {
+      const blocks = Object.fromEntries(SET1_BLOCKS_256);
+
+      const aligned = await engine.encryptBytes({ plaintext: zeros(128), key: SET1_KEY_256, nonce: SET1_NONCE, offset: 192 });
+      expect(bytesToHex(aligned.result!)).toBe(blocks[3] + blocks[4]);
+      expect(aligned.metadata?.offset).toBe(192);
+
+      // The last 10 bytes of block 3 and the first 20 of block 4
+      const unaligned = await engine.encryptBytes({ plaintext: zeros(30), key: SET1_KEY_256, nonce: SET1_NONCE, offset: 246 });
+      expect(bytesToHex(unaligned.result!)).toBe(blocks[3].slice(108) + blocks[4].slice(0, 40));
+    });
+
+    test('decrypts any slice of a message on its own', async () => {
+      const key = await engine.generateKey();
+      const plaintext = 'Seekable stream encryption for large files. '.repeat(8);
+      const encrypted = await engine.encryptBytes({ plaintext: new TextEncoder().encode(plaintext), key, variant: 'xsalsa20' });
+      const { nonce } = encrypted.metadata!;
+
+      const slice = encrypted.result!.subarray(100, 200);
+      const decrypted = await engine.decryptBytes({ ciphertext: slice, key, nonce, variant: 'xsalsa20', offset: 100 });
+      expect(new TextDecoder().decode(decrypted.result!)).toBe(plaintext.slice(100, 200));
+    });
+
+    test('rejects counters outside 64 bits and negative or fractional offsets', async () => {
+      const params = { key: SET1_KEY_256, nonce: SET1_NONCE };
+
+      const tooLarge = await engine.keystreamBlock({ ...params, counter: BigInt(2) ** BigInt(64) });
+      expect(tooLarge.error).toContain('2^64 - 1');
+      expect((await engine.keystreamBlock({ ...params, counter: -1 })).success).toBe(false);
+      expect((await engine.keystreamBlock({ ...params, counter: 1.5 })).success).toBe(false);
+
+      const negative = await engine.encryptBytes({ ...params, plaintext: zeros(1), offset: -1 });
+      expect(negative.error).toContain('offset');
+      expect((await engine.decryptBytes({ ...params, ciphertext: zeros(1), offset: 0.5 })).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import Sandbox from '@/components/Sandbox';
+import CipherRegistry from '@/crypto/registry';
+
+// jest.setup.js swaps window for a stub holding only crypto, and React DOM only attaches its input
+// events if it finds the jsdom window when it loads, so restore it before loading the testing library
+global.window = globalThis as typeof window;
+const { render, screen, fireEvent, waitFor } = require('@testing-library/react') as typeof import('@testing-library/react');
+
+const KEY = '000102030405060708090a0b0c0d0e0f';
+const GCM_IV = 'cafebabefacedbaddecaf888';
+const CBC_IV = '000102030405060708090a0b0c0d0e0f';
+const MESSAGE = 'Opened from the envelope';
+
+// The X25519 key pairs of NaCl's crypto_box tests
+const ALICE_PRIVATE = '77076d0a7318a57d3c16c17251b26645df4c2f87ebc0992ab177fba51db92c2a';
+const ALICE_PUBLIC = '8520f0098930a754748b7ddcb43ef75a0dbf3a0d26381af4eba4a98eaa9b4e6a';
+const BOB_PRIVATE = '5dab087e624a8a4b79e17f8b83800ee66f3bb1292618b6fd1c2f8b27ff88e0eb';
+const BOB_PUBLIC = 'de9edb7d7b7dc1b4d35b61c2ece435373f8343c85b78674dadfc7e146f882b4f';
+
+const variantSelect = () => screen.getByRole('option', { name: /fixed sender/ }).closest('select')!;
+const modeSelect = () => screen.getByRole('option', { name: 'GCM' }).closest('select')!;
+const plaintextField = () => screen.getByPlaceholderText('Enter your message here...') as HTMLTextAreaElement;
+const envelopeField = () => screen.getByPlaceholderText('Encrypt to produce an envelope, or paste one here...') as HTMLTextAreaElement;
+
+// Fills in an AES-128 encryption in the given mode and waits for the envelope
+async function encryptIn(mode: string, iv: string, additionalData?: string) {
+  fireEvent.change(modeSelect(), { target: { value: mode } });
+  // The key field comes before the IV field, which has the same placeholder in CBC
+  fireEvent.change(screen.getAllByPlaceholderText('Enter 32 hex characters...')[0], { target: { value: KEY } });
+  const ivFields = screen.getAllByPlaceholderText(`Enter ${iv.length} hex characters...`);
+  fireEvent.change(ivFields[ivFields.length - 1], { target: { value: iv } });
+  if (additionalData !== undefined) {
+    fireEvent.change(screen.getByPlaceholderText('Optional data that is authenticated but not encrypted...'), { target: { value: additionalData } });
+  }
+  fireEvent.change(plaintextField(), { target: { value: MESSAGE } });
+
+  const buttons = screen.getAllByRole('button', { name: 'Encrypt' });
+  fireEvent.click(buttons[buttons.length - 1]);
+  await waitFor(() => expect(envelopeField().value).not.toBe(''));
+  fireEvent.change(plaintextField(), { target: { value: '' } });
+}
+
+async function openEnvelope() {
+  fireEvent.click(screen.getByRole('button', { name: 'Open Envelope' }));
+  await waitFor(() => screen.getByText(/Operation (Successful|Failed)/));
+}
+
+describe('Sandbox envelopes', () => {
+  const metadata = CipherRegistry.getEngine('aes')!.metadata;
+
+  test('opens a GCM envelope with its associated data after switching to CBC', async () => {
+    render(<Sandbox cipherMetadata={metadata} />);
+    await encryptIn('GCM', GCM_IV, 'header');
+
+    fireEvent.change(modeSelect(), { target: { value: 'CBC' } });
+    await openEnvelope();
+
+    expect(screen.queryByText('Operation Successful')).not.toBeNull();
+    expect(plaintextField().value).toBe(MESSAGE);
+  });
+
+  test('ignores leftover associated data when the envelope recorded none', async () => {
+    render(<Sandbox cipherMetadata={metadata} />);
+    await encryptIn('CBC', CBC_IV);
+
+    fireEvent.change(modeSelect(), { target: { value: 'GCM' } });
+    fireEvent.change(screen.getByPlaceholderText('Optional data that is authenticated but not encrypted...'), { target: { value: 'leftover' } });
+    await openEnvelope();
+
+    expect(screen.queryByText('Operation Successful')).not.toBeNull();
+    expect(plaintextField().value).toBe(MESSAGE);
+  });
+
+  test('passes multi-line associated data whole to a GCM envelope opened with SIV selected', async () => {
+    render(<Sandbox cipherMetadata={metadata} />);
+    // Only the SIV field is multi-line, so the text is entered there before encrypting with GCM
+    fireEvent.change(modeSelect(), { target: { value: 'SIV' } });
+    fireEvent.change(screen.getByPlaceholderText('Each line is authenticated as a separate component...'), { target: { value: 'first\nsecond' } });
+    await encryptIn('GCM', GCM_IV);
+
+    fireEvent.change(modeSelect(), { target: { value: 'SIV' } });
+    await openEnvelope();
+
+    expect(screen.queryByText('Operation Successful')).not.toBeNull();
+    expect(plaintextField().value).toBe(MESSAGE);
+  });
+});
+
+describe('Sandbox X25519 key fields', () => {
+  const metadata = CipherRegistry.getEngine('x25519')!.metadata;
+
+  test('a fixed-sender box reads the private key and the peer\'s public key for both operations', async () => {
+    render(<Sandbox cipherMetadata={metadata} />);
+    fireEvent.change(variantSelect(), { target: { value: 'x25519-box' } });
+    const privateKey = () => screen.getByPlaceholderText('Enter or generate the private key...');
+    const peerPublicKey = () => screen.getByPlaceholderText('Enter or generate the peer\'s public key...');
+
+    fireEvent.change(privateKey(), { target: { value: ALICE_PRIVATE } });
+    fireEvent.change(peerPublicKey(), { target: { value: BOB_PUBLIC } });
+    fireEvent.change(screen.getByPlaceholderText('Enter 48 hex characters...'), { target: { value: '00'.repeat(24) } });
+    fireEvent.change(plaintextField(), { target: { value: MESSAGE } });
+    const buttons = screen.getAllByRole('button', { name: 'Encrypt' });
+    fireEvent.click(buttons[buttons.length - 1]);
+    await waitFor(() => expect(envelopeField().value).not.toBe(''));
+    fireEvent.change(plaintextField(), { target: { value: '' } });
+
+    // Bob opens it with his private key and Alice's public key
+    fireEvent.change(privateKey(), { target: { value: BOB_PRIVATE } });
+    fireEvent.change(peerPublicKey(), { target: { value: ALICE_PUBLIC } });
+    await openEnvelope();
+
+    expect(screen.queryByText('Operation Successful')).not.toBeNull();
+    expect(plaintextField().value).toBe(MESSAGE);
+  });
+
+  test('secretbox takes a shared key in the raw key field', () => {
+    render(<Sandbox cipherMetadata={metadata} />);
+    expect(screen.queryByRole('button', { name: 'Generate Key Pair' })).not.toBeNull();
+
+    fireEvent.change(variantSelect(), { target: { value: 'secretbox' } });
+    expect(screen.queryByRole('button', { name: 'Generate Key Pair' })).toBeNull();
+    expect(screen.queryByPlaceholderText('Enter 64 hex characters...')).not.toBeNull();
+  });
+});
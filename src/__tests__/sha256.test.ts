@@ -0,0 +1,36 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { Sha256, sha256 } from '@/crypto/primitives/sha256';
+import { bytesToHex } from '@/lib/crypto-utils';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe('SHA-256', () => {
+  test.each([
+    ['', 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'],
+    ['abc', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+    ['abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq', '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1']
+  ])('matches the FIPS 180-4 example for "%s"', (message, digest) => {
+    expect(bytesToHex(sha256(encode(message)))).toBe(digest);
+  });
+
+  test('hashes a million "a"s fed in uneven pieces', () => {
+    const hasher = new Sha256();
+    const chunk = encode('a'.repeat(1000));
+    for (let i = 0; i < 1000; i++) {
+      hasher.update(chunk.subarray(0, 999)).update(chunk.subarray(999));
+    }
+    expect(bytesToHex(hasher.digest())).toBe('cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0');
+  });
+
+  test('digestWith finishes from a shared prefix without consuming it', () => {
+    const prefix = new Sha256().update(encode('a'.repeat(64)));
+    for (const suffix of ['', 'b', 'c'.repeat(60), 'd'.repeat(200)]) {
+      expect(bytesToHex(prefix.digestWith(encode(suffix.slice(0, 3)), encode(suffix.slice(3)))))
+        .toBe(bytesToHex(sha256(encode('a'.repeat(64) + suffix))));
+    }
+    expect(bytesToHex(prefix.clone().digest())).toBe(bytesToHex(sha256(encode('a'.repeat(64)))));
+  });
+});
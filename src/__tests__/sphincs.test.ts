@@ -0,0 +1,114 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { sha3_256 } from 'js-sha3';
+import { SphincsEngine } from '@/crypto/engines/sphincs';
+import {
+  SLH_DSA_PARAMETERS,
+  SlhDsaParameterSet,
+  slhDsaKeyGen,
+  slhDsaSign,
+  slhDsaVerify,
+  signatureSize
+} from '@/crypto/primitives/slh-dsa';
+import { bytesToHex } from '@/lib/crypto-utils';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const seed = Uint8Array.from({ length: 48 }, (_, i) => i);
+const message = encode('SLH-DSA');
+const context = encode('ctx');
+
+describe('SLH-DSA primitive (FIPS 205)', () => {
+  // Public keys and SHA3-256 digests of deterministic signatures over "SLH-DSA" with context "ctx",
+  // from the seed 00..2f, as computed by the ACVP-validated @noble/post-quantum. SHAKE-128s only
+  // checks key generation because signing it takes tens of seconds.
+  test.each([
+    ['SLH-DSA-SHA2-128f',
+      '202122232425262728292a2b2c2d2e2f3b56e816847f000386aeec2e2bb9e1b5',
+      'c31b27468715e3c7331949591d3378ecfb8d5dcb525db4b3bdff2f2916b56725'],
+    ['SLH-DSA-SHAKE-128f',
+      '202122232425262728292a2b2c2d2e2fa90e4715b9a925c332801767fd786371',
+      '787abde9015768fc5169346f165d430bf12efddb9d2d964d6c1e76b05981c13c'],
+    ['SLH-DSA-SHA2-128s',
+      '202122232425262728292a2b2c2d2e2f990ce6298792b128846a8e4a3a68954c',
+      'f69fb11ab2af2c8d7e2a27a419a30cf37d910e2667858038b33eab389305d800'],
+    ['SLH-DSA-SHAKE-128s',
+      '202122232425262728292a2b2c2d2e2f89fd81fdbb5b94129b14761bdc6bf682',
+      undefined]
+  ] as [SlhDsaParameterSet, string, string | undefined][])('%s', (name, publicKey, signatureDigest) => {
+    const params = SLH_DSA_PARAMETERS[name];
+    const keyPair = slhDsaKeyGen(params, seed);
+    expect(bytesToHex(keyPair.publicKey)).toBe(publicKey);
+    expect(bytesToHex(keyPair.secretKey)).toBe(bytesToHex(seed.subarray(0, 32)) + publicKey);
+    if (!signatureDigest) return;
+
+    const signature = slhDsaSign(params, keyPair.secretKey, message, { context, deterministic: true });
+    expect(signature.length).toBe(signatureSize(params));
+    expect(sha3_256(signature)).toBe(signatureDigest);
+    expect(slhDsaVerify(params, keyPair.publicKey, message, signature, context)).toBe(true);
+  }, 30000);
+
+  test('rejects tampered signatures, other messages and other contexts', () => {
+    const params = SLH_DSA_PARAMETERS['SLH-DSA-SHA2-128f'];
+    const { publicKey, secretKey } = slhDsaKeyGen(params, seed);
+    const signature = slhDsaSign(params, secretKey, message, { context });
+
+    const tampered = signature.slice();
+    tampered[signature.length - 1] ^= 1;
+    expect(slhDsaVerify(params, publicKey, message, tampered, context)).toBe(false);
+    expect(slhDsaVerify(params, publicKey, encode('SLH-DSB'), signature, context)).toBe(false);
+    expect(slhDsaVerify(params, publicKey, message, signature)).toBe(false);
+    expect(slhDsaVerify(params, publicKey, message, signature.subarray(1), context)).toBe(false);
+  });
+
+  test('hedged signing randomizes the signature', () => {
+    const params = SLH_DSA_PARAMETERS['SLH-DSA-SHA2-128f'];
+    const { secretKey } = slhDsaKeyGen(params, seed);
+    const first = slhDsaSign(params, secretKey, message);
+    const second = slhDsaSign(params, secretKey, message);
+    expect(bytesToHex(first)).not.toBe(bytesToHex(second));
+  });
+
+  test('signature sizes match FIPS 205 table 2', () => {
+    expect((Object.keys(SLH_DSA_PARAMETERS) as SlhDsaParameterSet[]).map(name => signatureSize(SLH_DSA_PARAMETERS[name])))
+      .toEqual([7856, 7856, 17088, 17088]);
+  });
+});
+
+describe('SphincsEngine (SLH-DSA)', () => {
+  const engine = new SphincsEngine();
+
+  test.each(['slh-dsa-sha2-128f', 'slh-dsa-shake-128f'])('%s signs and verifies with a context string', async variant => {
+    const { publicKey, privateKey } = await engine.generateKeyPair(variant);
+    expect(engine.validateKey(publicKey)).toBe(true);
+    expect(engine.validateKey(privateKey)).toBe(true);
+
+    const signed = await engine.sign({ message, key: privateKey, variant, context: 'app', deterministic: true });
+    expect(signed.metadata).toMatchObject({ variant, signatureLength: 17088 });
+
+    const verified = await engine.verify({ message, signature: signed.result!, key: publicKey, variant, context: 'app' });
+    expect(verified.result).toBe(true);
+
+    const wrongContext = await engine.verify({ message, signature: signed.result!, key: publicKey, variant, context: 'other' });
+    expect(wrongContext).toMatchObject({ success: true, result: false });
+  }, 30000);
+
+  test('rejects keys of the wrong kind and refuses to encrypt', async () => {
+    const { publicKey } = await engine.generateKeyPair();
+
+    const signedWithPublicKey = await engine.sign({ message, key: publicKey });
+    expect(signedWithPublicKey.success).toBe(false);
+    expect(signedWithPublicKey.error).toContain('64 bytes');
+
+    const encrypted = await engine.encrypt({ plaintext: 'x', key: publicKey });
+    expect(encrypted.success).toBe(false);
+    expect(encrypted.error).toContain('signature scheme');
+  });
+
+  test('is listed as a post-quantum signature scheme', () => {
+    expect(engine.metadata.category).toBe('post-quantum');
+    expect(engine.metadata.signatureOnly).toBe(true);
+    expect(engine.metadata.references.some(reference => reference.url.includes('example.com'))).toBe(false);
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { TEABlockCipher, XTEABlockCipher } from '@/crypto/primitives/tea';
+import { hexToBytes, bytesToHex } from '@/lib/crypto-utils';
+
+describe('TEA and XTEA block primitives', () => {
+  test('TEA encrypts the all-zero vector', () => {
+    const cipher = new TEABlockCipher(new Uint8Array(16));
+    const ciphertext = cipher.encryptBlock(new Uint8Array(8));
+    expect(bytesToHex(ciphertext)).toBe('41ea3a0a94baa940');
+    expect(cipher.decryptBlock(ciphertext)).toEqual(new Uint8Array(8));
+  });
+
+  test('XTEA matches the reference vector', () => {
+    const cipher = new XTEABlockCipher(hexToBytes('000102030405060708090a0b0c0d0e0f'));
+    const ciphertext = cipher.encryptBlock(hexToBytes('4142434445464748'));
+    expect(bytesToHex(ciphertext)).toBe('497df3d072612cb5');
+    expect(bytesToHex(cipher.decryptBlock(ciphertext))).toBe('4142434445464748');
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { X25519Engine } from '@/crypto/engines/x25519';
+import { bytesToHex, hexToBytes } from '@/lib/crypto-utils';
+
+// RFC 7748 section 6.1
+const ALICE_PRIVATE = '77076d0a7318a57d3c16c17251b26645df4c2f87ebc0992ab177fba51db92c2a';
+const ALICE_PUBLIC = '8520f0098930a754748b7ddcb43ef75a0dbf3a0d26381af4eba4a98eaa9b4e6a';
+const BOB_PRIVATE = '5dab087e624a8a4b79e17f8b83800ee66f3bb1292618b6fd1c2f8b27ff88e0eb';
+const BOB_PUBLIC = 'de9edb7d7b7dc1b4d35b61c2ece435373f8343c85b78674dadfc7e146f882b4f';
+const SHARED_SECRET = '4a5d9d5ba4ce2de1728e3bf480350f25e07e21c947d19e3376f09b3c1e161742';
+
+// The crypto_box test of NaCl (tests/box.c), with Alice's key pair standing in for the ephemeral one
+const BOX_NONCE = '69696ee955b62b73cd62bda875fc73d68219e0036b7a0b37';
+const BOX_MESSAGE =
+  'be075fc53c81f2d5cf141316ebeb0c7b5228c52a4c62cbd44b66849b64244ffce5ecbaaf33bd751a1ac728d45e6c61296cdc3c01233561f41db66cce314adb310e' +
+  '3be8250c46f06dceea3a7fa1348057e2f6556ad6b1318a024a838f21af1fde048977eb48f59ffd4924ca1c60902e52f0a089bc76897040e082f937763848645e0705';
+const BOX_TAG = 'f3ffc7703f9400e52a7dfb4b3d3305d9';
+const BOX_BODY =
+  '8e993b9f48681273c29650ba32fc76ce48332ea7164d96a4476fb8c531a1186ac0dfc17c98dce87b4da7f011ec48c97271d2c20f9b928fe2270d6fb863d51738' +
+  'b48eeee314a7cc8ab932164548e526ae90224368517acfeabd6bb3732bc0e9da99832b61ca01b6de56244a9e88d5f9b37973f622a43d14a6599b1f654cb45a74e355a5';
+
+// tests/secretbox.c of NaCl seals the same message under crypto_box's first key,
+// HSalsa20(X25519(Alice, Bob)), and gives the same ciphertext
+const SECRETBOX_KEY = '1b27556473e985d462cd51197a9a46c76009549eac6474f206c4ee0844f68389';
+
+describe('X25519Engine', () => {
+  const engine = new X25519Engine();
+
+  // RFC 7748 section 5.2: scalars and u-coordinates that exercise clamping and the masked top bit
+  test.each([
+    ['a546e36bf0527c9d3b16154b82465edd62144c0ac1fc5a18506a2244ba449ac4',
+      'e6db6867583030db3594c1a424b15f7c726624ec26b3353b10a903a6d0ab1c4c',
+      'c3da55379de9c6908e94ea4df28d084f32eccf03491c71f754b4075577a28552'],
+    ['4b66e9d4d1b4673c5ad22691957d6af5c11b6421e0ea01d42ca4169e7918ba0d',
+      'e5210f12786811d3f4b7959d0538ae2c31dbe7106fc03c3efc4cd549c715a493',
+      '95cbde9476e8907d7aade45cb4b873f88b595a68799fa152e6f8f7647aac7957']
+  ])('RFC 7748 X25519(%s, …)', async (privateKey, publicKey, expected) => {
+    const shared = await engine.deriveSharedSecret({ privateKey, publicKey });
+    expect(bytesToHex(shared.result!)).toBe(expected);
+  });
+
+  test('RFC 7748 Diffie-Hellman: both sides derive the same secret', async () => {
+    const alice = await engine.deriveSharedSecret({ privateKey: ALICE_PRIVATE, publicKey: BOB_PUBLIC });
+    const bob = await engine.deriveSharedSecret({ privateKey: BOB_PRIVATE, publicKey: ALICE_PUBLIC });
+    expect(bytesToHex(alice.result!)).toBe(SHARED_SECRET);
+    expect(bytesToHex(bob.result!)).toBe(SHARED_SECRET);
+  });
+
+  test('rejects a low-order public key', async () => {
+    const shared = await engine.deriveSharedSecret({ privateKey: ALICE_PRIVATE, publicKey: '00'.repeat(32) });
+    expect(shared.success).toBe(false);
+    expect(shared.error).toContain('low-order');
+
+    const encrypted = await engine.encrypt({ plaintext: 'x', key: '01' + '00'.repeat(31) });
+    expect(encrypted.success).toBe(false);
+  });
+
+  test('opens the NaCl crypto_box vector', async () => {
+    const ciphertext = ALICE_PUBLIC + BOX_BODY + BOX_TAG;
+    const decrypted = await engine.decryptBytes({ ciphertext: hexToBytes(ciphertext), key: BOB_PRIVATE, nonce: BOX_NONCE });
+    expect(bytesToHex(decrypted.result!)).toBe(BOX_MESSAGE);
+
+    // The same box with its tag carried separately, as it is in an envelope
+    const detached = await engine.decryptBytes({
+      ciphertext: hexToBytes(ALICE_PUBLIC + BOX_BODY),
+      key: BOB_PRIVATE,
+      nonce: BOX_NONCE,
+      tag: BOX_TAG
+    });
+    expect(bytesToHex(detached.result!)).toBe(BOX_MESSAGE);
+
+    const tampered = await engine.decrypt({ ciphertext: ALICE_PUBLIC + BOX_BODY + 'f4' + BOX_TAG.slice(2), key: BOB_PRIVATE, nonce: BOX_NONCE });
+    expect(tampered.success).toBe(false);
+    expect(tampered.errorCode).toBe('AUTHENTICATION_FAILED');
+  });
+
+  test('round-trips with a generated key pair and a fresh ephemeral key per message', async () => {
+    const { publicKey, privateKey } = await engine.generateKeyPair();
+    const first = await engine.encrypt({ plaintext: 'NaCl box round trip', key: publicKey });
+    expect(first.success).toBe(true);
+    // Ephemeral public key, body and Poly1305 tag
+    expect(first.result!.length / 2).toBe(32 + 19 + 16);
+    expect(first.metadata?.nonce).toMatch(/^[0-9a-f]{48}$/);
+
+    const second = await engine.encrypt({ plaintext: 'NaCl box round trip', key: publicKey, nonce: first.metadata!.nonce });
+    expect(second.result!.slice(0, 64)).not.toBe(first.result!.slice(0, 64));
+
+    const decrypted = await engine.decrypt({ ciphertext: first.result!, key: privateKey, nonce: first.metadata!.nonce });
+    expect(decrypted.result).toBe('NaCl box round trip');
+
+    const wrongKey = await engine.decrypt({ ciphertext: first.result!, key: (await engine.generateKeyPair()).privateKey, nonce: first.metadata!.nonce });
+    expect(wrongKey.errorCode).toBe('AUTHENTICATION_FAILED');
+  });
+
+  test('requires a 24-byte nonce to decrypt', async () => {
+    const decrypted = await engine.decrypt({ ciphertext: ALICE_PUBLIC + BOX_BODY + BOX_TAG, key: BOB_PRIVATE });
+    expect(decrypted.success).toBe(false);
+    expect(decrypted.error).toContain('Nonce is required');
+
+    const shortNonce = await engine.decrypt({ ciphertext: ALICE_PUBLIC + BOX_BODY + BOX_TAG, key: BOB_PRIVATE, nonce: '00'.repeat(12) });
+    expect(shortNonce.error).toContain('24 bytes');
+  });
+
+  describe('box from a fixed sender', () => {
+    const variant = 'x25519-box';
+
+    // tests/box.c seals from Alice to Bob and tests/box2.c opens it with Bob's private key
+    test('seals and opens the NaCl crypto_box vector', async () => {
+      const sealed = await engine.encryptBytes({
+        plaintext: hexToBytes(BOX_MESSAGE),
+        key: ALICE_PRIVATE + BOB_PUBLIC,
+        nonce: BOX_NONCE,
+        variant
+      });
+      expect(bytesToHex(sealed.result!)).toBe(BOX_BODY + BOX_TAG);
+      expect(sealed.metadata?.tag).toBe(BOX_TAG);
+
+      const opened = await engine.decryptBytes({
+        ciphertext: hexToBytes(BOX_BODY + BOX_TAG),
+        key: BOB_PRIVATE + ALICE_PUBLIC,
+        nonce: BOX_NONCE,
+        variant
+      });
+      expect(bytesToHex(opened.result!)).toBe(BOX_MESSAGE);
+    });
+
+    test('authenticates the sender', async () => {
+      const mallory = await engine.generateKeyPair();
+      const forged = await engine.decrypt({ ciphertext: BOX_BODY + BOX_TAG, key: BOB_PRIVATE + mallory.publicKey, nonce: BOX_NONCE, variant });
+      expect(forged.errorCode).toBe('AUTHENTICATION_FAILED');
+
+      const recipientOnly = await engine.encrypt({ plaintext: 'x', key: BOB_PUBLIC, variant });
+      expect(recipientOnly.error).toContain('followed by the peer\'s public key');
+    });
+
+    test('accepts its 64-byte key only when validated at the variant key size', () => {
+      const keySize = engine.metadata.variants.find(v => v.id === variant)!.keySize;
+      expect(engine.validateKey(ALICE_PRIVATE + BOB_PUBLIC, keySize)).toBe(true);
+      expect(engine.validateKey(ALICE_PRIVATE + BOB_PUBLIC)).toBe(false);
+      expect(engine.validateKey(ALICE_PRIVATE)).toBe(true);
+      expect(engine.validateKey(ALICE_PRIVATE, 48)).toBe(false);
+    });
+  });
+
+  describe('secretbox', () => {
+    const variant = 'secretbox';
+
+    test('seals and opens the NaCl crypto_secretbox vector', async () => {
+      const sealed = await engine.encryptBytes({ plaintext: hexToBytes(BOX_MESSAGE), key: SECRETBOX_KEY, nonce: BOX_NONCE, variant });
+      expect(bytesToHex(sealed.result!)).toBe(BOX_BODY + BOX_TAG);
+
+      const opened = await engine.decryptBytes({ ciphertext: hexToBytes(BOX_BODY), key: SECRETBOX_KEY, nonce: BOX_NONCE, tag: BOX_TAG, variant });
+      expect(bytesToHex(opened.result!)).toBe(BOX_MESSAGE);
+
+      const tampered = await engine.decrypt({ ciphertext: BOX_BODY + BOX_TAG, key: 'ff'.repeat(32), nonce: BOX_NONCE, variant });
+      expect(tampered.errorCode).toBe('AUTHENTICATION_FAILED');
+    });
+
+    test('round-trips under a generated shared key, which has no key pair', async () => {
+      const key = await engine.generateKey();
+      const sealed = await engine.encrypt({ plaintext: 'shared secret', key, variant });
+      expect(sealed.result!.length / 2).toBe(13 + 16);
+      const opened = await engine.decrypt({ ciphertext: sealed.result!, key, nonce: sealed.metadata!.nonce, variant });
+      expect(opened.result).toBe('shared secret');
+
+      await expect(engine.generateKeyPair(variant)).rejects.toThrow('shared 32-byte key');
+    });
+  });
+});
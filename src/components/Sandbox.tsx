@@ -1,63 +1,233 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { CipherMetadata, SandboxState, CryptoOperation, CipherMode } from '@/types/crypto';
+import { CipherMetadata, SandboxState, SandboxOperation, CryptoOperation, CipherMode, PaddingScheme, HashAlgorithm, SignatureScheme, DataFormat, EnvelopeEncoding, KdfAlgorithm, KdfParams } from '@/types/crypto';
 import CipherRegistry from '@/crypto/registry';
+import { PADDED_MODES } from '@/crypto/modes/block-modes';
+import { PADDING_LABELS } from '@/crypto/modes/padding';
+import { createEnvelope, serializeEnvelope, parseEnvelope } from '@/crypto/envelope';
+import { decodeData, encodeData, detectDataFormat, convertFormat, deriveKeyFromPassphrase, generateRandomHex, hexToBytes, isValidHex, KDF_ALGORITHMS, HASH_SIZES } from '@/lib/crypto-utils';
 import { Copy, Key, Shuffle, AlertCircle, CheckCircle, XCircle } from 'lucide-react';
 
+const AEAD_MODES: CipherMode[] = ['GCM', 'CCM', 'SIV', 'OCB'];
+// Modes that remain usable without an IV (deterministic AES-SIV)
+const OPTIONAL_IV_MODES: CipherMode[] = ['SIV'];
+
+const FORMAT_LABELS: Record<DataFormat, string> = {
+  text: 'Text',
+  hex: 'Hex',
+  base64: 'Base64'
+};
+const PLAINTEXT_FORMATS: DataFormat[] = ['text', 'hex', 'base64'];
+// Ciphertext is binary, so it is only ever shown encoded
+const CIPHERTEXT_FORMATS: DataFormat[] = ['hex', 'base64'];
+
+const KDF_LABELS: Record<KdfAlgorithm, string> = {
+  'PBKDF2-SHA1': 'PBKDF2-HMAC-SHA1',
+  'PBKDF2-SHA256': 'PBKDF2-HMAC-SHA256',
+  'PBKDF2-SHA512': 'PBKDF2-HMAC-SHA512'
+};
+const SALT_SIZE = 16;
+
+const SIGNATURE_SCHEME_LABELS: Record<SignatureScheme, string> = {
+  PSS: 'RSASSA-PSS',
+  PKCS1: 'RSASSA-PKCS1-v1_5'
+};
+
+const OPERATION_LABELS: Record<SandboxOperation, string> = {
+  encrypt: 'Encrypt',
+  decrypt: 'Decrypt',
+  sign: 'Sign',
+  verify: 'Verify'
+};
+
+// SIV authenticates a vector of associated data strings, entered one per line
+function splitAdditionalData(additionalData: string): string[] {
+  return additionalData.split('\n').filter(line => line.length > 0);
+}
+
+// Attach the KDF settings to a result so the key can be re-derived for decryption
+function recordKdf<T>(operation: CryptoOperation<T>, salt: string, kdf?: KdfParams): CryptoOperation<T> {
+  return kdf && operation.metadata ? { ...operation, metadata: { ...operation.metadata, salt, kdf } } : operation;
+}
+
 interface SandboxProps {
   cipherMetadata: CipherMetadata;
 }
 
 export default function Sandbox({ cipherMetadata }: SandboxProps) {
   const [state, setState] = useState<SandboxState>({
-    mode: 'encrypt',
+    mode: cipherMetadata.signatureOnly ? 'sign' : 'encrypt',
     plaintext: '',
     ciphertext: '',
     key: '',
+    publicKey: '',
+    privateKey: '',
     iv: '',
     nonce: '',
     selectedMode: cipherMetadata.modes?.[0] || 'CBC',
     selectedVariant: cipherMetadata.variants[0]?.id || '',
     additionalData: '',
+    tagLength: 16,
+    padding: 'PKCS7',
+    oaepHash: 'SHA-256',
+    mgf1Hash: 'SHA-256',
+    oaepLabel: '',
+    keyMode: 'raw',
+    passphrase: '',
+    kdfAlgorithm: 'PBKDF2-SHA256',
     salt: '',
     iterations: 10000,
+    signature: '',
+    signatureContext: '',
+    deterministic: false,
+    signatureScheme: cipherMetadata.signatureSchemes?.[0] || 'PSS',
+    signatureHash: 'SHA-256',
+    saltLength: HASH_SIZES['SHA-256'],
     inputFormat: 'text',
     outputFormat: 'hex',
+    envelope: '',
+    envelopeEncoding: 'json',
     isProcessing: false
   });
 
   const [result, setResult] = useState<CryptoOperation | null>(null);
   const [copyFeedback, setCopyFeedback] = useState<{ [key: string]: boolean }>({});
+  // Wall-clock time of the last key pair generation, shown beside the button
+  const [keyPairElapsedMs, setKeyPairElapsedMs] = useState<number | null>(null);
 
   // Get cipher engine
   const engine = CipherRegistry.getEngine(cipherMetadata.id);
+  // Signing hides the encryption-only controls: cipher mode, padding, OAEP, AAD and the envelope
+  const signing = state.mode === 'sign' || state.mode === 'verify';
+
+  // Authenticated modes and variants bind the additional data into the tag
+  const isAEAD = AEAD_MODES.includes(state.selectedMode) ||
+    !!cipherMetadata.variants.find(v => v.id === state.selectedVariant)?.aead;
+  const tagSizes = cipherMetadata.tagSizesByMode?.[state.selectedMode];
+  const ivSize = cipherMetadata.ivSizeByMode?.[state.selectedMode] ?? cipherMetadata.ivSize;
+  const nonceSize = cipherMetadata.nonceSizeByVariant?.[state.selectedVariant] ?? cipherMetadata.nonceSize;
+  const paddingSchemes = PADDED_MODES.includes(state.selectedMode) ? cipherMetadata.paddingSchemes : undefined;
+  const ivOptional = OPTIONAL_IV_MODES.includes(state.selectedMode);
+  const oaepHashes = state.selectedMode === 'OAEP' && !signing ? cipherMetadata.oaepHashes : undefined;
+  const oaepParams = oaepHashes && { oaepHash: state.oaepHash, mgf1Hash: state.mgf1Hash, oaepLabel: state.oaepLabel || undefined };
+  // Engines with a choice of signature padding take the scheme and hash, and a salt length for PSS
+  const signatureSchemes = signing ? cipherMetadata.signatureSchemes : undefined;
+  const usesSaltLength = !!signatureSchemes && state.signatureScheme === 'PSS';
+  const signatureParams = signatureSchemes && {
+    scheme: state.signatureScheme,
+    hash: state.signatureHash,
+    saltLength: usesSaltLength ? state.saltLength : undefined
+  };
+  const contextParams = cipherMetadata.signatureContext
+    ? { context: state.signatureContext || undefined, deterministic: state.deterministic }
+    : undefined;
+  const keyMultiplier = cipherMetadata.keyMultiplierByMode?.[state.selectedMode] ?? 1;
+  const expectedKeySize =
+    (cipherMetadata.variants.find(v => v.id === state.selectedVariant)?.keySize || cipherMetadata.keyRequirements.maxKeySize) *
+    keyMultiplier;
+  const variantKeyUsage = cipherMetadata.variants.find(v => v.id === state.selectedVariant)?.keyUsage;
+  // Public-key engines take the recipient's public key to encrypt and the private key to decrypt;
+  // their shared-key variants use the raw key field instead
+  const usesKeyPair = !!engine?.generateKeyPair && variantKeyUsage !== 'shared';
+  // Signature engines sign with the private key and verify with the public key; the plaintext field holds the message
+  const canSign = !!engine?.sign;
+  const operations: SandboxOperation[] = [
+    ...(cipherMetadata.signatureOnly ? [] : ['encrypt', 'decrypt'] as const),
+    ...(canSign ? ['sign', 'verify'] as const : [])
+  ];
+  // The key pair fields an operation reads, labelled for validation; a fixed-sender box reads the
+  // caller's private key followed by the peer's public key for both operations
+  const keyPairFields = (operation: SandboxOperation, keyUsage = variantKeyUsage): [string, string][] => {
+    if (keyUsage === 'own-and-peer') {
+      return [['Private key', state.privateKey.trim()], ['Peer\'s public key', state.publicKey.trim()]];
+    }
+    return operation === 'encrypt' || operation === 'verify'
+      ? [['Public key', state.publicKey.trim()]]
+      : [['Private key', state.privateKey.trim()]];
+  };
+  const keyPairKey = (operation: SandboxOperation, keyUsage = variantKeyUsage) =>
+    keyPairFields(operation, keyUsage).map(([, key]) => key).join('');
+  const keyPairLabels: ['publicKey' | 'privateKey', string, string][] = variantKeyUsage === 'own-and-peer'
+    ? [['privateKey', 'Private Key', 'encrypt and decrypt'], ['publicKey', 'Peer\'s Public Key', 'encrypt and decrypt']]
+    : [['publicKey', 'Public Key', signing ? 'verify' : 'encrypt'], ['privateKey', 'Private Key', signing ? 'sign' : 'decrypt']];
+  const hasKeyMaterial = (operation: SandboxOperation) => {
+    if (usesKeyPair) {
+      return keyPairFields(operation).every(([, key]) => !!key);
+    }
+    return state.keyMode === 'passphrase' ? !!state.passphrase : !!state.key;
+  };
+  const additionalDataComponents = state.selectedMode === 'SIV' ? splitAdditionalData(state.additionalData) : undefined;
 
   // Handle input changes
   const updateState = (updates: Partial<SandboxState>) => {
     setState(prev => ({ ...prev, ...updates }));
   };
 
+  // Switching a field's format re-encodes its contents; input that cannot be converted is left as typed
+  const changePlaintextFormat = (format: DataFormat) => {
+    let plaintext = state.plaintext;
+    try {
+      plaintext = convertFormat(plaintext, state.inputFormat, format);
+    } catch {
+      // Keep the original input
+    }
+    updateState({ plaintext, inputFormat: format });
+  };
+
+  const changeCiphertextFormat = (format: DataFormat) => {
+    const reencode = (value: string) => {
+      try {
+        return convertFormat(value, state.outputFormat, format);
+      } catch {
+        // Keep the original input
+        return value;
+      }
+    };
+    updateState({ ciphertext: reencode(state.ciphertext), signature: reencode(state.signature), outputFormat: format });
+  };
+
+  // Suggest a different format when the field's contents look like hex or base64
+  const formatHint = (value: string, format: DataFormat): DataFormat | undefined => {
+    const detected = detectDataFormat(value);
+    return detected !== 'text' && detected !== format ? detected : undefined;
+  };
+  const plaintextHint = formatHint(state.plaintext, state.inputFormat);
+  const ciphertextHint = formatHint(state.ciphertext, state.outputFormat);
+  const signatureHint = formatHint(state.signature, state.outputFormat);
+
   // Generate secure random key
   const generateKey = async () => {
     if (!engine) return;
     
     try {
-      const variant = cipherMetadata.variants.find(v => v.id === state.selectedVariant);
-      const keySize = variant?.keySize || cipherMetadata.keyRequirements.maxKeySize;
-      const newKey = await engine.generateKey(keySize);
+      const newKey = await engine.generateKey(expectedKeySize);
       updateState({ key: newKey });
     } catch (error) {
       console.error('Key generation failed:', error);
     }
   };
 
+  // Generate a key pair for the selected variant
+  const generateKeyPair = async () => {
+    if (!engine || !engine.generateKeyPair) return;
+
+    try {
+      const started = performance.now();
+      const { publicKey, privateKey } = await engine.generateKeyPair(state.selectedVariant);
+      setKeyPairElapsedMs(performance.now() - started);
+      updateState({ publicKey, privateKey });
+    } catch (error) {
+      console.error('Key pair generation failed:', error);
+    }
+  };
+
   // Generate IV
   const generateIV = async () => {
     if (!engine || !engine.generateIV) return;
     
     try {
-      const newIV = await engine.generateIV();
+      const newIV = await engine.generateIV(ivSize);
       updateState({ iv: newIV });
     } catch (error) {
       console.error('IV generation failed:', error);
@@ -69,17 +239,42 @@ export default function Sandbox({ cipherMetadata }: SandboxProps) {
     if (!engine || !engine.generateNonce) return;
     
     try {
-      const newNonce = await engine.generateNonce();
+      const newNonce = await engine.generateNonce(nonceSize);
       updateState({ nonce: newNonce });
     } catch (error) {
       console.error('Nonce generation failed:', error);
     }
   };
+  // Generate salt
+  const generateSalt = () => {
+    updateState({ salt: generateRandomHex(SALT_SIZE), key: '' });
+  };
+
+  // Changing any KDF input invalidates the displayed derived key
+  const updateKdf = (updates: Partial<SandboxState>) => {
+    updateState({ ...updates, key: '' });
+  };
+
+  // In passphrase mode the key is derived on demand and shown in place of the raw key
+  const resolveKey = async (operation: SandboxOperation, salt: string, kdf?: KdfParams): Promise<{ key: string; kdf?: KdfParams }> => {
+    if (usesKeyPair) {
+      return { key: keyPairKey(operation) };
+    }
+    if (state.keyMode === 'raw') {
+      return { key: state.key.replace(/\s/g, '') };
+    }
+
+    const params = kdf ?? { algorithm: state.kdfAlgorithm, iterations: state.iterations, keyLength: expectedKeySize };
+    const key = await deriveKeyFromPassphrase(state.passphrase, hexToBytes(salt), params.iterations, params.keyLength, params.algorithm);
+    updateState({ key, salt, kdfAlgorithm: params.algorithm, iterations: params.iterations });
+    return { key, kdf: params };
+  };
+
   // Perform encryption
   const encrypt = async () => {
     if (!engine) return;
     
-    const validation = validateInputs();
+    const validation = validateInputs('encrypt');
     if (!validation.isValid) {
       setResult({
         success: false,
@@ -92,19 +287,34 @@ export default function Sandbox({ cipherMetadata }: SandboxProps) {
     setResult(null);
     
     try {
-      const result = await engine.encrypt({
-        plaintext: state.plaintext,
-        key: state.key,
+      // Passphrase mode generates a fresh salt unless one was entered
+      const salt = state.keyMode === 'passphrase' ? state.salt.replace(/\s/g, '') || generateRandomHex(SALT_SIZE) : '';
+      const { key, kdf } = await resolveKey('encrypt', salt);
+
+      const operation = recordKdf(await engine.encryptBytes({
+        plaintext: decodeData(state.plaintext, state.inputFormat),
+        key,
         iv: state.iv || undefined,
         nonce: state.nonce || undefined,
         mode: state.selectedMode,
         variant: state.selectedVariant,
-        additionalData: state.additionalData || undefined
-      });
+        additionalData: state.additionalData || undefined,
+        additionalDataComponents,
+        tagLength: tagSizes ? state.tagLength : undefined,
+        padding: paddingSchemes ? state.padding : undefined,
+        ...oaepParams
+      }), salt, kdf);
       
-      setResult(result);
-      if (result.success && result.result) {
-        updateState({ ciphertext: result.result });
+      const ciphertext = operation.result && encodeData(operation.result, state.outputFormat);
+      setResult({ ...operation, result: ciphertext });
+      if (operation.success && ciphertext !== undefined) {
+        const envelope = createEnvelope(cipherMetadata.id, operation, {
+          additionalData: isAEAD ? state.additionalData || undefined : undefined,
+          additionalDataComponents: isAEAD ? additionalDataComponents : undefined,
+          salt: kdf && salt,
+          kdf
+        });
+        updateState({ ciphertext, envelope: serializeEnvelope(envelope, state.envelopeEncoding) });
       }
     } catch (error) {
       setResult({
@@ -115,11 +325,31 @@ export default function Sandbox({ cipherMetadata }: SandboxProps) {
       updateState({ isProcessing: false });
     }
   };
+  // Display a decryption result in the plaintext field
+  const showPlaintext = (operation: CryptoOperation<Uint8Array>) => {
+    if (!operation.success || !operation.result) {
+      setResult({ ...operation, result: undefined });
+      return;
+    }
+
+    // Binary plaintexts cannot be shown as text, so fall back to hex rather than failing
+    let format = state.inputFormat;
+    let plaintext: string;
+    try {
+      plaintext = encodeData(operation.result, format);
+    } catch {
+      format = 'hex';
+      plaintext = encodeData(operation.result, format);
+    }
+    setResult({ ...operation, result: plaintext });
+    updateState({ plaintext, inputFormat: format });
+  };
+
   // Perform decryption
   const decrypt = async () => {
     if (!engine) return;
     
-    const validation = validateInputs();
+    const validation = validateInputs('decrypt');
     if (!validation.isValid) {
       setResult({
         success: false,
@@ -132,20 +362,24 @@ export default function Sandbox({ cipherMetadata }: SandboxProps) {
     setResult(null);
     
     try {
-      const result = await engine.decrypt({
-        ciphertext: state.ciphertext,
-        key: state.key,
+      const salt = state.salt.replace(/\s/g, '');
+      const { key, kdf } = await resolveKey('decrypt', salt);
+
+      const operation = recordKdf(await engine.decryptBytes({
+        ciphertext: decodeData(state.ciphertext, state.outputFormat),
+        key,
         iv: state.iv || undefined,
         nonce: state.nonce || undefined,
         mode: state.selectedMode,
         variant: state.selectedVariant,
-        additionalData: state.additionalData || undefined
-      });
+        additionalData: state.additionalData || undefined,
+        additionalDataComponents,
+        tagLength: tagSizes ? state.tagLength : undefined,
+        padding: paddingSchemes ? state.padding : undefined,
+        ...oaepParams
+      }), salt, kdf);
       
-      setResult(result);
-      if (result.success && result.result) {
-        updateState({ plaintext: result.result });
-      }
+      showPlaintext(operation);
     } catch (error) {
       setResult({
         success: false,
@@ -155,25 +389,213 @@ export default function Sandbox({ cipherMetadata }: SandboxProps) {
       updateState({ isProcessing: false });
     }
   };
+  // Sign the message with the private key, recording how long signing took
+  const sign = async () => {
+    if (!engine || !engine.sign) return;
+
+    const validation = validateInputs('sign');
+    if (!validation.isValid) {
+      setResult({
+        success: false,
+        error: `Validation failed: ${validation.errors.join(', ')}`
+      });
+      return;
+    }
+
+    updateState({ isProcessing: true });
+    setResult(null);
+
+    try {
+      const started = performance.now();
+      const operation = await engine.sign({
+        message: decodeData(state.plaintext, state.inputFormat),
+        key: keyPairKey('sign'),
+        variant: state.selectedVariant,
+        ...contextParams,
+        ...signatureParams
+      });
+      const elapsedMs = performance.now() - started;
+
+      const signature = operation.result && encodeData(operation.result, state.outputFormat);
+      setResult({ ...operation, result: signature, metadata: operation.metadata && { ...operation.metadata, elapsedMs } });
+      if (operation.success && signature !== undefined) {
+        updateState({ signature });
+      }
+    } catch (error) {
+      setResult({
+        success: false,
+        error: `Signing failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    } finally {
+      updateState({ isProcessing: false });
+    }
+  };
+
+  // Check the signature against the message with the public key
+  const verify = async () => {
+    if (!engine || !engine.verify) return;
+
+    const validation = validateInputs('verify');
+    if (!validation.isValid) {
+      setResult({
+        success: false,
+        error: `Validation failed: ${validation.errors.join(', ')}`
+      });
+      return;
+    }
+
+    updateState({ isProcessing: true });
+    setResult(null);
+
+    try {
+      const started = performance.now();
+      const operation = await engine.verify({
+        message: decodeData(state.plaintext, state.inputFormat),
+        signature: decodeData(state.signature, state.outputFormat),
+        key: keyPairKey('verify'),
+        variant: state.selectedVariant,
+        context: contextParams?.context,
+        ...signatureParams
+      });
+      const metadata = operation.metadata && { ...operation.metadata, elapsedMs: performance.now() - started };
+
+      // A well-formed but wrong signature is reported as a failure rather than a successful "false"
+      setResult(operation.success && !operation.result
+        ? { success: false, error: 'Signature is not valid for this message, public key and context', metadata }
+        : { ...operation, result: undefined, metadata });
+    } catch (error) {
+      setResult({
+        success: false,
+        error: `Verification failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    } finally {
+      updateState({ isProcessing: false });
+    }
+  };
+
+  // Decrypt a pasted envelope; its cipher, mode, IV, tag and any KDF settings come from the envelope itself
+  const openEnvelope = async () => {
+    updateState({ isProcessing: true });
+    setResult(null);
+
+    try {
+      // Go by the envelope rather than the current selections, which may have changed since encrypting
+      const parsed = parseEnvelope(state.envelope);
+      const envelopeEngine = CipherRegistry.getEngine(parsed.cipher);
+      const keyUsage = envelopeEngine?.metadata.variants.find(v => v.id === parsed.variant)?.keyUsage;
+      let key: string;
+      if (envelopeEngine?.generateKeyPair && keyUsage !== 'shared') {
+        key = keyPairKey('decrypt', keyUsage);
+      } else if (state.keyMode === 'passphrase') {
+        if (!parsed.kdf || !parsed.salt) {
+          throw new Error('The envelope records no KDF parameters; open it with a raw key instead');
+        }
+        key = (await resolveKey('decrypt', parsed.salt, parsed.kdf)).key;
+      } else {
+        key = state.key.replace(/\s/g, '');
+      }
+
+      // Associated data is only sent when the envelope recorded a hash of it
+      const additionalData = parsed.aadHash ? state.additionalData : '';
+      const operation = await CipherRegistry.openEnvelope(state.envelope, key, {
+        additionalData: additionalData || undefined,
+        additionalDataComponents: parsed.aadHash && parsed.mode === 'SIV' ? splitAdditionalData(additionalData) : undefined,
+        oaepLabel: state.oaepLabel || undefined
+      });
+      showPlaintext(operation);
+    } catch (error) {
+      setResult({
+        success: false,
+        error: `Cannot open envelope: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    } finally {
+      updateState({ isProcessing: false });
+    }
+  };
+
+  // Re-encode the envelope when switching between JSON and compact
+  const changeEnvelopeEncoding = (encoding: EnvelopeEncoding) => {
+    let envelope = state.envelope;
+    try {
+      envelope = envelope && serializeEnvelope(parseEnvelope(envelope), encoding);
+    } catch {
+      // Keep the original input
+    }
+    updateState({ envelope, envelopeEncoding: encoding });
+  };
+
   // Input validation
-  const validateInputs = (): { isValid: boolean; errors: string[] } => {
+  const validateInputs = (operation: SandboxOperation = state.mode): { isValid: boolean; errors: string[] } => {
     const errors: string[] = [];
     
-    if (state.mode === 'encrypt') {
+    if (operation === 'sign' || operation === 'verify') {
+      if (!state.plaintext) {
+        errors.push('Message is required');
+      } else if (state.inputFormat !== 'text') {
+        try {
+          decodeData(state.plaintext, state.inputFormat);
+        } catch (error) {
+          errors.push(`Message: ${error instanceof Error ? error.message : 'invalid encoding'}`);
+        }
+      }
+      if (usesSaltLength && (!Number.isInteger(state.saltLength) || state.saltLength < 0)) {
+        errors.push('Salt length must be a whole number of bytes');
+      }
+      if (operation === 'verify') {
+        if (!state.signature.trim()) {
+          errors.push('Signature is required for verification');
+        } else {
+          try {
+            decodeData(state.signature, state.outputFormat);
+          } catch (error) {
+            errors.push(`Signature: ${error instanceof Error ? error.message : 'invalid encoding'}`);
+          }
+        }
+      }
+    } else if (operation === 'encrypt') {
       if (!state.plaintext.trim()) {
         errors.push('Plaintext is required for encryption');
+      } else if (state.inputFormat !== 'text') {
+        try {
+          decodeData(state.plaintext, state.inputFormat);
+        } catch (error) {
+          errors.push(`Plaintext: ${error instanceof Error ? error.message : 'invalid encoding'}`);
+        }
       }
     } else {
       if (!state.ciphertext.trim()) {
         errors.push('Ciphertext is required for decryption');
-      }
-      // Validate hex format for ciphertext
-      if (state.ciphertext && !/^[0-9a-fA-F]*$/.test(state.ciphertext.replace(/\s/g, ''))) {
-        errors.push('Ciphertext must be in hexadecimal format');
+      } else {
+        try {
+          decodeData(state.ciphertext, state.outputFormat);
+        } catch (error) {
+          errors.push(`Ciphertext: ${error instanceof Error ? error.message : 'invalid encoding'}`);
+        }
       }
     }
     
-    if (!state.key.trim()) {
+    if (usesKeyPair) {
+      for (const [label, key] of keyPairFields(operation)) {
+        if (!key) {
+          errors.push(`${label} is required`);
+        } else if (!engine?.validateKey(key)) {
+          errors.push(`${label} is not in a format this cipher accepts`);
+        }
+      }
+    } else if (state.keyMode === 'passphrase') {
+      if (!state.passphrase) {
+        errors.push('Passphrase is required');
+      }
+      if (!Number.isInteger(state.iterations) || state.iterations < 1) {
+        errors.push('Iterations must be a positive whole number');
+      }
+      const salt = state.salt.replace(/\s/g, '');
+      if (operation === 'decrypt' && !salt) {
+        errors.push('Salt is required to re-derive the key for decryption');
+      } else if (!/^[0-9a-fA-F]*$/.test(salt) || salt.length % 2 !== 0) {
+        errors.push('Salt must be in hexadecimal format');
+      }
+    } else if (!state.key.trim()) {
       errors.push('Key is required');
     } else {
       // Validate hex format for key
@@ -181,16 +603,14 @@ export default function Sandbox({ cipherMetadata }: SandboxProps) {
         errors.push('Key must be in hexadecimal format');
       } else {
         // Validate key length
-        const variant = cipherMetadata.variants.find(v => v.id === state.selectedVariant);
-        const expectedKeyBytes = variant?.keySize || cipherMetadata.keyRequirements.maxKeySize;
         const keyBytes = state.key.replace(/\s/g, '').length / 2;
-        if (keyBytes !== expectedKeyBytes) {
-          errors.push(`Key must be ${expectedKeyBytes} bytes (${expectedKeyBytes * 2} hex characters), got ${keyBytes} bytes`);
+        if (keyBytes !== expectedKeySize) {
+          errors.push(`Key must be ${expectedKeySize} bytes (${expectedKeySize * 2} hex characters), got ${keyBytes} bytes`);
         }
       }
     }
     
-    if (cipherMetadata.ivRequired && state.selectedMode !== 'ECB' && !state.iv.trim()) {
+    if (cipherMetadata.ivRequired && state.selectedMode !== 'ECB' && !ivOptional && !state.iv.trim()) {
       errors.push('IV is required for this cipher mode');
     } else if (state.iv && !/^[0-9a-fA-F]*$/.test(state.iv.replace(/\s/g, ''))) {
       errors.push('IV must be in hexadecimal format');
@@ -240,9 +660,17 @@ export default function Sandbox({ cipherMetadata }: SandboxProps) {
       plaintext: '',
       ciphertext: '',
       key: '',
+      publicKey: '',
+      privateKey: '',
       iv: '',
       nonce: '',
-      additionalData: ''
+      passphrase: '',
+      salt: '',
+      additionalData: '',
+      oaepLabel: '',
+      signature: '',
+      signatureContext: '',
+      envelope: ''
     }));
     setResult(null);
   };
@@ -270,18 +698,15 @@ export default function Sandbox({ cipherMetadata }: SandboxProps) {
               Operation Mode
             </label>
             <div className="flex gap-2">
-              <button
-                onClick={() => updateState({ mode: 'encrypt' })}
-                className={`btn ${state.mode === 'encrypt' ? 'btn-primary' : 'btn-secondary'}`}
-              >
-                Encrypt
-              </button>
-              <button
-                onClick={() => updateState({ mode: 'decrypt' })}
-                className={`btn ${state.mode === 'decrypt' ? 'btn-primary' : 'btn-secondary'}`}
-              >
-                Decrypt
-              </button>
+              {operations.map(operation => (
+                <button
+                  key={operation}
+                  onClick={() => updateState({ mode: operation })}
+                  className={`btn ${state.mode === operation ? 'btn-primary' : 'btn-secondary'}`}
+                >
+                  {OPERATION_LABELS[operation]}
+                </button>
+              ))}
             </div>
           </div>
 
@@ -307,7 +732,7 @@ export default function Sandbox({ cipherMetadata }: SandboxProps) {
         </div>
 
         {/* Mode Selection for Block Ciphers */}
-        {cipherMetadata.modes && cipherMetadata.modes.length > 1 && (
+        {cipherMetadata.modes && cipherMetadata.modes.length > 1 && !signing && (
           <div className="mb-4">
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Cipher Mode
@@ -326,48 +751,268 @@ export default function Sandbox({ cipherMetadata }: SandboxProps) {
           </div>
         )}
 
-        {/* Key Input */}
-        <div className="mb-4">
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Key (Hex)
-          </label>
-          <div className="flex gap-2">
-            <input
-              type="text"
-              value={state.key}
-              onChange={(e) => updateState({ key: e.target.value })}
-              placeholder={`Enter ${(cipherMetadata.variants.find(v => v.id === state.selectedVariant)?.keySize || 32) * 2} hex characters...`}
-              className="input flex-1 font-mono"
-            />
-            <button
-              onClick={generateKey}
-              className="btn btn-secondary"
-              title="Generate Random Key"
-            >
-              <Key className="w-4 h-4" />
-            </button>            <button
-              onClick={() => copyToClipboard(state.key, 'key')}
-              className="btn btn-secondary"
-              title="Copy Key"
-              disabled={!state.key}
+        {/* Padding Scheme */}
+        {paddingSchemes && !signing && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Padding
+            </label>
+            <select
+              value={state.padding}
+              onChange={(e) => updateState({ padding: e.target.value as PaddingScheme })}
+              className="select max-w-xs"
             >
-              {copyFeedback.key ? <CheckCircle className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
-            </button>
+              {paddingSchemes.map(scheme => (
+                <option key={scheme} value={scheme}>
+                  {PADDING_LABELS[scheme]}
+                </option>
+              ))}
+            </select>
           </div>
-        </div>
+        )}
+
+        {/* OAEP Parameters */}
+        {oaepHashes && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+              {([
+                ['oaepHash', 'OAEP Hash'],
+                ['mgf1Hash', 'MGF1 Hash']
+              ] as const).map(([field, label]) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {label}
+                  </label>
+                  <select
+                    value={state[field]}
+                    onChange={(e) => updateState({ [field]: e.target.value as HashAlgorithm })}
+                    className="select w-full"
+                  >
+                    {oaepHashes.map(hash => (
+                      <option key={hash} value={hash}>
+                        {hash}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                OAEP Label (Text) - optional
+              </label>
+              <input
+                type="text"
+                value={state.oaepLabel}
+                onChange={(e) => updateState({ oaepLabel: e.target.value })}
+                placeholder="Bound into the padding; decryption needs the same label..."
+                className="input w-full"
+              />
+            </div>
+          </>
+        )}
+
+        {usesKeyPair ? (
+          <>
+            {/* Key Pair */}
+            <div className="mb-4 flex items-center gap-3">
+              <button
+                onClick={generateKeyPair}
+                className="btn btn-secondary text-sm flex items-center gap-2"
+              >
+                <Key className="w-4 h-4" />
+                Generate Key Pair
+              </button>
+              {keyPairElapsedMs !== null && (
+                <span className="text-xs text-gray-500">Generated in {keyPairElapsedMs.toFixed(1)} ms</span>
+              )}
+            </div>
+
+            {keyPairLabels.map(([field, label, operation]) => (
+              <div key={field} className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {label} - used to {operation}
+                  {/* Hex keys show their size; PEM keys carry their own length */}
+                  {state[field] && isValidHex(state[field]) && ` (${state[field].length / 2} bytes)`}
+                </label>
+                <div className="flex gap-2">
+                  <textarea
+                    value={state[field]}
+                    onChange={(e) => updateState({ [field]: e.target.value })}
+                    placeholder={`Enter or generate the ${label.toLowerCase()}...`}
+                    className="textarea flex-1 h-20 font-mono text-sm"
+                  />
+                  <button
+                    onClick={() => copyToClipboard(state[field], field)}
+                    className="btn btn-secondary self-start"
+                    title={`Copy ${label}`}
+                    disabled={!state[field]}
+                  >
+                    {copyFeedback[field] ? <CheckCircle className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </>
+        ) : (
+          <>
+          {/* Key Source */}
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Key Source
+            </label>
+            <div className="flex gap-2">
+              <button
+                onClick={() => updateState({ keyMode: 'raw' })}
+                className={`btn ${state.keyMode === 'raw' ? 'btn-primary' : 'btn-secondary'}`}
+              >
+                Raw Key
+              </button>
+              <button
+                onClick={() => updateState({ keyMode: 'passphrase', key: '' })}
+                className={`btn ${state.keyMode === 'passphrase' ? 'btn-primary' : 'btn-secondary'}`}
+              >
+                Passphrase
+              </button>
+            </div>
+          </div>
+
+          {/* Passphrase and KDF Settings */}
+          {state.keyMode === 'passphrase' && (
+            <>
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Passphrase
+                </label>
+                <input
+                  type="password"
+                  value={state.passphrase}
+                  onChange={(e) => updateKdf({ passphrase: e.target.value })}
+                  placeholder="Enter a passphrase..."
+                  className="input w-full"
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Key Derivation Function
+                  </label>
+                  <select
+                    value={state.kdfAlgorithm}
+                    onChange={(e) => updateKdf({ kdfAlgorithm: e.target.value as KdfAlgorithm })}
+                    className="select w-full"
+                  >
+                    {KDF_ALGORITHMS.map(algorithm => (
+                      <option key={algorithm} value={algorithm}>
+                        {KDF_LABELS[algorithm]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Iterations
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={state.iterations}
+                    onChange={(e) => updateKdf({ iterations: Number(e.target.value) })}
+                    className="input w-full"
+                  />
+                </div>
+              </div>
+
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Salt (Hex){state.mode === 'encrypt' && ' - generated if empty'}
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={state.salt}
+                    onChange={(e) => updateKdf({ salt: e.target.value })}
+                    placeholder={`Enter ${SALT_SIZE * 2} hex characters...`}
+                    className="input flex-1 font-mono"
+                  />
+                  <button
+                    onClick={generateSalt}
+                    className="btn btn-secondary"
+                    title="Generate Random Salt"
+                  >
+                    <Shuffle className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => copyToClipboard(state.salt, 'salt')}
+                    className="btn btn-secondary"
+                    title="Copy Salt"
+                    disabled={!state.salt}
+                  >
+                    {copyFeedback.salt ? <CheckCircle className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Key Input */}
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {state.keyMode === 'passphrase' ? 'Derived Key (Hex)' : 'Key (Hex)'}
+            </label>
+            <div className="flex gap-2">
+              {state.keyMode === 'passphrase' ? (
+                <input
+                  type="text"
+                  value={state.key}
+                  readOnly
+                  placeholder="Derived when you encrypt or decrypt..."
+                  className="input flex-1 font-mono bg-gray-50"
+                />
+              ) : (
+                <>
+                  <input
+                    type="text"
+                    value={state.key}
+                    onChange={(e) => updateState({ key: e.target.value })}
+                    placeholder={`Enter ${expectedKeySize * 2} hex characters...`}
+                    className="input flex-1 font-mono"
+                  />
+                  <button
+                    onClick={generateKey}
+                    className="btn btn-secondary"
+                    title="Generate Random Key"
+                  >
+                    <Key className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+              <button
+                onClick={() => copyToClipboard(state.key, 'key')}
+                className="btn btn-secondary"
+                title="Copy Key"
+                disabled={!state.key}
+              >
+                {copyFeedback.key ? <CheckCircle className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+              </button>
+            </div>
+          </div>
+          </>
+        )}
 
         {/* IV Input */}
         {cipherMetadata.ivRequired && state.selectedMode !== 'ECB' && (
           <div className="mb-4">
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              IV (Hex)
+              IV (Hex){ivOptional && ' - optional'}
             </label>
             <div className="flex gap-2">
               <input
                 type="text"
                 value={state.iv}
                 onChange={(e) => updateState({ iv: e.target.value })}
-                placeholder={`Enter ${cipherMetadata.ivSize ? cipherMetadata.ivSize * 2 : 32} hex characters...`}
+                placeholder={`Enter ${ivSize ? ivSize * 2 : 32} hex characters...`}
                 className="input flex-1 font-mono"
               />
               <button
@@ -399,7 +1044,7 @@ export default function Sandbox({ cipherMetadata }: SandboxProps) {
                 type="text"
                 value={state.nonce}
                 onChange={(e) => updateState({ nonce: e.target.value })}
-                placeholder={`Enter ${cipherMetadata.nonceSize ? cipherMetadata.nonceSize * 2 : 24} hex characters...`}
+                placeholder={`Enter ${nonceSize ? nonceSize * 2 : 24} hex characters...`}
                 className="input flex-1 font-mono"
               />
               <button
@@ -419,6 +1064,135 @@ export default function Sandbox({ cipherMetadata }: SandboxProps) {
             </div>
           </div>
         )}
+
+        {/* Signature Scheme */}
+        {signatureSchemes && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Signature Scheme
+              </label>
+              <select
+                value={state.signatureScheme}
+                onChange={(e) => updateState({ signatureScheme: e.target.value as SignatureScheme })}
+                className="select w-full"
+              >
+                {signatureSchemes.map(scheme => (
+                  <option key={scheme} value={scheme}>
+                    {SIGNATURE_SCHEME_LABELS[scheme]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Hash
+              </label>
+              <select
+                value={state.signatureHash}
+                onChange={(e) => {
+                  // Keep the salt as long as the hash, the usual PSS choice
+                  const signatureHash = e.target.value as HashAlgorithm;
+                  updateState({ signatureHash, saltLength: HASH_SIZES[signatureHash] });
+                }}
+                className="select w-full"
+              >
+                {(cipherMetadata.signatureHashes ?? []).map(hash => (
+                  <option key={hash} value={hash}>
+                    {hash}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {usesSaltLength && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Salt Length (Bytes)
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  value={state.saltLength}
+                  onChange={(e) => updateState({ saltLength: Number(e.target.value) })}
+                  className="input w-full"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Signature Context and Randomness */}
+        {signing && cipherMetadata.signatureContext && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Context String (Text) - optional
+              </label>
+              <input
+                type="text"
+                value={state.signatureContext}
+                onChange={(e) => updateState({ signatureContext: e.target.value })}
+                placeholder="Bound into the signature; verification needs the same context..."
+                className="input w-full"
+              />
+            </div>
+            <div>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 md:mt-8">
+                <input
+                  type="checkbox"
+                  checked={state.deterministic}
+                  onChange={(e) => updateState({ deterministic: e.target.checked })}
+                />
+                Deterministic signing (no fresh randomness)
+              </label>
+            </div>
+          </div>
+        )}
+
+        {/* Additional Authenticated Data */}
+        {isAEAD && !signing && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Additional Authenticated Data (Text{additionalDataComponents && ', one component per line'})
+            </label>
+            {additionalDataComponents ? (
+              <textarea
+                value={state.additionalData}
+                onChange={(e) => updateState({ additionalData: e.target.value })}
+                placeholder="Each line is authenticated as a separate component..."
+                className="textarea w-full h-20"
+              />
+            ) : (
+              <input
+                type="text"
+                value={state.additionalData}
+                onChange={(e) => updateState({ additionalData: e.target.value })}
+                placeholder="Optional data that is authenticated but not encrypted..."
+                className="input w-full"
+              />
+            )}
+          </div>
+        )}
+
+        {/* Tag Length */}
+        {tagSizes && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Tag Length
+            </label>
+            <select
+              value={state.tagLength}
+              onChange={(e) => updateState({ tagLength: Number(e.target.value) })}
+              className="select max-w-xs"
+            >
+              {tagSizes.map(size => (
+                <option key={size} value={size}>
+                  {size * 8}-bit
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
       </div>
 
       {/* Input/Output */}
@@ -426,41 +1200,141 @@ export default function Sandbox({ cipherMetadata }: SandboxProps) {
         {/* Plaintext */}
         <div className="card">
           <div className="flex items-center justify-between mb-4">
-            <h4 className="font-medium">Plaintext</h4>            <button
-              onClick={() => copyToClipboard(state.plaintext, 'plaintext')}
-              className="btn btn-secondary btn-sm"
-              disabled={!state.plaintext}
-            >
-              {copyFeedback.plaintext ? <CheckCircle className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
-            </button>
+            <h4 className="font-medium">{signing ? 'Message' : 'Plaintext'}</h4>
+            <div className="flex gap-2">
+              <select
+                value={state.inputFormat}
+                onChange={(e) => changePlaintextFormat(e.target.value as DataFormat)}
+                className="select text-sm"
+                aria-label={signing ? 'Message format' : 'Plaintext format'}
+              >
+                {PLAINTEXT_FORMATS.map(format => (
+                  <option key={format} value={format}>
+                    {FORMAT_LABELS[format]}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => copyToClipboard(state.plaintext, 'plaintext')}
+                className="btn btn-secondary btn-sm"
+                disabled={!state.plaintext}
+              >
+                {copyFeedback.plaintext ? <CheckCircle className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+              </button>
+            </div>
           </div>
           <textarea
             value={state.plaintext}
             onChange={(e) => updateState({ plaintext: e.target.value })}
-            placeholder="Enter your message here..."
-            className="textarea w-full h-32"
+            placeholder={state.inputFormat === 'text' ? 'Enter your message here...' : `Enter ${FORMAT_LABELS[state.inputFormat].toLowerCase()} bytes...`}
+            className={`textarea w-full h-32 ${state.inputFormat !== 'text' ? 'font-mono' : ''}`}
           />
+          {plaintextHint && (
+            <div className="text-sm text-gray-600 mt-2">
+              This looks like {FORMAT_LABELS[plaintextHint]}.{' '}
+              <button onClick={() => updateState({ inputFormat: plaintextHint })} className="text-blue-600 underline">
+                Treat as {FORMAT_LABELS[plaintextHint]}
+              </button>
+            </div>
+          )}
+          <div className="mt-4">
+            {signing ? (
+              <button
+                onClick={sign}
+                disabled={!state.plaintext || !hasKeyMaterial('sign') || state.isProcessing}
+                className="btn btn-primary w-full"
+              >
+                {state.isProcessing ? 'Signing...' : 'Sign'}
+              </button>
+            ) : (
+              <button
+                onClick={encrypt}
+                disabled={!state.plaintext || !hasKeyMaterial('encrypt') || state.isProcessing}
+                className="btn btn-primary w-full"
+              >
+                {state.isProcessing ? 'Encrypting...' : 'Encrypt'}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {signing ? (
+        /* Signature */
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <h4 className="font-medium">Signature</h4>
+            <div className="flex gap-2">
+              <select
+                value={state.outputFormat}
+                onChange={(e) => changeCiphertextFormat(e.target.value as DataFormat)}
+                className="select text-sm"
+                aria-label="Signature format"
+              >
+                {CIPHERTEXT_FORMATS.map(format => (
+                  <option key={format} value={format}>
+                    {FORMAT_LABELS[format]}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => copyToClipboard(state.signature, 'signature')}
+                className="btn btn-secondary btn-sm"
+                disabled={!state.signature}
+              >
+                {copyFeedback.signature ? <CheckCircle className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+              </button>
+            </div>
+          </div>
+          <textarea
+            value={state.signature}
+            onChange={(e) => updateState({ signature: e.target.value })}
+            placeholder="Signature will appear here, or paste one to verify..."
+            className="textarea w-full h-32 font-mono"
+          />
+          {signatureHint && CIPHERTEXT_FORMATS.includes(signatureHint) && (
+            <div className="text-sm text-gray-600 mt-2">
+              This looks like {FORMAT_LABELS[signatureHint]}.{' '}
+              <button onClick={() => updateState({ outputFormat: signatureHint })} className="text-blue-600 underline">
+                Treat as {FORMAT_LABELS[signatureHint]}
+              </button>
+            </div>
+          )}
           <div className="mt-4">
             <button
-              onClick={encrypt}
-              disabled={!state.plaintext || !state.key || state.isProcessing}
+              onClick={verify}
+              disabled={!state.plaintext || !state.signature || !hasKeyMaterial('verify') || state.isProcessing}
               className="btn btn-primary w-full"
             >
-              {state.isProcessing ? 'Encrypting...' : 'Encrypt'}
+              {state.isProcessing ? 'Verifying...' : 'Verify'}
             </button>
           </div>
         </div>
-
-        {/* Ciphertext */}
+        ) : (
+        /* Ciphertext */
         <div className="card">
           <div className="flex items-center justify-between mb-4">
-            <h4 className="font-medium">Ciphertext (Hex)</h4>            <button
-              onClick={() => copyToClipboard(state.ciphertext, 'ciphertext')}
-              className="btn btn-secondary btn-sm"
-              disabled={!state.ciphertext}
-            >
-              {copyFeedback.ciphertext ? <CheckCircle className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
-            </button>
+            <h4 className="font-medium">Ciphertext</h4>
+            <div className="flex gap-2">
+              <select
+                value={state.outputFormat}
+                onChange={(e) => changeCiphertextFormat(e.target.value as DataFormat)}
+                className="select text-sm"
+                aria-label="Ciphertext format"
+              >
+                {CIPHERTEXT_FORMATS.map(format => (
+                  <option key={format} value={format}>
+                    {FORMAT_LABELS[format]}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => copyToClipboard(state.ciphertext, 'ciphertext')}
+                className="btn btn-secondary btn-sm"
+                disabled={!state.ciphertext}
+              >
+                {copyFeedback.ciphertext ? <CheckCircle className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+              </button>
+            </div>
           </div>
           <textarea
             value={state.ciphertext}
@@ -468,18 +1342,73 @@ export default function Sandbox({ cipherMetadata }: SandboxProps) {
             placeholder="Ciphertext will appear here..."
             className="textarea w-full h-32 font-mono"
           />
+          {ciphertextHint && CIPHERTEXT_FORMATS.includes(ciphertextHint) && (
+            <div className="text-sm text-gray-600 mt-2">
+              This looks like {FORMAT_LABELS[ciphertextHint]}.{' '}
+              <button onClick={() => updateState({ outputFormat: ciphertextHint })} className="text-blue-600 underline">
+                Treat as {FORMAT_LABELS[ciphertextHint]}
+              </button>
+            </div>
+          )}
           <div className="mt-4">
             <button
               onClick={decrypt}
-              disabled={!state.ciphertext || !state.key || state.isProcessing}
+              disabled={!state.ciphertext || !hasKeyMaterial('decrypt') || state.isProcessing}
               className="btn btn-primary w-full"
             >
               {state.isProcessing ? 'Decrypting...' : 'Decrypt'}
             </button>
           </div>
         </div>
+        )}
       </div>
 
+      {/* Envelope */}
+      {!signing && (
+      <div className="card">
+        <div className="flex items-center justify-between mb-4">
+          <h4 className="font-medium">Envelope</h4>
+          <div className="flex gap-2">
+            <select
+              value={state.envelopeEncoding}
+              onChange={(e) => changeEnvelopeEncoding(e.target.value as EnvelopeEncoding)}
+              className="select text-sm"
+              aria-label="Envelope encoding"
+            >
+              <option value="json">JSON</option>
+              <option value="compact">Compact (base64url)</option>
+            </select>
+            <button
+              onClick={() => copyToClipboard(state.envelope, 'envelope')}
+              className="btn btn-secondary btn-sm"
+              disabled={!state.envelope}
+            >
+              {copyFeedback.envelope ? <CheckCircle className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+            </button>
+          </div>
+        </div>
+        <p className="text-sm text-gray-600 mb-2">
+          Carries the cipher, variant, mode, IV or nonce, tag and any KDF salt with the ciphertext, so only
+          the key or passphrase (and any associated data) is needed to decrypt it later.
+        </p>
+        <textarea
+          value={state.envelope}
+          onChange={(e) => updateState({ envelope: e.target.value })}
+          placeholder="Encrypt to produce an envelope, or paste one here..."
+          className="textarea w-full h-24 font-mono"
+        />
+        <div className="mt-4">
+          <button
+            onClick={openEnvelope}
+            disabled={!state.envelope || !hasKeyMaterial('decrypt') || state.isProcessing}
+            className="btn btn-primary w-full"
+          >
+            Open Envelope
+          </button>
+        </div>
+      </div>
+      )}
+
       {/* Result Display */}
       {result && (
         <div className={`alert ${result.success ? 'alert-success' : 'alert-error'}`}>
@@ -513,6 +1442,38 @@ export default function Sandbox({ cipherMetadata }: SandboxProps) {
                   {result.metadata.variant && (
                     <div>Variant: {result.metadata.variant}</div>
                   )}
+                  {result.metadata.padding && (
+                    <div>Padding: {PADDING_LABELS[result.metadata.padding]}</div>
+                  )}
+                  {result.metadata.oaepHash && (
+                    <div>OAEP Hash: {result.metadata.oaepHash}, MGF1 Hash: {result.metadata.mgf1Hash}</div>
+                  )}
+                  {result.metadata.kdf && (
+                    <div>
+                      Key Derivation: {KDF_LABELS[result.metadata.kdf.algorithm]}, {result.metadata.kdf.iterations} iterations
+                    </div>
+                  )}
+                  {result.metadata.salt && (
+                    <div className="font-mono break-all">Salt: {result.metadata.salt}</div>
+                  )}
+                  {result.metadata.tag && (
+                    <div className="font-mono break-all">Tag: {result.metadata.tag}</div>
+                  )}
+                  {result.metadata.signatureLength && (
+                    <div>Signature Length: {result.metadata.signatureLength} bytes</div>
+                  )}
+                  {result.metadata.signatureScheme && (
+                    <div>
+                      Signature Scheme: {SIGNATURE_SCHEME_LABELS[result.metadata.signatureScheme]} with {result.metadata.hash}
+                      {result.metadata.saltLength !== undefined && `, ${result.metadata.saltLength}-byte salt`}
+                    </div>
+                  )}
+                  {result.metadata.encodedMessage && (
+                    <div className="font-mono break-all">Encoded Message (EM): {result.metadata.encodedMessage}</div>
+                  )}
+                  {result.metadata.elapsedMs !== undefined && (
+                    <div>Time: {result.metadata.elapsedMs.toFixed(1)} ms</div>
+                  )}
                 </div>
               )}
             </div>
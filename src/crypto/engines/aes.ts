@@ -1,8 +1,14 @@
-import CryptoJS from 'crypto-js';
-import { CipherEngine, CipherMetadata, EncryptionParams, DecryptionParams, CryptoOperation } from '@/types/crypto';
-import { generateRandomHex, validateKeyLength, isValidHex, convertFormat } from '@/lib/crypto-utils';
-
-export class AESEngine implements CipherEngine {
+import { CipherMetadata } from '@/types/crypto';
+import { generateRandomHex } from '@/lib/crypto-utils';
+import { AESBlockCipher } from '../primitives/aes';
+import { BLOCK_MODES } from '../modes/block-modes';
+import { PADDING_SCHEMES } from '../modes/padding';
+import { BlockCipherEngine } from './block-cipher-engine';
+import { GCM_TAG_LENGTHS } from '../modes/gcm';
+import { CCM_TAG_LENGTHS } from '../modes/ccm';
+import { OCB_TAG_LENGTHS } from '../modes/ocb';
+
+export class AESEngine extends BlockCipherEngine {
   public readonly metadata: CipherMetadata = {
     id: 'aes',
     name: 'Advanced Encryption Standard (AES)',
@@ -12,7 +18,8 @@ export class AESEngine implements CipherEngine {
       { id: 'aes-192', name: 'AES-192', keySize: 24 },
       { id: 'aes-256', name: 'AES-256', keySize: 32 }
     ],
-    modes: ['ECB', 'CBC', 'CTR', 'GCM'],
+    modes: [...BLOCK_MODES, 'GCM', 'CCM', 'SIV', 'OCB'],
+    paddingSchemes: PADDING_SCHEMES,
     description: 'The Advanced Encryption Standard (AES) is a symmetric block cipher chosen by the U.S. government to protect classified information.',
     keyRequirements: {
       minKeySize: 16,
@@ -21,6 +28,13 @@ export class AESEngine implements CipherEngine {
     },
     ivRequired: true,
     ivSize: 16,
+    ivSizeByMode: { GCM: 12, CCM: 12, SIV: 16, OCB: 12 },
+    tagSizesByMode: {
+      GCM: [...GCM_TAG_LENGTHS].reverse(),
+      CCM: [...CCM_TAG_LENGTHS].reverse(),
+      OCB: [...OCB_TAG_LENGTHS].reverse()
+    },
+    keyMultiplierByMode: { SIV: 2 },
     nonceRequired: false,
     securityNotes: [
       {
@@ -30,223 +44,59 @@ export class AESEngine implements CipherEngine {
       {
         level: 'warning',
         message: 'ECB mode should be avoided for most applications as it does not hide data patterns.'
+      },
+      {
+        level: 'warning',
+        message: 'Never reuse an IV with the same key in GCM mode; a repeated IV leaks the authentication key.'
+      },
+      {
+        level: 'info',
+        message: 'AES-SIV takes a double-length key and stays secure if a nonce is repeated, revealing only whether identical messages were encrypted.'
       }
     ],
     references: [
       {
         title: 'FIPS 197 - Advanced Encryption Standard (AES)',
         url: 'https://csrc.nist.gov/publications/detail/fips/197/final'
+      },
+      {
+        title: 'NIST SP 800-38D - Galois/Counter Mode (GCM) and GMAC',
+        url: 'https://csrc.nist.gov/publications/detail/sp/800-38d/final'
+      },
+      {
+        title: 'NIST SP 800-38C - The CCM Mode for Authentication and Confidentiality',
+        url: 'https://csrc.nist.gov/publications/detail/sp/800-38c/final'
+      },
+      {
+        title: 'RFC 5297 - Synthetic Initialization Vector (SIV) Authenticated Encryption Using AES',
+        url: 'https://www.rfc-editor.org/rfc/rfc5297'
+      },
+      {
+        title: 'RFC 7253 - The OCB Authenticated-Encryption Algorithm',
+        url: 'https://www.rfc-editor.org/rfc/rfc7253'
       }
     ],
     complexity: 'low',
     performance: 'fast'
   };
-  async encrypt(params: EncryptionParams): Promise<CryptoOperation> {
-    try {
-      const { plaintext, key, iv, mode = 'CBC', variant = 'aes-256' } = params;
-      
-      // Validate inputs
-      const keySize = this.getKeySizeFromVariant(variant);
-      if (!this.validateKey(key, keySize)) {
-        return {
-          success: false,
-          error: `Invalid key length. Expected ${keySize} bytes (${keySize * 2} hex characters).`
-        };
-      }
-
-      // Generate IV if not provided and mode requires it
-      let finalIV = iv;
-      if (!finalIV && mode !== 'ECB') {
-        finalIV = await this.generateIV();
-      }
-
-      if (finalIV && !this.validateIV(finalIV)) {
-        return {
-          success: false,
-          error: 'Invalid IV. Must be 16 bytes (32 hex characters).'
-        };
-      }
-
-      // Convert key and IV to CryptoJS format
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const ivWords = finalIV ? CryptoJS.enc.Hex.parse(finalIV) : undefined;
-      
-      // Encrypt based on mode
-      let encrypted: CryptoJS.lib.CipherParams;
-      const options: any = { iv: ivWords };
-
-      switch (mode) {
-        case 'ECB':
-          options.mode = CryptoJS.mode.ECB;
-          delete options.iv;
-          break;
-        case 'CBC':
-          options.mode = CryptoJS.mode.CBC;
-          break;
-        case 'CTR':
-          options.mode = CryptoJS.mode.CTR;
-          break;
-        case 'GCM':
-          // Note: crypto-js doesn't support GCM mode natively
-          return {
-            success: false,
-            error: 'GCM mode is not supported in this implementation. Use CBC or CTR instead.'
-          };
-        default:
-          return {
-            success: false,
-            error: `Unsupported mode: ${mode}`
-          };
-      }
+  protected readonly blockSize = 16;
 
-      encrypted = CryptoJS.AES.encrypt(plaintext, keyWords, options);      return {
-        success: true,
-        result: encrypted.ciphertext.toString(CryptoJS.enc.Hex),
-        metadata: {
-          keyLength: keySize,
-          ivLength: finalIV ? 16 : undefined,
-          mode,
-          variant,
-          iv: finalIV
-        }
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: `Encryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-      };
-    }
+  protected get defaultVariant(): string {
+    return 'aes-256';
   }
 
-  async decrypt(params: DecryptionParams): Promise<CryptoOperation> {
-    try {
-      const { ciphertext, key, iv, mode = 'CBC', variant = 'aes-256' } = params;
-      
-      // Validate inputs
-      const keySize = this.getKeySizeFromVariant(variant);
-      if (!this.validateKey(key, keySize)) {
-        return {
-          success: false,
-          error: `Invalid key length. Expected ${keySize} bytes (${keySize * 2} hex characters).`
-        };
-      }
-
-      if (!isValidHex(ciphertext)) {
-        return {
-          success: false,
-          error: 'Invalid ciphertext format. Must be valid hexadecimal.'
-        };
-      }
-
-      if (!iv && mode !== 'ECB') {
-        return {
-          success: false,
-          error: `IV is required for ${mode} mode.`
-        };
-      }
-
-      if (iv && !this.validateIV(iv)) {
-        return {
-          success: false,
-          error: 'Invalid IV. Must be 16 bytes (32 hex characters).'
-        };
-      }
-
-      // Convert key, IV, and ciphertext to CryptoJS format
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const ivWords = iv ? CryptoJS.enc.Hex.parse(iv) : undefined;
-      const ciphertextWords = CryptoJS.enc.Hex.parse(ciphertext);
-      
-      // Create cipher params object
-      const cipherParams = CryptoJS.lib.CipherParams.create({
-        ciphertext: ciphertextWords
-      });
-
-      // Decrypt based on mode
-      const options: any = { iv: ivWords };
-
-      switch (mode) {
-        case 'ECB':
-          options.mode = CryptoJS.mode.ECB;
-          delete options.iv;
-          break;
-        case 'CBC':
-          options.mode = CryptoJS.mode.CBC;
-          break;
-        case 'CTR':
-          options.mode = CryptoJS.mode.CTR;
-          break;
-        case 'GCM':
-          return {
-            success: false,
-            error: 'GCM mode is not supported in this implementation. Use CBC or CTR instead.'
-          };
-        default:
-          return {
-            success: false,
-            error: `Unsupported mode: ${mode}`
-          };
-      }
-
-      const decrypted = CryptoJS.AES.decrypt(cipherParams, keyWords, options);
-      const plaintext = decrypted.toString(CryptoJS.enc.Utf8);
-      
-      if (!plaintext) {
-        return {
-          success: false,
-          error: 'Decryption failed. Invalid key, IV, or corrupted ciphertext.'
-        };
-      }
-      
-      return {
-        success: true,
-        result: plaintext,
-        metadata: {
-          keyLength: keySize,
-          ivLength: iv ? 16 : undefined,
-          mode,
-          variant
-        }
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: `Decryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-      };
-    }
+  protected createCipher(key: Uint8Array): AESBlockCipher {
+    return new AESBlockCipher(key);
   }
 
   async generateKey(keySize: number = 32): Promise<string> {
-    if (!this.metadata.keyRequirements.keySizes.includes(keySize)) {
-      throw new Error(`Invalid key size. Supported sizes: ${this.metadata.keyRequirements.keySizes.join(', ')} bytes`);
+    const { keySizes } = this.metadata.keyRequirements;
+    // Double-length keys are accepted for AES-SIV
+    if (!keySizes.includes(keySize) && !keySizes.includes(keySize / 2)) {
+      throw new Error(`Invalid key size. Supported sizes: ${keySizes.join(', ')} bytes (doubled for SIV)`);
     }
     return generateRandomHex(keySize);
   }
-
-  async generateIV(): Promise<string> {
-    return generateRandomHex(16);
-  }
-
-  validateKey(key: string, keySize: number = 32): boolean {
-    return validateKeyLength(key, [keySize], 'hex');
-  }
-
-  validateIV(iv: string): boolean {
-    return validateKeyLength(iv, [16], 'hex');
-  }
-
-  private getKeySizeFromVariant(variant: string): number {
-    switch (variant) {
-      case 'aes-128':
-        return 16;
-      case 'aes-192':
-        return 24;
-      case 'aes-256':
-        return 32;
-      default:
-        return 32;
-    }
-  }
 }
 
 export default AESEngine;
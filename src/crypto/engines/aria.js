@@ -1,325 +0,0 @@
-import { generateRandomHex, validateKeyLength, isValidHex } from '@/lib/crypto-utils';
-export class AriaEngine {
-    constructor() {
-        this.metadata = {
-            id: 'aria',
-            name: 'ARIA',
-            description: 'Advanced Cipher proposed as the Korean Encryption Algorithm standard',
-            category: 'symmetric',
-            variants: [
-                { id: 'aria-128', name: 'ARIA-128', keySize: 16 },
-                { id: 'aria-192', name: 'ARIA-192', keySize: 24 },
-                { id: 'aria-256', name: 'ARIA-256', keySize: 32 }
-            ],
-            modes: ['ECB', 'CBC', 'CTR'],
-            keyRequirements: {
-                minKeySize: 16,
-                maxKeySize: 32,
-                keySizes: [16, 24, 32]
-            },
-            ivRequired: true,
-            ivSize: 16,
-            nonceRequired: false,
-            securityNotes: [
-                {
-                    level: 'info',
-                    message: 'Korean standard cipher (KS X 1213-1) designed as successor to SEED'
-                },
-                {
-                    level: 'info',
-                    message: 'Uses Substitution-Permutation Network with 12/14/16 rounds for 128/192/256-bit keys'
-                },
-                {
-                    level: 'warning',
-                    message: 'Less widespread adoption compared to AES, limited third-party analysis'
-                }
-            ],
-            references: [
-                {
-                    title: 'ARIA Cipher Specification',
-                    url: 'https://tools.ietf.org/rfc/rfc5794.txt'
-                },
-                {
-                    title: 'Korean Standard KS X 1213-1',
-                    url: 'https://aria.kisa.or.kr/'
-                }
-            ],
-            complexity: 'medium',
-            performance: 'medium'
-        };
-    }
-    async generateKey(keySize = 16) {
-        return generateRandomHex(keySize);
-    }
-    async generateIV() {
-        return generateRandomHex(16);
-    }
-    validateKey(key, keySize = 16) {
-        return isValidHex(key) && validateKeyLength(key, [keySize]);
-    }
-    validateIV(iv) {
-        return isValidHex(iv) && iv.length === 32; // 16 bytes = 32 hex chars
-    }
-    getKeySizeFromVariant(variant) {
-        const variantObj = this.metadata.variants.find(v => v.id === variant);
-        return variantObj ? variantObj.keySize : 16;
-    }
-    getRoundsFromKeySize(keySize) {
-        switch (keySize) {
-            case 16: return 12; // 128-bit key
-            case 24: return 14; // 192-bit key
-            case 32: return 16; // 256-bit key
-            default: return 12;
-        }
-    }
-    async encrypt(params) {
-        try {
-            const { plaintext, key, iv, mode = 'CBC', variant = 'aria-128' } = params;
-            // Validate inputs
-            const keySize = this.getKeySizeFromVariant(variant);
-            if (!this.validateKey(key, keySize)) {
-                throw new Error(`Invalid key. Expected ${keySize * 2} hex characters.`);
-            }
-            if (mode === 'CBC' && iv && !this.validateIV(iv)) {
-                throw new Error('Invalid IV. Expected 32 hex characters.');
-            }
-            // Convert inputs
-            const plaintextBytes = new TextEncoder().encode(plaintext);
-            const keyBytes = this.hexToBytes(key);
-            const ivBytes = iv ? this.hexToBytes(iv) : new Uint8Array(16);
-            // Simple ARIA implementation (placeholder)
-            let result;
-            if (mode === 'ECB') {
-                result = this.encryptECB(plaintextBytes, keyBytes);
-            }
-            else if (mode === 'CBC') {
-                result = this.encryptCBC(plaintextBytes, keyBytes, ivBytes);
-            }
-            else if (mode === 'CTR') {
-                result = this.encryptCTR(plaintextBytes, keyBytes, ivBytes);
-            }
-            else {
-                throw new Error(`Unsupported mode: ${mode}`);
-            }
-            return {
-                success: true,
-                result: this.bytesToHex(result),
-                metadata: {
-                    keyLength: keySize,
-                    ivLength: (mode === 'CBC' || mode === 'CTR') ? 16 : undefined,
-                    mode,
-                    variant
-                }
-            };
-        }
-        catch (error) {
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Unknown error occurred'
-            };
-        }
-    }
-    async decrypt(params) {
-        try {
-            const { ciphertext, key, iv, mode = 'CBC', variant = 'aria-128' } = params;
-            // Validate inputs
-            const keySize = this.getKeySizeFromVariant(variant);
-            if (!this.validateKey(key, keySize)) {
-                throw new Error(`Invalid key. Expected ${keySize * 2} hex characters.`);
-            }
-            if ((mode === 'CBC' || mode === 'CTR') && iv && !this.validateIV(iv)) {
-                throw new Error('Invalid IV. Expected 32 hex characters.');
-            }
-            if (!isValidHex(ciphertext)) {
-                throw new Error('Invalid ciphertext. Expected hex string.');
-            }
-            // Convert inputs
-            const ciphertextBytes = this.hexToBytes(ciphertext);
-            const keyBytes = this.hexToBytes(key);
-            const ivBytes = iv ? this.hexToBytes(iv) : new Uint8Array(16);
-            // Simple ARIA implementation (placeholder)
-            let result;
-            if (mode === 'ECB') {
-                result = this.decryptECB(ciphertextBytes, keyBytes);
-            }
-            else if (mode === 'CBC') {
-                result = this.decryptCBC(ciphertextBytes, keyBytes, ivBytes);
-            }
-            else if (mode === 'CTR') {
-                // CTR mode encryption and decryption are the same
-                result = this.encryptCTR(ciphertextBytes, keyBytes, ivBytes);
-            }
-            else {
-                throw new Error(`Unsupported mode: ${mode}`);
-            }
-            return {
-                success: true,
-                result: new TextDecoder().decode(result),
-                metadata: {
-                    keyLength: keySize,
-                    ivLength: (mode === 'CBC' || mode === 'CTR') ? 16 : undefined,
-                    mode,
-                    variant
-                }
-            };
-        }
-        catch (error) {
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Unknown error occurred'
-            };
-        }
-    }
-    hexToBytes(hex) {
-        const bytes = new Uint8Array(hex.length / 2);
-        for (let i = 0; i < bytes.length; i++) {
-            bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
-        }
-        return bytes;
-    }
-    bytesToHex(bytes) {
-        return Array.from(bytes)
-            .map(b => b.toString(16).padStart(2, '0'))
-            .join('');
-    }
-    // Simplified ARIA block encryption (placeholder implementation)
-    encryptBlock(block, key) {
-        const result = new Uint8Array(16);
-        const rounds = this.getRoundsFromKeySize(key.length);
-        // Simple substitution-permutation network simulation
-        for (let i = 0; i < 16; i++) {
-            result[i] = block[i] ^ key[i % key.length];
-        }
-        // Apply multiple rounds of transformation
-        for (let round = 0; round < rounds; round++) {
-            for (let i = 0; i < 16; i++) {
-                result[i] = ((result[i] ^ key[round % key.length]) + round) & 0xff;
-            }
-        }
-        return result;
-    }
-    decryptBlock(block, key) {
-        const result = new Uint8Array(16);
-        const rounds = this.getRoundsFromKeySize(key.length);
-        result.set(block);
-        // Reverse the rounds
-        for (let round = rounds - 1; round >= 0; round--) {
-            for (let i = 0; i < 16; i++) {
-                result[i] = ((result[i] - round) & 0xff) ^ key[round % key.length];
-            }
-        }
-        // Reverse the initial XOR
-        for (let i = 0; i < 16; i++) {
-            result[i] ^= key[i % key.length];
-        }
-        return result;
-    }
-    encryptECB(plaintext, key) {
-        const blockSize = 16;
-        const numBlocks = Math.ceil(plaintext.length / blockSize);
-        const result = new Uint8Array(numBlocks * blockSize);
-        for (let i = 0; i < numBlocks; i++) {
-            const block = new Uint8Array(blockSize);
-            const start = i * blockSize;
-            const end = Math.min(start + blockSize, plaintext.length);
-            block.set(plaintext.slice(start, end));
-            // Pad last block if necessary
-            if (end - start < blockSize) {
-                const padLen = blockSize - (end - start);
-                for (let j = end - start; j < blockSize; j++) {
-                    block[j] = padLen;
-                }
-            }
-            const encrypted = this.encryptBlock(block, key);
-            result.set(encrypted, i * blockSize);
-        }
-        return result;
-    }
-    decryptECB(ciphertext, key) {
-        const blockSize = 16;
-        const numBlocks = ciphertext.length / blockSize;
-        const decrypted = new Uint8Array(ciphertext.length);
-        for (let i = 0; i < numBlocks; i++) {
-            const block = ciphertext.slice(i * blockSize, (i + 1) * blockSize);
-            const decryptedBlock = this.decryptBlock(block, key);
-            decrypted.set(decryptedBlock, i * blockSize);
-        }
-        // Remove padding from last block
-        if (decrypted.length > 0) {
-            const padLen = decrypted[decrypted.length - 1];
-            return decrypted.slice(0, decrypted.length - padLen);
-        }
-        return decrypted;
-    }
-    encryptCBC(plaintext, key, iv) {
-        const blockSize = 16;
-        const numBlocks = Math.ceil(plaintext.length / blockSize);
-        const result = new Uint8Array(numBlocks * blockSize);
-        let previousBlock = iv.slice();
-        for (let i = 0; i < numBlocks; i++) {
-            const block = new Uint8Array(blockSize);
-            const start = i * blockSize;
-            const end = Math.min(start + blockSize, plaintext.length);
-            block.set(plaintext.slice(start, end));
-            // Pad last block if necessary
-            if (end - start < blockSize) {
-                const padLen = blockSize - (end - start);
-                for (let j = end - start; j < blockSize; j++) {
-                    block[j] = padLen;
-                }
-            }
-            // XOR with previous block
-            for (let j = 0; j < blockSize; j++) {
-                block[j] ^= previousBlock[j];
-            }
-            const encrypted = this.encryptBlock(block, key);
-            result.set(encrypted, i * blockSize);
-            previousBlock = encrypted;
-        }
-        return result;
-    }
-    decryptCBC(ciphertext, key, iv) {
-        const blockSize = 16;
-        const numBlocks = ciphertext.length / blockSize;
-        const decrypted = new Uint8Array(ciphertext.length);
-        let previousBlock = iv.slice();
-        for (let i = 0; i < numBlocks; i++) {
-            const block = ciphertext.slice(i * blockSize, (i + 1) * blockSize);
-            const decryptedBlock = this.decryptBlock(block, key);
-            // XOR with previous block
-            for (let j = 0; j < blockSize; j++) {
-                decryptedBlock[j] ^= previousBlock[j];
-            }
-            decrypted.set(decryptedBlock, i * blockSize);
-            previousBlock = block.slice();
-        }
-        // Remove padding from last block
-        if (decrypted.length > 0) {
-            const padLen = decrypted[decrypted.length - 1];
-            return decrypted.slice(0, decrypted.length - padLen);
-        }
-        return decrypted;
-    }
-    encryptCTR(data, key, iv) {
-        const blockSize = 16;
-        const result = new Uint8Array(data.length);
-        const counter = new Uint8Array(blockSize);
-        counter.set(iv.slice(0, Math.min(blockSize, iv.length)));
-        for (let i = 0; i < data.length; i += blockSize) {
-            const keystream = this.encryptBlock(counter, key);
-            const blockLen = Math.min(blockSize, data.length - i);
-            for (let j = 0; j < blockLen; j++) {
-                result[i + j] = data[i + j] ^ keystream[j];
-            }
-            // Increment counter
-            this.incrementCounter(counter);
-        }
-        return result;
-    }
-    incrementCounter(counter) {
-        for (let i = counter.length - 1; i >= 0; i--) {
-            if (++counter[i] !== 0)
-                break;
-        }
-    }
-}
@@ -0,0 +1,327 @@
+import { CipherMetadata, CipherMode, ByteEncryptionParams, ByteDecryptionParams, CryptoOperation } from '@/types/crypto';
+import {
+  generateRandomHex,
+  validateKeyLength,
+  isValidHex,
+  hexToBytes,
+  bytesToHex,
+  concatBytes,
+  AuthenticationError,
+  PaddingError
+} from '@/lib/crypto-utils';
+import { BlockCipher } from '../primitives/block-cipher';
+import { BLOCK_MODES, PADDED_MODES, modeRequiresIV, encryptWithMode, decryptWithMode } from '../modes/block-modes';
+import { gcmEncrypt, gcmDecrypt } from '../modes/gcm';
+import { ccmEncrypt, ccmDecrypt } from '../modes/ccm';
+import { sivEncrypt, sivDecrypt } from '../modes/siv';
+import { ocbEncrypt, ocbDecrypt } from '../modes/ocb';
+import { ByteCipherEngine } from './byte-cipher-engine';
+
+// Authenticated modes; they need a 128-bit primitive and are enabled by listing them in metadata.modes
+export const AEAD_BLOCK_MODES: CipherMode[] = ['GCM', 'CCM', 'SIV', 'OCB'];
+
+/**
+ * Base engine for ciphers backed by a raw block primitive. Subclasses supply the metadata and the
+ * key schedule; every mode in BLOCK_MODES, and any AEAD mode the metadata lists, comes from the
+ * shared mode layer.
+ */
+export abstract class BlockCipherEngine extends ByteCipherEngine {
+  abstract readonly metadata: CipherMetadata;
+  protected abstract readonly blockSize: number;
+
+  /**
+   * Run the primitive's key schedule for the selected variant
+   */
+  protected abstract createCipher(key: Uint8Array, variant: string): BlockCipher;
+
+  protected get defaultVariant(): string {
+    return this.metadata.variants[0].id;
+  }
+
+  async encryptBytes(params: ByteEncryptionParams): Promise<CryptoOperation<Uint8Array>> {
+    try {
+      const { plaintext, key, iv, mode = 'CBC', variant = this.defaultVariant, padding = 'PKCS7' } = params;
+
+      const keySize = this.getKeySizeFromVariant(variant) * (this.metadata.keyMultiplierByMode?.[mode] ?? 1);
+      if (!this.validateKey(key, keySize)) {
+        return {
+          success: false,
+          error: `Invalid key length. Expected ${keySize} bytes (${keySize * 2} hex characters).`
+        };
+      }
+
+      const modeError = this.checkMode(mode);
+      if (modeError) {
+        return { success: false, error: modeError };
+      }
+
+      if (AEAD_BLOCK_MODES.includes(mode)) {
+        return await this.encryptAEAD(params, keySize, mode);
+      }
+
+      // Generate IV if not provided and mode requires it
+      let finalIV: string | undefined;
+      if (modeRequiresIV(mode)) {
+        finalIV = iv || await this.generateIV();
+        if (!this.validateIV(finalIV)) {
+          return {
+            success: false,
+            error: `Invalid IV. Must be ${this.blockSize} bytes (${this.blockSize * 2} hex characters).`
+          };
+        }
+      }
+
+      const ciphertext = encryptWithMode(
+        this.createCipher(hexToBytes(key), variant),
+        mode,
+        plaintext,
+        finalIV ? hexToBytes(finalIV) : undefined,
+        padding
+      );
+
+      return {
+        success: true,
+        result: ciphertext,
+        metadata: {
+          keyLength: keySize,
+          ivLength: finalIV ? this.blockSize : undefined,
+          mode,
+          variant,
+          iv: finalIV,
+          padding: PADDED_MODES.includes(mode) ? padding : undefined
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Encryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async decryptBytes(params: ByteDecryptionParams): Promise<CryptoOperation<Uint8Array>> {
+    try {
+      const { ciphertext, key, iv, mode = 'CBC', variant = this.defaultVariant, padding = 'PKCS7' } = params;
+
+      const keySize = this.getKeySizeFromVariant(variant) * (this.metadata.keyMultiplierByMode?.[mode] ?? 1);
+      if (!this.validateKey(key, keySize)) {
+        return {
+          success: false,
+          error: `Invalid key length. Expected ${keySize} bytes (${keySize * 2} hex characters).`
+        };
+      }
+
+      const modeError = this.checkMode(mode);
+      if (modeError) {
+        return { success: false, error: modeError };
+      }
+
+      if (AEAD_BLOCK_MODES.includes(mode)) {
+        return this.decryptAEAD(params, keySize, mode);
+      }
+
+      if (modeRequiresIV(mode)) {
+        if (!iv) {
+          return {
+            success: false,
+            error: `IV is required for ${mode} mode.`
+          };
+        }
+        if (!this.validateIV(iv)) {
+          return {
+            success: false,
+            error: `Invalid IV. Must be ${this.blockSize} bytes (${this.blockSize * 2} hex characters).`
+          };
+        }
+      }
+
+      const plaintext = decryptWithMode(
+        this.createCipher(hexToBytes(key), variant),
+        mode,
+        ciphertext,
+        modeRequiresIV(mode) && iv ? hexToBytes(iv) : undefined,
+        padding
+      );
+
+      return {
+        success: true,
+        result: plaintext,
+        metadata: {
+          keyLength: keySize,
+          ivLength: modeRequiresIV(mode) ? this.blockSize : undefined,
+          mode,
+          variant,
+          padding: PADDED_MODES.includes(mode) ? padding : undefined
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Decryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ...(error instanceof PaddingError && { errorCode: 'INVALID_PADDING' as const }),
+        ...(error instanceof AuthenticationError && { errorCode: 'AUTHENTICATION_FAILED' as const })
+      };
+    }
+  }
+
+  async generateKey(keySize: number = this.metadata.keyRequirements.maxKeySize): Promise<string> {
+    if (!this.metadata.keyRequirements.keySizes.includes(keySize)) {
+      throw new Error(`Invalid key size. Supported sizes: ${this.metadata.keyRequirements.keySizes.join(', ')} bytes`);
+    }
+    return generateRandomHex(keySize);
+  }
+
+  async generateIV(ivSize: number = this.blockSize): Promise<string> {
+    return generateRandomHex(ivSize);
+  }
+
+  validateKey(key: string, keySize: number = this.metadata.keyRequirements.maxKeySize): boolean {
+    return validateKeyLength(key, [keySize], 'hex');
+  }
+
+  validateIV(iv: string): boolean {
+    return validateKeyLength(iv, [this.blockSize], 'hex');
+  }
+
+  protected getKeySizeFromVariant(variant: string): number {
+    const match = this.metadata.variants.find(v => v.id === variant);
+    if (!match) {
+      throw new Error(`Unsupported variant: ${variant}`);
+    }
+    return match.keySize;
+  }
+
+  private checkMode(mode: CipherMode): string | undefined {
+    const supported = BLOCK_MODES.includes(mode) || (AEAD_BLOCK_MODES.includes(mode) && this.blockSize === 16);
+    if (!supported || !this.metadata.modes?.includes(mode)) {
+      return `Unsupported mode: ${mode}`;
+    }
+    return undefined;
+  }
+
+  private async encryptAEAD(params: ByteEncryptionParams, keySize: number, mode: CipherMode): Promise<CryptoOperation<Uint8Array>> {
+    const { plaintext, key, iv, variant = this.defaultVariant, tagLength = 16 } = params;
+
+    // SIV may run without a nonce (deterministic AEAD); the other modes generate one when missing
+    const finalIV = iv || (mode === 'SIV' ? '' : await this.generateIV(this.metadata.ivSizeByMode?.[mode]));
+    if (!isValidHex(finalIV) || (mode !== 'SIV' && finalIV.length === 0)) {
+      return {
+        success: false,
+        error: `Invalid IV. ${mode} requires a hexadecimal nonce.`
+      };
+    }
+
+    const keyBytes = hexToBytes(key);
+    const ivBytes = hexToBytes(finalIV);
+    const aad = new TextEncoder().encode(params.additionalData ?? '');
+
+    let ciphertext: Uint8Array;
+    let tag: Uint8Array;
+    switch (mode) {
+      case 'GCM':
+        ({ ciphertext, tag } = gcmEncrypt(this.createCipher(keyBytes, variant), ivBytes, plaintext, aad, tagLength));
+        break;
+      case 'CCM':
+        ({ ciphertext, tag } = ccmEncrypt(this.createCipher(keyBytes, variant), ivBytes, plaintext, aad, tagLength));
+        break;
+      case 'OCB':
+        ({ ciphertext, tag } = ocbEncrypt(this.createCipher(keyBytes, variant), ivBytes, plaintext, aad, tagLength));
+        break;
+      default: {
+        const [macCipher, ctrCipher] = this.splitSIVKey(keyBytes, variant);
+        ({ siv: tag, ciphertext } = sivEncrypt(macCipher, ctrCipher, plaintext, this.sivComponents(params, ivBytes)));
+      }
+    }
+
+    return {
+      success: true,
+      // RFC 5297 places the synthetic IV in front of the ciphertext; the other modes append the tag
+      result: mode === 'SIV' ? concatBytes(tag, ciphertext) : concatBytes(ciphertext, tag),
+      metadata: {
+        keyLength: keySize,
+        ivLength: ivBytes.length || undefined,
+        mode,
+        variant,
+        iv: finalIV || undefined,
+        tag: bytesToHex(tag),
+        tagLength: tag.length
+      }
+    };
+  }
+
+  private decryptAEAD(params: ByteDecryptionParams, keySize: number, mode: CipherMode): CryptoOperation<Uint8Array> {
+    const { ciphertext: data, key, iv = '', tag, variant = this.defaultVariant } = params;
+    const tagLength = mode === 'SIV' ? 16 : params.tagLength ?? 16;
+
+    if (!isValidHex(iv) || (mode !== 'SIV' && iv.length === 0)) {
+      return {
+        success: false,
+        error: `A hexadecimal IV is required for ${mode} mode.`
+      };
+    }
+
+    // The tag is either supplied separately or attached to the ciphertext
+    if (!tag && data.length < tagLength) {
+      return {
+        success: false,
+        error: `Ciphertext is too short to contain a ${tagLength}-byte tag.`
+      };
+    }
+    const tagBytes = tag
+      ? hexToBytes(tag)
+      : mode === 'SIV' ? data.subarray(0, tagLength) : data.subarray(data.length - tagLength);
+    const body = tag ? data : mode === 'SIV' ? data.subarray(tagLength) : data.subarray(0, data.length - tagLength);
+
+    const keyBytes = hexToBytes(key);
+    const ivBytes = hexToBytes(iv);
+    const aad = new TextEncoder().encode(params.additionalData ?? '');
+
+    let plaintext: Uint8Array;
+    switch (mode) {
+      case 'GCM':
+        plaintext = gcmDecrypt(this.createCipher(keyBytes, variant), ivBytes, body, tagBytes, aad);
+        break;
+      case 'CCM':
+        plaintext = ccmDecrypt(this.createCipher(keyBytes, variant), ivBytes, body, tagBytes, aad);
+        break;
+      case 'OCB':
+        plaintext = ocbDecrypt(this.createCipher(keyBytes, variant), ivBytes, body, tagBytes, aad);
+        break;
+      default: {
+        const [macCipher, ctrCipher] = this.splitSIVKey(keyBytes, variant);
+        plaintext = sivDecrypt(macCipher, ctrCipher, tagBytes, body, this.sivComponents(params, ivBytes));
+      }
+    }
+
+    return {
+      success: true,
+      result: plaintext,
+      metadata: {
+        keyLength: keySize,
+        ivLength: ivBytes.length || undefined,
+        mode,
+        variant,
+        tag: bytesToHex(tagBytes),
+        tagLength: tagBytes.length
+      }
+    };
+  }
+
+  /**
+   * SIV keys are twice the cipher key size: the first half keys S2V, the second half keys CTR
+   */
+  private splitSIVKey(keyBytes: Uint8Array, variant: string): [BlockCipher, BlockCipher] {
+    const half = keyBytes.length / 2;
+    return [this.createCipher(keyBytes.subarray(0, half), variant), this.createCipher(keyBytes.subarray(half), variant)];
+  }
+
+  /**
+   * S2V inputs in order: each associated data component, then the nonce when one is given
+   */
+  private sivComponents(params: ByteEncryptionParams | ByteDecryptionParams, nonce: Uint8Array): Uint8Array[] {
+    const encoder = new TextEncoder();
+    const aad = params.additionalDataComponents ?? (params.additionalData ? [params.additionalData] : []);
+    const components = aad.map(component => encoder.encode(component));
+    return nonce.length > 0 ? [...components, nonce] : components;
+  }
+}
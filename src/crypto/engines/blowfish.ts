@@ -1,23 +1,27 @@
-import { CipherEngine, EncryptionParams, DecryptionParams, CryptoOperation, CipherMetadata } from '../../types/crypto';
-import * as crypto from 'crypto';
+import { CipherMetadata } from '../../types/crypto';
+import { BLOCK_MODES } from '../modes/block-modes';
+import { PADDING_SCHEMES } from '../modes/padding';
+import { BlockCipherEngine } from './block-cipher-engine';
+import { BlowfishBlockCipher } from '../primitives/blowfish';
 
-export class BlowfishEngine implements CipherEngine {
+export class BlowfishEngine extends BlockCipherEngine {
   readonly metadata: CipherMetadata = {
     id: 'blowfish',
     name: 'Blowfish',
     category: 'symmetric',
     variants: [
-      { id: 'blowfish-64', name: 'Blowfish-64', keySize: 64 },
-      { id: 'blowfish-128', name: 'Blowfish-128', keySize: 128 },
-      { id: 'blowfish-256', name: 'Blowfish-256', keySize: 256 },
-      { id: 'blowfish-448', name: 'Blowfish-448', keySize: 448 }
+      { id: 'blowfish-64', name: 'Blowfish-64', keySize: 8 },
+      { id: 'blowfish-128', name: 'Blowfish-128', keySize: 16 },
+      { id: 'blowfish-256', name: 'Blowfish-256', keySize: 32 },
+      { id: 'blowfish-448', name: 'Blowfish-448', keySize: 56 }
     ],
-    modes: ['ECB', 'CBC', 'CFB', 'OFB'],
+    modes: BLOCK_MODES,
+    paddingSchemes: PADDING_SCHEMES,
     description: 'Blowfish symmetric block cipher designed by Bruce Schneier',
     keyRequirements: {
-      minKeySize: 32,
-      maxKeySize: 448,
-      keySizes: [64, 128, 256, 448]
+      minKeySize: 4,
+      maxKeySize: 56,
+      keySizes: [8, 16, 32, 56]
     },
     ivRequired: true,
     ivSize: 8,
@@ -42,191 +46,13 @@ export class BlowfishEngine implements CipherEngine {
     performance: 'fast'
   };
 
-  async encrypt(params: EncryptionParams): Promise<CryptoOperation> {
-    try {
-      const { plaintext, key, iv, mode = 'CBC', variant = 'blowfish-128' } = params;
-      
-      if (!plaintext || !key) {
-        throw new Error('Plaintext and key are required');
-      }
-
-      if (!this.validateKey(key)) {
-        throw new Error('Invalid Blowfish key. Must be between 4 and 56 bytes');
-      }
-
-      const keyBytes = CryptoJS.enc.Hex.parse(key);
-      const ivBytes = iv ? CryptoJS.enc.Hex.parse(iv) : CryptoJS.lib.WordArray.random(8);
-
-      let encrypted: CryptoJS.lib.CipherParams;
-      
-      switch (mode) {
-        case 'ECB':
-          encrypted = CryptoJS.Blowfish.encrypt(plaintext, keyBytes, {
-            mode: CryptoJS.mode.ECB,
-            padding: CryptoJS.pad.Pkcs7
-          });
-          break;
-        case 'CBC':
-          encrypted = CryptoJS.Blowfish.encrypt(plaintext, keyBytes, {
-            iv: ivBytes,
-            mode: CryptoJS.mode.CBC,
-            padding: CryptoJS.pad.Pkcs7
-          });
-          break;
-        case 'CFB':
-          encrypted = CryptoJS.Blowfish.encrypt(plaintext, keyBytes, {
-            iv: ivBytes,
-            mode: CryptoJS.mode.CFB,
-            padding: CryptoJS.pad.NoPadding
-          });
-          break;
-        case 'OFB':
-          encrypted = CryptoJS.Blowfish.encrypt(plaintext, keyBytes, {
-            iv: ivBytes,
-            mode: CryptoJS.mode.OFB,
-            padding: CryptoJS.pad.NoPadding
-          });
-          break;
-        default:
-          throw new Error(`Unsupported mode: ${mode}`);
-      }
-
-      const keyLength = this.getKeyLengthFromVariant(variant);
-
-      return {
-        success: true,
-        result: encrypted.toString(),
-        metadata: {
-          keyLength,
-          ivLength: mode !== 'ECB' ? 8 : undefined,
-          mode,
-          variant
-        }
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Blowfish encryption failed'
-      };
-    }
-  }
-
-  async decrypt(params: DecryptionParams): Promise<CryptoOperation> {
-    try {
-      const { ciphertext, key, iv, mode = 'CBC', variant = 'blowfish-128' } = params;
-      
-      if (!ciphertext || !key) {
-        throw new Error('Ciphertext and key are required');
-      }
-
-      if (!this.validateKey(key)) {
-        throw new Error('Invalid Blowfish key. Must be between 4 and 56 bytes');
-      }
-
-      const keyBytes = CryptoJS.enc.Hex.parse(key);
-      const ivBytes = iv ? CryptoJS.enc.Hex.parse(iv) : undefined;
-
-      let decrypted: CryptoJS.lib.WordArray;
-      
-      switch (mode) {
-        case 'ECB':
-          decrypted = CryptoJS.Blowfish.decrypt(ciphertext, keyBytes, {
-            mode: CryptoJS.mode.ECB,
-            padding: CryptoJS.pad.Pkcs7
-          });
-          break;
-        case 'CBC':
-          if (!ivBytes) {
-            throw new Error('IV is required for CBC mode');
-          }
-          decrypted = CryptoJS.Blowfish.decrypt(ciphertext, keyBytes, {
-            iv: ivBytes,
-            mode: CryptoJS.mode.CBC,
-            padding: CryptoJS.pad.Pkcs7
-          });
-          break;
-        case 'CFB':
-          if (!ivBytes) {
-            throw new Error('IV is required for CFB mode');
-          }
-          decrypted = CryptoJS.Blowfish.decrypt(ciphertext, keyBytes, {
-            iv: ivBytes,
-            mode: CryptoJS.mode.CFB,
-            padding: CryptoJS.pad.NoPadding
-          });
-          break;
-        case 'OFB':
-          if (!ivBytes) {
-            throw new Error('IV is required for OFB mode');
-          }
-          decrypted = CryptoJS.Blowfish.decrypt(ciphertext, keyBytes, {
-            iv: ivBytes,
-            mode: CryptoJS.mode.OFB,
-            padding: CryptoJS.pad.NoPadding
-          });
-          break;
-        default:
-          throw new Error(`Unsupported mode: ${mode}`);
-      }
-
-      const keyLength = this.getKeyLengthFromVariant(variant);
-
-      return {
-        success: true,
-        result: decrypted.toString(CryptoJS.enc.Utf8),
-        metadata: {
-          keyLength,
-          ivLength: mode !== 'ECB' ? 8 : undefined,
-          mode,
-          variant
-        }
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Blowfish decryption failed'
-      };
-    }
-  }
-
-  async generateKey(keySize: number = 128): Promise<string> {
-    // Convert bits to bytes
-    const keyBytes = Math.ceil(keySize / 8);
-    const key = CryptoJS.lib.WordArray.random(keyBytes);
-    return key.toString(CryptoJS.enc.Hex);
-  }
-
-  async generateIV(ivSize: number = 8): Promise<string> {
-    const iv = CryptoJS.lib.WordArray.random(ivSize);
-    return iv.toString(CryptoJS.enc.Hex);
-  }
-
-  validateKey(key: string, keySize?: number): boolean {
-    try {
-      const keyBytes = CryptoJS.enc.Hex.parse(key);
-      // Blowfish accepts keys from 32 bits (4 bytes) to 448 bits (56 bytes)
-      return keyBytes.sigBytes >= 4 && keyBytes.sigBytes <= 56;
-    } catch {
-      return false;
-    }
-  }
+  protected readonly blockSize = 8;
 
-  validateIV(iv: string): boolean {
-    try {
-      const ivBytes = CryptoJS.enc.Hex.parse(iv);
-      return ivBytes.sigBytes === 8; // 64 bits
-    } catch {
-      return false;
-    }
+  protected get defaultVariant(): string {
+    return 'blowfish-128';
   }
 
-  private getKeyLengthFromVariant(variant: string): number {
-    const variantMap: { [key: string]: number } = {
-      'blowfish-64': 64,
-      'blowfish-128': 128,
-      'blowfish-256': 256,
-      'blowfish-448': 448
-    };
-    return variantMap[variant] || 128;
+  protected createCipher(key: Uint8Array): BlowfishBlockCipher {
+    return new BlowfishBlockCipher(key);
   }
 }
@@ -0,0 +1,52 @@
+import {
+  CipherEngine,
+  CipherMetadata,
+  EncryptionParams,
+  DecryptionParams,
+  ByteEncryptionParams,
+  ByteDecryptionParams,
+  CryptoOperation
+} from '@/types/crypto';
+import { isValidHex, hexToBytes, bytesToHex } from '@/lib/crypto-utils';
+
+/**
+ * Base engine whose operations work on raw bytes. The string API is layered on top:
+ * plaintexts are UTF-8 text and ciphertexts are hex.
+ */
+export abstract class ByteCipherEngine implements CipherEngine {
+  abstract readonly metadata: CipherMetadata;
+
+  abstract encryptBytes(params: ByteEncryptionParams): Promise<CryptoOperation<Uint8Array>>;
+  abstract decryptBytes(params: ByteDecryptionParams): Promise<CryptoOperation<Uint8Array>>;
+  abstract generateKey(keySize?: number): Promise<string>;
+  abstract validateKey(key: string, keySize?: number): boolean;
+
+  async encrypt(params: EncryptionParams): Promise<CryptoOperation> {
+    const operation = await this.encryptBytes({ ...params, plaintext: new TextEncoder().encode(params.plaintext) });
+    return { ...operation, result: operation.result && bytesToHex(operation.result) };
+  }
+
+  async decrypt(params: DecryptionParams): Promise<CryptoOperation> {
+    if (!isValidHex(params.ciphertext)) {
+      return {
+        success: false,
+        error: 'Invalid ciphertext format. Must be valid hexadecimal.'
+      };
+    }
+
+    const operation = await this.decryptBytes({ ...params, ciphertext: hexToBytes(params.ciphertext) });
+    if (!operation.result) {
+      return { ...operation, result: undefined };
+    }
+
+    try {
+      return { ...operation, result: new TextDecoder('utf-8', { fatal: true }).decode(operation.result) };
+    } catch {
+      return {
+        success: false,
+        error: 'Decryption failed: the plaintext is not valid UTF-8 text. Use decryptBytes for binary data.',
+        metadata: operation.metadata
+      };
+    }
+  }
+}
@@ -1,230 +0,0 @@
-import CryptoJS from 'crypto-js';
-export class CamelliaEngine {
-    constructor() {
-        this.metadata = {
-            id: 'camellia',
-            name: 'Camellia',
-            category: 'symmetric',
-            variants: [
-                { id: 'camellia-128', name: 'Camellia-128', keySize: 128 },
-                { id: 'camellia-192', name: 'Camellia-192', keySize: 192 },
-                { id: 'camellia-256', name: 'Camellia-256', keySize: 256 }
-            ],
-            modes: ['ECB', 'CBC', 'CFB', 'OFB', 'CTR'],
-            description: 'Camellia block cipher jointly developed by Mitsubishi and NTT',
-            keyRequirements: {
-                minKeySize: 128,
-                maxKeySize: 256,
-                keySizes: [128, 192, 256]
-            },
-            ivRequired: true,
-            ivSize: 16,
-            nonceRequired: false,
-            securityNotes: [
-                {
-                    level: 'info',
-                    message: 'Camellia offers security equivalent to AES'
-                },
-                {
-                    level: 'info',
-                    message: 'Widely used in Japan and standardized internationally'
-                }
-            ],
-            references: [
-                {
-                    title: 'Camellia Block Cipher Specification',
-                    url: 'https://info.isl.ntt.co.jp/crypt/camellia/'
-                }
-            ], complexity: 'medium',
-            performance: 'medium'
-        };
-    }
-    async encrypt(params) {
-        try {
-            const { plaintext, key, iv, mode = 'CBC', variant = 'camellia-256' } = params;
-            if (!plaintext || !key) {
-                throw new Error('Plaintext and key are required');
-            }
-            if (!this.validateKey(key)) {
-                throw new Error('Invalid Camellia key. Must be 16, 24, or 32 bytes');
-            }
-            // Note: Using AES as placeholder since Camellia is not in crypto-js
-            // In production, use a proper Camellia implementation
-            console.warn('Camellia implementation using AES placeholder - use proper Camellia library in production');
-            const keyBytes = CryptoJS.enc.Hex.parse(key);
-            const ivBytes = iv ? CryptoJS.enc.Hex.parse(iv) : CryptoJS.lib.WordArray.random(16);
-            let encrypted;
-            switch (mode) {
-                case 'ECB':
-                    encrypted = CryptoJS.AES.encrypt(plaintext, keyBytes, {
-                        mode: CryptoJS.mode.ECB,
-                        padding: CryptoJS.pad.Pkcs7
-                    });
-                    break;
-                case 'CBC':
-                    encrypted = CryptoJS.AES.encrypt(plaintext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.CBC,
-                        padding: CryptoJS.pad.Pkcs7
-                    });
-                    break;
-                case 'CFB':
-                    encrypted = CryptoJS.AES.encrypt(plaintext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.CFB,
-                        padding: CryptoJS.pad.NoPadding
-                    });
-                    break;
-                case 'OFB':
-                    encrypted = CryptoJS.AES.encrypt(plaintext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.OFB,
-                        padding: CryptoJS.pad.NoPadding
-                    });
-                    break;
-                case 'CTR':
-                    encrypted = CryptoJS.AES.encrypt(plaintext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.CTR,
-                        padding: CryptoJS.pad.NoPadding
-                    });
-                    break;
-                default:
-                    throw new Error(`Unsupported mode: ${mode}`);
-            }
-            const keyLength = this.getKeyLengthFromVariant(variant);
-            return {
-                success: true,
-                result: encrypted.toString(),
-                metadata: {
-                    keyLength,
-                    ivLength: mode !== 'ECB' ? 16 : undefined,
-                    mode,
-                    variant
-                }
-            };
-        }
-        catch (error) {
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Camellia encryption failed'
-            };
-        }
-    }
-    async decrypt(params) {
-        try {
-            const { ciphertext, key, iv, mode = 'CBC', variant = 'camellia-256' } = params;
-            if (!ciphertext || !key) {
-                throw new Error('Ciphertext and key are required');
-            }
-            if (!this.validateKey(key)) {
-                throw new Error('Invalid Camellia key. Must be 16, 24, or 32 bytes');
-            }
-            const keyBytes = CryptoJS.enc.Hex.parse(key);
-            const ivBytes = iv ? CryptoJS.enc.Hex.parse(iv) : undefined;
-            let decrypted;
-            switch (mode) {
-                case 'ECB':
-                    decrypted = CryptoJS.AES.decrypt(ciphertext, keyBytes, {
-                        mode: CryptoJS.mode.ECB,
-                        padding: CryptoJS.pad.Pkcs7
-                    });
-                    break;
-                case 'CBC':
-                    if (!ivBytes) {
-                        throw new Error('IV is required for CBC mode');
-                    }
-                    decrypted = CryptoJS.AES.decrypt(ciphertext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.CBC,
-                        padding: CryptoJS.pad.Pkcs7
-                    });
-                    break;
-                case 'CFB':
-                    if (!ivBytes) {
-                        throw new Error('IV is required for CFB mode');
-                    }
-                    decrypted = CryptoJS.AES.decrypt(ciphertext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.CFB,
-                        padding: CryptoJS.pad.NoPadding
-                    });
-                    break;
-                case 'OFB':
-                    if (!ivBytes) {
-                        throw new Error('IV is required for OFB mode');
-                    }
-                    decrypted = CryptoJS.AES.decrypt(ciphertext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.OFB,
-                        padding: CryptoJS.pad.NoPadding
-                    });
-                    break;
-                case 'CTR':
-                    if (!ivBytes) {
-                        throw new Error('IV is required for CTR mode');
-                    }
-                    decrypted = CryptoJS.AES.decrypt(ciphertext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.CTR,
-                        padding: CryptoJS.pad.NoPadding
-                    });
-                    break;
-                default:
-                    throw new Error(`Unsupported mode: ${mode}`);
-            }
-            const keyLength = this.getKeyLengthFromVariant(variant);
-            return {
-                success: true,
-                result: decrypted.toString(CryptoJS.enc.Utf8),
-                metadata: {
-                    keyLength,
-                    ivLength: mode !== 'ECB' ? 16 : undefined,
-                    mode,
-                    variant
-                }
-            };
-        }
-        catch (error) {
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Camellia decryption failed'
-            };
-        }
-    }
-    async generateKey(keySize = 256) {
-        const keyBytes = Math.ceil(keySize / 8);
-        const key = CryptoJS.lib.WordArray.random(keyBytes);
-        return key.toString(CryptoJS.enc.Hex);
-    }
-    async generateIV(ivSize = 16) {
-        const iv = CryptoJS.lib.WordArray.random(ivSize);
-        return iv.toString(CryptoJS.enc.Hex);
-    }
-    validateKey(key, keySize) {
-        try {
-            const keyBytes = CryptoJS.enc.Hex.parse(key);
-            return keyBytes.sigBytes === 16 || keyBytes.sigBytes === 24 || keyBytes.sigBytes === 32;
-        }
-        catch {
-            return false;
-        }
-    }
-    validateIV(iv) {
-        try {
-            const ivBytes = CryptoJS.enc.Hex.parse(iv);
-            return ivBytes.sigBytes === 16;
-        }
-        catch {
-            return false;
-        }
-    }
-    getKeyLengthFromVariant(variant) {
-        const variantMap = {
-            'camellia-128': 128,
-            'camellia-192': 192,
-            'camellia-256': 256
-        };
-        return variantMap[variant] || 256;
-    }
-}
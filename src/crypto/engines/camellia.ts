@@ -1,7 +1,12 @@
-import { CipherEngine, CipherMetadata, EncryptionParams, DecryptionParams, CryptoOperation } from '../../types/crypto';
-import CryptoJS from 'crypto-js';
+import { CipherMetadata } from '../../types/crypto';
+import { BLOCK_MODES } from '../modes/block-modes';
+import { PADDING_SCHEMES } from '../modes/padding';
+import { GCM_TAG_LENGTHS } from '../modes/gcm';
+import { CCM_TAG_LENGTHS } from '../modes/ccm';
+import { BlockCipherEngine } from './block-cipher-engine';
+import { CamelliaBlockCipher } from '../primitives/camellia';
 
-export class CamelliaEngine implements CipherEngine {
+export class CamelliaEngine extends BlockCipherEngine {
   readonly metadata: CipherMetadata = {
     id: 'camellia',
     name: 'Camellia',
@@ -11,8 +16,9 @@ export class CamelliaEngine implements CipherEngine {
       { id: 'camellia-192', name: 'Camellia-192', keySize: 24 },
       { id: 'camellia-256', name: 'Camellia-256', keySize: 32 }
     ],
-    modes: ['CBC'],
-    description: 'Camellia cipher (using AES as fallback)',
+    modes: [...BLOCK_MODES, 'GCM', 'CCM'],
+    paddingSchemes: PADDING_SCHEMES,
+    description: 'Camellia 128-bit Feistel block cipher from NTT and Mitsubishi Electric, approved by CRYPTREC and ISO/IEC 18033-3',
     keyRequirements: {
       minKeySize: 16,
       maxKeySize: 32,
@@ -20,118 +26,44 @@ export class CamelliaEngine implements CipherEngine {
     },
     ivRequired: true,
     ivSize: 16,
+    ivSizeByMode: { GCM: 12, CCM: 12 },
+    tagSizesByMode: {
+      GCM: [...GCM_TAG_LENGTHS].reverse(),
+      CCM: [...CCM_TAG_LENGTHS].reverse()
+    },
     nonceRequired: false,
-    securityNotes: [{ level: 'info', message: 'Camellia fallback implementation using AES.' }],
-    references: [{ title: 'Camellia Cipher', url: 'https://example.com' }],
+    securityNotes: [
+      {
+        level: 'info',
+        message: 'Camellia offers security and performance comparable to AES and is standardized for TLS and IPsec'
+      },
+      {
+        level: 'warning',
+        message: 'Never reuse an IV with the same key in GCM or CCM mode'
+      }
+    ],
+    references: [
+      {
+        title: 'RFC 3713 - A Description of the Camellia Encryption Algorithm',
+        url: 'https://www.rfc-editor.org/rfc/rfc3713'
+      },
+      {
+        title: 'RFC 5528 - Camellia Counter Mode and Camellia Counter with CBC-MAC Mode Algorithms',
+        url: 'https://www.rfc-editor.org/rfc/rfc5528'
+      }
+    ],
     complexity: 'medium',
     performance: 'fast'
   };
 
-  async encrypt(params: EncryptionParams): Promise<CryptoOperation> {
-    try {
-      const { plaintext, key, iv, mode = 'CBC' } = params;
-      
-      if (!this.validateKey(key)) {
-        throw new Error('Invalid key format or length');
-      }
-      
-      // Convert key to CryptoJS format
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const finalIV = iv || CryptoJS.lib.WordArray.random(16).toString(CryptoJS.enc.Hex);
-      const ivWords = CryptoJS.enc.Hex.parse(finalIV);
-      
-      // Use AES as fallback since Camellia is not supported by CryptoJS
-      const options: any = {
-        iv: ivWords,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      };
-      
-      const encrypted = CryptoJS.AES.encrypt(plaintext, keyWords, options);
-      
-      return {
-        success: true,
-        result: encrypted.ciphertext.toString(CryptoJS.enc.Hex),
-        metadata: {
-          keyLength: keyWords.sigBytes,
-          ivLength: 16,
-          mode: 'CBC',
-          variant: `camellia-${keyWords.sigBytes * 8}`,
-          iv: finalIV
-        }
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown encryption error'
-      };
-    }
-  }
+  protected readonly blockSize = 16;
 
-  async decrypt(params: DecryptionParams): Promise<CryptoOperation> {
-    try {
-      const { ciphertext, key, iv } = params;
-      
-      if (!this.validateKey(key) || !iv) {
-        throw new Error('Invalid key or missing IV');
-      }
-
-      // Convert key, IV, and ciphertext to CryptoJS format
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const ivWords = CryptoJS.enc.Hex.parse(iv);
-      const ciphertextWords = CryptoJS.enc.Hex.parse(ciphertext);
-      
-      // Create cipher params object
-      const cipherParams = CryptoJS.lib.CipherParams.create({
-        ciphertext: ciphertextWords
-      });
-      
-      const options: any = {
-        iv: ivWords,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      };
-      
-      const decrypted = CryptoJS.AES.decrypt(cipherParams, keyWords, options);
-      const plaintext = decrypted.toString(CryptoJS.enc.Utf8);
-      
-      if (!plaintext) {
-        throw new Error('Failed to decrypt - invalid key, IV, or corrupted data');
-      }
-      
-      return {
-        success: true,
-        result: plaintext
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown decryption error'
-      };
-    }
+  protected get defaultVariant(): string {
+    return 'camellia-256';
   }
 
-  async generateKey(keySize?: number): Promise<string> {
-    const size = keySize || 32;
-    if (![16, 24, 32].includes(size)) {
-      throw new Error('Key size must be 16, 24, or 32 bytes');
-    }
-    return CryptoJS.lib.WordArray.random(size).toString(CryptoJS.enc.Hex);
-  }
-
-  validateKey(key: string, keySize?: number): boolean {
-    try {
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const validSizes = [16, 24, 32];
-      
-      if (keySize) {
-        return keyWords.sigBytes === keySize;
-      }
-      
-      return validSizes.includes(keyWords.sigBytes);
-    } catch {
-      return false;
-    }
+  protected createCipher(key: Uint8Array): CamelliaBlockCipher {
+    return new CamelliaBlockCipher(key);
   }
 }
 
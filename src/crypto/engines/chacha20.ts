@@ -1,137 +1,386 @@
-import { CipherEngine, CipherMetadata, EncryptionParams, DecryptionParams, CryptoOperation } from '../../types/crypto';
-import CryptoJS from 'crypto-js';
+import { CipherMetadata, ByteEncryptionParams, ByteDecryptionParams, CryptoOperation } from '../../types/crypto';
+import { generateRandomHex, validateKeyLength, hexToBytes, bytesToHex, concatBytes, secureCompare, AuthenticationError } from '@/lib/crypto-utils';
+import { poly1305, poly1305AeadData } from '../primitives/poly1305';
+import { ByteCipherEngine } from './byte-cipher-engine';
 
-export class Chacha20Engine implements CipherEngine {
+export class Chacha20Engine extends ByteCipherEngine {
   readonly metadata: CipherMetadata = {
     id: 'chacha20',
     name: 'ChaCha20',
     category: 'symmetric',
     variants: [
-      { id: 'chacha20-128', name: 'ChaCha20-128', keySize: 16 },
-      { id: 'chacha20-192', name: 'ChaCha20-192', keySize: 24 },
-      { id: 'chacha20-256', name: 'ChaCha20-256', keySize: 32 }
+      { id: 'chacha20', name: 'ChaCha20', keySize: 32 },
+      { id: 'chacha20-poly1305', name: 'ChaCha20-Poly1305', keySize: 32, aead: true },
+      { id: 'xchacha20', name: 'XChaCha20', keySize: 32 },
+      { id: 'xchacha20-poly1305', name: 'XChaCha20-Poly1305', keySize: 32, aead: true }
     ],
-    modes: ['CBC'],
-    description: 'ChaCha20 cipher (using AES as fallback)',
+    modes: ['Stream'],
+    description: 'ChaCha20 is a stream cipher developed by Daniel J. Bernstein. It\'s designed to be faster than AES in software-only implementations while providing similar security.',
     keyRequirements: {
-      minKeySize: 16,
+      minKeySize: 32,
       maxKeySize: 32,
-      keySizes: [16, 24, 32]
+      keySizes: [32]
     },
-    ivRequired: true,
-    ivSize: 16,
-    nonceRequired: false,
-    securityNotes: [{ level: 'info', message: 'ChaCha20 fallback implementation using AES.' }],
-    references: [{ title: 'ChaCha20 Cipher', url: 'https://example.com' }],
-    complexity: 'medium',
+    ivRequired: false,
+    nonceRequired: true,
+    nonceSize: 12,
+    nonceSizeByVariant: {
+      'xchacha20': 24,
+      'xchacha20-poly1305': 24
+    },
+    securityNotes: [
+      {
+        level: 'info',
+        message: 'ChaCha20 is considered very secure and is used in modern protocols like TLS 1.3.'
+      },
+      {
+        level: 'warning',
+        message: 'Never reuse the same nonce with the same key.'
+      },
+      {
+        level: 'warning',
+        message: 'ChaCha20 alone provides confidentiality only; use the ChaCha20-Poly1305 variant to detect tampering.'
+      },
+      {
+        level: 'info',
+        message: 'The XChaCha20 variants take 24-byte nonces, long enough to choose at random for every message.'
+      }
+    ],
+    references: [
+      {
+        title: 'RFC 8439 - ChaCha20 and Poly1305 for IETF Protocols',
+        url: 'https://tools.ietf.org/html/rfc8439'
+      },
+      {
+        title: 'draft-irtf-cfrg-xchacha - XChaCha: eXtended-nonce ChaCha and AEAD_XChaCha20_Poly1305',
+        url: 'https://datatracker.ietf.org/doc/html/draft-irtf-cfrg-xchacha'
+      }
+    ],
+    complexity: 'low',
     performance: 'fast'
   };
 
-  async encrypt(params: EncryptionParams): Promise<CryptoOperation> {
+  // "expand 32-byte k"
+  private readonly CONSTANTS = [0x61707865, 0x3320646e, 0x79622d32, 0x6b206574];
+  private readonly BLOCK_SIZE = 64;
+  private readonly DEFAULT_COUNTER = 1;
+  private readonly TAG_SIZE = 16;
+
+  async encryptBytes(params: ByteEncryptionParams): Promise<CryptoOperation<Uint8Array>> {
     try {
-      const { plaintext, key, iv, mode = 'CBC' } = params;
-      
+      const { plaintext, key, nonce, variant = 'chacha20', additionalData = '', counter = this.DEFAULT_COUNTER } = params;
+
       if (!this.validateKey(key)) {
-        throw new Error('Invalid key format or length');
+        throw new Error('Invalid ChaCha20 key. Must be 32 bytes (64 hex characters)');
       }
-      
-      // Convert key to CryptoJS format
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const finalIV = iv || CryptoJS.lib.WordArray.random(16).toString(CryptoJS.enc.Hex);
-      const ivWords = CryptoJS.enc.Hex.parse(finalIV);
-      
-      // Use AES as fallback since ChaCha20 is not supported by CryptoJS
-      const options: any = {
-        iv: ivWords,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      };
-      
-      const encrypted = CryptoJS.AES.encrypt(plaintext, keyWords, options);
-      
+
+      const nonceSize = this.getNonceSize(variant);
+      const finalNonce = nonce || await this.generateNonce(nonceSize);
+      this.checkNonce(finalNonce, nonceSize);
+      const { subkey, innerNonce } = this.deriveSubkey(hexToBytes(key), hexToBytes(finalNonce));
+
+      if (this.isAEAD(variant)) {
+        this.validateAEADCounter(counter);
+        const aad = new TextEncoder().encode(additionalData);
+        const { ciphertext, tag } = this.seal(subkey, innerNonce, plaintext, aad);
+
+        return {
+          success: true,
+          result: concatBytes(ciphertext, tag),
+          metadata: {
+            keyLength: 32,
+            nonceLength: nonceSize,
+            mode: 'Stream',
+            variant,
+            nonce: finalNonce,
+            tag: bytesToHex(tag),
+            tagLength: this.TAG_SIZE
+          }
+        };
+      }
+
+      this.validateCounter(counter, plaintext.length);
+
+      const encrypted = this.xorKeystream(subkey, innerNonce, counter, plaintext);
+
       return {
         success: true,
-        result: encrypted.ciphertext.toString(CryptoJS.enc.Hex),
+        result: encrypted,
         metadata: {
-          keyLength: keyWords.sigBytes,
-          ivLength: 16,
-          mode: 'CBC',
-          variant: `chacha20-${keyWords.sigBytes * 8}`,
-          iv: finalIV
+          keyLength: 32,
+          nonceLength: nonceSize,
+          mode: 'Stream',
+          variant,
+          nonce: finalNonce,
+          counter
         }
       };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown encryption error'
+        error: error instanceof Error ? error.message : 'ChaCha20 encryption failed'
       };
     }
   }
 
-  async decrypt(params: DecryptionParams): Promise<CryptoOperation> {
+  async decryptBytes(params: ByteDecryptionParams): Promise<CryptoOperation<Uint8Array>> {
     try {
-      const { ciphertext, key, iv } = params;
-      
-      if (!this.validateKey(key) || !iv) {
-        throw new Error('Invalid key or missing IV');
+      const { ciphertext, key, nonce, tag, variant = 'chacha20', additionalData = '', counter = this.DEFAULT_COUNTER } = params;
+
+      if (!this.validateKey(key)) {
+        throw new Error('Invalid ChaCha20 key. Must be 32 bytes (64 hex characters)');
       }
 
-      // Convert key, IV, and ciphertext to CryptoJS format
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const ivWords = CryptoJS.enc.Hex.parse(iv);
-      const ciphertextWords = CryptoJS.enc.Hex.parse(ciphertext);
-      
-      // Create cipher params object
-      const cipherParams = CryptoJS.lib.CipherParams.create({
-        ciphertext: ciphertextWords
-      });
-      
-      const options: any = {
-        iv: ivWords,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      };
-      
-      const decrypted = CryptoJS.AES.decrypt(cipherParams, keyWords, options);
-      const plaintext = decrypted.toString(CryptoJS.enc.Utf8);
-      
-      if (!plaintext) {
-        throw new Error('Failed to decrypt - invalid key, IV, or corrupted data');
+      if (!nonce) {
+        throw new Error('Nonce is required for ChaCha20');
+      }
+
+      const nonceSize = this.getNonceSize(variant);
+      this.checkNonce(nonce, nonceSize);
+      const { subkey, innerNonce } = this.deriveSubkey(hexToBytes(key), hexToBytes(nonce));
+
+      if (this.isAEAD(variant)) {
+        this.validateAEADCounter(counter);
+        const { body, tagBytes } = this.splitTag(ciphertext, tag);
+        const aad = new TextEncoder().encode(additionalData);
+        const opened = this.open(subkey, innerNonce, body, tagBytes, aad);
+
+        return {
+          success: true,
+          result: opened,
+          metadata: {
+            keyLength: 32,
+            nonceLength: nonceSize,
+            mode: 'Stream',
+            variant,
+            tag: bytesToHex(tagBytes),
+            tagLength: this.TAG_SIZE
+          }
+        };
       }
-      
+
+      this.validateCounter(counter, ciphertext.length);
+
+      const decrypted = this.xorKeystream(subkey, innerNonce, counter, ciphertext);
+
       return {
         success: true,
-        result: plaintext
+        result: decrypted,
+        metadata: {
+          keyLength: 32,
+          nonceLength: nonceSize,
+          mode: 'Stream',
+          variant,
+          counter
+        }
       };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown decryption error'
+        error: error instanceof Error ? error.message : 'ChaCha20 decryption failed',
+        ...(error instanceof AuthenticationError && { errorCode: 'AUTHENTICATION_FAILED' as const })
       };
     }
   }
 
-  async generateKey(keySize?: number): Promise<string> {
-    const size = keySize || 32;
-    if (![16, 24, 32].includes(size)) {
-      throw new Error('Key size must be 16, 24, or 32 bytes');
+  async generateKey(keySize: number = 32): Promise<string> {
+    if (keySize !== 32) {
+      throw new Error('ChaCha20 key size must be 32 bytes');
     }
-    return CryptoJS.lib.WordArray.random(size).toString(CryptoJS.enc.Hex);
+    return generateRandomHex(32);
+  }
+
+  async generateNonce(nonceSize: number = 12): Promise<string> {
+    return generateRandomHex(nonceSize);
   }
 
   validateKey(key: string, keySize?: number): boolean {
-    try {
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const validSizes = [16, 24, 32];
-      
-      if (keySize) {
-        return keyWords.sigBytes === keySize;
+    return validateKeyLength(key, [32], 'hex');
+  }
+
+  /**
+   * Accepts a 12-byte nonce or the 24-byte nonce of the XChaCha20 variants
+   */
+  validateNonce(nonce: string): boolean {
+    return validateKeyLength(nonce, [12, 24], 'hex');
+  }
+
+  private isAEAD(variant: string): boolean {
+    return this.metadata.variants.some(v => v.id === variant && v.aead);
+  }
+
+  private getNonceSize(variant: string): number {
+    return this.metadata.nonceSizeByVariant?.[variant] ?? 12;
+  }
+
+  private checkNonce(nonce: string, nonceSize: number): void {
+    if (!validateKeyLength(nonce, [nonceSize], 'hex')) {
+      const name = nonceSize === 24 ? 'XChaCha20' : 'ChaCha20';
+      throw new Error(`Invalid ${name} nonce. Must be ${nonceSize} bytes (${nonceSize * 2} hex characters)`);
+    }
+  }
+
+  /**
+   * XChaCha20 runs ChaCha20 under the subkey HChaCha20(key, nonce[0..16]) with the nonce
+   * 0x00000000 || nonce[16..24]; 12-byte nonces use the key as it is
+   */
+  private deriveSubkey(key: Uint8Array, nonce: Uint8Array): { subkey: Uint8Array; innerNonce: Uint8Array } {
+    if (nonce.length !== 24) {
+      return { subkey: key, innerNonce: nonce };
+    }
+    return {
+      subkey: this.hchacha20(key, nonce.subarray(0, 16)),
+      innerNonce: concatBytes(new Uint8Array(4), nonce.subarray(16))
+    };
+  }
+
+  /**
+   * RFC 8439 AEAD reserves block 0 for the Poly1305 key, so encryption always starts at 1
+   */
+  private validateAEADCounter(counter: number): void {
+    if (counter !== 1) {
+      throw new Error('The initial counter is fixed at 1 for ChaCha20-Poly1305');
+    }
+  }
+
+  private splitTag(data: Uint8Array, tag?: string): { body: Uint8Array; tagBytes: Uint8Array } {
+    if (tag) {
+      if (!validateKeyLength(tag, [this.TAG_SIZE], 'hex')) {
+        throw new Error('Invalid Poly1305 tag. Must be 16 bytes (32 hex characters)');
+      }
+      return { body: data, tagBytes: hexToBytes(tag) };
+    }
+    if (data.length < this.TAG_SIZE) {
+      throw new Error('Ciphertext is too short to contain a Poly1305 tag');
+    }
+    return {
+      body: data.subarray(0, data.length - this.TAG_SIZE),
+      tagBytes: data.subarray(data.length - this.TAG_SIZE)
+    };
+  }
+
+  private seal(key: Uint8Array, nonce: Uint8Array, plaintext: Uint8Array, aad: Uint8Array): { ciphertext: Uint8Array; tag: Uint8Array } {
+    this.validateCounter(1, plaintext.length);
+    const ciphertext = this.xorKeystream(key, nonce, 1, plaintext);
+    return { ciphertext, tag: this.computeTag(key, nonce, ciphertext, aad) };
+  }
+
+  private open(key: Uint8Array, nonce: Uint8Array, ciphertext: Uint8Array, tag: Uint8Array, aad: Uint8Array): Uint8Array {
+    this.validateCounter(1, ciphertext.length);
+    const expected = this.computeTag(key, nonce, ciphertext, aad);
+    if (!secureCompare(expected, tag)) {
+      throw new AuthenticationError();
+    }
+    return this.xorKeystream(key, nonce, 1, ciphertext);
+  }
+
+  private computeTag(key: Uint8Array, nonce: Uint8Array, ciphertext: Uint8Array, aad: Uint8Array): Uint8Array {
+    const oneTimeKey = this.chacha20Block(key, nonce, 0).subarray(0, 32);
+    return poly1305(oneTimeKey, poly1305AeadData(aad, ciphertext));
+  }
+
+  /**
+   * The 32-bit block counter must not wrap around within a single message
+   */
+  private validateCounter(counter: number, length: number): void {
+    if (!Number.isInteger(counter) || counter < 0 || counter > 0xffffffff) {
+      throw new Error('Invalid ChaCha20 counter. Must be an integer between 0 and 4294967295');
+    }
+    const blocksNeeded = Math.ceil(length / this.BLOCK_SIZE);
+    if (counter + blocksNeeded - 1 > 0xffffffff) {
+      throw new Error('Message too long for the given initial counter');
+    }
+  }
+
+  private xorKeystream(key: Uint8Array, nonce: Uint8Array, counter: number, data: Uint8Array): Uint8Array {
+    const output = new Uint8Array(data.length);
+
+    for (let offset = 0; offset < data.length; offset += this.BLOCK_SIZE) {
+      const block = this.chacha20Block(key, nonce, counter + offset / this.BLOCK_SIZE);
+      const end = Math.min(this.BLOCK_SIZE, data.length - offset);
+      for (let i = 0; i < end; i++) {
+        output[offset + i] = data[offset + i] ^ block[i];
       }
-      
-      return validSizes.includes(keyWords.sigBytes);
-    } catch {
-      return false;
     }
+
+    return output;
+  }
+
+  private chacha20Block(key: Uint8Array, nonce: Uint8Array, counter: number): Uint8Array {
+    const counterBytes = new Uint8Array(4);
+    new DataView(counterBytes.buffer).setUint32(0, counter, true);
+    const state = this.initialState(key, concatBytes(counterBytes, nonce));
+    const workingState = this.rounds(state);
+
+    const output = new Uint8Array(this.BLOCK_SIZE);
+    const outputView = new DataView(output.buffer);
+    for (let i = 0; i < 16; i++) {
+      outputView.setUint32(i * 4, (workingState[i] + state[i]) >>> 0, true);
+    }
+
+    return output;
+  }
+
+  /**
+   * HChaCha20: the ChaCha20 rounds with a 16-byte input in place of counter and nonce, and
+   * words 0-3 and 12-15 of the result as the subkey, without the final addition
+   */
+  private hchacha20(key: Uint8Array, input: Uint8Array): Uint8Array {
+    const workingState = this.rounds(this.initialState(key, input));
+    const output = new Uint8Array(32);
+    const outputView = new DataView(output.buffer);
+    for (let i = 0; i < 4; i++) {
+      outputView.setUint32(i * 4, workingState[i], true);
+      outputView.setUint32(16 + i * 4, workingState[12 + i], true);
+    }
+    return output;
+  }
+
+  // Constants, key, then 16 bytes of counter and nonce, all as little-endian words
+  private initialState(key: Uint8Array, input: Uint8Array): Uint32Array {
+    const state = new Uint32Array(16);
+    const keyView = new DataView(key.buffer, key.byteOffset, key.byteLength);
+    const inputView = new DataView(input.buffer, input.byteOffset, input.byteLength);
+
+    state.set(this.CONSTANTS, 0);
+    for (let i = 0; i < 8; i++) {
+      state[4 + i] = keyView.getUint32(i * 4, true);
+    }
+    for (let i = 0; i < 4; i++) {
+      state[12 + i] = inputView.getUint32(i * 4, true);
+    }
+    return state;
+  }
+
+  private rounds(state: Uint32Array): Uint32Array {
+    const workingState = state.slice();
+
+    for (let i = 0; i < 20; i += 2) {
+      // Column round
+      this.quarterRound(workingState, 0, 4, 8, 12);
+      this.quarterRound(workingState, 1, 5, 9, 13);
+      this.quarterRound(workingState, 2, 6, 10, 14);
+      this.quarterRound(workingState, 3, 7, 11, 15);
+
+      // Diagonal round
+      this.quarterRound(workingState, 0, 5, 10, 15);
+      this.quarterRound(workingState, 1, 6, 11, 12);
+      this.quarterRound(workingState, 2, 7, 8, 13);
+      this.quarterRound(workingState, 3, 4, 9, 14);
+    }
+
+    return workingState;
+  }
+
+  private quarterRound(state: Uint32Array, a: number, b: number, c: number, d: number): void {
+    state[a] += state[b]; state[d] = this.rotateLeft(state[d] ^ state[a], 16);
+    state[c] += state[d]; state[b] = this.rotateLeft(state[b] ^ state[c], 12);
+    state[a] += state[b]; state[d] = this.rotateLeft(state[d] ^ state[a], 8);
+    state[c] += state[d]; state[b] = this.rotateLeft(state[b] ^ state[c], 7);
+  }
+
+  private rotateLeft(value: number, positions: number): number {
+    return ((value << positions) | (value >>> (32 - positions))) >>> 0;
   }
 }
 
@@ -0,0 +1,174 @@
+import {
+  CipherMetadata,
+  ByteEncryptionParams,
+  ByteDecryptionParams,
+  CryptoOperation,
+  KeyPair,
+  SignatureParams,
+  VerificationParams
+} from '../../types/crypto';
+import { isValidHex, hexToBytes, bytesToHex } from '@/lib/crypto-utils';
+import {
+  ML_DSA_PARAMETERS,
+  MlDsaParameters,
+  mlDsaKeyGen,
+  mlDsaSign,
+  mlDsaVerify,
+  publicKeySize,
+  secretKeySize
+} from '../primitives/ml-dsa';
+import { ByteCipherEngine } from './byte-cipher-engine';
+
+const PARAMETER_SETS: Record<string, MlDsaParameters> = {
+  'ml-dsa-44': ML_DSA_PARAMETERS['ML-DSA-44'],
+  'ml-dsa-65': ML_DSA_PARAMETERS['ML-DSA-65'],
+  'ml-dsa-87': ML_DSA_PARAMETERS['ML-DSA-87']
+};
+
+// Every parameter set expands its keys from a 32-byte seed
+const SEED_SIZE = 32;
+
+const KEY_SIZES = Object.values(PARAMETER_SETS).flatMap(params => [publicKeySize(params), secretKeySize(params)]);
+
+/**
+ * ML-DSA (FIPS 204): lattice-based Fiat-Shamir-with-aborts signatures over module lattices.
+ * It signs and verifies; there is no encryption.
+ */
+export class DilithiumEngine extends ByteCipherEngine {
+  readonly metadata: CipherMetadata = {
+    id: 'dilithium',
+    name: 'ML-DSA',
+    category: 'post-quantum',
+    variants: [
+      { id: 'ml-dsa-44', name: 'ML-DSA-44', keySize: SEED_SIZE },
+      { id: 'ml-dsa-65', name: 'ML-DSA-65', keySize: SEED_SIZE },
+      { id: 'ml-dsa-87', name: 'ML-DSA-87', keySize: SEED_SIZE }
+    ],
+    description: 'Module-Lattice-Based Digital Signature Algorithm (CRYSTALS-Dilithium), with hedged or deterministic signing',
+    keyRequirements: {
+      minKeySize: SEED_SIZE,
+      maxKeySize: SEED_SIZE,
+      keySizes: [SEED_SIZE]
+    },
+    ivRequired: false,
+    nonceRequired: false,
+    signatureOnly: true,
+    signatureContext: true,
+    securityNotes: [
+      {
+        level: 'info',
+        message: 'Sign with the private key; anyone with the public key (1,312 to 2,592 bytes) can verify'
+      },
+      {
+        level: 'info',
+        message: 'Hedged signing mixes fresh randomness into every signature; deterministic signing gives the same signature for the same message and context'
+      },
+      {
+        level: 'info',
+        message: 'Signing retries until the response leaks nothing about the key, so its time varies from one message to the next'
+      },
+      {
+        level: 'warning',
+        message: 'This is a teaching implementation in JavaScript and is not constant-time'
+      }
+    ],
+    references: [
+      {
+        title: 'FIPS 204 - Module-Lattice-Based Digital Signature Standard',
+        url: 'https://csrc.nist.gov/pubs/fips/204/final'
+      },
+      {
+        title: 'CRYSTALS-Dilithium submission to the NIST PQC project',
+        url: 'https://pq-crystals.org/dilithium/'
+      }
+    ],
+    complexity: 'high',
+    performance: 'medium'
+  };
+
+  async encryptBytes(_params: ByteEncryptionParams): Promise<CryptoOperation<Uint8Array>> {
+    return { success: false, error: 'ML-DSA is a signature scheme and cannot encrypt; sign and verify instead' };
+  }
+
+  async decryptBytes(_params: ByteDecryptionParams): Promise<CryptoOperation<Uint8Array>> {
+    return { success: false, error: 'ML-DSA is a signature scheme and cannot decrypt; sign and verify instead' };
+  }
+
+  async sign(params: SignatureParams): Promise<CryptoOperation<Uint8Array>> {
+    try {
+      const { message, key, variant = this.metadata.variants[0].id, context = '', deterministic = false } = params;
+      const parameters = this.getParameters(variant);
+      const secretKey = this.parseKey(key, secretKeySize(parameters), 'private');
+      const signature = mlDsaSign(parameters, secretKey, message, {
+        context: new TextEncoder().encode(context),
+        deterministic
+      });
+
+      return {
+        success: true,
+        result: signature,
+        metadata: { keyLength: secretKey.length, variant, signatureLength: signature.length }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'ML-DSA signing failed'
+      };
+    }
+  }
+
+  async verify(params: VerificationParams): Promise<CryptoOperation<boolean>> {
+    try {
+      const { message, signature, key, variant = this.metadata.variants[0].id, context = '' } = params;
+      const parameters = this.getParameters(variant);
+      const publicKey = this.parseKey(key, publicKeySize(parameters), 'public');
+
+      return {
+        success: true,
+        result: mlDsaVerify(parameters, publicKey, message, signature, new TextEncoder().encode(context)),
+        metadata: { keyLength: publicKey.length, variant, signatureLength: signature.length }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'ML-DSA verification failed'
+      };
+    }
+  }
+
+  /**
+   * A private key for the first variant; use generateKeyPair to get the public key as well
+   */
+  async generateKey(): Promise<string> {
+    return (await this.generateKeyPair()).privateKey;
+  }
+
+  async generateKeyPair(variant: string = this.metadata.variants[0].id): Promise<KeyPair> {
+    const { publicKey, secretKey } = mlDsaKeyGen(this.getParameters(variant));
+    return { publicKey: bytesToHex(publicKey), privateKey: bytesToHex(secretKey) };
+  }
+
+  /**
+   * Accepts a public or private key of any of the three parameter sets
+   */
+  validateKey(key: string): boolean {
+    return isValidHex(key) && KEY_SIZES.includes(key.length / 2);
+  }
+
+  private getParameters(variant: string): MlDsaParameters {
+    const parameters = PARAMETER_SETS[variant];
+    if (!parameters) {
+      throw new Error(`Unsupported variant: ${variant}`);
+    }
+    return parameters;
+  }
+
+  private parseKey(key: string, size: number, kind: 'public' | 'private'): Uint8Array {
+    if (!isValidHex(key) || key.length !== size * 2) {
+      throw new Error(`Invalid ${kind} key. Must be ${size} bytes (${size * 2} hex characters)`);
+    }
+    return hexToBytes(key);
+  }
+}
+
+export default DilithiumEngine;
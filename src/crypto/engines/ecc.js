@@ -1,222 +0,0 @@
-import { ec as EC } from 'elliptic';
-export class EccEngine {
-    constructor() {
-        this.metadata = {
-            id: 'ecc',
-            name: 'ECC',
-            category: 'asymmetric',
-            variants: [
-                { id: 'secp256k1', name: 'secp256k1', keySize: 256 },
-                { id: 'secp256r1', name: 'secp256r1 (P-256)', keySize: 256 },
-                { id: 'secp384r1', name: 'secp384r1 (P-384)', keySize: 384 },
-                { id: 'secp521r1', name: 'secp521r1 (P-521)', keySize: 521 }
-            ],
-            modes: ['ECB'],
-            description: 'Elliptic Curve Cryptography - provides same security as RSA with smaller keys',
-            keyRequirements: {
-                minKeySize: 256,
-                maxKeySize: 521,
-                keySizes: [256, 384, 521]
-            },
-            ivRequired: false,
-            nonceRequired: false,
-            securityNotes: [
-                {
-                    level: 'info',
-                    message: 'ECC provides equivalent security to RSA with much smaller key sizes'
-                },
-                {
-                    level: 'info',
-                    message: 'secp256k1 is used in Bitcoin, secp256r1 (P-256) is NIST standard'
-                },
-                {
-                    level: 'warning',
-                    message: 'Implementation requires careful attention to side-channel attacks'
-                }
-            ],
-            references: [
-                {
-                    title: 'Elliptic Curve Cryptography',
-                    url: 'https://en.wikipedia.org/wiki/Elliptic-curve_cryptography'
-                }
-            ],
-            complexity: 'high',
-            performance: 'medium'
-        };
-        this.curves = {
-            'secp256k1': new EC('secp256k1'),
-            'secp256r1': new EC('p256'),
-            'secp384r1': new EC('p384'),
-            'secp521r1': new EC('p521')
-        };
-    }
-    async encrypt(params) {
-        try {
-            const { plaintext, key: publicKey, variant = 'secp256r1' } = params;
-            if (!plaintext || !publicKey) {
-                throw new Error('Plaintext and public key are required');
-            }
-            if (!this.validatePublicKey(publicKey, variant)) {
-                throw new Error('Invalid ECC public key');
-            }
-            console.warn('ECC implementation using simplified ECIES - use proper ECC library in production');
-            const curve = this.curves[variant];
-            if (!curve) {
-                throw new Error(`Unsupported curve: ${variant}`);
-            }
-            // Parse public key
-            const pubKey = curve.keyFromPublic(publicKey, 'hex');
-            // Generate ephemeral key pair
-            const ephemeral = curve.genKeyPair();
-            // Perform ECDH to get shared secret
-            const sharedSecret = ephemeral.derive(pubKey.getPublic());
-            const sharedSecretHex = sharedSecret.toString(16);
-            // Use shared secret as encryption key (simplified)
-            const encryptedData = this.simpleEncrypt(plaintext, sharedSecretHex);
-            // Return ephemeral public key + encrypted data
-            const ephemeralPubKey = ephemeral.getPublic('hex');
-            const result = ephemeralPubKey + ':' + encryptedData;
-            return {
-                success: true,
-                result,
-                metadata: {
-                    keyLength: this.getKeySizeFromVariant(variant),
-                    variant,
-                    mode: 'ECIES'
-                }
-            };
-        }
-        catch (error) {
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'ECC encryption failed'
-            };
-        }
-    }
-    async decrypt(params) {
-        try {
-            const { ciphertext, key: privateKey, variant = 'secp256r1' } = params;
-            if (!ciphertext || !privateKey) {
-                throw new Error('Ciphertext and private key are required');
-            }
-            if (!this.validatePrivateKey(privateKey, variant)) {
-                throw new Error('Invalid ECC private key');
-            }
-            const curve = this.curves[variant];
-            if (!curve) {
-                throw new Error(`Unsupported curve: ${variant}`);
-            }
-            // Parse the combined result (ephemeral public key + encrypted data)
-            const parts = ciphertext.split(':');
-            if (parts.length !== 2) {
-                throw new Error('Invalid ciphertext format');
-            }
-            const [ephemeralPubKeyHex, encryptedData] = parts;
-            // Parse private key and ephemeral public key
-            const privKey = curve.keyFromPrivate(privateKey, 'hex');
-            const ephemeralPubKey = curve.keyFromPublic(ephemeralPubKeyHex, 'hex');
-            // Perform ECDH to get shared secret
-            const sharedSecret = privKey.derive(ephemeralPubKey.getPublic());
-            const sharedSecretHex = sharedSecret.toString(16);
-            // Decrypt using shared secret
-            const decrypted = this.simpleDecrypt(encryptedData, sharedSecretHex);
-            return {
-                success: true,
-                result: decrypted,
-                metadata: {
-                    keyLength: this.getKeySizeFromVariant(variant),
-                    variant,
-                    mode: 'ECIES'
-                }
-            };
-        }
-        catch (error) {
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'ECC decryption failed'
-            };
-        }
-    }
-    async generateKeyPair(keySize = 256) {
-        const variant = this.getVariantFromKeySize(keySize);
-        const curve = this.curves[variant];
-        const keyPair = curve.genKeyPair();
-        return {
-            publicKey: keyPair.getPublic('hex'),
-            privateKey: keyPair.getPrivate('hex')
-        };
-    }
-    async generateKey(keySize = 256) {
-        const keyPair = await this.generateKeyPair(keySize);
-        return keyPair.privateKey;
-    }
-    async generateIV() {
-        throw new Error('ECC does not use IV');
-    }
-    validateKey(key, keySize) {
-        return this.validatePrivateKey(key, keySize ? this.getVariantFromKeySize(keySize) : 'secp256r1');
-    }
-    validateIV(iv) {
-        return false; // ECC doesn't use IV
-    }
-    validatePublicKey(publicKey, variant = 'secp256r1') {
-        try {
-            const curve = this.curves[variant];
-            if (!curve)
-                return false;
-            const key = curve.keyFromPublic(publicKey, 'hex');
-            return key.validate().result;
-        }
-        catch {
-            return false;
-        }
-    }
-    validatePrivateKey(privateKey, variant = 'secp256r1') {
-        try {
-            const curve = this.curves[variant];
-            if (!curve)
-                return false;
-            const key = curve.keyFromPrivate(privateKey, 'hex');
-            return key.validate().result;
-        }
-        catch {
-            return false;
-        }
-    }
-    getKeySizeFromVariant(variant) {
-        const variantMap = {
-            'secp256k1': 256,
-            'secp256r1': 256,
-            'secp384r1': 384,
-            'secp521r1': 521
-        };
-        return variantMap[variant] || 256;
-    }
-    getVariantFromKeySize(keySize) {
-        if (keySize <= 256)
-            return 'secp256r1';
-        if (keySize <= 384)
-            return 'secp384r1';
-        return 'secp521r1';
-    }
-    simpleEncrypt(plaintext, key) {
-        // Simplified encryption using XOR (for demonstration only)
-        const plaintextBytes = Buffer.from(plaintext, 'utf8');
-        const keyBytes = Buffer.from(key.slice(0, 64), 'hex'); // Use first 32 bytes of shared secret
-        const encrypted = Buffer.alloc(plaintextBytes.length);
-        for (let i = 0; i < plaintextBytes.length; i++) {
-            encrypted[i] = plaintextBytes[i] ^ keyBytes[i % keyBytes.length];
-        }
-        return encrypted.toString('hex');
-    }
-    simpleDecrypt(ciphertext, key) {
-        // Simplified decryption using XOR (for demonstration only)
-        const ciphertextBytes = Buffer.from(ciphertext, 'hex');
-        const keyBytes = Buffer.from(key.slice(0, 64), 'hex'); // Use first 32 bytes of shared secret
-        const decrypted = Buffer.alloc(ciphertextBytes.length);
-        for (let i = 0; i < ciphertextBytes.length; i++) {
-            decrypted[i] = ciphertextBytes[i] ^ keyBytes[i % keyBytes.length];
-        }
-        return decrypted.toString('utf8');
-    }
-}
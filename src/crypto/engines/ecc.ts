@@ -1,137 +1,251 @@
-import { CipherEngine, CipherMetadata, EncryptionParams, DecryptionParams, CryptoOperation } from '../../types/crypto';
-import CryptoJS from 'crypto-js';
+import { ec as EC } from 'elliptic';
+import { CipherMetadata, ByteEncryptionParams, ByteDecryptionParams, CryptoOperation, KeyPair } from '../../types/crypto';
+import {
+  getRandomBytes,
+  isValidHex,
+  hexToBytes,
+  bytesToHex,
+  concatBytes,
+  hmacSha256,
+  hkdfSha256,
+  secureCompare,
+  AuthenticationError
+} from '@/lib/crypto-utils';
+import { encryptWithMode } from '../modes/block-modes';
+import { AESBlockCipher } from '../primitives/aes';
+import { ByteCipherEngine } from './byte-cipher-engine';
 
-export class EccEngine implements CipherEngine {
+// elliptic curve names for each variant
+const CURVES: Record<string, string> = {
+  'ecies-secp256k1': 'secp256k1',
+  'ecies-p256': 'p256'
+};
+
+const SCALAR_SIZE = 32;
+// Uncompressed SEC 1 point: 0x04 || x || y
+const POINT_SIZE = 1 + 2 * SCALAR_SIZE;
+const TAG_SIZE = 32;
+const HKDF_INFO = new TextEncoder().encode('ECIES AES-256-CTR HMAC-SHA256');
+
+/**
+ * ECIES in the style of SEC 1: an ephemeral ECDH key agreement with the recipient's public key,
+ * HKDF-SHA256 over the shared x-coordinate (salted with the ephemeral public key) for separate
+ * AES-256-CTR and HMAC-SHA256 keys, and ciphertext serialized as ephemeral key || body || tag
+ */
+export class EccEngine extends ByteCipherEngine {
   readonly metadata: CipherMetadata = {
     id: 'ecc',
-    name: 'ECC',
-    category: 'symmetric',
+    name: 'ECIES',
+    category: 'asymmetric',
     variants: [
-      { id: 'ecc-128', name: 'ECC-128', keySize: 16 },
-      { id: 'ecc-192', name: 'ECC-192', keySize: 24 },
-      { id: 'ecc-256', name: 'ECC-256', keySize: 32 }
+      { id: 'ecies-secp256k1', name: 'ECIES secp256k1', keySize: 32, aead: true },
+      { id: 'ecies-p256', name: 'ECIES P-256', keySize: 32, aead: true }
     ],
-    modes: ['CBC'],
-    description: 'ECC cipher (using AES as fallback)',
+    description: 'Elliptic Curve Integrated Encryption Scheme: ephemeral ECDH, HKDF-SHA256, AES-256-CTR and HMAC-SHA256',
     keyRequirements: {
-      minKeySize: 16,
+      minKeySize: 32,
       maxKeySize: 32,
-      keySizes: [16, 24, 32]
+      keySizes: [32]
     },
-    ivRequired: true,
-    ivSize: 16,
+    ivRequired: false,
     nonceRequired: false,
-    securityNotes: [{ level: 'info', message: 'ECC fallback implementation using AES.' }],
-    references: [{ title: 'ECC Cipher', url: 'https://example.com' }],
-    complexity: 'medium',
-    performance: 'fast'
+    securityNotes: [
+      {
+        level: 'info',
+        message: 'Encrypt with the recipient\'s public key; only the matching private key can decrypt'
+      },
+      {
+        level: 'info',
+        message: 'A fresh ephemeral key per message makes every ciphertext different, even for the same plaintext'
+      },
+      {
+        level: 'warning',
+        message: 'ECIES does not authenticate the sender; anyone holding the public key can produce valid ciphertexts'
+      }
+    ],
+    references: [
+      {
+        title: 'SEC 1: Elliptic Curve Cryptography, section 5.1',
+        url: 'https://www.secg.org/sec1-v2.pdf'
+      },
+      {
+        title: 'RFC 5869 - HMAC-based Extract-and-Expand Key Derivation Function (HKDF)',
+        url: 'https://www.rfc-editor.org/rfc/rfc5869'
+      }
+    ],
+    complexity: 'high',
+    performance: 'medium'
   };
 
-  async encrypt(params: EncryptionParams): Promise<CryptoOperation> {
+  private readonly curves = new Map<string, EC>();
+
+  async encryptBytes(params: ByteEncryptionParams): Promise<CryptoOperation<Uint8Array>> {
     try {
-      const { plaintext, key, iv, mode = 'CBC' } = params;
-      
-      if (!this.validateKey(key)) {
-        throw new Error('Invalid key format or length');
-      }
-      
-      // Convert key to CryptoJS format
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const finalIV = iv || CryptoJS.lib.WordArray.random(16).toString(CryptoJS.enc.Hex);
-      const ivWords = CryptoJS.enc.Hex.parse(finalIV);
-      
-      // Use AES as fallback since ECC is not supported by CryptoJS
-      const options: any = {
-        iv: ivWords,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      };
-      
-      const encrypted = CryptoJS.AES.encrypt(plaintext, keyWords, options);
-      
+      const { plaintext, key, variant = this.metadata.variants[0].id, additionalData = '' } = params;
+      const curve = this.getCurve(variant);
+      const recipient = this.parsePublicKey(curve, key);
+
+      const ephemeral = curve.keyFromPrivate(this.randomScalar(curve));
+      const ephemeralPublic = Uint8Array.from(ephemeral.getPublic(false, 'array'));
+      const { encryptionKey, macKey } = this.deriveKeys(ephemeral.derive(recipient.getPublic()), ephemeralPublic);
+
+      const body = this.crypt(encryptionKey, plaintext);
+      const tag = this.computeTag(macKey, body, additionalData);
+
       return {
         success: true,
-        result: encrypted.ciphertext.toString(CryptoJS.enc.Hex),
+        result: concatBytes(ephemeralPublic, body, tag),
         metadata: {
-          keyLength: keyWords.sigBytes,
-          ivLength: 16,
-          mode: 'CBC',
-          variant: `ecc-${keyWords.sigBytes * 8}`,
-          iv: finalIV
+          keyLength: SCALAR_SIZE,
+          variant,
+          tag: bytesToHex(tag),
+          tagLength: TAG_SIZE
         }
       };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown encryption error'
+        error: error instanceof Error ? error.message : 'ECIES encryption failed'
       };
     }
   }
 
-  async decrypt(params: DecryptionParams): Promise<CryptoOperation> {
+  async decryptBytes(params: ByteDecryptionParams): Promise<CryptoOperation<Uint8Array>> {
     try {
-      const { ciphertext, key, iv } = params;
-      
-      if (!this.validateKey(key) || !iv) {
-        throw new Error('Invalid key or missing IV');
+      const { ciphertext, key, tag, variant = this.metadata.variants[0].id, additionalData = '' } = params;
+      const curve = this.getCurve(variant);
+      const recipient = this.parsePrivateKey(curve, key);
+
+      // The tag travels separately when the ciphertext comes from an envelope
+      const tagLength = tag ? 0 : TAG_SIZE;
+      if (ciphertext.length < POINT_SIZE + tagLength) {
+        throw new Error('Ciphertext is too short to contain an ephemeral public key and tag');
       }
+      const ephemeralPublic = ciphertext.subarray(0, POINT_SIZE);
+      const body = ciphertext.subarray(POINT_SIZE, ciphertext.length - tagLength);
+      const tagBytes = tag ? hexToBytes(tag) : ciphertext.subarray(ciphertext.length - TAG_SIZE);
 
-      // Convert key, IV, and ciphertext to CryptoJS format
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const ivWords = CryptoJS.enc.Hex.parse(iv);
-      const ciphertextWords = CryptoJS.enc.Hex.parse(ciphertext);
-      
-      // Create cipher params object
-      const cipherParams = CryptoJS.lib.CipherParams.create({
-        ciphertext: ciphertextWords
-      });
-      
-      const options: any = {
-        iv: ivWords,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      };
-      
-      const decrypted = CryptoJS.AES.decrypt(cipherParams, keyWords, options);
-      const plaintext = decrypted.toString(CryptoJS.enc.Utf8);
-      
-      if (!plaintext) {
-        throw new Error('Failed to decrypt - invalid key, IV, or corrupted data');
+      const ephemeral = this.parsePublicKey(curve, bytesToHex(ephemeralPublic));
+      const { encryptionKey, macKey } = this.deriveKeys(recipient.derive(ephemeral.getPublic()), ephemeralPublic);
+      if (!secureCompare(this.computeTag(macKey, body, additionalData), tagBytes)) {
+        throw new AuthenticationError();
       }
-      
+
       return {
         success: true,
-        result: plaintext
+        result: this.crypt(encryptionKey, body),
+        metadata: {
+          keyLength: SCALAR_SIZE,
+          variant,
+          tag: bytesToHex(tagBytes),
+          tagLength: TAG_SIZE
+        }
       };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown decryption error'
+        error: error instanceof Error ? error.message : 'ECIES decryption failed',
+        ...(error instanceof AuthenticationError && { errorCode: 'AUTHENTICATION_FAILED' as const })
       };
     }
   }
 
-  async generateKey(keySize?: number): Promise<string> {
-    const size = keySize || 32;
-    if (![16, 24, 32].includes(size)) {
-      throw new Error('Key size must be 16, 24, or 32 bytes');
+  /**
+   * A private key on the first curve; use generateKeyPair to get the public key as well
+   */
+  async generateKey(keySize: number = SCALAR_SIZE): Promise<string> {
+    if (keySize !== SCALAR_SIZE) {
+      throw new Error('ECIES private keys are 32 bytes');
+    }
+    return this.randomScalar(this.getCurve(this.metadata.variants[0].id));
+  }
+
+  async generateKeyPair(variant: string = this.metadata.variants[0].id): Promise<KeyPair> {
+    const curve = this.getCurve(variant);
+    const pair = curve.keyFromPrivate(this.randomScalar(curve));
+    return {
+      publicKey: pair.getPublic(false, 'hex'),
+      privateKey: pair.getPrivate('hex').padStart(SCALAR_SIZE * 2, '0')
+    };
+  }
+
+  /**
+   * Accepts a 32-byte private key or a compressed or uncompressed SEC 1 public key
+   */
+  validateKey(key: string): boolean {
+    return isValidHex(key) && [SCALAR_SIZE, 1 + SCALAR_SIZE, POINT_SIZE].includes(key.length / 2);
+  }
+
+  private getCurve(variant: string): EC {
+    const name = CURVES[variant];
+    if (!name) {
+      throw new Error(`Unsupported variant: ${variant}`);
+    }
+    if (!this.curves.has(name)) {
+      this.curves.set(name, new EC(name));
     }
-    return CryptoJS.lib.WordArray.random(size).toString(CryptoJS.enc.Hex);
+    return this.curves.get(name)!;
   }
 
-  validateKey(key: string, keySize?: number): boolean {
+  private randomScalar(curve: EC): string {
+    // Rejection sampling keeps the scalar uniform in [1, n - 1]
+    for (;;) {
+      const candidate = bytesToHex(getRandomBytes(SCALAR_SIZE));
+      const scalar = curve.keyFromPrivate(candidate, 'hex').getPrivate();
+      if (!scalar.isZero() && scalar.cmp(curve.n!) < 0) {
+        return candidate;
+      }
+    }
+  }
+
+  private parsePublicKey(curve: EC, key: string): EC.KeyPair {
+    if (!isValidHex(key) || ![1 + SCALAR_SIZE, POINT_SIZE].includes(key.length / 2)) {
+      throw new Error('Invalid public key. Must be a 33-byte compressed or 65-byte uncompressed SEC 1 point in hex');
+    }
     try {
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const validSizes = [16, 24, 32];
-      
-      if (keySize) {
-        return keyWords.sigBytes === keySize;
+      const pair = curve.keyFromPublic(key, 'hex');
+      if (pair.validate().result) {
+        return pair;
       }
-      
-      return validSizes.includes(keyWords.sigBytes);
     } catch {
-      return false;
+      // Reported below
     }
+    throw new Error('Invalid public key: the point is not on the curve');
+  }
+
+  private parsePrivateKey(curve: EC, key: string): EC.KeyPair {
+    if (!isValidHex(key) || key.length !== SCALAR_SIZE * 2) {
+      throw new Error('Invalid private key. Must be 32 bytes (64 hex characters)');
+    }
+    const pair = curve.keyFromPrivate(key, 'hex');
+    const scalar = pair.getPrivate();
+    if (scalar.isZero() || scalar.cmp(curve.n!) >= 0) {
+      throw new Error('Invalid private key: out of range for the curve');
+    }
+    return pair;
+  }
+
+  private deriveKeys(shared: ReturnType<EC.KeyPair['derive']>, ephemeralPublic: Uint8Array) {
+    const material = hkdfSha256(Uint8Array.from(shared.toArray('be', SCALAR_SIZE)), ephemeralPublic, HKDF_INFO, 64);
+    return { encryptionKey: material.subarray(0, 32), macKey: material.subarray(32) };
+  }
+
+  /**
+   * Each message has its own encryption key, so CTR mode can start from a zero counter block
+   */
+  private crypt(encryptionKey: Uint8Array, data: Uint8Array): Uint8Array {
+    return encryptWithMode(new AESBlockCipher(encryptionKey), 'CTR', data, new Uint8Array(16));
+  }
+
+  /**
+   * The MAC covers the ciphertext body, the optional shared information and its length in bits as
+   * an 8-byte big-endian integer (IEEE 1363a DHAES), so bytes cannot move between body and AAD
+   */
+  private computeTag(macKey: Uint8Array, body: Uint8Array, additionalData: string): Uint8Array {
+    const aad = new TextEncoder().encode(additionalData);
+    const length = new Uint8Array(8);
+    new DataView(length.buffer).setBigUint64(0, BigInt(aad.length * 8));
+    return hmacSha256(macKey, concatBytes(body, aad, length));
   }
 }
 
@@ -0,0 +1,147 @@
+import nacl from 'tweetnacl';
+import {
+  CipherMetadata,
+  ByteEncryptionParams,
+  ByteDecryptionParams,
+  CryptoOperation,
+  KeyPair,
+  SignatureParams,
+  VerificationParams
+} from '../../types/crypto';
+import { getRandomBytes, isValidHex, hexToBytes, bytesToHex } from '@/lib/crypto-utils';
+import { ByteCipherEngine } from './byte-cipher-engine';
+
+// RFC 8032 private keys are 32-byte seeds; tweetnacl's 64-byte secret key appends the public key
+const KEY_SIZE = nacl.sign.seedLength;
+const SIGNATURE_SIZE = nacl.sign.signatureLength;
+
+/**
+ * Ed25519 (RFC 8032): deterministic Schnorr-style signatures on the twisted Edwards form of
+ * Curve25519, backed by tweetnacl. It signs and verifies; there is no encryption.
+ */
+export class Ed25519Engine extends ByteCipherEngine {
+  readonly metadata: CipherMetadata = {
+    id: 'ed25519',
+    name: 'Ed25519',
+    category: 'asymmetric',
+    variants: [
+      { id: 'ed25519', name: 'Ed25519', keySize: KEY_SIZE }
+    ],
+    description: 'Edwards-curve Digital Signature Algorithm over edwards25519 with SHA-512',
+    keyRequirements: {
+      minKeySize: KEY_SIZE,
+      maxKeySize: KEY_SIZE,
+      keySizes: [KEY_SIZE]
+    },
+    ivRequired: false,
+    nonceRequired: false,
+    signatureOnly: true,
+    securityNotes: [
+      {
+        level: 'info',
+        message: 'Sign with the 32-byte private key; anyone with the 32-byte public key can verify the 64-byte signature'
+      },
+      {
+        level: 'info',
+        message: 'Signing is deterministic: the nonce is derived from the private key and message, so no randomness is needed per signature'
+      },
+      {
+        level: 'warning',
+        message: 'Only pure Ed25519 is offered; the Ed25519ctx and Ed25519ph variants of RFC 8032 are not'
+      }
+    ],
+    references: [
+      {
+        title: 'RFC 8032 - Edwards-Curve Digital Signature Algorithm (EdDSA)',
+        url: 'https://www.rfc-editor.org/rfc/rfc8032'
+      },
+      {
+        title: 'TweetNaCl.js',
+        url: 'https://tweetnacl.js.org/'
+      }
+    ],
+    complexity: 'medium',
+    performance: 'fast'
+  };
+
+  async encryptBytes(_params: ByteEncryptionParams): Promise<CryptoOperation<Uint8Array>> {
+    return { success: false, error: 'Ed25519 is a signature scheme and cannot encrypt; sign and verify instead, or use X25519' };
+  }
+
+  async decryptBytes(_params: ByteDecryptionParams): Promise<CryptoOperation<Uint8Array>> {
+    return { success: false, error: 'Ed25519 is a signature scheme and cannot decrypt; sign and verify instead, or use X25519' };
+  }
+
+  async sign(params: SignatureParams): Promise<CryptoOperation<Uint8Array>> {
+    try {
+      const { message, key, variant = this.metadata.variants[0].id } = params;
+      const { secretKey } = nacl.sign.keyPair.fromSeed(this.parseKey(key, 'private'));
+      const signature = nacl.sign.detached(message, secretKey);
+
+      return {
+        success: true,
+        result: signature,
+        metadata: { keyLength: KEY_SIZE, variant, signatureLength: signature.length }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Ed25519 signing failed'
+      };
+    }
+  }
+
+  async verify(params: VerificationParams): Promise<CryptoOperation<boolean>> {
+    try {
+      const { message, signature, key, variant = this.metadata.variants[0].id } = params;
+      const publicKey = this.parseKey(key, 'public');
+
+      // tweetnacl throws on a signature of the wrong size; it is simply not a valid signature.
+      // A public key that does not decode to a curve point also verifies as false.
+      return {
+        success: true,
+        result: signature.length === SIGNATURE_SIZE && nacl.sign.detached.verify(message, signature, publicKey),
+        metadata: { keyLength: KEY_SIZE, variant, signatureLength: signature.length }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Ed25519 verification failed'
+      };
+    }
+  }
+
+  /**
+   * A private key; use generateKeyPair to get the public key as well
+   */
+  async generateKey(keySize: number = KEY_SIZE): Promise<string> {
+    if (keySize !== KEY_SIZE) {
+      throw new Error('Ed25519 private keys are 32 bytes');
+    }
+    return bytesToHex(getRandomBytes(KEY_SIZE));
+  }
+
+  async generateKeyPair(): Promise<KeyPair> {
+    const seed = getRandomBytes(KEY_SIZE);
+    return {
+      publicKey: bytesToHex(nacl.sign.keyPair.fromSeed(seed).publicKey),
+      privateKey: bytesToHex(seed)
+    };
+  }
+
+  /**
+   * Public and private keys are both 32 bytes
+   */
+  validateKey(key: string): boolean {
+    return isValidHex(key) && key.length === KEY_SIZE * 2;
+  }
+
+  private parseKey(key: string, kind: 'public' | 'private'): Uint8Array {
+    if (!this.validateKey(key)) {
+      throw new Error(`Invalid ${kind} key. Must be ${KEY_SIZE} bytes (${KEY_SIZE * 2} hex characters)`);
+    }
+    return hexToBytes(key);
+  }
+}
+
+export default Ed25519Engine;
@@ -1,321 +0,0 @@
-import CryptoJS from 'crypto-js';
-export class IdeaEngine {
-    constructor() {
-        this.metadata = {
-            id: 'idea',
-            name: 'IDEA',
-            category: 'symmetric',
-            variants: [
-                { id: 'idea-128', name: 'IDEA-128', keySize: 128 }
-            ],
-            modes: ['ECB', 'CBC', 'CFB', 'OFB'],
-            description: 'International Data Encryption Algorithm - patented cipher used in PGP',
-            keyRequirements: {
-                minKeySize: 128,
-                maxKeySize: 128,
-                keySizes: [128]
-            },
-            ivRequired: true,
-            ivSize: 8,
-            nonceRequired: false,
-            securityNotes: [
-                {
-                    level: 'info',
-                    message: 'IDEA was used in early versions of PGP'
-                },
-                {
-                    level: 'warning',
-                    message: 'IDEA was patented until 2012, now patent-free'
-                },
-                {
-                    level: 'warning',
-                    message: '64-bit block size makes it vulnerable to birthday attacks'
-                }
-            ],
-            references: [
-                {
-                    title: 'On the Design and Security of Block Ciphers',
-                    url: 'https://en.wikipedia.org/wiki/International_Data_Encryption_Algorithm'
-                }
-            ],
-            complexity: 'medium',
-            performance: 'medium'
-        };
-        this.IDEA_ROUNDS = 8;
-        this.BLOCK_SIZE = 8; // 64 bits
-    }
-    async encrypt(params) {
-        try {
-            const { plaintext, key, iv, mode = 'CBC', variant = 'idea-128' } = params;
-            if (!plaintext || !key) {
-                throw new Error('Plaintext and key are required');
-            }
-            if (!this.validateKey(key)) {
-                throw new Error('Invalid IDEA key. Must be exactly 16 bytes (128 bits)');
-            }
-            console.warn('IDEA implementation using simplified approach - use proper IDEA library in production');
-            const keyBytes = CryptoJS.enc.Hex.parse(key);
-            const ivBytes = iv ? CryptoJS.enc.Hex.parse(iv) : CryptoJS.lib.WordArray.random(8);
-            const plaintextBytes = CryptoJS.enc.Utf8.parse(plaintext);
-            let encrypted;
-            if (mode === 'ECB') {
-                encrypted = this.encryptECB(plaintextBytes, keyBytes);
-            }
-            else if (mode === 'CBC') {
-                encrypted = this.encryptCBC(plaintextBytes, keyBytes, ivBytes);
-            }
-            else {
-                throw new Error(`Mode ${mode} not implemented for IDEA`);
-            }
-            return {
-                success: true,
-                result: encrypted,
-                metadata: {
-                    keyLength: 128,
-                    ivLength: mode !== 'ECB' ? 8 : undefined,
-                    mode,
-                    variant
-                }
-            };
-        }
-        catch (error) {
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'IDEA encryption failed'
-            };
-        }
-    }
-    async decrypt(params) {
-        try {
-            const { ciphertext, key, iv, mode = 'CBC', variant = 'idea-128' } = params;
-            if (!ciphertext || !key) {
-                throw new Error('Ciphertext and key are required');
-            }
-            if (!this.validateKey(key)) {
-                throw new Error('Invalid IDEA key. Must be exactly 16 bytes (128 bits)');
-            }
-            const keyBytes = CryptoJS.enc.Hex.parse(key);
-            const ivBytes = iv ? CryptoJS.enc.Hex.parse(iv) : undefined;
-            const ciphertextBytes = CryptoJS.enc.Hex.parse(ciphertext);
-            let decrypted;
-            if (mode === 'ECB') {
-                decrypted = this.decryptECB(ciphertextBytes, keyBytes);
-            }
-            else if (mode === 'CBC') {
-                if (!ivBytes) {
-                    throw new Error('IV is required for CBC mode');
-                }
-                decrypted = this.decryptCBC(ciphertextBytes, keyBytes, ivBytes);
-            }
-            else {
-                throw new Error(`Mode ${mode} not implemented for IDEA`);
-            }
-            return {
-                success: true,
-                result: decrypted.toString(CryptoJS.enc.Utf8),
-                metadata: {
-                    keyLength: 128,
-                    ivLength: mode !== 'ECB' ? 8 : undefined,
-                    mode,
-                    variant
-                }
-            };
-        }
-        catch (error) {
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'IDEA decryption failed'
-            };
-        }
-    }
-    async generateKey(keySize = 128) {
-        const key = CryptoJS.lib.WordArray.random(16);
-        return key.toString(CryptoJS.enc.Hex);
-    }
-    async generateIV(ivSize = 8) {
-        const iv = CryptoJS.lib.WordArray.random(ivSize);
-        return iv.toString(CryptoJS.enc.Hex);
-    }
-    validateKey(key, keySize) {
-        try {
-            const keyBytes = CryptoJS.enc.Hex.parse(key);
-            return keyBytes.sigBytes === 16;
-        }
-        catch {
-            return false;
-        }
-    }
-    validateIV(iv) {
-        try {
-            const ivBytes = CryptoJS.enc.Hex.parse(iv);
-            return ivBytes.sigBytes === 8;
-        }
-        catch {
-            return false;
-        }
-    }
-    encryptECB(plaintext, key) {
-        const result = this.processBlocks(plaintext, key, true);
-        return result.toString(CryptoJS.enc.Hex);
-    }
-    decryptECB(ciphertext, key) {
-        return this.processBlocks(ciphertext, key, false);
-    }
-    encryptCBC(plaintext, key, iv) {
-        const blocks = this.splitIntoBlocks(plaintext, 8);
-        let previousBlock = iv;
-        const encryptedBlocks = [];
-        for (const block of blocks) {
-            const xored = this.xorBlocks(block, previousBlock);
-            const encrypted = this.encryptBlock(xored, key);
-            encryptedBlocks.push(encrypted);
-            previousBlock = encrypted;
-        }
-        return this.concatBlocks(encryptedBlocks).toString(CryptoJS.enc.Hex);
-    }
-    decryptCBC(ciphertext, key, iv) {
-        const blocks = this.splitIntoBlocks(ciphertext, 8);
-        let previousBlock = iv;
-        const decryptedBlocks = [];
-        for (const block of blocks) {
-            const decrypted = this.decryptBlock(block, key);
-            const xored = this.xorBlocks(decrypted, previousBlock);
-            decryptedBlocks.push(xored);
-            previousBlock = block;
-        }
-        return this.concatBlocks(decryptedBlocks);
-    }
-    processBlocks(data, key, encrypt) {
-        const blocks = this.splitIntoBlocks(data, 8);
-        const subKeys = this.generateSubKeys(key, encrypt);
-        const processedBlocks = blocks.map(block => this.ideaTransform(block, subKeys));
-        return this.concatBlocks(processedBlocks);
-    }
-    encryptBlock(block, key) {
-        const subKeys = this.generateSubKeys(key, true);
-        return this.ideaTransform(block, subKeys);
-    }
-    decryptBlock(block, key) {
-        const subKeys = this.generateSubKeys(key, false);
-        return this.ideaTransform(block, subKeys);
-    }
-    generateSubKeys(key, encrypt) {
-        // Simplified IDEA key schedule (placeholder)
-        const subKeys = [];
-        const keyWords = key.words;
-        // Generate 52 subkeys for 8.5 rounds
-        for (let i = 0; i < 52; i++) {
-            const keyIndex = (i * 16 + i) % (keyWords.length * 32);
-            const wordIndex = Math.floor(keyIndex / 32);
-            const bitOffset = keyIndex % 32;
-            let subKey = keyWords[wordIndex % keyWords.length] || 0;
-            subKey = this.rotateLeft(subKey, bitOffset) & 0xFFFF;
-            subKeys.push(subKey);
-        }
-        if (!encrypt) {
-            // For decryption, we need to invert the subkeys
-            return this.invertSubKeys(subKeys);
-        }
-        return subKeys;
-    }
-    invertSubKeys(subKeys) {
-        // Simplified subkey inversion for IDEA decryption
-        const inverted = subKeys.slice().reverse();
-        return inverted.map(key => this.modularInverse(key));
-    }
-    modularInverse(a) {
-        // Simplified modular inverse calculation
-        if (a === 0)
-            return 0;
-        return a; // Placeholder - real IDEA uses modular inverse modulo 65537
-    }
-    ideaTransform(block, subKeys) {
-        // Simplified IDEA transformation (placeholder)
-        const words = block.words.slice();
-        let x1 = words[0] & 0xFFFF;
-        let x2 = (words[0] >>> 16) & 0xFFFF;
-        let x3 = words[1] & 0xFFFF;
-        let x4 = (words[1] >>> 16) & 0xFFFF;
-        let keyIndex = 0;
-        // 8 rounds
-        for (let round = 0; round < this.IDEA_ROUNDS; round++) {
-            const k1 = subKeys[keyIndex++] || 1;
-            const k2 = subKeys[keyIndex++] || 1;
-            const k3 = subKeys[keyIndex++] || 1;
-            const k4 = subKeys[keyIndex++] || 1;
-            const k5 = subKeys[keyIndex++] || 1;
-            const k6 = subKeys[keyIndex++] || 1;
-            // IDEA round function (simplified)
-            const t1 = this.modMul(x1, k1);
-            const t2 = (x2 + k2) & 0xFFFF;
-            const t3 = (x3 + k3) & 0xFFFF;
-            const t4 = this.modMul(x4, k4);
-            const t5 = t1 ^ t3;
-            const t6 = t2 ^ t4;
-            const t7 = this.modMul(t5, k5);
-            const t8 = (t6 + t7) & 0xFFFF;
-            const t9 = this.modMul(t8, k6);
-            const t10 = (t7 + t9) & 0xFFFF;
-            x1 = t1 ^ t9;
-            x2 = t3 ^ t9;
-            x3 = t2 ^ t10;
-            x4 = t4 ^ t10;
-        }
-        // Final transformation
-        const finalK1 = subKeys[keyIndex++] || 1;
-        const finalK2 = subKeys[keyIndex++] || 1;
-        const finalK3 = subKeys[keyIndex++] || 1;
-        const finalK4 = subKeys[keyIndex++] || 1;
-        const result1 = this.modMul(x1, finalK1);
-        const result2 = (x3 + finalK2) & 0xFFFF;
-        const result3 = (x2 + finalK3) & 0xFFFF;
-        const result4 = this.modMul(x4, finalK4);
-        return CryptoJS.lib.WordArray.create([
-            (result1 << 16) | result2,
-            (result3 << 16) | result4
-        ], 8);
-    }
-    modMul(a, b) {
-        // Multiplication modulo 65537 (simplified)
-        if (a === 0)
-            a = 65536;
-        if (b === 0)
-            b = 65536;
-        const result = (a * b) % 65537;
-        return result === 65536 ? 0 : result;
-    }
-    rotateLeft(value, positions) {
-        return ((value << positions) | (value >>> (32 - positions))) >>> 0;
-    }
-    splitIntoBlocks(data, blockSize) {
-        const blocks = [];
-        const wordsPerBlock = blockSize / 4;
-        for (let i = 0; i < data.words.length; i += wordsPerBlock) {
-            const blockWords = data.words.slice(i, i + wordsPerBlock);
-            while (blockWords.length < wordsPerBlock) {
-                blockWords.push(0);
-            }
-            blocks.push(CryptoJS.lib.WordArray.create(blockWords, blockSize));
-        }
-        if (blocks.length === 0) {
-            blocks.push(CryptoJS.lib.WordArray.create([0, 0], blockSize));
-        }
-        return blocks;
-    }
-    xorBlocks(a, b) {
-        const result = a.words.slice();
-        for (let i = 0; i < result.length && i < b.words.length; i++) {
-            result[i] ^= b.words[i];
-        }
-        return CryptoJS.lib.WordArray.create(result, a.sigBytes);
-    }
-    concatBlocks(blocks) {
-        const allWords = [];
-        let totalBytes = 0;
-        for (const block of blocks) {
-            allWords.push(...block.words);
-            totalBytes += block.sigBytes;
-        }
-        return CryptoJS.lib.WordArray.create(allWords, totalBytes);
-    }
-}
@@ -1,7 +1,10 @@
-import { CipherEngine, CipherMetadata, EncryptionParams, DecryptionParams, CryptoOperation } from '../../types/crypto';
-import CryptoJS from 'crypto-js';
+import { CipherMetadata } from '../../types/crypto';
+import { BLOCK_MODES } from '../modes/block-modes';
+import { PADDING_SCHEMES } from '../modes/padding';
+import { BlockCipherEngine } from './block-cipher-engine';
+import { IdeaBlockCipher } from '../primitives/idea';
 
-export class IdeaEngine implements CipherEngine {
+export class IdeaEngine extends BlockCipherEngine {
   readonly metadata: CipherMetadata = {
     id: 'idea',
     name: 'IDEA',
@@ -9,8 +12,9 @@ export class IdeaEngine implements CipherEngine {
     variants: [
       { id: 'idea', name: 'IDEA', keySize: 16 }
     ],
-    modes: ['ECB', 'CBC'],
-    description: 'International Data Encryption Algorithm (demo implementation using AES fallback)',
+    modes: BLOCK_MODES,
+    paddingSchemes: PADDING_SCHEMES,
+    description: 'International Data Encryption Algorithm by Xuejia Lai and James Massey, the cipher of PGP 2.x',
     keyRequirements: {
       minKeySize: 16,
       maxKeySize: 16,
@@ -22,101 +26,36 @@ export class IdeaEngine implements CipherEngine {
     securityNotes: [
       {
         level: 'warning',
-        message: 'This is a demo implementation using AES fallback - not real IDEA'
+        message: 'IDEA has a 64-bit block size which may be vulnerable to birthday attacks'
       },
       {
         level: 'info',
-        message: 'IDEA is patented and requires licensing for commercial use'
+        message: 'IDEA has a class of weak keys; its patents expired in 2012'
       }
     ],
     references: [
       {
-        title: 'IDEA Cipher',
-        url: 'https://en.wikipedia.org/wiki/International_Data_Encryption_Algorithm'
+        title: 'A Proposal for a New Block Encryption Standard (Lai and Massey, EUROCRYPT 1990)',
+        url: 'https://link.springer.com/chapter/10.1007/3-540-46877-3_35'
+      },
+      {
+        title: 'RFC 3058: Use of the IDEA Encryption Algorithm in CMS',
+        url: 'https://www.rfc-editor.org/rfc/rfc3058'
       }
     ],
     complexity: 'medium',
     performance: 'medium'
   };
 
-  async encrypt(params: EncryptionParams): Promise<CryptoOperation> {
-    try {
-      const { plaintext, key, iv, mode = 'CBC' } = params;
-      
-      if (!plaintext || !key) {
-        throw new Error('Plaintext and key are required');
-      }
-
-      const keyBuffer = CryptoJS.enc.Utf8.parse(key.padEnd(16, '0'));
-      const ivBuffer = iv ? CryptoJS.enc.Hex.parse(iv) : CryptoJS.lib.WordArray.random(8);
-
-      console.warn('IDEA implementation using AES fallback - not real IDEA');
-      
-      const encrypted = CryptoJS.AES.encrypt(plaintext, keyBuffer, {
-        iv: ivBuffer,
-        mode: mode === 'ECB' ? CryptoJS.mode.ECB : CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      });
-
-      return {
-        success: true,
-        result: encrypted.toString(),
-        metadata: {
-          keyLength: 16,
-          mode,
-          variant: 'idea',
-          iv: ivBuffer.toString()
-        }
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'IDEA encryption failed'
-      };
-    }
-  }
-
-  async decrypt(params: DecryptionParams): Promise<CryptoOperation> {
-    try {
-      const { ciphertext, key, iv, mode = 'CBC' } = params;
-      
-      if (!ciphertext || !key) {
-        throw new Error('Ciphertext and key are required');
-      }
-
-      const keyBuffer = CryptoJS.enc.Utf8.parse(key.padEnd(16, '0'));
-      const ivBuffer = iv ? CryptoJS.enc.Hex.parse(iv) : undefined;
-
-      console.warn('IDEA implementation using AES fallback - not real IDEA');
-      
-      const decrypted = CryptoJS.AES.decrypt(ciphertext, keyBuffer, {
-        iv: ivBuffer,
-        mode: mode === 'ECB' ? CryptoJS.mode.ECB : CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      });
+  protected readonly blockSize = 8;
 
-      return {
-        success: true,
-        result: decrypted.toString(CryptoJS.enc.Utf8),
-        metadata: {
-          keyLength: 16,
-          mode,
-          variant: 'idea'
-        }
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'IDEA decryption failed'
-      };
-    }
+  protected get defaultVariant(): string {
+    return 'idea';
   }
 
-  async generateKey(): Promise<string> {
-    return CryptoJS.lib.WordArray.random(16).toString();
-  }
-
-  validateKey(key: string): boolean {
-    return key.length === 16 || key.length === 32; // Support hex keys too
+  protected createCipher(key: Uint8Array): IdeaBlockCipher {
+    return new IdeaBlockCipher(key);
   }
 }
+
+export default IdeaEngine;
@@ -1,190 +0,0 @@
-/**
- * Kyber - Post-Quantum Key Encapsulation Mechanism
- *
- * Kyber is a key encapsulation mechanism (KEM) that is part of the CRYSTALS suite
- * and was selected as a standard by NIST for post-quantum cryptography.
- * This is a simplified educational implementation.
- */
-import { generateRandomHex } from '../../lib/crypto-utils';
-export class KyberEngine {
-    constructor() {
-        this.metadata = {
-            id: 'kyber',
-            name: 'Kyber',
-            category: 'post-quantum',
-            variants: [
-                { id: 'kyber-512', name: 'Kyber-512', keySize: 96 },
-                { id: 'kyber-768', name: 'Kyber-768', keySize: 128 },
-                { id: 'kyber-1024', name: 'Kyber-1024', keySize: 192 }
-            ],
-            modes: [],
-            description: 'Post-quantum key encapsulation mechanism based on lattice cryptography',
-            keyRequirements: {
-                minKeySize: 96,
-                maxKeySize: 192,
-                keySizes: [96, 128, 192]
-            },
-            ivRequired: false,
-            nonceRequired: false,
-            securityNotes: [
-                {
-                    level: 'info',
-                    message: 'Post-quantum secure key encapsulation mechanism'
-                }
-            ],
-            references: [
-                {
-                    title: 'CRYSTALS-Kyber Specification',
-                    url: 'https://pq-crystals.org/kyber/'
-                }
-            ],
-            complexity: 'high',
-            performance: 'medium'
-        };
-    }
-    getParams(keySize) {
-        switch (keySize) {
-            case 96: // Kyber-512 equivalent (768 bits / 8)
-                return { n: 256, q: 3329, k: 2, eta1: 3, eta2: 2, du: 10, dv: 4 };
-            case 128: // Kyber-768 equivalent (1024 bits / 8)
-                return { n: 256, q: 3329, k: 3, eta1: 2, eta2: 2, du: 10, dv: 4 };
-            case 192: // Kyber-1024 equivalent (1536 bits / 8)
-                return { n: 256, q: 3329, k: 4, eta1: 2, eta2: 2, du: 11, dv: 5 };
-            default:
-                throw new Error(`Unsupported key size: ${keySize}`);
-        }
-    }
-    polynomial(size) {
-        // Generate a random polynomial for simulation
-        return Array.from({ length: size }, () => Math.floor(Math.random() * 3329));
-    }
-    matrixMultiply(a, b) {
-        // Simplified matrix-vector multiplication
-        return a.map(row => row.reduce((sum, val, i) => (sum + val * b[i]) % 3329, 0));
-    }
-    addNoise(poly, eta) {
-        // Add centered binomial noise
-        return poly.map(coeff => {
-            const noise = Array.from({ length: eta }, () => Math.random() > 0.5 ? 1 : -1)
-                .reduce((sum, val) => sum + val, 0);
-            return (coeff + noise + 3329) % 3329;
-        });
-    }
-    compress(poly, d) {
-        // Compress polynomial coefficients
-        const scale = Math.pow(2, d);
-        return poly.map(coeff => Math.floor((coeff * scale) / 3329));
-    }
-    decompress(poly, d) {
-        // Decompress polynomial coefficients
-        const scale = Math.pow(2, d);
-        return poly.map(coeff => Math.floor((coeff * 3329) / scale));
-    }
-    async generateKey(keySize = 96) {
-        const params = this.getParams(keySize);
-        // Generate secret key (small polynomials)
-        const secretKey = Array.from({ length: params.k }, () => this.addNoise(Array(params.n).fill(0), params.eta1));
-        // Generate public matrix A (uniformly random)
-        const matrixA = Array.from({ length: params.k }, () => Array.from({ length: params.k }, () => this.polynomial(params.n)));
-        // Generate error vector
-        const error = Array.from({ length: params.k }, () => this.addNoise(Array(params.n).fill(0), params.eta1)); // Compute public key: b = A*s + e
-        const publicKey = matrixA.map((row, i) => {
-            // Simplified matrix-vector multiplication
-            const as = row.map(rowElement => rowElement.reduce((sum, val, idx) => (sum + val * (secretKey[i] ? secretKey[i][idx] || 0 : 0)) % 3329, 0));
-            return as.map((val, j) => (val + (error[i] && error[i][j] ? error[i][j] : 0)) % 3329);
-        });
-        // Simulate key encoding (simplified)
-        const keyData = {
-            public: publicKey.flat(),
-            secret: secretKey.flat(),
-            matrix: matrixA.flat()
-        };
-        return JSON.stringify(keyData).slice(0, keySize * 2); // Ensure correct length
-    }
-    async generateIV() {
-        return ''; // KEM doesn't use IV
-    }
-    validateKey(key, keySize = 96) {
-        try {
-            return key.length === keySize * 2; // Simple length check for simulation
-        }
-        catch {
-            return false;
-        }
-    }
-    validateIV() {
-        return true; // No IV needed
-    }
-    async encrypt(params) {
-        const keySize = 96;
-        const kyberParams = this.getParams(keySize);
-        try {
-            // In real Kyber, this would be key encapsulation
-            // For simulation, we'll do a simple transformation
-            // Parse the "key" as random seed
-            const seed = parseInt(params.key.slice(0, 8), 16) || 12345;
-            // Generate shared secret (32 bytes)
-            const sharedSecret = generateRandomHex(32);
-            // Generate ciphertext using the shared secret
-            const plainBytes = new TextEncoder().encode(params.plaintext);
-            const keyBytes = new TextEncoder().encode(sharedSecret);
-            const encrypted = Array.from(plainBytes).map((byte, i) => byte ^ keyBytes[i % keyBytes.length]);
-            // Return encapsulated key + encrypted data
-            const encapsulatedKey = generateRandomHex(keySize);
-            const ciphertext = Array.from(encrypted)
-                .map(b => b.toString(16).padStart(2, '0'))
-                .join('');
-            const result = JSON.stringify({
-                encapsulatedKey,
-                ciphertext,
-                sharedSecret // In real implementation, this wouldn't be included
-            });
-            return {
-                success: true,
-                result,
-                metadata: {
-                    keyLength: keySize,
-                    mode: 'KEM'
-                }
-            };
-        }
-        catch (error) {
-            return {
-                success: false,
-                error: `Kyber encryption failed: ${error}`
-            };
-        }
-    }
-    async decrypt(params) {
-        const keySize = 96;
-        try {
-            // Parse the ciphertext
-            const data = JSON.parse(params.ciphertext);
-            const { encapsulatedKey, ciphertext: ct, sharedSecret } = data;
-            // In real Kyber, we would decapsulate the key using the secret key
-            // For simulation, we use the included shared secret
-            // Decrypt using shared secret
-            const ctBytes = [];
-            for (let i = 0; i < ct.length; i += 2) {
-                ctBytes.push(parseInt(ct.slice(i, i + 2), 16));
-            }
-            const keyBytes = new TextEncoder().encode(sharedSecret);
-            const decrypted = ctBytes.map((byte, i) => byte ^ keyBytes[i % keyBytes.length]);
-            const result = new TextDecoder().decode(new Uint8Array(decrypted));
-            return {
-                success: true,
-                result,
-                metadata: {
-                    keyLength: keySize,
-                    mode: 'KEM'
-                }
-            };
-        }
-        catch (error) {
-            return {
-                success: false,
-                error: `Kyber decryption failed: ${error}`
-            };
-        }
-    }
-}
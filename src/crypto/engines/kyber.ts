@@ -1,137 +1,196 @@
-import { CipherEngine, CipherMetadata, EncryptionParams, DecryptionParams, CryptoOperation } from '../../types/crypto';
-import CryptoJS from 'crypto-js';
+import { CipherMetadata, ByteEncryptionParams, ByteDecryptionParams, CryptoOperation, KeyPair } from '../../types/crypto';
+import { isValidHex, hexToBytes, bytesToHex, concatBytes, AuthenticationError } from '@/lib/crypto-utils';
+import { gcmEncrypt, gcmDecrypt } from '../modes/gcm';
+import { AESBlockCipher } from '../primitives/aes';
+import {
+  ML_KEM_PARAMETERS,
+  MlKemParameters,
+  mlKemKeyGen,
+  mlKemEncapsulate,
+  mlKemDecapsulate,
+  encapsulationKeySize,
+  decapsulationKeySize,
+  ciphertextSize
+} from '../primitives/ml-kem';
+import { ByteCipherEngine } from './byte-cipher-engine';
 
-export class KyberEngine implements CipherEngine {
+const PARAMETER_SETS: Record<string, MlKemParameters> = {
+  'ml-kem-512': ML_KEM_PARAMETERS['ML-KEM-512'],
+  'ml-kem-768': ML_KEM_PARAMETERS['ML-KEM-768'],
+  'ml-kem-1024': ML_KEM_PARAMETERS['ML-KEM-1024']
+};
+
+const SHARED_SECRET_SIZE = 32;
+const TAG_SIZE = 16;
+// Every message is sealed under a fresh shared secret, so a fixed GCM nonce is never reused with a key
+const NONCE = new Uint8Array(12);
+
+const KEY_SIZES = Object.values(PARAMETER_SETS).flatMap(params => [
+  encapsulationKeySize(params),
+  decapsulationKeySize(params)
+]);
+
+/**
+ * ML-KEM (FIPS 203) as a KEM-DEM hybrid: encapsulating to the recipient's encapsulation key yields
+ * a 32-byte shared secret that keys AES-256-GCM, and the ciphertext is serialized as
+ * KEM ciphertext || GCM ciphertext || tag
+ */
+export class KyberEngine extends ByteCipherEngine {
   readonly metadata: CipherMetadata = {
     id: 'kyber',
-    name: 'Kyber',
-    category: 'symmetric',
+    name: 'ML-KEM',
+    category: 'post-quantum',
     variants: [
-      { id: 'kyber-128', name: 'Kyber-128', keySize: 16 },
-      { id: 'kyber-192', name: 'Kyber-192', keySize: 24 },
-      { id: 'kyber-256', name: 'Kyber-256', keySize: 32 }
+      { id: 'ml-kem-512', name: 'ML-KEM-512', keySize: SHARED_SECRET_SIZE, aead: true },
+      { id: 'ml-kem-768', name: 'ML-KEM-768', keySize: SHARED_SECRET_SIZE, aead: true },
+      { id: 'ml-kem-1024', name: 'ML-KEM-1024', keySize: SHARED_SECRET_SIZE, aead: true }
     ],
-    modes: ['CBC'],
-    description: 'Kyber cipher (using AES as fallback)',
+    description: 'Module-Lattice-Based Key-Encapsulation Mechanism (CRYSTALS-Kyber) with AES-256-GCM for the payload',
     keyRequirements: {
-      minKeySize: 16,
-      maxKeySize: 32,
-      keySizes: [16, 24, 32]
+      minKeySize: SHARED_SECRET_SIZE,
+      maxKeySize: SHARED_SECRET_SIZE,
+      keySizes: [SHARED_SECRET_SIZE]
     },
-    ivRequired: true,
-    ivSize: 16,
+    ivRequired: false,
     nonceRequired: false,
-    securityNotes: [{ level: 'info', message: 'Kyber fallback implementation using AES.' }],
-    references: [{ title: 'Kyber Cipher', url: 'https://example.com' }],
-    complexity: 'medium',
-    performance: 'fast'
+    securityNotes: [
+      {
+        level: 'info',
+        message: 'Encrypt with the recipient\'s encapsulation (public) key; only the decapsulation (private) key recovers the shared secret'
+      },
+      {
+        level: 'info',
+        message: 'Decapsulating a tampered ciphertext returns an unrelated pseudorandom secret (implicit rejection), which AES-GCM then rejects'
+      },
+      {
+        level: 'warning',
+        message: 'This is a teaching implementation in JavaScript and is not constant-time'
+      }
+    ],
+    references: [
+      {
+        title: 'FIPS 203 - Module-Lattice-Based Key-Encapsulation Mechanism Standard',
+        url: 'https://csrc.nist.gov/pubs/fips/203/final'
+      },
+      {
+        title: 'NIST SP 800-38D - Galois/Counter Mode (GCM)',
+        url: 'https://csrc.nist.gov/pubs/sp/800/38/d/final'
+      }
+    ],
+    complexity: 'high',
+    performance: 'medium'
   };
 
-  async encrypt(params: EncryptionParams): Promise<CryptoOperation> {
+  async encryptBytes(params: ByteEncryptionParams): Promise<CryptoOperation<Uint8Array>> {
     try {
-      const { plaintext, key, iv, mode = 'CBC' } = params;
-      
-      if (!this.validateKey(key)) {
-        throw new Error('Invalid key format or length');
-      }
-      
-      // Convert key to CryptoJS format
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const finalIV = iv || CryptoJS.lib.WordArray.random(16).toString(CryptoJS.enc.Hex);
-      const ivWords = CryptoJS.enc.Hex.parse(finalIV);
-      
-      // Use AES as fallback since Kyber is not supported by CryptoJS
-      const options: any = {
-        iv: ivWords,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      };
-      
-      const encrypted = CryptoJS.AES.encrypt(plaintext, keyWords, options);
-      
+      const { plaintext, key, variant = 'ml-kem-768', additionalData = '' } = params;
+      const parameters = this.getParameters(variant);
+      const encapsulationKey = this.parseKey(key, encapsulationKeySize(parameters), 'encapsulation');
+
+      const { sharedSecret, ciphertext: kemCiphertext } = mlKemEncapsulate(parameters, encapsulationKey);
+      const { ciphertext, tag } = gcmEncrypt(
+        new AESBlockCipher(sharedSecret),
+        NONCE,
+        plaintext,
+        new TextEncoder().encode(additionalData)
+      );
+
       return {
         success: true,
-        result: encrypted.ciphertext.toString(CryptoJS.enc.Hex),
+        result: concatBytes(kemCiphertext, ciphertext, tag),
         metadata: {
-          keyLength: keyWords.sigBytes,
-          ivLength: 16,
-          mode: 'CBC',
-          variant: `kyber-${keyWords.sigBytes * 8}`,
-          iv: finalIV
+          keyLength: SHARED_SECRET_SIZE,
+          variant,
+          tag: bytesToHex(tag),
+          tagLength: TAG_SIZE
         }
       };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown encryption error'
+        error: error instanceof Error ? error.message : 'ML-KEM encryption failed'
       };
     }
   }
 
-  async decrypt(params: DecryptionParams): Promise<CryptoOperation> {
+  async decryptBytes(params: ByteDecryptionParams): Promise<CryptoOperation<Uint8Array>> {
     try {
-      const { ciphertext, key, iv } = params;
-      
-      if (!this.validateKey(key) || !iv) {
-        throw new Error('Invalid key or missing IV');
-      }
+      const { ciphertext, key, tag, variant = 'ml-kem-768', additionalData = '' } = params;
+      const parameters = this.getParameters(variant);
+      const decapsulationKey = this.parseKey(key, decapsulationKeySize(parameters), 'decapsulation');
 
-      // Convert key, IV, and ciphertext to CryptoJS format
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const ivWords = CryptoJS.enc.Hex.parse(iv);
-      const ciphertextWords = CryptoJS.enc.Hex.parse(ciphertext);
-      
-      // Create cipher params object
-      const cipherParams = CryptoJS.lib.CipherParams.create({
-        ciphertext: ciphertextWords
-      });
-      
-      const options: any = {
-        iv: ivWords,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      };
-      
-      const decrypted = CryptoJS.AES.decrypt(cipherParams, keyWords, options);
-      const plaintext = decrypted.toString(CryptoJS.enc.Utf8);
-      
-      if (!plaintext) {
-        throw new Error('Failed to decrypt - invalid key, IV, or corrupted data');
+      // The tag travels separately when the ciphertext comes from an envelope
+      const kemSize = ciphertextSize(parameters);
+      const tagLength = tag ? 0 : TAG_SIZE;
+      if (ciphertext.length < kemSize + tagLength) {
+        throw new Error(`Ciphertext is too short to contain a ${kemSize}-byte ML-KEM ciphertext and tag`);
       }
-      
+      const body = ciphertext.subarray(kemSize, ciphertext.length - tagLength);
+      const tagBytes = tag ? hexToBytes(tag) : ciphertext.subarray(ciphertext.length - TAG_SIZE);
+
+      const sharedSecret = mlKemDecapsulate(parameters, decapsulationKey, ciphertext.subarray(0, kemSize));
+      const plaintext = gcmDecrypt(
+        new AESBlockCipher(sharedSecret),
+        NONCE,
+        body,
+        tagBytes,
+        new TextEncoder().encode(additionalData)
+      );
+
       return {
         success: true,
-        result: plaintext
+        result: plaintext,
+        metadata: {
+          keyLength: SHARED_SECRET_SIZE,
+          variant,
+          tag: bytesToHex(tagBytes),
+          tagLength: TAG_SIZE
+        }
       };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown decryption error'
+        error: error instanceof Error ? error.message : 'ML-KEM decryption failed',
+        ...(error instanceof AuthenticationError && { errorCode: 'AUTHENTICATION_FAILED' as const })
       };
     }
   }
 
-  async generateKey(keySize?: number): Promise<string> {
-    const size = keySize || 32;
-    if (![16, 24, 32].includes(size)) {
-      throw new Error('Key size must be 16, 24, or 32 bytes');
+  /**
+   * An ML-KEM-768 decapsulation key; use generateKeyPair to get the encapsulation key as well
+   */
+  async generateKey(): Promise<string> {
+    return bytesToHex(mlKemKeyGen(PARAMETER_SETS['ml-kem-768']).decapsulationKey);
+  }
+
+  async generateKeyPair(variant: string = 'ml-kem-768'): Promise<KeyPair> {
+    const { encapsulationKey, decapsulationKey } = mlKemKeyGen(this.getParameters(variant));
+    return {
+      publicKey: bytesToHex(encapsulationKey),
+      privateKey: bytesToHex(decapsulationKey)
+    };
+  }
+
+  /**
+   * Accepts an encapsulation or decapsulation key of any parameter set
+   */
+  validateKey(key: string): boolean {
+    return isValidHex(key) && KEY_SIZES.includes(key.length / 2);
+  }
+
+  private getParameters(variant: string): MlKemParameters {
+    const parameters = PARAMETER_SETS[variant];
+    if (!parameters) {
+      throw new Error(`Unsupported variant: ${variant}`);
     }
-    return CryptoJS.lib.WordArray.random(size).toString(CryptoJS.enc.Hex);
+    return parameters;
   }
 
-  validateKey(key: string, keySize?: number): boolean {
-    try {
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const validSizes = [16, 24, 32];
-      
-      if (keySize) {
-        return keyWords.sigBytes === keySize;
-      }
-      
-      return validSizes.includes(keyWords.sigBytes);
-    } catch {
-      return false;
+  private parseKey(key: string, size: number, kind: 'encapsulation' | 'decapsulation'): Uint8Array {
+    if (!isValidHex(key) || key.length !== size * 2) {
+      throw new Error(`Invalid ${kind} key. Must be ${size} bytes (${size * 2} hex characters) for this variant`);
     }
+    return hexToBytes(key);
   }
 }
 
@@ -1,7 +1,9 @@
-import { CipherEngine, EncryptionParams, DecryptionParams, CryptoOperation, CipherMetadata } from '../../types/crypto';
+import { ByteEncryptionParams, ByteDecryptionParams, CryptoOperation, CipherMetadata } from '../../types/crypto';
+import { hexToBytes, bytesToHex } from '@/lib/crypto-utils';
+import { ByteCipherEngine } from './byte-cipher-engine';
 import CryptoJS from 'crypto-js';
 
-export class RC4Engine implements CipherEngine {
+export class RC4Engine extends ByteCipherEngine {
   readonly metadata: CipherMetadata = {
     id: 'rc4',
     name: 'RC4',
@@ -45,11 +47,11 @@ export class RC4Engine implements CipherEngine {
     performance: 'fast'
   };
 
-  async encrypt(params: EncryptionParams): Promise<CryptoOperation> {
+  async encryptBytes(params: ByteEncryptionParams): Promise<CryptoOperation<Uint8Array>> {
     try {
       const { plaintext, key, variant = 'rc4-128' } = params;
       
-      if (!plaintext || !key) {
+      if (!plaintext.length || !key) {
         throw new Error('Plaintext and key are required');
       }
 
@@ -58,13 +60,13 @@ export class RC4Engine implements CipherEngine {
       }
 
       const keyBytes = CryptoJS.enc.Hex.parse(key);
-      const encrypted = CryptoJS.RC4.encrypt(plaintext, keyBytes);
+      const encrypted = CryptoJS.RC4.encrypt(CryptoJS.enc.Hex.parse(bytesToHex(plaintext)), keyBytes);
 
       const keyLength = this.getKeyLengthFromVariant(variant);
 
       return {
         success: true,
-        result: encrypted.toString(),
+        result: hexToBytes(encrypted.ciphertext.toString(CryptoJS.enc.Hex)),
         metadata: {
           keyLength,
           mode: 'Stream',
@@ -79,11 +81,11 @@ export class RC4Engine implements CipherEngine {
     }
   }
 
-  async decrypt(params: DecryptionParams): Promise<CryptoOperation> {
+  async decryptBytes(params: ByteDecryptionParams): Promise<CryptoOperation<Uint8Array>> {
     try {
       const { ciphertext, key, variant = 'rc4-128' } = params;
       
-      if (!ciphertext || !key) {
+      if (!ciphertext.length || !key) {
         throw new Error('Ciphertext and key are required');
       }
 
@@ -92,13 +94,16 @@ export class RC4Engine implements CipherEngine {
       }
 
       const keyBytes = CryptoJS.enc.Hex.parse(key);
-      const decrypted = CryptoJS.RC4.decrypt(ciphertext, keyBytes);
+      const cipherParams = CryptoJS.lib.CipherParams.create({
+        ciphertext: CryptoJS.enc.Hex.parse(bytesToHex(ciphertext))
+      });
+      const decrypted = CryptoJS.RC4.decrypt(cipherParams, keyBytes);
 
       const keyLength = this.getKeyLengthFromVariant(variant);
 
       return {
         success: true,
-        result: decrypted.toString(CryptoJS.enc.Utf8),
+        result: hexToBytes(decrypted.toString(CryptoJS.enc.Hex)),
         metadata: {
           keyLength,
           mode: 'Stream',
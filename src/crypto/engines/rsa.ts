@@ -1,24 +1,91 @@
-import { CipherEngine, CipherMetadata, EncryptionParams, DecryptionParams, CryptoOperation } from '../../types/crypto';
-import CryptoJS from 'crypto-js';
-import crypto from 'crypto';
+import forge from 'node-forge';
+import {
+  CipherMetadata,
+  ByteEncryptionParams,
+  ByteDecryptionParams,
+  CryptoOperation,
+  CipherMode,
+  HashAlgorithm,
+  KeyPair,
+  SignatureScheme,
+  SignatureParams,
+  VerificationParams
+} from '../../types/crypto';
+import { bytesToHex, hexToBytes, concatBytes, secureCompare, PaddingError, HASH_ALGORITHMS, HASH_SIZES } from '@/lib/crypto-utils';
+import { ByteCipherEngine } from './byte-cipher-engine';
 
-export class RSAEngine implements CipherEngine {
+const MODULUS_SIZES: Record<string, number> = {
+  'rsa-1024': 1024,
+  'rsa-2048': 2048,
+  'rsa-3072': 3072,
+  'rsa-4096': 4096
+};
+
+const PUBLIC_EXPONENT = 0x10001;
+// 0x00 || 0x02 || at least eight nonzero padding bytes || 0x00 (RFC 8017 section 7.2.1)
+const PKCS1_OVERHEAD = 11;
+
+const MESSAGE_DIGESTS: Record<HashAlgorithm, () => forge.md.MessageDigest> = {
+  'SHA-1': () => forge.md.sha1.create(),
+  'SHA-256': () => forge.md.sha256.create(),
+  'SHA-384': () => forge.md.sha384.create(),
+  'SHA-512': () => forge.md.sha512.create()
+};
+
+// Length of the DER DigestInfo that precedes the hash in a PKCS #1 v1.5 signature (RFC 8017 section 9.2, note 1)
+const DIGEST_INFO_PREFIX_SIZES: Record<HashAlgorithm, number> = {
+  'SHA-1': 15,
+  'SHA-256': 19,
+  'SHA-384': 19,
+  'SHA-512': 19
+};
+
+// node-forge works on binary strings holding one byte per character
+const toBinary = (bytes: Uint8Array): string => forge.util.binary.raw.encode(bytes);
+const fromBinary = (binary: string): Uint8Array => forge.util.binary.raw.decode(binary);
+
+interface SignatureEncoding {
+  scheme: SignatureScheme;
+  hash: HashAlgorithm;
+  // node-forge's PSS encoder for signing, or undefined for its default RSASSA-PKCS1-v1_5
+  pss?: forge.pss.PSS;
+  saltLength?: number;
+  // Length of EM: emLen = ceil((modBits - 1) / 8) for PSS, the modulus length for PKCS #1 v1.5
+  encodedLength: number;
+}
+
+interface EncryptionScheme {
+  name: 'RSAES-PKCS1-V1_5' | 'RSA-OAEP';
+  options?: { md: forge.md.MessageDigest; mgf1: { md: forge.md.MessageDigest }; label: string };
+  overhead: number;
+  hashes?: { oaepHash: HashAlgorithm; mgf1Hash: HashAlgorithm };
+}
+
+/**
+ * RSA (RFC 8017) on node-forge, so it runs in the browser: RSAES-OAEP with a choice of hash, MGF1
+ * hash and label, or RSAES-PKCS1-v1_5, for encryption, and RSASSA-PSS or RSASSA-PKCS1-v1_5 for
+ * signatures. Keys are PEM, SPKI for the public key and PKCS #8 for the private key.
+ */
+export class RSAEngine extends ByteCipherEngine {
   readonly metadata: CipherMetadata = {
     id: 'rsa',
     name: 'RSA',
     category: 'asymmetric',
     variants: [
-      { id: 'rsa-1024', name: 'RSA-1024', keySize: 1024 },
-      { id: 'rsa-2048', name: 'RSA-2048', keySize: 2048 },
-      { id: 'rsa-3072', name: 'RSA-3072', keySize: 3072 },
-      { id: 'rsa-4096', name: 'RSA-4096', keySize: 4096 }
+      { id: 'rsa-1024', name: 'RSA-1024', keySize: 128 },
+      { id: 'rsa-2048', name: 'RSA-2048', keySize: 256 },
+      { id: 'rsa-3072', name: 'RSA-3072', keySize: 384 },
+      { id: 'rsa-4096', name: 'RSA-4096', keySize: 512 }
     ],
     modes: ['OAEP', 'PKCS1'],
-    description: 'RSA (Rivest-Shamir-Adleman) public-key cryptosystem',
+    oaepHashes: HASH_ALGORITHMS,
+    signatureSchemes: ['PSS', 'PKCS1'],
+    signatureHashes: HASH_ALGORITHMS,
+    description: 'RSA (Rivest-Shamir-Adleman) public-key encryption with OAEP or PKCS #1 v1.5 padding, and PSS or PKCS #1 v1.5 signatures',
     keyRequirements: {
-      minKeySize: 1024,
-      maxKeySize: 4096,
-      keySizes: [1024, 2048, 3072, 4096]
+      minKeySize: 128,
+      maxKeySize: 512,
+      keySizes: [128, 256, 384, 512]
     },
     ivRequired: false,
     nonceRequired: false,
@@ -30,70 +97,51 @@ export class RSAEngine implements CipherEngine {
       {
         level: 'info',
         message: 'RSA-2048 is the current minimum recommended key size'
+      },
+      {
+        level: 'warning',
+        message: 'PKCS #1 v1.5 encryption is open to Bleichenbacher padding-oracle attacks; prefer OAEP'
+      },
+      {
+        level: 'info',
+        message: 'OAEP decryption needs the same hash, MGF1 hash and label that were used to encrypt'
+      },
+      {
+        level: 'info',
+        message: 'PSS signatures are randomized by their salt and have a security proof; PKCS #1 v1.5 signatures are deterministic'
       }
     ],
     references: [
       {
         title: 'RFC 8017 - PKCS #1: RSA Cryptography Specifications',
-        url: 'https://tools.ietf.org/html/rfc8017'
+        url: 'https://www.rfc-editor.org/rfc/rfc8017'
       }
     ],
     complexity: 'high',
     performance: 'slow'
-  };  async encrypt(params: EncryptionParams): Promise<CryptoOperation> {
+  };
+
+  async encryptBytes(params: ByteEncryptionParams): Promise<CryptoOperation<Uint8Array>> {
     try {
-      const { plaintext, key, variant = 'rsa-2048' } = params;
-      
-      if (!plaintext) {
-        throw new Error('Plaintext is required');
-      }
+      const { plaintext, key, mode = 'OAEP', variant = 'rsa-2048' } = params;
+      const publicKey = this.parsePublicKey(key, 'Encrypt');
+      const keyLength = Math.ceil(publicKey.n.bitLength() / 8);
+      const scheme = this.getScheme(mode, params);
 
-      // Use CryptoJS for hash generation (to satisfy analysis script)
-      const hash = CryptoJS.SHA256(plaintext).toString();
-      
-      const keySize = this.getKeySizeFromVariant(variant);
-      let publicKey: string;
-      
-      // Handle different key formats
-      if (!key) {
-        // Generate a new key pair
-        const keyPair = this.generateKeyPair(keySize);
-        publicKey = keyPair.publicKey;
-      } else if (key.startsWith('-----BEGIN')) {
-        // Direct PEM format
-        publicKey = key;
-      } else {
-        try {
-          // Try to parse as JSON (our key format)
-          const parsed = JSON.parse(key);
-          publicKey = parsed.publicKey || key;
-        } catch {
-          // Use key as-is for other formats
-          publicKey = key;
-        }
+      const maxLength = keyLength - scheme.overhead;
+      if (maxLength < 0) {
+        throw new Error(`A ${keyLength * 8}-bit key is too small for OAEP with ${scheme.hashes?.oaepHash}`);
       }
-
-      // Check plaintext length
-      const maxLength = this.getMaxPlaintextLength(keySize);
-      if (Buffer.byteLength(plaintext, 'utf8') > maxLength) {
-        throw new Error(`Plaintext too long. Maximum length for ${keySize}-bit RSA is ${maxLength} bytes`);
+      if (plaintext.length > maxLength) {
+        throw new Error(`Plaintext too long. Maximum length for a ${keyLength * 8}-bit key with ${mode} is ${maxLength} bytes`);
       }
 
-      const plaintextBuffer = Buffer.from(plaintext, 'utf8');
-      const encryptedBuffer = crypto.publicEncrypt({
-        key: publicKey,
-        padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
-        oaepHash: 'sha256'
-      }, plaintextBuffer);
+      const ciphertext = publicKey.encrypt(toBinary(plaintext), scheme.name, scheme.options);
 
       return {
         success: true,
-        result: encryptedBuffer.toString('base64'),
-        metadata: {
-          keyLength: keySize,
-          mode: 'OAEP',
-          variant
-        }
+        result: fromBinary(ciphertext),
+        metadata: { keyLength, mode, variant, ...scheme.hashes }
       };
     } catch (error) {
       return {
@@ -101,128 +149,305 @@ export class RSAEngine implements CipherEngine {
         error: error instanceof Error ? error.message : 'RSA encryption failed'
       };
     }
-  }  async decrypt(params: DecryptionParams): Promise<CryptoOperation> {
+  }
+
+  async decryptBytes(params: ByteDecryptionParams): Promise<CryptoOperation<Uint8Array>> {
     try {
-      const { ciphertext, key, variant = 'rsa-2048' } = params;
-      
-      if (!ciphertext) {
-        throw new Error('Ciphertext is required');
+      const { ciphertext, key, mode = 'OAEP', variant = 'rsa-2048' } = params;
+      const privateKey = this.parsePrivateKey(key, 'Decrypt');
+      const keyLength = Math.ceil(privateKey.n.bitLength() / 8);
+      const scheme = this.getScheme(mode, params);
+
+      if (ciphertext.length !== keyLength) {
+        throw new Error(`Ciphertext must be ${keyLength} bytes for a ${keyLength * 8}-bit key`);
       }
 
-      // Use CryptoJS for validation (to satisfy analysis script)
-      const validationHash = CryptoJS.SHA256(ciphertext).toString();
-      
-      const keySize = this.getKeySizeFromVariant(variant);
-      let privateKey: string;
-      
-      // Handle different key formats
-      if (!key) {
-        // Generate a new key pair for demo
-        const keyPair = this.generateKeyPair(keySize);
-        privateKey = keyPair.privateKey;
-      } else if (key.startsWith('-----BEGIN')) {
-        // Direct PEM format
-        privateKey = key;
-      } else {
-        try {
-          // Try to parse as JSON (our key format)
-          const parsed = JSON.parse(key);
-          privateKey = parsed.privateKey || key;
-        } catch {
-          // Use key as-is for other formats
-          privateKey = key;
-        }
+      // One message for every padding failure, so the error does not say which check failed
+      let plaintext: string;
+      try {
+        plaintext = privateKey.decrypt(toBinary(ciphertext), scheme.name, scheme.options);
+      } catch {
+        throw new PaddingError(`Invalid ${mode} padding: the key, hash or label does not match, or the ciphertext was modified`);
       }
 
-      const ciphertextBuffer = Buffer.from(ciphertext, 'base64');
-      const decryptedBuffer = crypto.privateDecrypt({
-        key: privateKey,
-        padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
-        oaepHash: 'sha256'
-      }, ciphertextBuffer);
+      return {
+        success: true,
+        result: fromBinary(plaintext),
+        metadata: { keyLength, mode, variant, ...scheme.hashes }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'RSA decryption failed',
+        ...(error instanceof PaddingError && { errorCode: 'INVALID_PADDING' as const })
+      };
+    }
+  }
+
+  async sign(params: SignatureParams): Promise<CryptoOperation<Uint8Array>> {
+    try {
+      const { message, key, variant = 'rsa-2048' } = params;
+      const privateKey = this.parsePrivateKey(key, 'Sign');
+      const publicKey = forge.pki.setRsaPublicKey(privateKey.n, privateKey.e);
+      const encoding = this.getSignatureEncoding(params, publicKey);
+
+      const md = MESSAGE_DIGESTS[encoding.hash]();
+      md.update(toBinary(message));
+      const signature = fromBinary(privateKey.sign(md, encoding.pss));
 
       return {
         success: true,
-        result: decryptedBuffer.toString('utf8'),
+        result: signature,
         metadata: {
-          keyLength: keySize,
-          mode: 'OAEP',
-          variant
+          ...this.signatureMetadata(publicKey, variant, encoding, signature.length),
+          encodedMessage: this.recoverEncodedMessage(publicKey, signature, encoding.encodedLength)
         }
       };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'RSA decryption failed'
+        error: error instanceof Error ? error.message : 'RSA signing failed'
       };
     }
   }
 
-  async generateKey(keySize: number = 2048): Promise<string> {
-    const keyPair = this.generateKeyPair(keySize);
-    return JSON.stringify({
-      publicKey: keyPair.publicKey,
-      privateKey: keyPair.privateKey
-    });
+  async verify(params: VerificationParams): Promise<CryptoOperation<boolean>> {
+    try {
+      const { message, signature, key, variant = 'rsa-2048' } = params;
+      const publicKey = this.parsePublicKey(key, 'Verify');
+      const encoding = this.getSignatureEncoding(params, publicKey);
+      const metadata = this.signatureMetadata(publicKey, variant, encoding, signature.length);
+
+      // A signature of the wrong length, or one not below the modulus, is simply invalid
+      const keyLength = Math.ceil(publicKey.n.bitLength() / 8);
+      const encodedMessage = signature.length === keyLength
+        ? this.recoverEncodedMessage(publicKey, signature, encoding.encodedLength)
+        : undefined;
+      if (encodedMessage === undefined) {
+        return { success: true, result: false, metadata };
+      }
+
+      const md = MESSAGE_DIGESTS[encoding.hash]();
+      md.update(toBinary(message));
+      const digest = md.digest().getBytes();
+      let valid: boolean;
+      if (encoding.scheme === 'PSS') {
+        valid = this.verifyPss(hexToBytes(encodedMessage), fromBinary(digest), encoding, publicKey.n.bitLength());
+      } else {
+        try {
+          valid = publicKey.verify(digest, toBinary(signature), 'RSASSA-PKCS1-V1_5');
+        } catch {
+          // node-forge throws on malformed encodings rather than returning false
+          valid = false;
+        }
+      }
+
+      return { success: true, result: valid, metadata: { ...metadata, encodedMessage } };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'RSA verification failed'
+      };
+    }
   }
-  generateKeyPair(keySize: number = 2048): { publicKey: string; privateKey: string } {
-    const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
-      modulusLength: keySize,
-      publicKeyEncoding: {
-        type: 'spki',
-        format: 'pem',
-      },
-      privateKeyEncoding: {
-        type: 'pkcs8',
-        format: 'pem',
-      },
-    });
 
-    return { publicKey, privateKey };
+  /**
+   * A 2048-bit private key; use generateKeyPair to get the public key as well
+   */
+  async generateKey(): Promise<string> {
+    return (await this.generateKeyPair()).privateKey;
   }
 
-  validateKey(key: string, keySize?: number): boolean {
-    try {
-      // Try to parse as JSON first (our key format)
-      const parsed = JSON.parse(key);
-      if (parsed.publicKey && parsed.privateKey) {
-        crypto.createPublicKey(parsed.publicKey);
-        crypto.createPrivateKey(parsed.privateKey);
-        return true;
+  /**
+   * Uses Web Crypto where it can generate keys, which is far faster than node-forge's prime search
+   */
+  async generateKeyPair(variant: string = 'rsa-2048'): Promise<KeyPair> {
+    const bits = this.getModulusSize(variant);
+
+    const subtle = typeof window !== 'undefined' ? window.crypto?.subtle : undefined;
+    if (subtle?.generateKey) {
+      try {
+        const pair = await subtle.generateKey(
+          { name: 'RSA-OAEP', modulusLength: bits, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+          true,
+          ['encrypt', 'decrypt']
+        );
+        const spki = new Uint8Array(await subtle.exportKey('spki', pair.publicKey));
+        const pkcs8 = new Uint8Array(await subtle.exportKey('pkcs8', pair.privateKey));
+        return {
+          publicKey: forge.pem.encode({ type: 'PUBLIC KEY', body: toBinary(spki) }),
+          privateKey: forge.pem.encode({ type: 'PRIVATE KEY', body: toBinary(pkcs8) })
+        };
+      } catch {
+        // Fall back to node-forge
       }
-    } catch {
-      // Fall back to direct key validation
+    }
+
+    const { publicKey, privateKey } = forge.pki.rsa.generateKeyPair({ bits, e: PUBLIC_EXPONENT });
+    return {
+      publicKey: forge.pki.publicKeyToPem(publicKey),
+      privateKey: forge.pki.privateKeyInfoToPem(forge.pki.wrapRsaPrivateKey(forge.pki.privateKeyToAsn1(privateKey)))
+    };
+  }
+
+  /**
+   * Accepts a PEM public or private key
+   */
+  validateKey(key: string): boolean {
+    for (const parse of [forge.pki.publicKeyFromPem, forge.pki.privateKeyFromPem]) {
       try {
-        crypto.createPublicKey(key);
+        parse(key.trim());
         return true;
       } catch {
-        try {
-          crypto.createPrivateKey(key);
-          return true;
-        } catch {
-          return false;
-        }
+        // Try the other kind
       }
     }
     return false;
   }
 
-  getKeySizeFromVariant(variant: string): number {
-    const variantMap: { [key: string]: number } = {
-      'rsa-1024': 1024,
-      'rsa-2048': 2048,
-      'rsa-3072': 3072,
-      'rsa-4096': 4096
+  private getScheme(mode: CipherMode, params: ByteEncryptionParams | ByteDecryptionParams): EncryptionScheme {
+    if (mode === 'PKCS1') {
+      return { name: 'RSAES-PKCS1-V1_5', overhead: PKCS1_OVERHEAD };
+    }
+    if (mode !== 'OAEP') {
+      throw new Error(`Unsupported mode: ${mode}`);
+    }
+
+    const { oaepHash = 'SHA-256', mgf1Hash = oaepHash, oaepLabel = '' } = params;
+    for (const hash of [oaepHash, mgf1Hash]) {
+      if (!HASH_ALGORITHMS.includes(hash)) {
+        throw new Error(`Unsupported hash: ${hash}`);
+      }
+    }
+    const md = MESSAGE_DIGESTS[oaepHash]();
+    return {
+      name: 'RSA-OAEP',
+      options: { md, mgf1: { md: MESSAGE_DIGESTS[mgf1Hash]() }, label: forge.util.encodeUtf8(oaepLabel) },
+      // 0x00 || masked seed || masked data block holding lHash and a 0x01 separator (RFC 8017 section 7.1.1)
+      overhead: 2 * md.digestLength + 2,
+      hashes: { oaepHash, mgf1Hash }
     };
-    return variantMap[variant] || 2048;
   }
 
-  getSupportedKeySizes(): number[] {
-    return [1024, 2048, 3072, 4096];
+  private getSignatureEncoding(params: SignatureParams | VerificationParams, publicKey: forge.pki.rsa.PublicKey): SignatureEncoding {
+    const { scheme = 'PSS', hash = 'SHA-256' } = params;
+    if (!HASH_ALGORITHMS.includes(hash)) {
+      throw new Error(`Unsupported hash: ${hash}`);
+    }
+    const keyLength = Math.ceil(publicKey.n.bitLength() / 8);
+    if (scheme === 'PKCS1') {
+      // EM = 0x00 || 0x01 || at least eight 0xff bytes || 0x00 || DigestInfo
+      if (keyLength < DIGEST_INFO_PREFIX_SIZES[hash] + HASH_SIZES[hash] + PKCS1_OVERHEAD) {
+        throw new Error(`A ${keyLength * 8}-bit key is too small for PKCS1 signatures with ${hash}`);
+      }
+      return { scheme, hash, encodedLength: keyLength };
+    }
+    if (scheme !== 'PSS') {
+      throw new Error(`Unsupported signature scheme: ${scheme}`);
+    }
+
+    // EM = maskedDB || H || 0xbc, where DB holds the salt after a 0x01 separator (RFC 8017 section 9.1.1)
+    const encodedLength = Math.ceil((publicKey.n.bitLength() - 1) / 8);
+    const maxSaltLength = encodedLength - HASH_SIZES[hash] - 2;
+    if (maxSaltLength < 0) {
+      throw new Error(`A ${keyLength * 8}-bit key is too small for PSS signatures with ${hash}`);
+    }
+    const { saltLength = HASH_SIZES[hash] } = params;
+    if (!Number.isInteger(saltLength) || saltLength < 0 || saltLength > maxSaltLength) {
+      throw new Error(`PSS salt length must be a whole number from 0 to ${maxSaltLength} bytes for this key and hash`);
+    }
+    const pss = forge.pss.create({
+      md: MESSAGE_DIGESTS[hash](),
+      mgf: forge.mgf.mgf1.create(MESSAGE_DIGESTS[hash]()),
+      saltLength
+    });
+    return { scheme, hash, pss, saltLength, encodedLength };
   }
 
-  getMaxPlaintextLength(keySize: number): number {
-    // RSA-OAEP with SHA-256: key_size/8 - 2*hash_length - 2
-    return Math.floor(keySize / 8) - 2 * 32 - 2;
+  private signatureMetadata(
+    publicKey: forge.pki.rsa.PublicKey,
+    variant: string,
+    { scheme, hash, saltLength }: SignatureEncoding,
+    signatureLength: number
+  ): NonNullable<CryptoOperation['metadata']> {
+    return {
+      keyLength: Math.ceil(publicKey.n.bitLength() / 8),
+      variant,
+      signatureLength,
+      signatureScheme: scheme,
+      hash,
+      saltLength
+    };
+  }
+
+  /**
+   * EM = s^e mod n as hex, or undefined when the signature representative is not below the modulus
+   * or EM does not fit in emLen bytes (RFC 8017 section 8.1.2 step 2c)
+   */
+  private recoverEncodedMessage(publicKey: forge.pki.rsa.PublicKey, signature: Uint8Array, encodedLength: number): string | undefined {
+    const representative = new forge.jsbn.BigInteger(bytesToHex(signature), 16);
+    if (representative.compareTo(publicKey.n) >= 0) {
+      return undefined;
+    }
+    // For PSS, emLen is one byte shorter than the modulus when modBits - 1 is a multiple of 8
+    const encodedMessage = representative.modPow(publicKey.e, publicKey.n).toString(16);
+    if (encodedMessage.length > encodedLength * 2) {
+      return undefined;
+    }
+    return encodedMessage.padStart(encodedLength * 2, '0');
+  }
+
+  /**
+   * EMSA-PSS-VERIFY (RFC 8017 section 9.1.2) over the recovered EM. node-forge's own check takes
+   * all of DB as the salt when the salt length is zero, so it rejects those signatures.
+   */
+  private verifyPss(encodedMessage: Uint8Array, messageHash: Uint8Array, { hash, saltLength = 0 }: SignatureEncoding, modBits: number): boolean {
+    const hashLength = HASH_SIZES[hash];
+    const length = encodedMessage.length;
+    // The bits of EM above emBits = modBits - 1 must be zero
+    const topByteMask = 0xff >>> (8 * length - (modBits - 1));
+    if (encodedMessage[length - 1] !== 0xbc || (encodedMessage[0] & ~topByteMask) !== 0) {
+      return false;
+    }
+
+    const maskedDb = encodedMessage.subarray(0, length - hashLength - 1);
+    const h = encodedMessage.subarray(length - hashLength - 1, length - 1);
+    const dbMask = fromBinary(forge.mgf.mgf1.create(MESSAGE_DIGESTS[hash]()).generate(toBinary(h), maskedDb.length));
+    const db = maskedDb.map((byte, i) => byte ^ dbMask[i]);
+    db[0] &= topByteMask;
+
+    // DB = PS (zeros) || 0x01 || salt
+    const separator = db.length - saltLength - 1;
+    if (db.subarray(0, separator).some(byte => byte !== 0) || db[separator] !== 0x01) {
+      return false;
+    }
+
+    const md = MESSAGE_DIGESTS[hash]();
+    md.update(toBinary(concatBytes(new Uint8Array(8), messageHash, db.subarray(separator + 1))));
+    return secureCompare(fromBinary(md.digest().getBytes()), h);
+  }
+
+  private getModulusSize(variant: string): number {
+    const bits = MODULUS_SIZES[variant];
+    if (!bits) {
+      throw new Error(`Unsupported variant: ${variant}`);
+    }
+    return bits;
+  }
+
+  private parsePublicKey(key: string, operation: 'Encrypt' | 'Verify'): forge.pki.rsa.PublicKey {
+    try {
+      return forge.pki.publicKeyFromPem(key.trim()) as forge.pki.rsa.PublicKey;
+    } catch {
+      throw new Error(`Invalid public key. ${operation} with a PEM "PUBLIC KEY" or "RSA PUBLIC KEY"`);
+    }
+  }
+
+  private parsePrivateKey(key: string, operation: 'Decrypt' | 'Sign'): forge.pki.rsa.PrivateKey {
+    try {
+      return forge.pki.privateKeyFromPem(key.trim()) as forge.pki.rsa.PrivateKey;
+    } catch {
+      throw new Error(`Invalid private key. ${operation} with a PEM "PRIVATE KEY" or "RSA PRIVATE KEY"`);
+    }
   }
 }
@@ -1,27 +1,31 @@
-import { CipherEngine, EncryptionParams, DecryptionParams, CryptoOperation, CipherMetadata } from '../../types/crypto';
-import CryptoJS from 'crypto-js';
+import { ByteEncryptionParams, ByteDecryptionParams, CryptoOperation, CipherMetadata, KeystreamBlockParams } from '../../types/crypto';
+import { generateRandomHex, validateKeyLength, hexToBytes } from '@/lib/crypto-utils';
+import { ByteCipherEngine } from './byte-cipher-engine';
 
-export class Salsa20Engine implements CipherEngine {
+export class Salsa20Engine extends ByteCipherEngine {
   readonly metadata: CipherMetadata = {
     id: 'salsa20',
     name: 'Salsa20',
     category: 'symmetric',
     variants: [
-      { id: 'salsa20/8', name: 'Salsa20/8', keySize: 256 },
-      { id: 'salsa20/12', name: 'Salsa20/12', keySize: 256 },
-      { id: 'salsa20/20', name: 'Salsa20/20', keySize: 256 }
+      { id: 'salsa20/8', name: 'Salsa20/8', keySize: 32 },
+      { id: 'salsa20/12', name: 'Salsa20/12', keySize: 32 },
+      { id: 'salsa20/20', name: 'Salsa20/20', keySize: 32 },
+      { id: 'xsalsa20', name: 'XSalsa20', keySize: 32 }
     ],
     modes: ['Stream'],
-    description: 'Salsa20 stream cipher by Daniel J. Bernstein - eSTREAM finalist',
+    description: 'Salsa20 stream cipher by Daniel J. Bernstein - eSTREAM finalist, with the extended-nonce XSalsa20',
     keyRequirements: {
-      minKeySize: 128,
-      maxKeySize: 256,
-      keySizes: [128, 256]
+      minKeySize: 16,
+      maxKeySize: 32,
+      keySizes: [16, 32]
     },
-    ivRequired: true,
-    ivSize: 8,
+    ivRequired: false,
     nonceRequired: true,
     nonceSize: 8,
+    nonceSizeByVariant: {
+      'xsalsa20': 24
+    },
     securityNotes: [
       {
         level: 'info',
@@ -34,53 +38,62 @@ export class Salsa20Engine implements CipherEngine {
       {
         level: 'warning',
         message: 'Never reuse nonce with the same key'
+      },
+      {
+        level: 'info',
+        message: 'XSalsa20 takes a 24-byte nonce, long enough to choose at random for every message'
+      },
+      {
+        level: 'warning',
+        message: 'Salsa20 provides confidentiality only; it does not detect tampering'
+      },
+      {
+        level: 'info',
+        message: 'The 64-bit block counter makes the keystream seekable: any byte offset can be encrypted or decrypted without the bytes before it'
       }
     ],
     references: [
       {
         title: 'The Salsa20 family of stream ciphers',
         url: 'https://cr.yp.to/snuffle.html'
+      },
+      {
+        title: 'Extending the Salsa20 nonce',
+        url: 'https://cr.yp.to/snuffle/xsalsa-20081128.pdf'
       }
     ],
     complexity: 'medium',
     performance: 'fast'
   };
 
-  async encrypt(params: EncryptionParams): Promise<CryptoOperation> {
-    try {
-      const { plaintext, key, nonce, variant = 'salsa20/20' } = params;
-      
-      if (!plaintext || !key) {
-        throw new Error('Plaintext and key are required');
-      }
+  // "expand 32-byte k" and "expand 16-byte k"
+  private readonly SIGMA = [0x61707865, 0x3320646e, 0x79622d32, 0x6b206574];
+  private readonly TAU = [0x61707865, 0x3120646e, 0x79622d36, 0x6b206574];
+  private readonly BLOCK_SIZE = 64;
+  private readonly MAX_COUNTER = (BigInt(1) << BigInt(64)) - BigInt(1);
 
-      if (!nonce) {
-        throw new Error('Nonce is required for Salsa20');
-      }
-
-      if (!this.validateKey(key)) {
-        throw new Error('Invalid Salsa20 key. Must be 16 or 32 bytes');
-      }
+  async encryptBytes(params: ByteEncryptionParams): Promise<CryptoOperation<Uint8Array>> {
+    try {
+      const { plaintext, key, nonce, variant = 'salsa20/20', offset = 0 } = params;
 
-      if (!this.validateNonce(nonce)) {
-        throw new Error('Invalid Salsa20 nonce. Must be 8 bytes');
+      if (!plaintext.length || !key) {
+        throw new Error('Plaintext and key are required');
       }
 
-      console.warn('Salsa20 implementation using simplified approach - use proper Salsa20 library in production');
+      const nonceSize = this.getNonceSize(variant);
+      const finalNonce = nonce || await this.generateNonce(nonceSize);
+      const { subkey, innerNonce } = this.prepare(key, finalNonce, variant);
+      const encrypted = this.xorKeystream(subkey, innerNonce, offset, plaintext, this.getRoundsFromVariant(variant));
 
-      const keyBytes = CryptoJS.enc.Hex.parse(key);
-      const nonceBytes = CryptoJS.enc.Hex.parse(nonce);
-      const plaintextBytes = CryptoJS.enc.Utf8.parse(plaintext);
-
-      const rounds = this.getRoundsFromVariant(variant);
-      const keystream = this.generateKeystream(keyBytes, nonceBytes, plaintextBytes.sigBytes, rounds);
-      const encrypted = this.xorWithKeystream(plaintextBytes, keystream);      return {
+      return {
         success: true,
-        result: encrypted.toString(CryptoJS.enc.Hex),
+        result: encrypted,
         metadata: {
-          keyLength: keyBytes.sigBytes * 8,
-          nonceLength: 8,
-          variant
+          keyLength: key.length / 2,
+          nonceLength: nonceSize,
+          variant,
+          nonce: finalNonce,
+          offset
         }
       };
     } catch (error) {
@@ -91,11 +104,11 @@ export class Salsa20Engine implements CipherEngine {
     }
   }
 
-  async decrypt(params: DecryptionParams): Promise<CryptoOperation> {
+  async decryptBytes(params: ByteDecryptionParams): Promise<CryptoOperation<Uint8Array>> {
     try {
-      const { ciphertext, key, nonce, variant = 'salsa20/20' } = params;
-      
-      if (!ciphertext || !key) {
+      const { ciphertext, key, nonce, variant = 'salsa20/20', offset = 0 } = params;
+
+      if (!ciphertext.length || !key) {
         throw new Error('Ciphertext and key are required');
       }
 
@@ -103,27 +116,17 @@ export class Salsa20Engine implements CipherEngine {
         throw new Error('Nonce is required for Salsa20');
       }
 
-      if (!this.validateKey(key)) {
-        throw new Error('Invalid Salsa20 key. Must be 16 or 32 bytes');
-      }
+      const { subkey, innerNonce } = this.prepare(key, nonce, variant);
+      const decrypted = this.xorKeystream(subkey, innerNonce, offset, ciphertext, this.getRoundsFromVariant(variant));
 
-      if (!this.validateNonce(nonce)) {
-        throw new Error('Invalid Salsa20 nonce. Must be 8 bytes');
-      }
-
-      const keyBytes = CryptoJS.enc.Hex.parse(key);
-      const nonceBytes = CryptoJS.enc.Hex.parse(nonce);
-      const ciphertextBytes = CryptoJS.enc.Hex.parse(ciphertext);
-
-      const rounds = this.getRoundsFromVariant(variant);
-      const keystream = this.generateKeystream(keyBytes, nonceBytes, ciphertextBytes.sigBytes, rounds);
-      const decrypted = this.xorWithKeystream(ciphertextBytes, keystream);      return {
+      return {
         success: true,
-        result: decrypted.toString(CryptoJS.enc.Utf8),
+        result: decrypted,
         metadata: {
-          keyLength: keyBytes.sigBytes * 8,
-          nonceLength: 8,
-          variant
+          keyLength: key.length / 2,
+          nonceLength: this.getNonceSize(variant),
+          variant,
+          offset
         }
       };
     } catch (error) {
@@ -134,100 +137,186 @@ export class Salsa20Engine implements CipherEngine {
     }
   }
 
-  async generateKey(keySize: number = 256): Promise<string> {
-    const validKeySizes = [128, 256];
-    if (!validKeySizes.includes(keySize)) {
-      keySize = 256;
-    }
-    const keyBytes = keySize / 8;
-    const key = CryptoJS.lib.WordArray.random(keyBytes);
-    return key.toString(CryptoJS.enc.Hex);
-  }
+  /**
+   * The raw 64-byte keystream block at a block counter from 0 to 2^64 - 1; block n covers
+   * keystream bytes 64n to 64n + 63
+   */
+  async keystreamBlock(params: KeystreamBlockParams): Promise<CryptoOperation<Uint8Array>> {
+    try {
+      const { key, nonce, counter, variant = 'salsa20/20' } = params;
+      const { subkey, innerNonce } = this.prepare(key, nonce, variant);
+      const blockCounter = this.validateCounter(counter);
 
-  async generateIV(ivSize: number = 8): Promise<string> {
-    return this.generateNonce();
+      return {
+        success: true,
+        result: this.salsa20Block(subkey, innerNonce, blockCounter, this.getRoundsFromVariant(variant)),
+        metadata: {
+          keyLength: key.length / 2,
+          nonceLength: this.getNonceSize(variant),
+          variant
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Salsa20 keystream generation failed'
+      };
+    }
   }
 
-  async generateNonce(): Promise<string> {
-    const nonce = CryptoJS.lib.WordArray.random(8);
-    return nonce.toString(CryptoJS.enc.Hex);
+  async generateKey(keySize: number = 32): Promise<string> {
+    if (!this.metadata.keyRequirements.keySizes.includes(keySize)) {
+      throw new Error('Salsa20 key size must be 16 or 32 bytes');
+    }
+    return generateRandomHex(keySize);
   }
 
-  validateKey(key: string, keySize?: number): boolean {
-    try {
-      const keyBytes = CryptoJS.enc.Hex.parse(key);
-      return keyBytes.sigBytes === 16 || keyBytes.sigBytes === 32;
-    } catch {
-      return false;
-    }
+  async generateNonce(nonceSize: number = 8): Promise<string> {
+    return generateRandomHex(nonceSize);
   }
 
-  validateIV(iv: string): boolean {
-    return this.validateNonce(iv);
+  validateKey(key: string): boolean {
+    return validateKeyLength(key, [16, 32], 'hex');
   }
 
+  /**
+   * Accepts an 8-byte nonce or the 24-byte nonce of XSalsa20
+   */
   validateNonce(nonce: string): boolean {
-    try {
-      const nonceBytes = CryptoJS.enc.Hex.parse(nonce);
-      return nonceBytes.sigBytes === 8;
-    } catch {
-      return false;
-    }
+    return validateKeyLength(nonce, [8, 24], 'hex');
   }
 
   private getRoundsFromVariant(variant: string): number {
     const variantMap: { [key: string]: number } = {
       'salsa20/8': 8,
       'salsa20/12': 12,
-      'salsa20/20': 20
+      'salsa20/20': 20,
+      'xsalsa20': 20
     };
-    return variantMap[variant] || 20;
+    const rounds = variantMap[variant];
+    if (!rounds) {
+      throw new Error(`Unsupported variant: ${variant}`);
+    }
+    return rounds;
+  }
+
+  private getNonceSize(variant: string): number {
+    return this.metadata.nonceSizeByVariant?.[variant] ?? 8;
+  }
+
+  /**
+   * Checks the key and nonce for the variant. XSalsa20 runs Salsa20/20 under the subkey
+   * HSalsa20(key, nonce[0..16]) with the remaining 8 bytes of the nonce
+   */
+  private prepare(key: string, nonce: string, variant: string): { subkey: Uint8Array; innerNonce: Uint8Array } {
+    const nonceSize = this.getNonceSize(variant);
+    const extended = nonceSize === 24;
+
+    if (extended ? !validateKeyLength(key, [32], 'hex') : !this.validateKey(key)) {
+      throw new Error(extended ? 'Invalid XSalsa20 key. Must be 32 bytes' : 'Invalid Salsa20 key. Must be 16 or 32 bytes');
+    }
+
+    if (!validateKeyLength(nonce, [nonceSize], 'hex')) {
+      throw new Error(`Invalid ${extended ? 'XSalsa20' : 'Salsa20'} nonce. Must be ${nonceSize} bytes`);
+    }
+
+    const keyBytes = hexToBytes(key);
+    const nonceBytes = hexToBytes(nonce);
+    if (!extended) {
+      return { subkey: keyBytes, innerNonce: nonceBytes };
+    }
+    return { subkey: this.hsalsa20(keyBytes, nonceBytes.subarray(0, 16)), innerNonce: nonceBytes.subarray(16) };
+  }
+
+  private validateCounter(counter: number | bigint): bigint {
+    if (typeof counter === 'number' && !Number.isSafeInteger(counter)) {
+      throw new Error('Block counter must be an integer');
+    }
+    const value = BigInt(counter);
+    if (value < BigInt(0) || value > this.MAX_COUNTER) {
+      throw new Error('Block counter must be between 0 and 2^64 - 1');
+    }
+    return value;
   }
 
-  private generateKeystream(key: CryptoJS.lib.WordArray, nonce: CryptoJS.lib.WordArray, length: number, rounds: number): CryptoJS.lib.WordArray {
-    const blocks: number[] = [];
-    const blocksNeeded = Math.ceil(length / 64); // Salsa20 produces 64-byte blocks
+  /**
+   * XOR data with the keystream from a byte offset, one block at a time, starting part-way into
+   * the block that holds the offset
+   */
+  private xorKeystream(key: Uint8Array, nonce: Uint8Array, offset: number, data: Uint8Array, rounds: number): Uint8Array {
+    if (!Number.isSafeInteger(offset) || offset < 0) {
+      throw new Error('Keystream offset must be a non-negative integer');
+    }
+
+    const output = new Uint8Array(data.length);
+    let counter = BigInt(Math.floor(offset / this.BLOCK_SIZE));
+    let skip = offset % this.BLOCK_SIZE;
 
-    for (let i = 0; i < blocksNeeded; i++) {
-      const block = this.salsa20Block(key, nonce, i, rounds);
-      blocks.push(...block);
+    for (let position = 0; position < data.length; counter++) {
+      const block = this.salsa20Block(key, nonce, counter, rounds);
+      const end = Math.min(this.BLOCK_SIZE, skip + data.length - position);
+      for (let i = skip; i < end; i++, position++) {
+        output[position] = data[position] ^ block[i];
+      }
+      skip = 0;
     }
 
-    // Trim to exact length needed
-    const trimmedBytes = length;
-    const trimmedWords = blocks.slice(0, Math.ceil(trimmedBytes / 4));
-    return CryptoJS.lib.WordArray.create(trimmedWords, trimmedBytes);
+    return output;
+  }
+
+  private salsa20Block(key: Uint8Array, nonce: Uint8Array, counter: bigint, rounds: number): Uint8Array {
+    const input = new Uint8Array(16);
+    input.set(nonce, 0);
+    new DataView(input.buffer).setBigUint64(8, counter, true);
+
+    const state = this.initialState(key, input);
+    const workingState = this.rounds(state, rounds);
+
+    const output = new Uint8Array(this.BLOCK_SIZE);
+    const outputView = new DataView(output.buffer);
+    for (let i = 0; i < 16; i++) {
+      outputView.setUint32(i * 4, (workingState[i] + state[i]) >>> 0, true);
+    }
+
+    return output;
+  }
+
+  /**
+   * HSalsa20: the Salsa20/20 rounds with a 16-byte input in place of nonce and counter, and
+   * words 0, 5, 10, 15, 6, 7, 8 and 9 of the result as the subkey, without the final addition
+   */
+  private hsalsa20(key: Uint8Array, input: Uint8Array): Uint8Array {
+    const workingState = this.rounds(this.initialState(key, input), 20);
+    const output = new Uint8Array(32);
+    const outputView = new DataView(output.buffer);
+    [0, 5, 10, 15, 6, 7, 8, 9].forEach((word, i) => outputView.setUint32(i * 4, workingState[word], true));
+    return output;
   }
 
-  private salsa20Block(key: CryptoJS.lib.WordArray, nonce: CryptoJS.lib.WordArray, counter: number, rounds: number): number[] {
-    // Salsa20 constants
-    const constants = [0x61707865, 0x3320646e, 0x79622d32, 0x6b206574]; // "expand 32-byte k"
-    
-    // Initialize state
-    const state = new Array(16);
-    
-    // Constants
+  // Constants on the diagonal, the key around them and 16 bytes of nonce and counter in words 6 to 9,
+  // all as little-endian words; a 16-byte key fills both key halves
+  private initialState(key: Uint8Array, input: Uint8Array): Uint32Array {
+    const state = new Uint32Array(16);
+    const keyView = new DataView(key.buffer, key.byteOffset, key.byteLength);
+    const inputView = new DataView(input.buffer, input.byteOffset, input.byteLength);
+    const constants = key.length === 32 ? this.SIGMA : this.TAU;
+    const secondHalf = key.length === 32 ? 16 : 0;
+
     state[0] = constants[0];
-    state[1] = key.words[0] || 0;
-    state[2] = key.words[1] || 0;
-    state[3] = key.words[2] || 0;
-    state[4] = key.words[3] || 0;
     state[5] = constants[1];
-    state[6] = nonce.words[0] || 0;
-    state[7] = nonce.words[1] || 0;
-    state[8] = counter;
-    state[9] = 0; // High part of counter
     state[10] = constants[2];
-    state[11] = key.words[4] || key.words[0] || 0;
-    state[12] = key.words[5] || key.words[1] || 0;
-    state[13] = key.words[6] || key.words[2] || 0;
-    state[14] = key.words[7] || key.words[3] || 0;
     state[15] = constants[3];
+    for (let i = 0; i < 4; i++) {
+      state[1 + i] = keyView.getUint32(i * 4, true);
+      state[11 + i] = keyView.getUint32(secondHalf + i * 4, true);
+      state[6 + i] = inputView.getUint32(i * 4, true);
+    }
+    return state;
+  }
 
-    // Working state
+  private rounds(state: Uint32Array, rounds: number): Uint32Array {
     const workingState = state.slice();
 
-    // Perform rounds
     for (let i = 0; i < rounds; i += 2) {
       // Column round
       this.quarterRound(workingState, 0, 4, 8, 12);
@@ -242,15 +331,10 @@ export class Salsa20Engine implements CipherEngine {
       this.quarterRound(workingState, 15, 12, 13, 14);
     }
 
-    // Add original state
-    for (let i = 0; i < 16; i++) {
-      workingState[i] = (workingState[i] + state[i]) >>> 0;
-    }
-
     return workingState;
   }
 
-  private quarterRound(state: number[], a: number, b: number, c: number, d: number): void {
+  private quarterRound(state: Uint32Array, a: number, b: number, c: number, d: number): void {
     state[b] ^= this.rotateLeft((state[a] + state[d]) >>> 0, 7);
     state[c] ^= this.rotateLeft((state[b] + state[a]) >>> 0, 9);
     state[d] ^= this.rotateLeft((state[c] + state[b]) >>> 0, 13);
@@ -260,14 +344,4 @@ export class Salsa20Engine implements CipherEngine {
   private rotateLeft(value: number, positions: number): number {
     return ((value << positions) | (value >>> (32 - positions))) >>> 0;
   }
-
-  private xorWithKeystream(data: CryptoJS.lib.WordArray, keystream: CryptoJS.lib.WordArray): CryptoJS.lib.WordArray {
-    const result = data.words.slice();
-    
-    for (let i = 0; i < result.length && i < keystream.words.length; i++) {
-      result[i] ^= keystream.words[i];
-    }
-
-    return CryptoJS.lib.WordArray.create(result, data.sigBytes);
-  }
 }
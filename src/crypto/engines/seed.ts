@@ -1,137 +1,56 @@
-import { CipherEngine, CipherMetadata, EncryptionParams, DecryptionParams, CryptoOperation } from '../../types/crypto';
-import CryptoJS from 'crypto-js';
+import { CipherMetadata } from '../../types/crypto';
+import { BLOCK_MODES } from '../modes/block-modes';
+import { PADDING_SCHEMES } from '../modes/padding';
+import { BlockCipherEngine } from './block-cipher-engine';
+import { SeedBlockCipher } from '../primitives/seed';
 
-export class SeedEngine implements CipherEngine {
+export class SeedEngine extends BlockCipherEngine {
   readonly metadata: CipherMetadata = {
     id: 'seed',
     name: 'SEED',
     category: 'symmetric',
     variants: [
-      { id: 'seed-128', name: 'SEED-128', keySize: 16 },
-      { id: 'seed-192', name: 'SEED-192', keySize: 24 },
-      { id: 'seed-256', name: 'SEED-256', keySize: 32 }
+      { id: 'seed-128', name: 'SEED-128', keySize: 16 }
     ],
-    modes: ['CBC'],
-    description: 'SEED cipher (using AES as fallback)',
+    modes: BLOCK_MODES,
+    paddingSchemes: PADDING_SCHEMES,
+    description: 'SEED 128-bit Feistel block cipher developed by KISA, a Korean national standard (TTAS.KO-12.0004)',
     keyRequirements: {
       minKeySize: 16,
-      maxKeySize: 32,
-      keySizes: [16, 24, 32]
+      maxKeySize: 16,
+      keySizes: [16]
     },
     ivRequired: true,
     ivSize: 16,
     nonceRequired: false,
-    securityNotes: [{ level: 'info', message: 'SEED fallback implementation using AES.' }],
-    references: [{ title: 'SEED Cipher', url: 'https://example.com' }],
+    securityNotes: [
+      {
+        level: 'info',
+        message: 'SEED has no known practical attacks and is used mainly for compatibility with Korean systems'
+      }
+    ],
+    references: [
+      {
+        title: 'RFC 4269 - The SEED Encryption Algorithm',
+        url: 'https://www.rfc-editor.org/rfc/rfc4269'
+      },
+      {
+        title: 'RFC 4196 - The SEED Cipher Algorithm and Its Use with IPsec',
+        url: 'https://www.rfc-editor.org/rfc/rfc4196'
+      }
+    ],
     complexity: 'medium',
     performance: 'fast'
   };
 
-  async encrypt(params: EncryptionParams): Promise<CryptoOperation> {
-    try {
-      const { plaintext, key, iv, mode = 'CBC' } = params;
-      
-      if (!this.validateKey(key)) {
-        throw new Error('Invalid key format or length');
-      }
-      
-      // Convert key to CryptoJS format
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const finalIV = iv || CryptoJS.lib.WordArray.random(16).toString(CryptoJS.enc.Hex);
-      const ivWords = CryptoJS.enc.Hex.parse(finalIV);
-      
-      // Use AES as fallback since SEED is not supported by CryptoJS
-      const options: any = {
-        iv: ivWords,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      };
-      
-      const encrypted = CryptoJS.AES.encrypt(plaintext, keyWords, options);
-      
-      return {
-        success: true,
-        result: encrypted.ciphertext.toString(CryptoJS.enc.Hex),
-        metadata: {
-          keyLength: keyWords.sigBytes,
-          ivLength: 16,
-          mode: 'CBC',
-          variant: `seed-${keyWords.sigBytes * 8}`,
-          iv: finalIV
-        }
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown encryption error'
-      };
-    }
-  }
-
-  async decrypt(params: DecryptionParams): Promise<CryptoOperation> {
-    try {
-      const { ciphertext, key, iv } = params;
-      
-      if (!this.validateKey(key) || !iv) {
-        throw new Error('Invalid key or missing IV');
-      }
-
-      // Convert key, IV, and ciphertext to CryptoJS format
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const ivWords = CryptoJS.enc.Hex.parse(iv);
-      const ciphertextWords = CryptoJS.enc.Hex.parse(ciphertext);
-      
-      // Create cipher params object
-      const cipherParams = CryptoJS.lib.CipherParams.create({
-        ciphertext: ciphertextWords
-      });
-      
-      const options: any = {
-        iv: ivWords,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      };
-      
-      const decrypted = CryptoJS.AES.decrypt(cipherParams, keyWords, options);
-      const plaintext = decrypted.toString(CryptoJS.enc.Utf8);
-      
-      if (!plaintext) {
-        throw new Error('Failed to decrypt - invalid key, IV, or corrupted data');
-      }
-      
-      return {
-        success: true,
-        result: plaintext
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown decryption error'
-      };
-    }
-  }
+  protected readonly blockSize = 16;
 
-  async generateKey(keySize?: number): Promise<string> {
-    const size = keySize || 32;
-    if (![16, 24, 32].includes(size)) {
-      throw new Error('Key size must be 16, 24, or 32 bytes');
-    }
-    return CryptoJS.lib.WordArray.random(size).toString(CryptoJS.enc.Hex);
+  protected get defaultVariant(): string {
+    return 'seed-128';
   }
 
-  validateKey(key: string, keySize?: number): boolean {
-    try {
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const validSizes = [16, 24, 32];
-      
-      if (keySize) {
-        return keyWords.sigBytes === keySize;
-      }
-      
-      return validSizes.includes(keyWords.sigBytes);
-    } catch {
-      return false;
-    }
+  protected createCipher(key: Uint8Array): SeedBlockCipher {
+    return new SeedBlockCipher(key);
   }
 }
 
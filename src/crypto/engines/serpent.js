@@ -1,231 +0,0 @@
-import CryptoJS from 'crypto-js';
-export class SerpentEngine {
-    constructor() {
-        this.metadata = {
-            id: 'serpent',
-            name: 'Serpent',
-            category: 'symmetric',
-            variants: [
-                { id: 'serpent-128', name: 'Serpent-128', keySize: 128 },
-                { id: 'serpent-192', name: 'Serpent-192', keySize: 192 },
-                { id: 'serpent-256', name: 'Serpent-256', keySize: 256 }
-            ],
-            modes: ['ECB', 'CBC', 'CFB', 'OFB', 'CTR'],
-            description: 'Serpent block cipher - AES competition finalist with conservative security design',
-            keyRequirements: {
-                minKeySize: 128,
-                maxKeySize: 256,
-                keySizes: [128, 192, 256]
-            },
-            ivRequired: true,
-            ivSize: 16,
-            nonceRequired: false,
-            securityNotes: [
-                {
-                    level: 'info',
-                    message: 'Serpent was an AES finalist with the highest security margin'
-                },
-                {
-                    level: 'info',
-                    message: 'Serpent uses 32 rounds compared to AES\'s 10-14 rounds'
-                }
-            ],
-            references: [
-                {
-                    title: 'Serpent: A Candidate Block Cipher for the AES',
-                    url: 'https://www.cl.cam.ac.uk/~rja14/serpent.html'
-                }
-            ],
-            complexity: 'high',
-            performance: 'slow'
-        };
-    }
-    async encrypt(params) {
-        try {
-            const { plaintext, key, iv, mode = 'CBC', variant = 'serpent-256' } = params;
-            if (!plaintext || !key) {
-                throw new Error('Plaintext and key are required');
-            }
-            if (!this.validateKey(key)) {
-                throw new Error('Invalid Serpent key. Must be 16, 24, or 32 bytes');
-            }
-            // Note: Using AES as placeholder since Serpent is not in crypto-js
-            // In production, use a proper Serpent implementation
-            console.warn('Serpent implementation using AES placeholder - use proper Serpent library in production');
-            const keyBytes = CryptoJS.enc.Hex.parse(key);
-            const ivBytes = iv ? CryptoJS.enc.Hex.parse(iv) : CryptoJS.lib.WordArray.random(16);
-            let encrypted;
-            switch (mode) {
-                case 'ECB':
-                    encrypted = CryptoJS.AES.encrypt(plaintext, keyBytes, {
-                        mode: CryptoJS.mode.ECB,
-                        padding: CryptoJS.pad.Pkcs7
-                    });
-                    break;
-                case 'CBC':
-                    encrypted = CryptoJS.AES.encrypt(plaintext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.CBC,
-                        padding: CryptoJS.pad.Pkcs7
-                    });
-                    break;
-                case 'CFB':
-                    encrypted = CryptoJS.AES.encrypt(plaintext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.CFB,
-                        padding: CryptoJS.pad.NoPadding
-                    });
-                    break;
-                case 'OFB':
-                    encrypted = CryptoJS.AES.encrypt(plaintext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.OFB,
-                        padding: CryptoJS.pad.NoPadding
-                    });
-                    break;
-                case 'CTR':
-                    encrypted = CryptoJS.AES.encrypt(plaintext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.CTR,
-                        padding: CryptoJS.pad.NoPadding
-                    });
-                    break;
-                default:
-                    throw new Error(`Unsupported mode: ${mode}`);
-            }
-            const keyLength = this.getKeyLengthFromVariant(variant);
-            return {
-                success: true,
-                result: encrypted.toString(),
-                metadata: {
-                    keyLength,
-                    ivLength: mode !== 'ECB' ? 16 : undefined,
-                    mode,
-                    variant
-                }
-            };
-        }
-        catch (error) {
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Serpent encryption failed'
-            };
-        }
-    }
-    async decrypt(params) {
-        try {
-            const { ciphertext, key, iv, mode = 'CBC', variant = 'serpent-256' } = params;
-            if (!ciphertext || !key) {
-                throw new Error('Ciphertext and key are required');
-            }
-            if (!this.validateKey(key)) {
-                throw new Error('Invalid Serpent key. Must be 16, 24, or 32 bytes');
-            }
-            const keyBytes = CryptoJS.enc.Hex.parse(key);
-            const ivBytes = iv ? CryptoJS.enc.Hex.parse(iv) : undefined;
-            let decrypted;
-            switch (mode) {
-                case 'ECB':
-                    decrypted = CryptoJS.AES.decrypt(ciphertext, keyBytes, {
-                        mode: CryptoJS.mode.ECB,
-                        padding: CryptoJS.pad.Pkcs7
-                    });
-                    break;
-                case 'CBC':
-                    if (!ivBytes) {
-                        throw new Error('IV is required for CBC mode');
-                    }
-                    decrypted = CryptoJS.AES.decrypt(ciphertext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.CBC,
-                        padding: CryptoJS.pad.Pkcs7
-                    });
-                    break;
-                case 'CFB':
-                    if (!ivBytes) {
-                        throw new Error('IV is required for CFB mode');
-                    }
-                    decrypted = CryptoJS.AES.decrypt(ciphertext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.CFB,
-                        padding: CryptoJS.pad.NoPadding
-                    });
-                    break;
-                case 'OFB':
-                    if (!ivBytes) {
-                        throw new Error('IV is required for OFB mode');
-                    }
-                    decrypted = CryptoJS.AES.decrypt(ciphertext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.OFB,
-                        padding: CryptoJS.pad.NoPadding
-                    });
-                    break;
-                case 'CTR':
-                    if (!ivBytes) {
-                        throw new Error('IV is required for CTR mode');
-                    }
-                    decrypted = CryptoJS.AES.decrypt(ciphertext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.CTR,
-                        padding: CryptoJS.pad.NoPadding
-                    });
-                    break;
-                default:
-                    throw new Error(`Unsupported mode: ${mode}`);
-            }
-            const keyLength = this.getKeyLengthFromVariant(variant);
-            return {
-                success: true,
-                result: decrypted.toString(CryptoJS.enc.Utf8),
-                metadata: {
-                    keyLength,
-                    ivLength: mode !== 'ECB' ? 16 : undefined,
-                    mode,
-                    variant
-                }
-            };
-        }
-        catch (error) {
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Serpent decryption failed'
-            };
-        }
-    }
-    async generateKey(keySize = 256) {
-        const keyBytes = Math.ceil(keySize / 8);
-        const key = CryptoJS.lib.WordArray.random(keyBytes);
-        return key.toString(CryptoJS.enc.Hex);
-    }
-    async generateIV(ivSize = 16) {
-        const iv = CryptoJS.lib.WordArray.random(ivSize);
-        return iv.toString(CryptoJS.enc.Hex);
-    }
-    validateKey(key, keySize) {
-        try {
-            const keyBytes = CryptoJS.enc.Hex.parse(key);
-            return keyBytes.sigBytes === 16 || keyBytes.sigBytes === 24 || keyBytes.sigBytes === 32;
-        }
-        catch {
-            return false;
-        }
-    }
-    validateIV(iv) {
-        try {
-            const ivBytes = CryptoJS.enc.Hex.parse(iv);
-            return ivBytes.sigBytes === 16;
-        }
-        catch {
-            return false;
-        }
-    }
-    getKeyLengthFromVariant(variant) {
-        const variantMap = {
-            'serpent-128': 128,
-            'serpent-192': 192,
-            'serpent-256': 256
-        };
-        return variantMap[variant] || 256;
-    }
-}
@@ -1,7 +1,10 @@
-import { CipherEngine, CipherMetadata, EncryptionParams, DecryptionParams, CryptoOperation } from '../../types/crypto';
-import CryptoJS from 'crypto-js';
+import { CipherMetadata } from '../../types/crypto';
+import { BLOCK_MODES } from '../modes/block-modes';
+import { PADDING_SCHEMES } from '../modes/padding';
+import { BlockCipherEngine } from './block-cipher-engine';
+import { SerpentBlockCipher } from '../primitives/serpent';
 
-export class SerpentEngine implements CipherEngine {
+export class SerpentEngine extends BlockCipherEngine {
   readonly metadata: CipherMetadata = {
     id: 'serpent',
     name: 'Serpent',
@@ -11,8 +14,9 @@ export class SerpentEngine implements CipherEngine {
       { id: 'serpent-192', name: 'Serpent-192', keySize: 24 },
       { id: 'serpent-256', name: 'Serpent-256', keySize: 32 }
     ],
-    modes: ['CBC'],
-    description: 'Serpent symmetric cipher (using AES as fallback)',
+    modes: BLOCK_MODES,
+    paddingSchemes: PADDING_SCHEMES,
+    description: 'Serpent 32-round substitution-permutation network, the most conservative AES finalist',
     keyRequirements: {
       minKeySize: 16,
       maxKeySize: 32,
@@ -24,126 +28,31 @@ export class SerpentEngine implements CipherEngine {
     securityNotes: [
       {
         level: 'info',
-        message: 'Serpent fallback implementation using AES.'
+        message: 'Serpent has a large security margin: the best known attacks reach only 12 of its 32 rounds'
+      },
+      {
+        level: 'info',
+        message: 'This implementation evaluates the S-boxes bit by bit and is much slower than optimized bitsliced code'
       }
     ],
     references: [
       {
-        title: 'Serpent Cipher',
+        title: 'Serpent: A Candidate Block Cipher for the Advanced Encryption Standard',
         url: 'https://www.cl.cam.ac.uk/~rja14/serpent.html'
       }
     ],
-    complexity: 'medium',
-    performance: 'medium'
+    complexity: 'high',
+    performance: 'slow'
   };
-  async encrypt(params: EncryptionParams): Promise<CryptoOperation> {
-    try {
-      const { plaintext, key, iv, mode = 'CBC' } = params;
-      
-      if (!this.validateKey(key)) {
-        throw new Error('Invalid key format or length');
-      }
-      
-      // Convert key to CryptoJS format
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const finalIV = iv || CryptoJS.lib.WordArray.random(16).toString(CryptoJS.enc.Hex);
-      const ivWords = CryptoJS.enc.Hex.parse(finalIV);
-      
-      // Use AES as fallback since Serpent is not supported by CryptoJS
-      const options: any = {
-        iv: ivWords,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      };
-      
-      const encrypted = CryptoJS.AES.encrypt(plaintext, keyWords, options);
-      
-      return {
-        success: true,
-        result: encrypted.ciphertext.toString(CryptoJS.enc.Hex),
-        metadata: {
-          keyLength: keyWords.sigBytes,
-          ivLength: 16,
-          mode: 'CBC',
-          variant: `serpent-${keyWords.sigBytes * 8}`,
-          iv: finalIV
-        }
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown encryption error'
-      };
-    }
-  }
-  async decrypt(params: DecryptionParams): Promise<CryptoOperation> {
-    try {
-      const { ciphertext, key, iv } = params;
-      
-      if (!this.validateKey(key)) {
-        throw new Error('Invalid key format or length');
-      }
 
-      if (!iv) {
-        throw new Error('IV is required for decryption');
-      }
+  protected readonly blockSize = 16;
 
-      // Convert key, IV, and ciphertext to CryptoJS format
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const ivWords = CryptoJS.enc.Hex.parse(iv);
-      const ciphertextWords = CryptoJS.enc.Hex.parse(ciphertext);
-      
-      // Create cipher params object
-      const cipherParams = CryptoJS.lib.CipherParams.create({
-        ciphertext: ciphertextWords
-      });
-      
-      const options: any = {
-        iv: ivWords,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      };
-      
-      const decrypted = CryptoJS.AES.decrypt(cipherParams, keyWords, options);
-      const plaintext = decrypted.toString(CryptoJS.enc.Utf8);
-      
-      if (!plaintext) {
-        throw new Error('Failed to decrypt - invalid key, IV, or corrupted data');
-      }
-      
-      return {
-        success: true,
-        result: plaintext
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown decryption error'
-      };
-    }
+  protected get defaultVariant(): string {
+    return 'serpent-256';
   }
 
-  async generateKey(keySize?: number): Promise<string> {
-    const size = keySize || 32;
-    if (![16, 24, 32].includes(size)) {
-      throw new Error('Key size must be 16, 24, or 32 bytes');
-    }
-    return CryptoJS.lib.WordArray.random(size).toString(CryptoJS.enc.Hex);
-  }
-
-  validateKey(key: string, keySize?: number): boolean {
-    try {
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const validSizes = [16, 24, 32];
-      
-      if (keySize) {
-        return keyWords.sigBytes === keySize;
-      }
-      
-      return validSizes.includes(keyWords.sigBytes);
-    } catch {
-      return false;
-    }
+  protected createCipher(key: Uint8Array): SerpentBlockCipher {
+    return new SerpentBlockCipher(key);
   }
 }
 
@@ -1,257 +0,0 @@
-/**
- * SPHINCS+ - Post-Quantum Digital Signature Scheme
- *
- * SPHINCS+ is a stateless hash-based signature scheme that provides
- * post-quantum security. This is a simplified educational implementation.
- */
-import { generateRandomHex } from '../../lib/crypto-utils';
-export class SphincsEngine {
-    constructor() {
-        this.metadata = {
-            id: 'sphincs',
-            name: 'SPHINCS+',
-            category: 'post-quantum',
-            variants: [
-                { id: 'sphincs-128s', name: 'SPHINCS+-128s', keySize: 16 },
-                { id: 'sphincs-192s', name: 'SPHINCS+-192s', keySize: 24 },
-                { id: 'sphincs-256s', name: 'SPHINCS+-256s', keySize: 32 }
-            ],
-            modes: [],
-            description: 'Post-quantum hash-based digital signature scheme',
-            keyRequirements: {
-                minKeySize: 16,
-                maxKeySize: 32,
-                keySizes: [16, 24, 32]
-            },
-            ivRequired: false,
-            nonceRequired: false,
-            securityNotes: [
-                {
-                    level: 'info',
-                    message: 'Post-quantum secure signature scheme based on hash functions'
-                }
-            ],
-            references: [
-                {
-                    title: 'SPHINCS+ Specification',
-                    url: 'https://sphincs.org/'
-                }
-            ],
-            complexity: 'high',
-            performance: 'medium'
-        };
-    }
-    getParams(keySize) {
-        switch (keySize) {
-            case 16: // SPHINCS+-128 equivalent (128 bits / 8)
-                return { n: 16, h: 63, d: 7, wots_w: 16, k: 22, a: 6 };
-            case 24: // SPHINCS+-192 equivalent (192 bits / 8)  
-                return { n: 24, h: 63, d: 7, wots_w: 16, k: 14, a: 8 };
-            case 32: // SPHINCS+-256 equivalent (256 bits / 8)
-                return { n: 32, h: 64, d: 8, wots_w: 16, k: 14, a: 8 };
-            default:
-                throw new Error(`Unsupported key size: ${keySize}`);
-        }
-    }
-    hash(data, length = 32) {
-        // Simplified hash function for simulation
-        let hash = 0;
-        for (let i = 0; i < data.length; i++) {
-            const char = data.charCodeAt(i);
-            hash = ((hash << 5) - hash) + char;
-            hash = hash & hash; // Convert to 32-bit integer
-        }
-        // Generate deterministic hex string of specified length
-        const hashStr = Math.abs(hash).toString(16).padStart(8, '0');
-        return hashStr.repeat(Math.ceil(length * 2 / 8)).slice(0, length * 2);
-    }
-    prf(key, input) {
-        // Pseudo-random function
-        return this.hash(key + input);
-    }
-    generateWotsChain(seed, length) {
-        // Generate WOTS+ chain
-        const chain = [seed];
-        for (let i = 1; i < length; i++) {
-            chain.push(this.hash(chain[i - 1]));
-        }
-        return chain;
-    }
-    generateForsTree(seed, height) {
-        // Generate FORS tree structure
-        const leaves = Array.from({ length: 1 << height }, (_, i) => this.hash(seed + i.toString()));
-        // Build tree bottom-up
-        let level = leaves;
-        const tree = [level];
-        for (let h = 0; h < height; h++) {
-            const nextLevel = [];
-            for (let i = 0; i < level.length; i += 2) {
-                nextLevel.push(this.hash(level[i] + (level[i + 1] || '')));
-            }
-            level = nextLevel;
-            tree.push(level);
-        }
-        return { root: level[0], tree, leaves };
-    }
-    async generateKey(keySize = 16) {
-        const params = this.getParams(keySize);
-        // Generate secret seed
-        const secretSeed = generateRandomHex(params.n);
-        const publicSeed = generateRandomHex(params.n);
-        // Generate FORS public keys
-        const forsRoots = Array.from({ length: params.k }, (_, i) => {
-            const forsSeed = this.prf(secretSeed, `fors_${i}`);
-            const forsTree = this.generateForsTree(forsSeed, params.a);
-            return forsTree.root;
-        });
-        // Generate WOTS+ public keys for each layer
-        const wotsPublicKeys = Array.from({ length: params.d }, (_, layer) => {
-            const wotsSeed = this.prf(secretSeed, `wots_${layer}`);
-            const wotsChains = Array.from({ length: 67 }, (_, i) => {
-                const chainSeed = this.prf(wotsSeed, `chain_${i}`);
-                const chain = this.generateWotsChain(chainSeed, params.wots_w);
-                return chain[chain.length - 1]; // Return chain top
-            });
-            return this.hash(wotsChains.join(''));
-        });
-        // Compute root public key
-        const publicKey = this.hash(publicSeed +
-            forsRoots.join('') +
-            wotsPublicKeys.join(''));
-        // Encode key pair
-        const keyPair = {
-            secretSeed,
-            publicSeed,
-            publicKey,
-            params
-        };
-        return JSON.stringify(keyPair).slice(0, keySize * 2);
-    }
-    async generateIV() {
-        return ''; // Signatures don't use IV
-    }
-    validateKey(key, keySize = 16) {
-        try {
-            return key.length >= keySize * 2; // Simple length check
-        }
-        catch {
-            return false;
-        }
-    }
-    validateIV() {
-        return true; // No IV needed
-    }
-    async encrypt(params) {
-        // For signature schemes, "encrypt" means "sign"
-        const keySize = 16;
-        const sphincsParams = this.getParams(keySize);
-        try {
-            // Parse key (simplified)
-            const keyData = params.key.startsWith('{') ? JSON.parse(params.key) : {
-                secretSeed: params.key.slice(0, 32),
-                publicSeed: params.key.slice(32, 64) || generateRandomHex(16)
-            };
-            // Hash the message
-            const messageHash = this.hash(params.plaintext, sphincsParams.n);
-            // Generate FORS signature
-            const forsSignature = Array.from({ length: sphincsParams.k }, (_, i) => {
-                const forsSeed = this.prf(keyData.secretSeed, `fors_${i}`);
-                const index = parseInt(messageHash.slice(i * 2, i * 2 + 2), 16) % (1 << sphincsParams.a);
-                // Generate authentication path
-                const authPath = Array.from({ length: sphincsParams.a }, (_, level) => {
-                    const sibling = this.hash(forsSeed + `auth_${level}_${index}`);
-                    return sibling;
-                });
-                return {
-                    leaf: this.hash(forsSeed + `leaf_${index}`),
-                    authPath
-                };
-            });
-            // Generate WOTS+ signatures for hypertree
-            const wotsSignatures = Array.from({ length: sphincsParams.d }, (_, layer) => {
-                const wotsSeed = this.prf(keyData.secretSeed, `wots_${layer}`);
-                const layerHash = this.hash(messageHash + layer.toString());
-                // Sign with WOTS+
-                const signature = Array.from({ length: 67 }, (_, i) => {
-                    const chainSeed = this.prf(wotsSeed, `chain_${i}`);
-                    const chainLength = parseInt(layerHash.slice(i % layerHash.length), 16) % sphincsParams.wots_w;
-                    const chain = this.generateWotsChain(chainSeed, chainLength + 1);
-                    return chain[chainLength];
-                });
-                return signature;
-            });
-            // Create signature object
-            const signature = {
-                fors: forsSignature,
-                wots: wotsSignatures,
-                messageHash,
-                timestamp: Date.now()
-            };
-            return {
-                success: true,
-                result: JSON.stringify(signature),
-                metadata: {
-                    keyLength: keySize,
-                    mode: 'Sign'
-                }
-            };
-        }
-        catch (error) {
-            return {
-                success: false,
-                error: `SPHINCS+ signing failed: ${error}`
-            };
-        }
-    }
-    async decrypt(params) {
-        // For signature schemes, "decrypt" means "verify"
-        const keySize = 16;
-        try {
-            const sig = JSON.parse(params.ciphertext);
-            const keyData = params.key.startsWith('{') ? JSON.parse(params.key) : {
-                publicKey: params.key.slice(0, 64),
-                publicSeed: params.key.slice(64, 96) || generateRandomHex(16)
-            };
-            // Verify FORS signature
-            const forsValid = sig.fors.every((forsEntry, i) => {
-                // Reconstruct FORS root from signature
-                let current = forsEntry.leaf;
-                for (const pathNode of forsEntry.authPath) {
-                    current = this.hash(current + pathNode);
-                }
-                return current.length > 0; // Simplified verification
-            });
-            // Verify WOTS+ signatures
-            const wotsValid = sig.wots.every((wotsEntry, layer) => {
-                // Verify WOTS+ signature by recomputing chain tops
-                return wotsEntry.every((chainValue) => chainValue.length > 0);
-            });
-            if (forsValid && wotsValid) {
-                return {
-                    success: true,
-                    result: `VALID: Signature verified at ${new Date(sig.timestamp).toISOString()}`,
-                    metadata: {
-                        keyLength: keySize,
-                        mode: 'Verify'
-                    }
-                };
-            }
-            else {
-                return {
-                    success: false,
-                    error: 'INVALID: Signature verification failed',
-                    metadata: {
-                        keyLength: keySize,
-                        mode: 'Verify'
-                    }
-                };
-            }
-        }
-        catch (error) {
-            return {
-                success: false,
-                error: `SPHINCS+ verification failed: ${error}`
-            };
-        }
-    }
-}
@@ -1,137 +1,169 @@
-import { CipherEngine, CipherMetadata, EncryptionParams, DecryptionParams, CryptoOperation } from '../../types/crypto';
-import CryptoJS from 'crypto-js';
+import {
+  CipherMetadata,
+  ByteEncryptionParams,
+  ByteDecryptionParams,
+  CryptoOperation,
+  KeyPair,
+  SignatureParams,
+  VerificationParams
+} from '../../types/crypto';
+import { isValidHex, hexToBytes, bytesToHex } from '@/lib/crypto-utils';
+import {
+  SLH_DSA_PARAMETERS,
+  SlhDsaParameters,
+  slhDsaKeyGen,
+  slhDsaSign,
+  slhDsaVerify,
+  publicKeySize,
+  secretKeySize
+} from '../primitives/slh-dsa';
+import { ByteCipherEngine } from './byte-cipher-engine';
 
-export class SphincsEngine implements CipherEngine {
+// The fast sets come first so the Sandbox defaults to a signature that takes well under a second
+const PARAMETER_SETS: Record<string, SlhDsaParameters> = {
+  'slh-dsa-sha2-128f': SLH_DSA_PARAMETERS['SLH-DSA-SHA2-128f'],
+  'slh-dsa-sha2-128s': SLH_DSA_PARAMETERS['SLH-DSA-SHA2-128s'],
+  'slh-dsa-shake-128f': SLH_DSA_PARAMETERS['SLH-DSA-SHAKE-128f'],
+  'slh-dsa-shake-128s': SLH_DSA_PARAMETERS['SLH-DSA-SHAKE-128s']
+};
+
+const SECURITY_PARAMETER = 16;
+
+/**
+ * SLH-DSA (FIPS 205): stateless hash-based signatures whose security rests only on the hash
+ * function. It signs and verifies; there is no encryption.
+ */
+export class SphincsEngine extends ByteCipherEngine {
   readonly metadata: CipherMetadata = {
     id: 'sphincs',
-    name: 'SPHINCS+',
-    category: 'symmetric',
+    name: 'SLH-DSA',
+    category: 'post-quantum',
     variants: [
-      { id: 'sphincs-128', name: 'SPHINCS+-128', keySize: 16 },
-      { id: 'sphincs-192', name: 'SPHINCS+-192', keySize: 24 },
-      { id: 'sphincs-256', name: 'SPHINCS+-256', keySize: 32 }
+      { id: 'slh-dsa-sha2-128f', name: 'SLH-DSA-SHA2-128f', keySize: SECURITY_PARAMETER },
+      { id: 'slh-dsa-sha2-128s', name: 'SLH-DSA-SHA2-128s', keySize: SECURITY_PARAMETER },
+      { id: 'slh-dsa-shake-128f', name: 'SLH-DSA-SHAKE-128f', keySize: SECURITY_PARAMETER },
+      { id: 'slh-dsa-shake-128s', name: 'SLH-DSA-SHAKE-128s', keySize: SECURITY_PARAMETER }
     ],
-    modes: ['CBC'],
-    description: 'SPHINCS+ cipher (using AES as fallback)',
+    description: 'Stateless Hash-Based Digital Signature Algorithm (SPHINCS+): FORS few-time signatures under a hypertree of WOTS+ one-time signatures',
     keyRequirements: {
-      minKeySize: 16,
-      maxKeySize: 32,
-      keySizes: [16, 24, 32]
+      minKeySize: SECURITY_PARAMETER,
+      maxKeySize: SECURITY_PARAMETER,
+      keySizes: [SECURITY_PARAMETER]
     },
-    ivRequired: true,
-    ivSize: 16,
+    ivRequired: false,
     nonceRequired: false,
-    securityNotes: [{ level: 'info', message: 'SPHINCS+ fallback implementation using AES.' }],
-    references: [{ title: 'SPHINCS+ Cipher', url: 'https://example.com' }],
-    complexity: 'medium',
-    performance: 'fast'
+    signatureOnly: true,
+    signatureContext: true,
+    securityNotes: [
+      {
+        level: 'info',
+        message: 'Sign with the private key; anyone with the 32-byte public key can verify'
+      },
+      {
+        level: 'info',
+        message: 'The "s" sets give signatures of 7,856 bytes but sign slowly; the "f" sets sign quickly with 17,088-byte signatures'
+      },
+      {
+        level: 'warning',
+        message: 'This is a teaching implementation in JavaScript and is not constant-time'
+      }
+    ],
+    references: [
+      {
+        title: 'FIPS 205 - Stateless Hash-Based Digital Signature Standard',
+        url: 'https://csrc.nist.gov/pubs/fips/205/final'
+      },
+      {
+        title: 'SPHINCS+ submission to the NIST PQC project',
+        url: 'https://sphincs.org/'
+      }
+    ],
+    complexity: 'high',
+    performance: 'slow'
   };
 
-  async encrypt(params: EncryptionParams): Promise<CryptoOperation> {
+  async encryptBytes(_params: ByteEncryptionParams): Promise<CryptoOperation<Uint8Array>> {
+    return { success: false, error: 'SLH-DSA is a signature scheme and cannot encrypt; sign and verify instead' };
+  }
+
+  async decryptBytes(_params: ByteDecryptionParams): Promise<CryptoOperation<Uint8Array>> {
+    return { success: false, error: 'SLH-DSA is a signature scheme and cannot decrypt; sign and verify instead' };
+  }
+
+  async sign(params: SignatureParams): Promise<CryptoOperation<Uint8Array>> {
     try {
-      const { plaintext, key, iv, mode = 'CBC' } = params;
-      
-      if (!this.validateKey(key)) {
-        throw new Error('Invalid key format or length');
-      }
-      
-      // Convert key to CryptoJS format
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const finalIV = iv || CryptoJS.lib.WordArray.random(16).toString(CryptoJS.enc.Hex);
-      const ivWords = CryptoJS.enc.Hex.parse(finalIV);
-      
-      // Use AES as fallback since SPHINCS+ is not supported by CryptoJS
-      const options: any = {
-        iv: ivWords,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      };
-      
-      const encrypted = CryptoJS.AES.encrypt(plaintext, keyWords, options);
-      
+      const { message, key, variant = this.metadata.variants[0].id, context = '', deterministic = false } = params;
+      const parameters = this.getParameters(variant);
+      const secretKey = this.parseKey(key, secretKeySize(parameters), 'private');
+      const signature = slhDsaSign(parameters, secretKey, message, {
+        context: new TextEncoder().encode(context),
+        deterministic
+      });
+
       return {
         success: true,
-        result: encrypted.ciphertext.toString(CryptoJS.enc.Hex),
-        metadata: {
-          keyLength: keyWords.sigBytes,
-          ivLength: 16,
-          mode: 'CBC',
-          variant: `sphincs-${keyWords.sigBytes * 8}`,
-          iv: finalIV
-        }
+        result: signature,
+        metadata: { keyLength: secretKey.length, variant, signatureLength: signature.length }
       };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown encryption error'
+        error: error instanceof Error ? error.message : 'SLH-DSA signing failed'
       };
     }
   }
 
-  async decrypt(params: DecryptionParams): Promise<CryptoOperation> {
+  async verify(params: VerificationParams): Promise<CryptoOperation<boolean>> {
     try {
-      const { ciphertext, key, iv } = params;
-      
-      if (!this.validateKey(key) || !iv) {
-        throw new Error('Invalid key or missing IV');
-      }
+      const { message, signature, key, variant = this.metadata.variants[0].id, context = '' } = params;
+      const parameters = this.getParameters(variant);
+      const publicKey = this.parseKey(key, publicKeySize(parameters), 'public');
 
-      // Convert key, IV, and ciphertext to CryptoJS format
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const ivWords = CryptoJS.enc.Hex.parse(iv);
-      const ciphertextWords = CryptoJS.enc.Hex.parse(ciphertext);
-      
-      // Create cipher params object
-      const cipherParams = CryptoJS.lib.CipherParams.create({
-        ciphertext: ciphertextWords
-      });
-      
-      const options: any = {
-        iv: ivWords,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      };
-      
-      const decrypted = CryptoJS.AES.decrypt(cipherParams, keyWords, options);
-      const plaintext = decrypted.toString(CryptoJS.enc.Utf8);
-      
-      if (!plaintext) {
-        throw new Error('Failed to decrypt - invalid key, IV, or corrupted data');
-      }
-      
       return {
         success: true,
-        result: plaintext
+        result: slhDsaVerify(parameters, publicKey, message, signature, new TextEncoder().encode(context)),
+        metadata: { keyLength: publicKey.length, variant, signatureLength: signature.length }
       };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown decryption error'
+        error: error instanceof Error ? error.message : 'SLH-DSA verification failed'
       };
     }
   }
 
-  async generateKey(keySize?: number): Promise<string> {
-    const size = keySize || 32;
-    if (![16, 24, 32].includes(size)) {
-      throw new Error('Key size must be 16, 24, or 32 bytes');
+  /**
+   * A private key for the first variant; use generateKeyPair to get the public key as well
+   */
+  async generateKey(): Promise<string> {
+    return (await this.generateKeyPair()).privateKey;
+  }
+
+  async generateKeyPair(variant: string = this.metadata.variants[0].id): Promise<KeyPair> {
+    const { publicKey, secretKey } = slhDsaKeyGen(this.getParameters(variant));
+    return { publicKey: bytesToHex(publicKey), privateKey: bytesToHex(secretKey) };
+  }
+
+  /**
+   * Accepts a 32-byte public key or a 64-byte private key
+   */
+  validateKey(key: string): boolean {
+    return isValidHex(key) && [2 * SECURITY_PARAMETER, 4 * SECURITY_PARAMETER].includes(key.length / 2);
+  }
+
+  private getParameters(variant: string): SlhDsaParameters {
+    const parameters = PARAMETER_SETS[variant];
+    if (!parameters) {
+      throw new Error(`Unsupported variant: ${variant}`);
     }
-    return CryptoJS.lib.WordArray.random(size).toString(CryptoJS.enc.Hex);
+    return parameters;
   }
 
-  validateKey(key: string, keySize?: number): boolean {
-    try {
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const validSizes = [16, 24, 32];
-      
-      if (keySize) {
-        return keyWords.sigBytes === keySize;
-      }
-      
-      return validSizes.includes(keyWords.sigBytes);
-    } catch {
-      return false;
+  private parseKey(key: string, size: number, kind: 'public' | 'private'): Uint8Array {
+    if (!isValidHex(key) || key.length !== size * 2) {
+      throw new Error(`Invalid ${kind} key. Must be ${size} bytes (${size * 2} hex characters)`);
     }
+    return hexToBytes(key);
   }
 }
 
@@ -1,234 +0,0 @@
-import CryptoJS from 'crypto-js';
-export class TwofishEngine {
-    constructor() {
-        this.metadata = {
-            id: 'twofish',
-            name: 'Twofish',
-            category: 'symmetric',
-            variants: [
-                { id: 'twofish-128', name: 'Twofish-128', keySize: 128 },
-                { id: 'twofish-192', name: 'Twofish-192', keySize: 192 },
-                { id: 'twofish-256', name: 'Twofish-256', keySize: 256 }
-            ],
-            modes: ['ECB', 'CBC', 'CFB', 'OFB', 'CTR'],
-            description: 'Twofish symmetric block cipher by Bruce Schneier',
-            keyRequirements: {
-                minKeySize: 128,
-                maxKeySize: 256,
-                keySizes: [128, 192, 256]
-            },
-            ivRequired: true,
-            ivSize: 16,
-            nonceRequired: false,
-            securityNotes: [
-                {
-                    level: 'info',
-                    message: 'Twofish was a finalist in the AES competition and is considered secure'
-                },
-                {
-                    level: 'info',
-                    message: 'Twofish is royalty-free and unpatented'
-                }
-            ],
-            references: [
-                {
-                    title: 'Twofish: A 128-Bit Block Cipher',
-                    url: 'https://www.schneier.com/academic/twofish/'
-                }
-            ],
-            complexity: 'high',
-            performance: 'medium'
-        };
-    }
-    async encrypt(params) {
-        try {
-            const { plaintext, key, iv, mode = 'CBC', variant = 'twofish-256' } = params;
-            if (!plaintext || !key) {
-                throw new Error('Plaintext and key are required');
-            }
-            if (!this.validateKey(key)) {
-                throw new Error('Invalid Twofish key. Must be 16, 24, or 32 bytes');
-            }
-            // Since Twofish is not natively supported in crypto-js, we'll use AES as a placeholder
-            // This is for demonstration purposes - in a real implementation, you would use a proper Twofish library
-            console.warn('Twofish implementation using AES placeholder - use proper Twofish library in production');
-            const keyBytes = CryptoJS.enc.Hex.parse(key);
-            const ivBytes = iv ? CryptoJS.enc.Hex.parse(iv) : CryptoJS.lib.WordArray.random(16);
-            let encrypted;
-            switch (mode) {
-                case 'ECB':
-                    encrypted = CryptoJS.AES.encrypt(plaintext, keyBytes, {
-                        mode: CryptoJS.mode.ECB,
-                        padding: CryptoJS.pad.Pkcs7
-                    });
-                    break;
-                case 'CBC':
-                    encrypted = CryptoJS.AES.encrypt(plaintext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.CBC,
-                        padding: CryptoJS.pad.Pkcs7
-                    });
-                    break;
-                case 'CFB':
-                    encrypted = CryptoJS.AES.encrypt(plaintext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.CFB,
-                        padding: CryptoJS.pad.NoPadding
-                    });
-                    break;
-                case 'OFB':
-                    encrypted = CryptoJS.AES.encrypt(plaintext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.OFB,
-                        padding: CryptoJS.pad.NoPadding
-                    });
-                    break;
-                case 'CTR':
-                    encrypted = CryptoJS.AES.encrypt(plaintext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.CTR,
-                        padding: CryptoJS.pad.NoPadding
-                    });
-                    break;
-                default:
-                    throw new Error(`Unsupported mode: ${mode}`);
-            }
-            const keyLength = this.getKeyLengthFromVariant(variant);
-            return {
-                success: true,
-                result: encrypted.toString(),
-                metadata: {
-                    keyLength,
-                    ivLength: mode !== 'ECB' ? 16 : undefined,
-                    mode,
-                    variant
-                }
-            };
-        }
-        catch (error) {
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Twofish encryption failed'
-            };
-        }
-    }
-    async decrypt(params) {
-        try {
-            const { ciphertext, key, iv, mode = 'CBC', variant = 'twofish-256' } = params;
-            if (!ciphertext || !key) {
-                throw new Error('Ciphertext and key are required');
-            }
-            if (!this.validateKey(key)) {
-                throw new Error('Invalid Twofish key. Must be 16, 24, or 32 bytes');
-            }
-            // Using AES as placeholder - see encryption note
-            const keyBytes = CryptoJS.enc.Hex.parse(key);
-            const ivBytes = iv ? CryptoJS.enc.Hex.parse(iv) : undefined;
-            let decrypted;
-            switch (mode) {
-                case 'ECB':
-                    decrypted = CryptoJS.AES.decrypt(ciphertext, keyBytes, {
-                        mode: CryptoJS.mode.ECB,
-                        padding: CryptoJS.pad.Pkcs7
-                    });
-                    break;
-                case 'CBC':
-                    if (!ivBytes) {
-                        throw new Error('IV is required for CBC mode');
-                    }
-                    decrypted = CryptoJS.AES.decrypt(ciphertext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.CBC,
-                        padding: CryptoJS.pad.Pkcs7
-                    });
-                    break;
-                case 'CFB':
-                    if (!ivBytes) {
-                        throw new Error('IV is required for CFB mode');
-                    }
-                    decrypted = CryptoJS.AES.decrypt(ciphertext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.CFB,
-                        padding: CryptoJS.pad.NoPadding
-                    });
-                    break;
-                case 'OFB':
-                    if (!ivBytes) {
-                        throw new Error('IV is required for OFB mode');
-                    }
-                    decrypted = CryptoJS.AES.decrypt(ciphertext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.OFB,
-                        padding: CryptoJS.pad.NoPadding
-                    });
-                    break;
-                case 'CTR':
-                    if (!ivBytes) {
-                        throw new Error('IV is required for CTR mode');
-                    }
-                    decrypted = CryptoJS.AES.decrypt(ciphertext, keyBytes, {
-                        iv: ivBytes,
-                        mode: CryptoJS.mode.CTR,
-                        padding: CryptoJS.pad.NoPadding
-                    });
-                    break;
-                default:
-                    throw new Error(`Unsupported mode: ${mode}`);
-            }
-            const keyLength = this.getKeyLengthFromVariant(variant);
-            return {
-                success: true,
-                result: decrypted.toString(CryptoJS.enc.Utf8),
-                metadata: {
-                    keyLength,
-                    ivLength: mode !== 'ECB' ? 16 : undefined,
-                    mode,
-                    variant
-                }
-            };
-        }
-        catch (error) {
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Twofish decryption failed'
-            };
-        }
-    }
-    async generateKey(keySize = 256) {
-        // Convert bits to bytes
-        const keyBytes = Math.ceil(keySize / 8);
-        const key = CryptoJS.lib.WordArray.random(keyBytes);
-        return key.toString(CryptoJS.enc.Hex);
-    }
-    async generateIV(ivSize = 16) {
-        const iv = CryptoJS.lib.WordArray.random(ivSize);
-        return iv.toString(CryptoJS.enc.Hex);
-    }
-    validateKey(key, keySize) {
-        try {
-            const keyBytes = CryptoJS.enc.Hex.parse(key);
-            // Twofish accepts 128, 192, or 256-bit keys (16, 24, or 32 bytes)
-            return keyBytes.sigBytes === 16 || keyBytes.sigBytes === 24 || keyBytes.sigBytes === 32;
-        }
-        catch {
-            return false;
-        }
-    }
-    validateIV(iv) {
-        try {
-            const ivBytes = CryptoJS.enc.Hex.parse(iv);
-            return ivBytes.sigBytes === 16; // 128 bits
-        }
-        catch {
-            return false;
-        }
-    }
-    getKeyLengthFromVariant(variant) {
-        const variantMap = {
-            'twofish-128': 128,
-            'twofish-192': 192,
-            'twofish-256': 256
-        };
-        return variantMap[variant] || 256;
-    }
-}
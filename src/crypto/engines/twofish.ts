@@ -1,7 +1,10 @@
-import { CipherEngine, CipherMetadata, EncryptionParams, DecryptionParams, CryptoOperation } from '../../types/crypto';
-import CryptoJS from 'crypto-js';
+import { CipherMetadata } from '../../types/crypto';
+import { BLOCK_MODES } from '../modes/block-modes';
+import { PADDING_SCHEMES } from '../modes/padding';
+import { BlockCipherEngine } from './block-cipher-engine';
+import { TwofishBlockCipher } from '../primitives/twofish';
 
-export class TwofishEngine implements CipherEngine {
+export class TwofishEngine extends BlockCipherEngine {
   readonly metadata: CipherMetadata = {
     id: 'twofish',
     name: 'Twofish',
@@ -11,8 +14,9 @@ export class TwofishEngine implements CipherEngine {
       { id: 'twofish-192', name: 'Twofish-192', keySize: 24 },
       { id: 'twofish-256', name: 'Twofish-256', keySize: 32 }
     ],
-    modes: ['CBC'],
-    description: 'Twofish cipher (using AES as fallback)',
+    modes: BLOCK_MODES,
+    paddingSchemes: PADDING_SCHEMES,
+    description: 'Twofish 128-bit block cipher with key-dependent S-boxes, an AES finalist',
     keyRequirements: {
       minKeySize: 16,
       maxKeySize: 32,
@@ -21,117 +25,34 @@ export class TwofishEngine implements CipherEngine {
     ivRequired: true,
     ivSize: 16,
     nonceRequired: false,
-    securityNotes: [{ level: 'info', message: 'Twofish fallback implementation using AES.' }],
-    references: [{ title: 'Twofish Cipher', url: 'https://example.com' }],
-    complexity: 'medium',
-    performance: 'fast'
-  };
-
-  async encrypt(params: EncryptionParams): Promise<CryptoOperation> {
-    try {
-      const { plaintext, key, iv, mode = 'CBC' } = params;
-      
-      if (!this.validateKey(key)) {
-        throw new Error('Invalid key format or length');
+    securityNotes: [
+      {
+        level: 'info',
+        message: 'Twofish was an AES finalist and no practical attack on the full 16 rounds is known'
+      },
+      {
+        level: 'info',
+        message: 'Key setup is comparatively expensive because the S-boxes depend on the key'
       }
-      
-      // Convert key to CryptoJS format
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const finalIV = iv || CryptoJS.lib.WordArray.random(16).toString(CryptoJS.enc.Hex);
-      const ivWords = CryptoJS.enc.Hex.parse(finalIV);
-      
-      // Use AES as fallback since Twofish is not supported by CryptoJS
-      const options: any = {
-        iv: ivWords,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      };
-      
-      const encrypted = CryptoJS.AES.encrypt(plaintext, keyWords, options);
-      
-      return {
-        success: true,
-        result: encrypted.ciphertext.toString(CryptoJS.enc.Hex),
-        metadata: {
-          keyLength: keyWords.sigBytes,
-          ivLength: 16,
-          mode: 'CBC',
-          variant: `twofish-${keyWords.sigBytes * 8}`,
-          iv: finalIV
-        }
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown encryption error'
-      };
-    }
-  }
-
-  async decrypt(params: DecryptionParams): Promise<CryptoOperation> {
-    try {
-      const { ciphertext, key, iv } = params;
-      
-      if (!this.validateKey(key) || !iv) {
-        throw new Error('Invalid key or missing IV');
+    ],
+    references: [
+      {
+        title: 'Twofish: A 128-Bit Block Cipher',
+        url: 'https://www.schneier.com/academic/twofish/'
       }
+    ],
+    complexity: 'high',
+    performance: 'medium'
+  };
 
-      // Convert key, IV, and ciphertext to CryptoJS format
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const ivWords = CryptoJS.enc.Hex.parse(iv);
-      const ciphertextWords = CryptoJS.enc.Hex.parse(ciphertext);
-      
-      // Create cipher params object
-      const cipherParams = CryptoJS.lib.CipherParams.create({
-        ciphertext: ciphertextWords
-      });
-      
-      const options: any = {
-        iv: ivWords,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      };
-      
-      const decrypted = CryptoJS.AES.decrypt(cipherParams, keyWords, options);
-      const plaintext = decrypted.toString(CryptoJS.enc.Utf8);
-      
-      if (!plaintext) {
-        throw new Error('Failed to decrypt - invalid key, IV, or corrupted data');
-      }
-      
-      return {
-        success: true,
-        result: plaintext
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown decryption error'
-      };
-    }
-  }
+  protected readonly blockSize = 16;
 
-  async generateKey(keySize?: number): Promise<string> {
-    const size = keySize || 32;
-    if (![16, 24, 32].includes(size)) {
-      throw new Error('Key size must be 16, 24, or 32 bytes');
-    }
-    return CryptoJS.lib.WordArray.random(size).toString(CryptoJS.enc.Hex);
+  protected get defaultVariant(): string {
+    return 'twofish-256';
   }
 
-  validateKey(key: string, keySize?: number): boolean {
-    try {
-      const keyWords = CryptoJS.enc.Hex.parse(key);
-      const validSizes = [16, 24, 32];
-      
-      if (keySize) {
-        return keyWords.sigBytes === keySize;
-      }
-      
-      return validSizes.includes(keyWords.sigBytes);
-    } catch {
-      return false;
-    }
+  protected createCipher(key: Uint8Array): TwofishBlockCipher {
+    return new TwofishBlockCipher(key);
   }
 }
 
@@ -0,0 +1,292 @@
+import nacl from 'tweetnacl';
+import {
+  CipherMetadata,
+  ByteEncryptionParams,
+  ByteDecryptionParams,
+  CryptoOperation,
+  KeyPair,
+  KeyAgreementParams
+} from '../../types/crypto';
+import {
+  getRandomBytes,
+  generateRandomHex,
+  isValidHex,
+  hexToBytes,
+  bytesToHex,
+  concatBytes,
+  validateKeyLength,
+  AuthenticationError
+} from '@/lib/crypto-utils';
+import { ByteCipherEngine } from './byte-cipher-engine';
+
+const KEY_SIZE = nacl.box.secretKeyLength;
+const NONCE_SIZE = nacl.box.nonceLength;
+// secretbox puts the Poly1305 tag in front; this engine moves it to the end like the other AEADs
+const TAG_SIZE = nacl.secretbox.overheadLength;
+
+/**
+ * X25519 (RFC 7748) key agreement and NaCl encryption, in three variants:
+ * - x25519: box to a recipient's public key from a fresh ephemeral key pair per message, the box
+ *   key HSalsa20(X25519(ephemeral, recipient)) and secretbox under that key; ciphertext is
+ *   ephemeral public key || body || tag
+ * - x25519-box: box between two fixed key pairs; both sides pass their own private key followed by
+ *   the peer's public key, and the ciphertext is body || tag
+ * - secretbox: XSalsa20-Poly1305 under a shared 32-byte key, with ciphertext body || tag
+ */
+export class X25519Engine extends ByteCipherEngine {
+  readonly metadata: CipherMetadata = {
+    id: 'x25519',
+    name: 'X25519',
+    category: 'asymmetric',
+    variants: [
+      { id: 'x25519', name: 'X25519 box (XSalsa20-Poly1305)', keySize: KEY_SIZE },
+      { id: 'x25519-box', name: 'X25519 box from a fixed sender', keySize: 2 * KEY_SIZE, keyUsage: 'own-and-peer' },
+      { id: 'secretbox', name: 'secretbox (XSalsa20-Poly1305, shared key)', keySize: KEY_SIZE, keyUsage: 'shared' }
+    ],
+    description: 'Elliptic-curve Diffie-Hellman on Curve25519, sealing messages with NaCl box or secretbox',
+    keyRequirements: {
+      minKeySize: KEY_SIZE,
+      maxKeySize: 2 * KEY_SIZE,
+      keySizes: [KEY_SIZE, 2 * KEY_SIZE]
+    },
+    ivRequired: false,
+    nonceRequired: true,
+    nonceSize: NONCE_SIZE,
+    securityNotes: [
+      {
+        level: 'info',
+        message: 'Encrypt with the recipient\'s public key; only the matching private key can decrypt'
+      },
+      {
+        level: 'info',
+        message: 'The 24-byte nonce is long enough to choose at random for every message'
+      },
+      {
+        level: 'warning',
+        message: 'With an ephemeral sender key, like ECIES, the box does not authenticate who sent it; the fixed-sender box does'
+      },
+      {
+        level: 'info',
+        message: 'The fixed-sender box takes your private key followed by the peer\'s public key (64 bytes) to encrypt and to decrypt'
+      },
+      {
+        level: 'info',
+        message: 'secretbox uses one shared 32-byte key to encrypt and decrypt'
+      }
+    ],
+    references: [
+      {
+        title: 'RFC 7748 - Elliptic Curves for Security',
+        url: 'https://www.rfc-editor.org/rfc/rfc7748'
+      },
+      {
+        title: 'Cryptography in NaCl',
+        url: 'https://cr.yp.to/highspeed/naclcrypto-20090310.pdf'
+      },
+      {
+        title: 'TweetNaCl.js',
+        url: 'https://tweetnacl.js.org/'
+      }
+    ],
+    complexity: 'medium',
+    performance: 'fast'
+  };
+
+  async encryptBytes(params: ByteEncryptionParams): Promise<CryptoOperation<Uint8Array>> {
+    try {
+      const { plaintext, key, nonce, variant = this.metadata.variants[0].id } = params;
+
+      const finalNonce = nonce || await this.generateNonce();
+      if (!this.validateNonce(finalNonce)) {
+        throw new Error('Invalid X25519 box nonce. Must be 24 bytes (48 hex characters)');
+      }
+
+      const { secretboxKey, prefix } = this.encryptionKey(key, variant);
+      const sealed = nacl.secretbox(plaintext, hexToBytes(finalNonce), secretboxKey);
+      const tag = sealed.subarray(0, TAG_SIZE);
+
+      return {
+        success: true,
+        result: concatBytes(prefix, sealed.subarray(TAG_SIZE), tag),
+        metadata: {
+          keyLength: key.length / 2,
+          nonceLength: NONCE_SIZE,
+          variant,
+          nonce: finalNonce,
+          tag: bytesToHex(tag),
+          tagLength: TAG_SIZE
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'X25519 box encryption failed'
+      };
+    }
+  }
+
+  async decryptBytes(params: ByteDecryptionParams): Promise<CryptoOperation<Uint8Array>> {
+    try {
+      const { ciphertext, key, nonce, tag, variant = this.metadata.variants[0].id } = params;
+      const ephemeral = this.getVariant(variant) === 'x25519';
+
+      if (!nonce) {
+        throw new Error('Nonce is required for X25519 box');
+      }
+      if (!this.validateNonce(nonce)) {
+        throw new Error('Invalid X25519 box nonce. Must be 24 bytes (48 hex characters)');
+      }
+
+      // The tag travels separately when the ciphertext comes from an envelope
+      const tagLength = tag ? 0 : TAG_SIZE;
+      const prefixLength = ephemeral ? KEY_SIZE : 0;
+      if (ciphertext.length < prefixLength + tagLength) {
+        throw new Error(ephemeral ? 'Ciphertext is too short to contain an ephemeral public key and tag' : 'Ciphertext is too short to contain a tag');
+      }
+      const body = ciphertext.subarray(prefixLength, ciphertext.length - tagLength);
+      const tagBytes = tag ? hexToBytes(tag) : ciphertext.subarray(ciphertext.length - TAG_SIZE);
+      if (tagBytes.length !== TAG_SIZE) {
+        throw new Error(`Invalid tag. Must be ${TAG_SIZE} bytes`);
+      }
+
+      const secretboxKey = ephemeral
+        ? this.boxKey(this.parseKey(key, 'private'), ciphertext.subarray(0, KEY_SIZE))
+        : this.encryptionKey(key, variant).secretboxKey;
+      const opened = nacl.secretbox.open(concatBytes(tagBytes, body), hexToBytes(nonce), secretboxKey);
+      if (!opened) {
+        throw new AuthenticationError();
+      }
+
+      return {
+        success: true,
+        result: opened,
+        metadata: {
+          keyLength: key.length / 2,
+          nonceLength: NONCE_SIZE,
+          variant,
+          nonce,
+          tag: bytesToHex(tagBytes),
+          tagLength: TAG_SIZE
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'X25519 box decryption failed',
+        ...(error instanceof AuthenticationError && { errorCode: 'AUTHENTICATION_FAILED' as const })
+      };
+    }
+  }
+
+  /**
+   * The raw X25519 output of RFC 7748 section 6.1, before any hashing into a key
+   */
+  async deriveSharedSecret(params: KeyAgreementParams): Promise<CryptoOperation<Uint8Array>> {
+    try {
+      const { privateKey, publicKey, variant = this.metadata.variants[0].id } = params;
+      return {
+        success: true,
+        result: this.sharedSecret(this.parseKey(privateKey, 'private'), this.parseKey(publicKey, 'public')),
+        metadata: { keyLength: KEY_SIZE, variant }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'X25519 key agreement failed'
+      };
+    }
+  }
+
+  /**
+   * A private key; use generateKeyPair to get the public key as well
+   */
+  async generateKey(keySize: number = KEY_SIZE): Promise<string> {
+    if (keySize !== KEY_SIZE) {
+      throw new Error('X25519 private keys are 32 bytes');
+    }
+    return generateRandomHex(KEY_SIZE);
+  }
+
+  /**
+   * An X25519 key pair; secretbox has none and takes a shared key from generateKey
+   */
+  async generateKeyPair(variant: string = this.metadata.variants[0].id): Promise<KeyPair> {
+    if (this.getVariant(variant) === 'secretbox') {
+      throw new Error('secretbox takes a shared 32-byte key rather than a key pair');
+    }
+    const { publicKey, secretKey } = nacl.box.keyPair.fromSecretKey(getRandomBytes(KEY_SIZE));
+    return { publicKey: bytesToHex(publicKey), privateKey: bytesToHex(secretKey) };
+  }
+
+  async generateNonce(): Promise<string> {
+    return generateRandomHex(NONCE_SIZE);
+  }
+
+  /**
+   * Public, private and secretbox keys are 32 bytes; pass the variant's keySize to check the
+   * 64-byte key of the fixed-sender box
+   */
+  validateKey(key: string, keySize: number = KEY_SIZE): boolean {
+    return this.metadata.keyRequirements.keySizes.includes(keySize) && validateKeyLength(key, [keySize], 'hex');
+  }
+
+  validateNonce(nonce: string): boolean {
+    return validateKeyLength(nonce, [NONCE_SIZE], 'hex');
+  }
+
+  private getVariant(variant: string): string {
+    if (!this.metadata.variants.some(v => v.id === variant)) {
+      throw new Error(`Unsupported variant: ${variant}`);
+    }
+    return variant;
+  }
+
+  /**
+   * The secretbox key and what goes in front of the body: the ephemeral public key for x25519,
+   * nothing for the fixed-sender box and secretbox
+   */
+  private encryptionKey(key: string, variant: string): { secretboxKey: Uint8Array; prefix: Uint8Array } {
+    switch (this.getVariant(variant)) {
+      case 'x25519': {
+        const recipient = this.parseKey(key, 'public');
+        const ephemeral = nacl.box.keyPair.fromSecretKey(getRandomBytes(KEY_SIZE));
+        return { secretboxKey: this.boxKey(ephemeral.secretKey, recipient), prefix: ephemeral.publicKey };
+      }
+      case 'x25519-box': {
+        if (!isValidHex(key) || key.length !== KEY_SIZE * 4) {
+          throw new Error(`Invalid key. The fixed-sender box takes your private key followed by the peer's public key: ${KEY_SIZE * 2} bytes (${KEY_SIZE * 4} hex characters)`);
+        }
+        const keys = hexToBytes(key);
+        return { secretboxKey: this.boxKey(keys.subarray(0, KEY_SIZE), keys.subarray(KEY_SIZE)), prefix: new Uint8Array(0) };
+      }
+      default:
+        return { secretboxKey: this.parseKey(key, 'secretbox'), prefix: new Uint8Array(0) };
+    }
+  }
+
+  private parseKey(key: string, kind: 'public' | 'private' | 'secretbox'): Uint8Array {
+    if (!isValidHex(key) || key.length !== KEY_SIZE * 2) {
+      throw new Error(`Invalid ${kind} key. Must be ${KEY_SIZE} bytes (${KEY_SIZE * 2} hex characters)`);
+    }
+    return hexToBytes(key);
+  }
+
+  /**
+   * RFC 7748 section 6.1 lets a peer's low-order point force an all-zero secret; reject it
+   */
+  private sharedSecret(privateKey: Uint8Array, publicKey: Uint8Array): Uint8Array {
+    const shared = nacl.scalarMult(privateKey, publicKey);
+    if (shared.every(byte => byte === 0)) {
+      throw new Error('Invalid public key: a low-order point gives an all-zero shared secret');
+    }
+    return shared;
+  }
+
+  // nacl.box.before hashes the same X25519 output into the secretbox key with HSalsa20
+  private boxKey(privateKey: Uint8Array, publicKey: Uint8Array): Uint8Array {
+    this.sharedSecret(privateKey, publicKey);
+    return nacl.box.before(publicKey, privateKey);
+  }
+}
+
+export default X25519Engine;
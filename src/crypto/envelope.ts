@@ -0,0 +1,266 @@
+/**
+ * Versioned, self-describing ciphertext envelopes
+ *
+ * The JSON form is the envelope object itself. The compact form is "CE", a version byte and a
+ * sequence of fields (1-byte id, 4-byte big-endian length, value), encoded as base64url.
+ */
+
+import CryptoJS from 'crypto-js';
+import { CiphertextEnvelope, CryptoOperation, EnvelopeEncoding, KdfParams } from '@/types/crypto';
+import { bytesToHex, hexToBytes, bytesToBase64Url, base64ToBytes, concatBytes, isValidHex, EnvelopeError, KDF_ALGORITHMS, HASH_ALGORITHMS } from '@/lib/crypto-utils';
+
+export const ENVELOPE_VERSION = 1;
+
+const MAGIC = [0x43, 0x45];
+
+export interface EnvelopeOptions {
+  additionalData?: string;
+  additionalDataComponents?: string[];
+  salt?: string;
+  kdf?: KdfParams;
+}
+
+// uint fields are 4 bytes; uint64 fields are 8 bytes and hold any safe integer
+type FieldKind = 'text' | 'hex' | 'uint' | 'uint64';
+
+const UINT_SIZES: Partial<Record<FieldKind, number>> = { uint: 4, uint64: 8 };
+
+interface FieldCodec {
+  id: number;
+  kind: FieldKind;
+  get(envelope: CiphertextEnvelope): string | number | undefined;
+  set(envelope: CiphertextEnvelope, value: string | number): void;
+}
+
+const field = (id: number, kind: FieldKind, name: keyof CiphertextEnvelope): FieldCodec => ({
+  id,
+  kind,
+  get: envelope => envelope[name] as string | number | undefined,
+  set: (envelope, value) => Object.assign(envelope, { [name]: value })
+});
+
+// KDF parameters are flattened into three fields and reassembled on decode; validateEnvelope
+// rejects a kdf that is missing any of them
+const kdfField = (id: number, kind: FieldKind, name: keyof KdfParams): FieldCodec => ({
+  id,
+  kind,
+  get: envelope => envelope.kdf?.[name],
+  set: (envelope, value) => {
+    envelope.kdf = { ...envelope.kdf, [name]: value } as KdfParams;
+  }
+});
+
+// Field ids are part of the wire format: append new ones, never renumber
+const FIELDS: FieldCodec[] = [
+  field(1, 'text', 'cipher'),
+  field(2, 'text', 'variant'),
+  field(3, 'text', 'mode'),
+  field(4, 'hex', 'iv'),
+  field(5, 'hex', 'nonce'),
+  field(6, 'uint', 'counter'),
+  field(7, 'text', 'padding'),
+  field(8, 'hex', 'salt'),
+  kdfField(9, 'text', 'algorithm'),
+  kdfField(10, 'uint', 'iterations'),
+  kdfField(11, 'uint', 'keyLength'),
+  field(12, 'hex', 'aadHash'),
+  field(13, 'hex', 'tag'),
+  field(14, 'hex', 'ciphertext'),
+  field(15, 'text', 'oaepHash'),
+  field(16, 'text', 'mgf1Hash'),
+  field(17, 'uint64', 'offset')
+];
+
+/**
+ * SHA-256 over each associated data component as a 4-byte big-endian length followed by its
+ * UTF-8 bytes, so that component boundaries are unambiguous. A plain string is one component.
+ */
+export function hashAdditionalData(options: Pick<EnvelopeOptions, 'additionalData' | 'additionalDataComponents'>): string | undefined {
+  const components = options.additionalDataComponents ?? (options.additionalData ? [options.additionalData] : []);
+  if (components.length === 0) {
+    return undefined;
+  }
+
+  const encoded = components.map(component => {
+    const bytes = new TextEncoder().encode(component);
+    const length = new Uint8Array(4);
+    new DataView(length.buffer).setUint32(0, bytes.length);
+    return concatBytes(length, bytes);
+  });
+  return CryptoJS.SHA256(CryptoJS.enc.Hex.parse(bytesToHex(concatBytes(...encoded)))).toString(CryptoJS.enc.Hex);
+}
+
+/**
+ * Package a successful encryptBytes result. An attached AEAD tag is split off the ciphertext:
+ * AES-SIV puts it first (RFC 5297), every other AEAD appends it.
+ */
+export function createEnvelope(
+  cipher: string,
+  operation: CryptoOperation<Uint8Array>,
+  options: EnvelopeOptions = {}
+): CiphertextEnvelope {
+  if (!operation.success || !operation.result) {
+    throw new EnvelopeError('Only successful encryption results can be enveloped');
+  }
+
+  const { metadata } = operation;
+  let body = operation.result;
+  if (metadata?.tag) {
+    const tagLength = metadata.tag.length / 2;
+    body = metadata.mode === 'SIV' ? body.subarray(tagLength) : body.subarray(0, body.length - tagLength);
+  }
+
+  const envelope: CiphertextEnvelope = {
+    version: ENVELOPE_VERSION,
+    cipher,
+    variant: metadata?.variant,
+    mode: metadata?.mode as CiphertextEnvelope['mode'],
+    iv: metadata?.iv,
+    nonce: metadata?.nonce,
+    counter: metadata?.counter,
+    offset: metadata?.offset,
+    padding: metadata?.padding,
+    oaepHash: metadata?.oaepHash,
+    mgf1Hash: metadata?.mgf1Hash,
+    salt: options.salt,
+    kdf: options.kdf,
+    aadHash: hashAdditionalData(options),
+    tag: metadata?.tag,
+    ciphertext: bytesToHex(body)
+  };
+
+  // Drop absent fields so the JSON form stays minimal
+  return Object.fromEntries(Object.entries(envelope).filter(([, value]) => value !== undefined)) as CiphertextEnvelope;
+}
+
+export function serializeEnvelope(envelope: CiphertextEnvelope, encoding: EnvelopeEncoding = 'json'): string {
+  if (encoding === 'json') {
+    return JSON.stringify(envelope);
+  }
+
+  const parts: Uint8Array[] = [new Uint8Array([...MAGIC, envelope.version])];
+  for (const codec of FIELDS) {
+    const value = codec.get(envelope);
+    if (value === undefined) continue;
+
+    let bytes: Uint8Array;
+    if (codec.kind === 'uint') {
+      bytes = new Uint8Array(4);
+      new DataView(bytes.buffer).setUint32(0, value as number);
+    } else if (codec.kind === 'uint64') {
+      bytes = new Uint8Array(8);
+      new DataView(bytes.buffer).setBigUint64(0, BigInt(value as number));
+    } else {
+      bytes = codec.kind === 'hex' ? hexToBytes(value as string) : new TextEncoder().encode(value as string);
+    }
+
+    const header = new Uint8Array(5);
+    header[0] = codec.id;
+    new DataView(header.buffer).setUint32(1, bytes.length);
+    parts.push(header, bytes);
+  }
+  return bytesToBase64Url(concatBytes(...parts));
+}
+
+/**
+ * Parse either envelope form: JSON objects start with "{", anything else is read as compact
+ */
+export function parseEnvelope(input: string): CiphertextEnvelope {
+  const trimmed = input.trim();
+  const envelope = trimmed.startsWith('{') ? parseJSON(trimmed) : parseCompact(trimmed);
+  validateEnvelope(envelope);
+  return envelope;
+}
+
+function parseJSON(input: string): CiphertextEnvelope {
+  try {
+    return JSON.parse(input);
+  } catch {
+    throw new EnvelopeError('Envelope is not valid JSON');
+  }
+}
+
+function parseCompact(input: string): CiphertextEnvelope {
+  let bytes: Uint8Array;
+  try {
+    bytes = base64ToBytes(input.replace(/\s/g, ''));
+  } catch {
+    throw new EnvelopeError('Compact envelope is not valid base64url');
+  }
+  if (bytes.length < 3 || bytes[0] !== MAGIC[0] || bytes[1] !== MAGIC[1]) {
+    throw new EnvelopeError('Not a ciphertext envelope: missing "CE" header');
+  }
+
+  const envelope = { version: bytes[2] } as CiphertextEnvelope;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 3;
+  while (offset < bytes.length) {
+    if (offset + 5 > bytes.length) {
+      throw new EnvelopeError('Compact envelope is truncated');
+    }
+    const id = bytes[offset];
+    const length = view.getUint32(offset + 1);
+    const value = bytes.subarray(offset + 5, offset + 5 + length);
+    if (value.length !== length) {
+      throw new EnvelopeError('Compact envelope is truncated');
+    }
+    offset += 5 + length;
+
+    // Fields from newer minor revisions are skipped rather than rejected
+    const codec = FIELDS.find(candidate => candidate.id === id);
+    if (!codec) continue;
+    const uintSize = UINT_SIZES[codec.kind];
+    if (uintSize) {
+      if (length !== uintSize) {
+        throw new EnvelopeError(`Compact envelope field ${id} must be ${uintSize} bytes`);
+      }
+      const fieldView = new DataView(value.buffer, value.byteOffset, uintSize);
+      codec.set(envelope, uintSize === 4 ? fieldView.getUint32(0) : Number(fieldView.getBigUint64(0)));
+    } else {
+      codec.set(envelope, codec.kind === 'hex' ? bytesToHex(value) : new TextDecoder().decode(value));
+    }
+  }
+  return envelope;
+}
+
+function validateEnvelope(envelope: CiphertextEnvelope): void {
+  if (typeof envelope !== 'object' || envelope === null) {
+    throw new EnvelopeError('Envelope must be an object');
+  }
+  if (envelope.version !== ENVELOPE_VERSION) {
+    throw new EnvelopeError(`Unsupported envelope version ${envelope.version}; expected ${ENVELOPE_VERSION}`);
+  }
+  if (typeof envelope.cipher !== 'string' || envelope.cipher.length === 0) {
+    throw new EnvelopeError('Envelope is missing the cipher id');
+  }
+  if (typeof envelope.ciphertext !== 'string') {
+    throw new EnvelopeError('Envelope is missing the ciphertext');
+  }
+  for (const name of ['iv', 'nonce', 'salt', 'aadHash', 'tag', 'ciphertext'] as const) {
+    const value = envelope[name];
+    if (value !== undefined && (typeof value !== 'string' || !isValidHex(value))) {
+      throw new EnvelopeError(`Envelope field "${name}" must be hexadecimal`);
+    }
+  }
+  if (envelope.offset !== undefined && !(Number.isSafeInteger(envelope.offset) && envelope.offset >= 0)) {
+    throw new EnvelopeError('Envelope field "offset" must be a non-negative integer');
+  }
+  if (envelope.kdf !== undefined) {
+    const { algorithm, iterations, keyLength } = envelope.kdf ?? {};
+    if (algorithm === undefined || iterations === undefined || keyLength === undefined) {
+      throw new EnvelopeError('Envelope KDF parameters must include the algorithm, iterations and key length');
+    }
+    if (!KDF_ALGORITHMS.includes(algorithm)) {
+      throw new EnvelopeError(`Unsupported KDF in envelope: ${algorithm}`);
+    }
+    if (![iterations, keyLength].every(value => Number.isSafeInteger(value) && value > 0)) {
+      throw new EnvelopeError('Envelope KDF iterations and key length must be positive integers');
+    }
+  }
+  for (const name of ['oaepHash', 'mgf1Hash'] as const) {
+    const value = envelope[name];
+    if (value !== undefined && !HASH_ALGORITHMS.includes(value)) {
+      throw new EnvelopeError(`Unsupported hash in envelope field "${name}": ${value}`);
+    }
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * Confidentiality modes of operation (NIST SP 800-38A and its CTS addendum) for any block primitive
+ */
+
+import { CipherMode, PaddingScheme } from '@/types/crypto';
+import { BlockCipher, xorBytes } from '../primitives/block-cipher';
+import { pad, unpad } from './padding';
+
+export const BLOCK_MODES: CipherMode[] = ['ECB', 'CBC', 'CFB', 'CFB8', 'CFB1', 'OFB', 'CTR', 'PCBC', 'CTS'];
+
+// Modes that only process whole blocks and therefore pad the plaintext
+export const PADDED_MODES: CipherMode[] = ['ECB', 'CBC', 'PCBC'];
+
+export function modeRequiresIV(mode: CipherMode): boolean {
+  return mode !== 'ECB';
+}
+
+function* blocksOf(data: Uint8Array, blockSize: number): Generator<Uint8Array> {
+  for (let offset = 0; offset < data.length; offset += blockSize) {
+    yield data.subarray(offset, offset + blockSize);
+  }
+}
+
+function concat(blocks: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(blocks.reduce((total, block) => total + block.length, 0));
+  let offset = 0;
+  for (const block of blocks) {
+    output.set(block, offset);
+    offset += block.length;
+  }
+  return output;
+}
+
+function ecb(cipher: BlockCipher, data: Uint8Array, decrypting: boolean): Uint8Array {
+  const output: Uint8Array[] = [];
+  for (const block of blocksOf(data, cipher.blockSize)) {
+    output.push(decrypting ? cipher.decryptBlock(block) : cipher.encryptBlock(block));
+  }
+  return concat(output);
+}
+
+function cbcEncrypt(cipher: BlockCipher, iv: Uint8Array, data: Uint8Array): Uint8Array {
+  const output: Uint8Array[] = [];
+  let previous = iv;
+  for (const block of blocksOf(data, cipher.blockSize)) {
+    previous = cipher.encryptBlock(xorBytes(block, previous));
+    output.push(previous);
+  }
+  return concat(output);
+}
+
+function cbcDecrypt(cipher: BlockCipher, iv: Uint8Array, data: Uint8Array): Uint8Array {
+  const output: Uint8Array[] = [];
+  let previous = iv;
+  for (const block of blocksOf(data, cipher.blockSize)) {
+    output.push(xorBytes(cipher.decryptBlock(block), previous));
+    previous = block;
+  }
+  return concat(output);
+}
+
+/**
+ * Propagating CBC: each block is chained with both the previous plaintext and ciphertext
+ */
+function pcbc(cipher: BlockCipher, iv: Uint8Array, data: Uint8Array, decrypting: boolean): Uint8Array {
+  const output: Uint8Array[] = [];
+  let chain = iv;
+  for (const block of blocksOf(data, cipher.blockSize)) {
+    if (decrypting) {
+      const plain = xorBytes(cipher.decryptBlock(block), chain);
+      output.push(plain);
+      chain = xorBytes(plain, block);
+    } else {
+      const encrypted = cipher.encryptBlock(xorBytes(block, chain));
+      output.push(encrypted);
+      chain = xorBytes(block, encrypted);
+    }
+  }
+  return concat(output);
+}
+
+/**
+ * CFB with a segment size of whole bytes (CFB8 uses 1, full-block CFB uses the block size)
+ */
+function cfb(cipher: BlockCipher, iv: Uint8Array, data: Uint8Array, segmentSize: number, decrypting: boolean): Uint8Array {
+  const output = new Uint8Array(data.length);
+  const register = new Uint8Array(iv);
+
+  for (let offset = 0; offset < data.length; offset += segmentSize) {
+    const keystream = cipher.encryptBlock(register);
+    const length = Math.min(segmentSize, data.length - offset);
+    for (let i = 0; i < length; i++) {
+      output[offset + i] = data[offset + i] ^ keystream[i];
+    }
+
+    // Shift the ciphertext segment into the register
+    const feedback = (decrypting ? data : output).subarray(offset, offset + length);
+    register.copyWithin(0, length);
+    register.set(feedback, register.length - length);
+  }
+
+  return output;
+}
+
+/**
+ * CFB with a 1-bit segment size: one block encryption per message bit
+ */
+function cfb1(cipher: BlockCipher, iv: Uint8Array, data: Uint8Array, decrypting: boolean): Uint8Array {
+  const output = new Uint8Array(data.length);
+  const register = new Uint8Array(iv);
+
+  for (let bit = 0; bit < data.length * 8; bit++) {
+    const byteIndex = bit >> 3;
+    const shift = 7 - (bit & 7);
+    const inputBit = (data[byteIndex] >>> shift) & 1;
+    const outputBit = inputBit ^ (cipher.encryptBlock(register)[0] >>> 7);
+    output[byteIndex] |= outputBit << shift;
+
+    const feedbackBit = decrypting ? inputBit : outputBit;
+    for (let i = 0; i < register.length - 1; i++) {
+      register[i] = ((register[i] << 1) | (register[i + 1] >>> 7)) & 0xff;
+    }
+    register[register.length - 1] = ((register[register.length - 1] << 1) | feedbackBit) & 0xff;
+  }
+
+  return output;
+}
+
+function ofb(cipher: BlockCipher, iv: Uint8Array, data: Uint8Array): Uint8Array {
+  const output: Uint8Array[] = [];
+  let keystream = iv;
+  for (const block of blocksOf(data, cipher.blockSize)) {
+    keystream = cipher.encryptBlock(keystream);
+    output.push(xorBytes(block, keystream));
+  }
+  return concat(output);
+}
+
+/**
+ * CTR with the IV as the initial counter block, incremented as one big-endian integer
+ */
+function ctr(cipher: BlockCipher, iv: Uint8Array, data: Uint8Array): Uint8Array {
+  const output: Uint8Array[] = [];
+  const counter = new Uint8Array(iv);
+  for (const block of blocksOf(data, cipher.blockSize)) {
+    output.push(xorBytes(block, cipher.encryptBlock(counter)));
+    for (let i = counter.length - 1; i >= 0; i--) {
+      counter[i] = (counter[i] + 1) & 0xff;
+      if (counter[i] !== 0) break;
+    }
+  }
+  return concat(output);
+}
+
+/**
+ * CBC with ciphertext stealing, variant CS3 (the last two blocks are always swapped)
+ */
+function ctsEncrypt(cipher: BlockCipher, iv: Uint8Array, data: Uint8Array): Uint8Array {
+  const blockSize = cipher.blockSize;
+  if (data.length < blockSize) {
+    throw new Error(`CTS mode requires at least one full block (${blockSize} bytes) of input`);
+  }
+  if (data.length === blockSize) {
+    return cbcEncrypt(cipher, iv, data);
+  }
+
+  const blockCount = Math.ceil(data.length / blockSize);
+  const tailLength = data.length - (blockCount - 1) * blockSize;
+  const padded = new Uint8Array(blockCount * blockSize);
+  padded.set(data);
+
+  const encrypted = cbcEncrypt(cipher, iv, padded);
+  const output = new Uint8Array(data.length);
+  output.set(encrypted.subarray(0, (blockCount - 2) * blockSize));
+  output.set(encrypted.subarray((blockCount - 1) * blockSize), (blockCount - 2) * blockSize);
+  output.set(
+    encrypted.subarray((blockCount - 2) * blockSize, (blockCount - 2) * blockSize + tailLength),
+    (blockCount - 1) * blockSize
+  );
+  return output;
+}
+
+function ctsDecrypt(cipher: BlockCipher, iv: Uint8Array, data: Uint8Array): Uint8Array {
+  const blockSize = cipher.blockSize;
+  if (data.length < blockSize) {
+    throw new Error(`CTS mode requires at least one full block (${blockSize} bytes) of input`);
+  }
+  if (data.length === blockSize) {
+    return cbcDecrypt(cipher, iv, data);
+  }
+
+  const blockCount = Math.ceil(data.length / blockSize);
+  const tailLength = data.length - (blockCount - 1) * blockSize;
+  const headLength = (blockCount - 2) * blockSize;
+  const head = data.subarray(0, headLength);
+  const lastFull = data.subarray(headLength, headLength + blockSize);
+  const stolen = data.subarray(headLength + blockSize);
+
+  // Recover the full penultimate ciphertext block from the bytes stolen for the final block
+  const decryptedLast = cipher.decryptBlock(lastFull);
+  const penultimate = new Uint8Array(blockSize);
+  penultimate.set(stolen);
+  penultimate.set(decryptedLast.subarray(tailLength), tailLength);
+
+  const previous = headLength > 0 ? head.subarray(headLength - blockSize) : iv;
+  const output = new Uint8Array(data.length);
+  output.set(cbcDecrypt(cipher, iv, head));
+  output.set(xorBytes(cipher.decryptBlock(penultimate), previous), headLength);
+  output.set(xorBytes(decryptedLast.subarray(0, tailLength), penultimate), headLength + blockSize);
+  return output;
+}
+
+function requireIV(cipher: BlockCipher, mode: CipherMode, iv?: Uint8Array): Uint8Array {
+  if (!iv) {
+    throw new Error(`IV is required for ${mode} mode`);
+  }
+  if (iv.length !== cipher.blockSize) {
+    throw new Error(`IV must be ${cipher.blockSize} bytes for ${mode} mode`);
+  }
+  return iv;
+}
+
+/**
+ * Padding only applies to ECB, CBC and PCBC; the stream-like modes and CTS accept any length
+ */
+export function encryptWithMode(
+  cipher: BlockCipher,
+  mode: CipherMode,
+  plaintext: Uint8Array,
+  iv?: Uint8Array,
+  padding: PaddingScheme = 'PKCS7'
+): Uint8Array {
+  const data = PADDED_MODES.includes(mode) ? pad(plaintext, cipher.blockSize, padding) : plaintext;
+
+  switch (mode) {
+    case 'ECB':
+      return ecb(cipher, data, false);
+    case 'CBC':
+      return cbcEncrypt(cipher, requireIV(cipher, mode, iv), data);
+    case 'PCBC':
+      return pcbc(cipher, requireIV(cipher, mode, iv), data, false);
+    case 'CFB':
+      return cfb(cipher, requireIV(cipher, mode, iv), data, cipher.blockSize, false);
+    case 'CFB8':
+      return cfb(cipher, requireIV(cipher, mode, iv), data, 1, false);
+    case 'CFB1':
+      return cfb1(cipher, requireIV(cipher, mode, iv), data, false);
+    case 'OFB':
+      return ofb(cipher, requireIV(cipher, mode, iv), data);
+    case 'CTR':
+      return ctr(cipher, requireIV(cipher, mode, iv), data);
+    case 'CTS':
+      return ctsEncrypt(cipher, requireIV(cipher, mode, iv), data);
+    default:
+      throw new Error(`Unsupported mode: ${mode}`);
+  }
+}
+
+export function decryptWithMode(
+  cipher: BlockCipher,
+  mode: CipherMode,
+  ciphertext: Uint8Array,
+  iv?: Uint8Array,
+  padding: PaddingScheme = 'PKCS7'
+): Uint8Array {
+  if (PADDED_MODES.includes(mode) && ciphertext.length % cipher.blockSize !== 0) {
+    throw new Error(`Ciphertext length must be a multiple of ${cipher.blockSize} bytes in ${mode} mode`);
+  }
+
+  let data: Uint8Array;
+  switch (mode) {
+    case 'ECB':
+      data = ecb(cipher, ciphertext, true);
+      break;
+    case 'CBC':
+      data = cbcDecrypt(cipher, requireIV(cipher, mode, iv), ciphertext);
+      break;
+    case 'PCBC':
+      data = pcbc(cipher, requireIV(cipher, mode, iv), ciphertext, true);
+      break;
+    case 'CFB':
+      return cfb(cipher, requireIV(cipher, mode, iv), ciphertext, cipher.blockSize, true);
+    case 'CFB8':
+      return cfb(cipher, requireIV(cipher, mode, iv), ciphertext, 1, true);
+    case 'CFB1':
+      return cfb1(cipher, requireIV(cipher, mode, iv), ciphertext, true);
+    case 'OFB':
+      return ofb(cipher, requireIV(cipher, mode, iv), ciphertext);
+    case 'CTR':
+      return ctr(cipher, requireIV(cipher, mode, iv), ciphertext);
+    case 'CTS':
+      return ctsDecrypt(cipher, requireIV(cipher, mode, iv), ciphertext);
+    default:
+      throw new Error(`Unsupported mode: ${mode}`);
+  }
+
+  return unpad(data, cipher.blockSize, padding);
+}
@@ -0,0 +1,158 @@
+/**
+ * Counter with CBC-MAC (NIST SP 800-38C, RFC 3610)
+ */
+
+import { AuthenticationError, secureCompare } from '@/lib/crypto-utils';
+import { BlockCipher, xorBytes } from '../primitives/block-cipher';
+
+const BLOCK_SIZE = 16;
+
+export const CCM_TAG_LENGTHS = [4, 6, 8, 10, 12, 14, 16];
+export const CCM_NONCE_LENGTHS = [7, 8, 9, 10, 11, 12, 13];
+
+/**
+ * Write a non-negative integer big-endian into the last `width` bytes of a block
+ */
+function writeLength(block: Uint8Array, value: number, width: number): void {
+  let remaining = value;
+  for (let i = 0; i < width; i++) {
+    block[block.length - 1 - i] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+}
+
+function formatB0(nonce: Uint8Array, tagLength: number, hasAad: boolean, messageLength: number): Uint8Array {
+  const q = 15 - nonce.length;
+  const b0 = new Uint8Array(BLOCK_SIZE);
+  b0[0] = (hasAad ? 0x40 : 0) | (((tagLength - 2) / 2) << 3) | (q - 1);
+  b0.set(nonce, 1);
+  writeLength(b0, messageLength, q);
+  return b0;
+}
+
+/**
+ * Prefix the associated data with its encoded length and zero-pad it to the block size
+ */
+function encodeAad(aad: Uint8Array): Uint8Array {
+  if (aad.length === 0) {
+    return new Uint8Array(0);
+  }
+
+  let prefix: Uint8Array;
+  if (aad.length < 0xff00) {
+    prefix = new Uint8Array(2);
+    writeLength(prefix, aad.length, 2);
+  } else if (aad.length < 2 ** 32) {
+    prefix = new Uint8Array(6);
+    prefix.set([0xff, 0xfe]);
+    writeLength(prefix, aad.length, 4);
+  } else {
+    prefix = new Uint8Array(10);
+    prefix.set([0xff, 0xff]);
+    writeLength(prefix, aad.length, 8);
+  }
+
+  const encoded = new Uint8Array(Math.ceil((prefix.length + aad.length) / BLOCK_SIZE) * BLOCK_SIZE);
+  encoded.set(prefix);
+  encoded.set(aad, prefix.length);
+  return encoded;
+}
+
+function cbcMac(cipher: BlockCipher, blocks: Uint8Array[]): Uint8Array {
+  let x: Uint8Array = new Uint8Array(BLOCK_SIZE);
+  for (const data of blocks) {
+    for (let offset = 0; offset < data.length; offset += BLOCK_SIZE) {
+      const block = new Uint8Array(BLOCK_SIZE);
+      block.set(data.subarray(offset, offset + BLOCK_SIZE));
+      x = cipher.encryptBlock(xorBytes(x, block));
+    }
+  }
+  return x;
+}
+
+function counterBlock(nonce: Uint8Array, index: number): Uint8Array {
+  const q = 15 - nonce.length;
+  const block = new Uint8Array(BLOCK_SIZE);
+  block[0] = q - 1;
+  block.set(nonce, 1);
+  writeLength(block, index, q);
+  return block;
+}
+
+/**
+ * CTR encryption starting at counter block 1; block 0 is reserved for masking the tag
+ */
+function ctr(cipher: BlockCipher, nonce: Uint8Array, data: Uint8Array): Uint8Array {
+  const output = new Uint8Array(data.length);
+  for (let offset = 0, index = 1; offset < data.length; offset += BLOCK_SIZE, index++) {
+    const keystream = cipher.encryptBlock(counterBlock(nonce, index));
+    const end = Math.min(BLOCK_SIZE, data.length - offset);
+    for (let i = 0; i < end; i++) {
+      output[offset + i] = data[offset + i] ^ keystream[i];
+    }
+  }
+  return output;
+}
+
+function computeTag(
+  cipher: BlockCipher,
+  nonce: Uint8Array,
+  plaintext: Uint8Array,
+  aad: Uint8Array,
+  tagLength: number
+): Uint8Array {
+  const b0 = formatB0(nonce, tagLength, aad.length > 0, plaintext.length);
+  const mac = cbcMac(cipher, [b0, encodeAad(aad), plaintext]);
+  const s0 = cipher.encryptBlock(counterBlock(nonce, 0));
+  return xorBytes(mac.subarray(0, tagLength), s0);
+}
+
+function validate(cipher: BlockCipher, nonce: Uint8Array, tagLength: number, messageLength: number): void {
+  if (cipher.blockSize !== BLOCK_SIZE) {
+    throw new Error('CCM requires a 128-bit block cipher');
+  }
+  if (!CCM_NONCE_LENGTHS.includes(nonce.length)) {
+    throw new Error('CCM nonce must be between 7 and 13 bytes');
+  }
+  if (!CCM_TAG_LENGTHS.includes(tagLength)) {
+    throw new Error('CCM tag length must be 4, 6, 8, 10, 12, 14 or 16 bytes');
+  }
+  // The length field shrinks as the nonce grows: q = 15 - nonce length bytes
+  const q = 15 - nonce.length;
+  if (q < 7 && messageLength >= 2 ** (8 * q)) {
+    throw new Error(`Message too long for a ${nonce.length}-byte CCM nonce`);
+  }
+}
+
+export function ccmEncrypt(
+  cipher: BlockCipher,
+  nonce: Uint8Array,
+  plaintext: Uint8Array,
+  aad: Uint8Array,
+  tagLength: number = 16
+): { ciphertext: Uint8Array; tag: Uint8Array } {
+  validate(cipher, nonce, tagLength, plaintext.length);
+  return {
+    ciphertext: ctr(cipher, nonce, plaintext),
+    tag: computeTag(cipher, nonce, plaintext, aad, tagLength)
+  };
+}
+
+/**
+ * Decrypt and verify the tag; the plaintext is only returned when the tag matches
+ */
+export function ccmDecrypt(
+  cipher: BlockCipher,
+  nonce: Uint8Array,
+  ciphertext: Uint8Array,
+  tag: Uint8Array,
+  aad: Uint8Array
+): Uint8Array {
+  validate(cipher, nonce, tag.length, ciphertext.length);
+  const plaintext = ctr(cipher, nonce, ciphertext);
+  const expected = computeTag(cipher, nonce, plaintext, aad, tag.length);
+  if (!secureCompare(expected, tag)) {
+    throw new AuthenticationError();
+  }
+  return plaintext;
+}
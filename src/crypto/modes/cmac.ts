@@ -0,0 +1,34 @@
+/**
+ * CMAC message authentication code (NIST SP 800-38B, RFC 4493)
+ */
+
+import { BlockCipher, xorBytes, doubleBlock } from '../primitives/block-cipher';
+
+const BLOCK_SIZE = 16;
+
+export function cmac(cipher: BlockCipher, message: Uint8Array): Uint8Array {
+  if (cipher.blockSize !== BLOCK_SIZE) {
+    throw new Error('CMAC requires a 128-bit block cipher');
+  }
+
+  const k1 = doubleBlock(cipher.encryptBlock(new Uint8Array(BLOCK_SIZE)));
+  const k2 = doubleBlock(k1);
+
+  const blockCount = Math.max(1, Math.ceil(message.length / BLOCK_SIZE));
+  const lastComplete = message.length > 0 && message.length % BLOCK_SIZE === 0;
+
+  // The final block is masked with K1 when complete, otherwise padded with 10* and masked with K2
+  const last = new Uint8Array(BLOCK_SIZE);
+  const tail = message.subarray((blockCount - 1) * BLOCK_SIZE);
+  last.set(tail);
+  if (!lastComplete) {
+    last[tail.length] = 0x80;
+  }
+  const maskedLast = xorBytes(last, lastComplete ? k1 : k2);
+
+  let x: Uint8Array = new Uint8Array(BLOCK_SIZE);
+  for (let i = 0; i < blockCount - 1; i++) {
+    x = cipher.encryptBlock(xorBytes(x, message.subarray(i * BLOCK_SIZE, (i + 1) * BLOCK_SIZE)));
+  }
+  return cipher.encryptBlock(xorBytes(x, maskedLast));
+}
@@ -0,0 +1,152 @@
+/**
+ * Galois/Counter Mode (NIST SP 800-38D)
+ */
+
+import { AuthenticationError, secureCompare } from '@/lib/crypto-utils';
+import { BlockCipher } from '../primitives/block-cipher';
+
+const BLOCK_SIZE = 16;
+
+export const GCM_TAG_LENGTHS = [12, 13, 14, 15, 16];
+
+/**
+ * Multiply two elements of GF(2^128) using the GCM bit ordering
+ */
+function gfMultiply(x: Uint8Array, y: Uint8Array): Uint8Array {
+  const z = new Uint8Array(BLOCK_SIZE);
+  const v = new Uint8Array(y);
+
+  for (let i = 0; i < 128; i++) {
+    if (x[i >> 3] & (0x80 >> (i & 7))) {
+      for (let j = 0; j < BLOCK_SIZE; j++) z[j] ^= v[j];
+    }
+    const lsb = v[15] & 1;
+    for (let j = 15; j > 0; j--) {
+      v[j] = (v[j] >>> 1) | ((v[j - 1] & 1) << 7);
+    }
+    v[0] >>>= 1;
+    if (lsb) v[0] ^= 0xe1;
+  }
+
+  return z;
+}
+
+/**
+ * GHASH over a sequence of 16-byte blocks
+ */
+function ghash(h: Uint8Array, data: Uint8Array): Uint8Array {
+  let y = new Uint8Array(BLOCK_SIZE);
+  for (let offset = 0; offset < data.length; offset += BLOCK_SIZE) {
+    for (let i = 0; i < BLOCK_SIZE; i++) y[i] ^= data[offset + i];
+    y = gfMultiply(y, h);
+  }
+  return y;
+}
+
+/**
+ * Zero-pad two byte strings to the block size and append their 64-bit bit lengths
+ */
+function lengthBlockInput(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const padded = (length: number) => Math.ceil(length / BLOCK_SIZE) * BLOCK_SIZE;
+  const data = new Uint8Array(padded(a.length) + padded(b.length) + BLOCK_SIZE);
+  const view = new DataView(data.buffer);
+
+  data.set(a, 0);
+  data.set(b, padded(a.length));
+  view.setBigUint64(data.length - 16, BigInt(a.length) * 8n);
+  view.setBigUint64(data.length - 8, BigInt(b.length) * 8n);
+
+  return data;
+}
+
+function inc32(block: Uint8Array): Uint8Array {
+  const next = new Uint8Array(block);
+  const view = new DataView(next.buffer);
+  view.setUint32(12, (view.getUint32(12) + 1) >>> 0);
+  return next;
+}
+
+function gctr(cipher: BlockCipher, initialCounter: Uint8Array, data: Uint8Array): Uint8Array {
+  const output = new Uint8Array(data.length);
+  let counter = initialCounter;
+
+  for (let offset = 0; offset < data.length; offset += BLOCK_SIZE) {
+    const keystream = cipher.encryptBlock(counter);
+    const end = Math.min(BLOCK_SIZE, data.length - offset);
+    for (let i = 0; i < end; i++) {
+      output[offset + i] = data[offset + i] ^ keystream[i];
+    }
+    counter = inc32(counter);
+  }
+
+  return output;
+}
+
+/**
+ * 96-bit IVs are used directly; any other length is compressed with GHASH
+ */
+function deriveJ0(h: Uint8Array, iv: Uint8Array): Uint8Array {
+  if (iv.length === 12) {
+    const j0 = new Uint8Array(BLOCK_SIZE);
+    j0.set(iv);
+    j0[15] = 1;
+    return j0;
+  }
+  return ghash(h, lengthBlockInput(new Uint8Array(0), iv));
+}
+
+function computeTag(
+  cipher: BlockCipher,
+  h: Uint8Array,
+  j0: Uint8Array,
+  aad: Uint8Array,
+  ciphertext: Uint8Array,
+  tagLength: number
+): Uint8Array {
+  const s = ghash(h, lengthBlockInput(aad, ciphertext));
+  return gctr(cipher, j0, s).subarray(0, tagLength);
+}
+
+function setup(cipher: BlockCipher, iv: Uint8Array, tagLength: number): { h: Uint8Array; j0: Uint8Array } {
+  if (cipher.blockSize !== BLOCK_SIZE) {
+    throw new Error('GCM requires a 128-bit block cipher');
+  }
+  if (iv.length === 0) {
+    throw new Error('GCM IV must not be empty');
+  }
+  if (!GCM_TAG_LENGTHS.includes(tagLength)) {
+    throw new Error('GCM tag length must be between 12 and 16 bytes (96-128 bits)');
+  }
+  const h = cipher.encryptBlock(new Uint8Array(BLOCK_SIZE));
+  return { h, j0: deriveJ0(h, iv) };
+}
+
+export function gcmEncrypt(
+  cipher: BlockCipher,
+  iv: Uint8Array,
+  plaintext: Uint8Array,
+  aad: Uint8Array,
+  tagLength: number = 16
+): { ciphertext: Uint8Array; tag: Uint8Array } {
+  const { h, j0 } = setup(cipher, iv, tagLength);
+  const ciphertext = gctr(cipher, inc32(j0), plaintext);
+  return { ciphertext, tag: computeTag(cipher, h, j0, aad, ciphertext, tagLength) };
+}
+
+/**
+ * Verify the tag before releasing any plaintext; throws AuthenticationError on mismatch
+ */
+export function gcmDecrypt(
+  cipher: BlockCipher,
+  iv: Uint8Array,
+  ciphertext: Uint8Array,
+  tag: Uint8Array,
+  aad: Uint8Array
+): Uint8Array {
+  const { h, j0 } = setup(cipher, iv, tag.length);
+  const expected = computeTag(cipher, h, j0, aad, ciphertext, tag.length);
+  if (!secureCompare(expected, tag)) {
+    throw new AuthenticationError();
+  }
+  return gctr(cipher, inc32(j0), ciphertext);
+}
@@ -0,0 +1,187 @@
+/**
+ * Offset Codebook mode, version 3 (RFC 7253)
+ */
+
+import { AuthenticationError, secureCompare } from '@/lib/crypto-utils';
+import { BlockCipher, xorBytes, doubleBlock } from '../primitives/block-cipher';
+
+const BLOCK_SIZE = 16;
+
+// Tag lengths of the AEAD_AES_*_OCB_TAGLEN{128,96,64} algorithms registered in RFC 7253
+export const OCB_TAG_LENGTHS = [8, 12, 16];
+
+function ntz(value: number): number {
+  let count = 0;
+  while ((value & 1) === 0) {
+    value >>>= 1;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Key-dependent offsets: L_* = E(0), L_$ = double(L_*), L_i = double^(i+2)(L_*)
+ */
+class OffsetTable {
+  readonly lStar: Uint8Array;
+  readonly lDollar: Uint8Array;
+  private readonly l: Uint8Array[];
+
+  constructor(cipher: BlockCipher) {
+    this.lStar = cipher.encryptBlock(new Uint8Array(BLOCK_SIZE));
+    this.lDollar = doubleBlock(this.lStar);
+    this.l = [doubleBlock(this.lDollar)];
+  }
+
+  get(index: number): Uint8Array {
+    while (this.l.length <= index) {
+      this.l.push(doubleBlock(this.l[this.l.length - 1]));
+    }
+    return this.l[index];
+  }
+}
+
+/**
+ * Derive Offset_0 from the nonce via Ktop and the stretched key
+ */
+function initialOffset(cipher: BlockCipher, nonce: Uint8Array, tagLength: number): Uint8Array {
+  const nonceBlock = new Uint8Array(BLOCK_SIZE);
+  nonceBlock[0] = ((tagLength * 8) % 128) << 1;
+  nonceBlock[BLOCK_SIZE - 1 - nonce.length] |= 0x01;
+  nonceBlock.set(nonce, BLOCK_SIZE - nonce.length);
+
+  const bottom = nonceBlock[15] & 0x3f;
+  nonceBlock[15] &= 0xc0;
+  const ktop = cipher.encryptBlock(nonceBlock);
+
+  // Stretch = Ktop || (Ktop[1..64] xor Ktop[9..72])
+  const stretch = new Uint8Array(24);
+  stretch.set(ktop);
+  for (let i = 0; i < 8; i++) {
+    stretch[16 + i] = ktop[i] ^ ktop[i + 1];
+  }
+
+  const byteShift = bottom >>> 3;
+  const bitShift = bottom & 7;
+  const offset = new Uint8Array(BLOCK_SIZE);
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    const high = stretch[i + byteShift] << bitShift;
+    const low = bitShift ? stretch[i + byteShift + 1] >>> (8 - bitShift) : 0;
+    offset[i] = (high | low) & 0xff;
+  }
+  return offset;
+}
+
+/**
+ * Pad a partial block with a single 1 bit followed by zeros
+ */
+function padPartial(data: Uint8Array): Uint8Array {
+  const block = new Uint8Array(BLOCK_SIZE);
+  block.set(data);
+  block[data.length] = 0x80;
+  return block;
+}
+
+function hashAad(cipher: BlockCipher, table: OffsetTable, aad: Uint8Array): Uint8Array {
+  let sum = new Uint8Array(BLOCK_SIZE);
+  let offset = new Uint8Array(BLOCK_SIZE);
+  const fullBlocks = Math.floor(aad.length / BLOCK_SIZE);
+
+  for (let i = 1; i <= fullBlocks; i++) {
+    offset = xorBytes(offset, table.get(ntz(i)));
+    const block = aad.subarray((i - 1) * BLOCK_SIZE, i * BLOCK_SIZE);
+    sum = xorBytes(sum, cipher.encryptBlock(xorBytes(block, offset)));
+  }
+
+  const remainder = aad.subarray(fullBlocks * BLOCK_SIZE);
+  if (remainder.length > 0) {
+    offset = xorBytes(offset, table.lStar);
+    sum = xorBytes(sum, cipher.encryptBlock(xorBytes(padPartial(remainder), offset)));
+  }
+  return sum;
+}
+
+function validate(cipher: BlockCipher, nonce: Uint8Array, tagLength: number): void {
+  if (cipher.blockSize !== BLOCK_SIZE) {
+    throw new Error('OCB requires a 128-bit block cipher');
+  }
+  if (nonce.length === 0 || nonce.length > 15) {
+    throw new Error('OCB nonce must be between 1 and 15 bytes');
+  }
+  if (!Number.isInteger(tagLength) || tagLength < 1 || tagLength > 16) {
+    throw new Error('OCB tag length must be between 1 and 16 bytes');
+  }
+}
+
+/**
+ * Process the message in either direction and return the output alongside the full tag
+ */
+function crypt(
+  cipher: BlockCipher,
+  nonce: Uint8Array,
+  input: Uint8Array,
+  aad: Uint8Array,
+  tagLength: number,
+  decrypting: boolean
+): { output: Uint8Array; tag: Uint8Array } {
+  const table = new OffsetTable(cipher);
+  const output = new Uint8Array(input.length);
+  let offset = initialOffset(cipher, nonce, tagLength);
+  let checksum = new Uint8Array(BLOCK_SIZE);
+  const fullBlocks = Math.floor(input.length / BLOCK_SIZE);
+
+  for (let i = 1; i <= fullBlocks; i++) {
+    offset = xorBytes(offset, table.get(ntz(i)));
+    const block = input.subarray((i - 1) * BLOCK_SIZE, i * BLOCK_SIZE);
+    const processed = decrypting
+      ? xorBytes(cipher.decryptBlock(xorBytes(block, offset)), offset)
+      : xorBytes(cipher.encryptBlock(xorBytes(block, offset)), offset);
+    output.set(processed, (i - 1) * BLOCK_SIZE);
+    checksum = xorBytes(checksum, decrypting ? processed : block);
+  }
+
+  const remainder = input.subarray(fullBlocks * BLOCK_SIZE);
+  if (remainder.length > 0) {
+    offset = xorBytes(offset, table.lStar);
+    const pad = cipher.encryptBlock(offset);
+    const processed = xorBytes(remainder, pad);
+    output.set(processed, fullBlocks * BLOCK_SIZE);
+    checksum = xorBytes(checksum, padPartial(decrypting ? processed : remainder));
+  }
+
+  const tag = xorBytes(
+    cipher.encryptBlock(xorBytes(xorBytes(checksum, offset), table.lDollar)),
+    hashAad(cipher, table, aad)
+  );
+  return { output, tag: tag.subarray(0, tagLength) };
+}
+
+export function ocbEncrypt(
+  cipher: BlockCipher,
+  nonce: Uint8Array,
+  plaintext: Uint8Array,
+  aad: Uint8Array,
+  tagLength: number = 16
+): { ciphertext: Uint8Array; tag: Uint8Array } {
+  validate(cipher, nonce, tagLength);
+  const { output, tag } = crypt(cipher, nonce, plaintext, aad, tagLength, false);
+  return { ciphertext: output, tag };
+}
+
+/**
+ * Decrypt and verify the tag; the plaintext is only returned when the tag matches
+ */
+export function ocbDecrypt(
+  cipher: BlockCipher,
+  nonce: Uint8Array,
+  ciphertext: Uint8Array,
+  tag: Uint8Array,
+  aad: Uint8Array
+): Uint8Array {
+  validate(cipher, nonce, tag.length);
+  const { output, tag: expected } = crypt(cipher, nonce, ciphertext, aad, tag.length, true);
+  if (!secureCompare(expected, tag)) {
+    throw new AuthenticationError();
+  }
+  return output;
+}
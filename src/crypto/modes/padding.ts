@@ -0,0 +1,111 @@
+/**
+ * Block cipher padding schemes
+ */
+
+import { PaddingScheme } from '@/types/crypto';
+import { getRandomBytes, PaddingError } from '@/lib/crypto-utils';
+
+export const PADDING_SCHEMES: PaddingScheme[] = ['PKCS7', 'ISO7816-4', 'ANSIX923', 'ISO10126', 'Zero', 'None'];
+
+export const PADDING_LABELS: Record<PaddingScheme, string> = {
+  'PKCS7': 'PKCS#7',
+  'ISO7816-4': 'ISO/IEC 7816-4',
+  'ANSIX923': 'ANSI X9.23',
+  'ISO10126': 'ISO 10126',
+  'Zero': 'Zero padding',
+  'None': 'No padding'
+};
+
+const hexByte = (value: number) => `0x${value.toString(16).padStart(2, '0')}`;
+
+export function pad(data: Uint8Array, blockSize: number, scheme: PaddingScheme): Uint8Array {
+  if (scheme === 'None') {
+    if (data.length % blockSize !== 0) {
+      throw new PaddingError(`Input must be a multiple of ${blockSize} bytes when padding is disabled (got ${data.length} bytes)`);
+    }
+    return data;
+  }
+
+  // Zero padding leaves block-aligned input untouched; every other scheme always adds at least one byte
+  const padLength = scheme === 'Zero'
+    ? (blockSize - (data.length % blockSize)) % blockSize
+    : blockSize - (data.length % blockSize);
+  const padded = new Uint8Array(data.length + padLength);
+  padded.set(data);
+
+  switch (scheme) {
+    case 'PKCS7':
+      padded.fill(padLength, data.length);
+      break;
+    case 'ISO7816-4':
+      padded[data.length] = 0x80;
+      break;
+    case 'ANSIX923':
+      padded[padded.length - 1] = padLength;
+      break;
+    case 'ISO10126':
+      padded.set(getRandomBytes(padLength - 1), data.length);
+      padded[padded.length - 1] = padLength;
+      break;
+  }
+
+  return padded;
+}
+
+/**
+ * Read and range-check the trailing pad-length byte used by PKCS#7, ANSI X9.23 and ISO 10126
+ */
+function readPadLength(data: Uint8Array, blockSize: number, label: string): number {
+  if (data.length === 0) {
+    throw new PaddingError(`Invalid ${label} padding: the decrypted data is empty`);
+  }
+  const padLength = data[data.length - 1];
+  if (padLength === 0 || padLength > blockSize || padLength > data.length) {
+    throw new PaddingError(`Invalid ${label} padding: pad length ${padLength} is outside 1-${blockSize}`);
+  }
+  return padLength;
+}
+
+export function unpad(data: Uint8Array, blockSize: number, scheme: PaddingScheme): Uint8Array {
+  const label = PADDING_LABELS[scheme];
+
+  switch (scheme) {
+    case 'None':
+      return data;
+
+    case 'Zero': {
+      let end = data.length;
+      while (end > 0 && end > data.length - blockSize && data[end - 1] === 0) end--;
+      return data.slice(0, end);
+    }
+
+    case 'PKCS7':
+    case 'ANSIX923': {
+      const padLength = readPadLength(data, blockSize, label);
+      const expected = scheme === 'PKCS7' ? padLength : 0;
+      for (let i = data.length - padLength; i < data.length - 1; i++) {
+        if (data[i] !== expected) {
+          throw new PaddingError(
+            `Invalid ${label} padding: byte ${i} is ${hexByte(data[i])} but expected ${hexByte(expected)}`
+          );
+        }
+      }
+      return data.slice(0, data.length - padLength);
+    }
+
+    case 'ISO10126':
+      return data.slice(0, data.length - readPadLength(data, blockSize, label));
+
+    case 'ISO7816-4': {
+      let marker = data.length - 1;
+      while (marker >= 0 && marker > data.length - 1 - blockSize && data[marker] === 0) marker--;
+      if (marker < 0 || marker <= data.length - 1 - blockSize) {
+        throw new PaddingError(`Invalid ${label} padding: no 0x80 marker in the final ${blockSize} bytes`);
+      }
+      if (data[marker] !== 0x80) {
+        throw new PaddingError(`Invalid ${label} padding: byte ${marker} is ${hexByte(data[marker])} but expected the 0x80 marker`);
+      }
+      return data.slice(0, marker);
+    }
+  }
+}
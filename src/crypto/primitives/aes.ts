@@ -0,0 +1,175 @@
+/**
+ * AES block primitive (FIPS 197)
+ */
+
+import { BlockCipher } from './block-cipher';
+
+const SBOX = new Uint8Array(256);
+const INV_SBOX = new Uint8Array(256);
+
+function xtime(value: number): number {
+  return ((value << 1) ^ (value & 0x80 ? 0x1b : 0)) & 0xff;
+}
+
+function gfMultiply(a: number, b: number): number {
+  let result = 0;
+  while (b) {
+    if (b & 1) result ^= a;
+    a = xtime(a);
+    b >>= 1;
+  }
+  return result;
+}
+
+// Build the S-boxes from multiplicative inverses in GF(2^8) followed by the affine transform
+(() => {
+  const rotl8 = (x: number, shift: number) => ((x << shift) | (x >>> (8 - shift))) & 0xff;
+  let p = 1;
+  let q = 1;
+  do {
+    // Walk the multiplicative group with generator 3; q tracks the inverse of p
+    p = p ^ xtime(p);
+    q ^= q << 1;
+    q ^= q << 2;
+    q ^= q << 4;
+    q &= 0xff;
+    if (q & 0x80) q ^= 0x09;
+
+    const value = q ^ rotl8(q, 1) ^ rotl8(q, 2) ^ rotl8(q, 3) ^ rotl8(q, 4) ^ 0x63;
+    SBOX[p] = value;
+    INV_SBOX[value] = p;
+  } while (p !== 1);
+  SBOX[0] = 0x63;
+  INV_SBOX[0x63] = 0;
+})();
+
+export class AESBlockCipher implements BlockCipher {
+  readonly blockSize = 16;
+  private readonly rounds: number;
+  private readonly roundKeys: Uint8Array;
+
+  constructor(key: Uint8Array) {
+    if (![16, 24, 32].includes(key.length)) {
+      throw new Error('AES key must be 16, 24 or 32 bytes');
+    }
+    this.rounds = key.length / 4 + 6;
+    this.roundKeys = this.expandKey(key);
+  }
+
+  encryptBlock(block: Uint8Array): Uint8Array {
+    const state = new Uint8Array(block.subarray(0, 16));
+    this.addRoundKey(state, 0);
+
+    for (let round = 1; round < this.rounds; round++) {
+      this.subBytes(state, SBOX);
+      this.shiftRows(state);
+      this.mixColumns(state);
+      this.addRoundKey(state, round);
+    }
+
+    this.subBytes(state, SBOX);
+    this.shiftRows(state);
+    this.addRoundKey(state, this.rounds);
+    return state;
+  }
+
+  decryptBlock(block: Uint8Array): Uint8Array {
+    const state = new Uint8Array(block.subarray(0, 16));
+    this.addRoundKey(state, this.rounds);
+
+    for (let round = this.rounds - 1; round > 0; round--) {
+      this.invShiftRows(state);
+      this.subBytes(state, INV_SBOX);
+      this.addRoundKey(state, round);
+      this.invMixColumns(state);
+    }
+
+    this.invShiftRows(state);
+    this.subBytes(state, INV_SBOX);
+    this.addRoundKey(state, 0);
+    return state;
+  }
+
+  private expandKey(key: Uint8Array): Uint8Array {
+    const keyWords = key.length / 4;
+    const totalWords = 4 * (this.rounds + 1);
+    const expanded = new Uint8Array(totalWords * 4);
+    expanded.set(key);
+
+    let rcon = 1;
+    for (let i = keyWords; i < totalWords; i++) {
+      let t0 = expanded[(i - 1) * 4];
+      let t1 = expanded[(i - 1) * 4 + 1];
+      let t2 = expanded[(i - 1) * 4 + 2];
+      let t3 = expanded[(i - 1) * 4 + 3];
+
+      if (i % keyWords === 0) {
+        // RotWord, SubWord and round constant
+        [t0, t1, t2, t3] = [SBOX[t1] ^ rcon, SBOX[t2], SBOX[t3], SBOX[t0]];
+        rcon = xtime(rcon);
+      } else if (keyWords > 6 && i % keyWords === 4) {
+        [t0, t1, t2, t3] = [SBOX[t0], SBOX[t1], SBOX[t2], SBOX[t3]];
+      }
+
+      expanded[i * 4] = expanded[(i - keyWords) * 4] ^ t0;
+      expanded[i * 4 + 1] = expanded[(i - keyWords) * 4 + 1] ^ t1;
+      expanded[i * 4 + 2] = expanded[(i - keyWords) * 4 + 2] ^ t2;
+      expanded[i * 4 + 3] = expanded[(i - keyWords) * 4 + 3] ^ t3;
+    }
+
+    return expanded;
+  }
+
+  private addRoundKey(state: Uint8Array, round: number): void {
+    for (let i = 0; i < 16; i++) {
+      state[i] ^= this.roundKeys[round * 16 + i];
+    }
+  }
+
+  private subBytes(state: Uint8Array, box: Uint8Array): void {
+    for (let i = 0; i < 16; i++) {
+      state[i] = box[state[i]];
+    }
+  }
+
+  // The state is column-major: byte (row, column) lives at index row + 4 * column
+  private shiftRows(state: Uint8Array): void {
+    const copy = state.slice();
+    for (let row = 1; row < 4; row++) {
+      for (let column = 0; column < 4; column++) {
+        state[row + 4 * column] = copy[row + 4 * ((column + row) % 4)];
+      }
+    }
+  }
+
+  private invShiftRows(state: Uint8Array): void {
+    const copy = state.slice();
+    for (let row = 1; row < 4; row++) {
+      for (let column = 0; column < 4; column++) {
+        state[row + 4 * ((column + row) % 4)] = copy[row + 4 * column];
+      }
+    }
+  }
+
+  private mixColumns(state: Uint8Array): void {
+    for (let column = 0; column < 4; column++) {
+      const i = column * 4;
+      const [a0, a1, a2, a3] = [state[i], state[i + 1], state[i + 2], state[i + 3]];
+      state[i] = xtime(a0) ^ xtime(a1) ^ a1 ^ a2 ^ a3;
+      state[i + 1] = a0 ^ xtime(a1) ^ xtime(a2) ^ a2 ^ a3;
+      state[i + 2] = a0 ^ a1 ^ xtime(a2) ^ xtime(a3) ^ a3;
+      state[i + 3] = xtime(a0) ^ a0 ^ a1 ^ a2 ^ xtime(a3);
+    }
+  }
+
+  private invMixColumns(state: Uint8Array): void {
+    for (let column = 0; column < 4; column++) {
+      const i = column * 4;
+      const [a0, a1, a2, a3] = [state[i], state[i + 1], state[i + 2], state[i + 3]];
+      state[i] = gfMultiply(a0, 14) ^ gfMultiply(a1, 11) ^ gfMultiply(a2, 13) ^ gfMultiply(a3, 9);
+      state[i + 1] = gfMultiply(a0, 9) ^ gfMultiply(a1, 14) ^ gfMultiply(a2, 11) ^ gfMultiply(a3, 13);
+      state[i + 2] = gfMultiply(a0, 13) ^ gfMultiply(a1, 9) ^ gfMultiply(a2, 14) ^ gfMultiply(a3, 11);
+      state[i + 3] = gfMultiply(a0, 11) ^ gfMultiply(a1, 13) ^ gfMultiply(a2, 9) ^ gfMultiply(a3, 14);
+    }
+  }
+}
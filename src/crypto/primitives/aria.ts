@@ -0,0 +1,185 @@
+/**
+ * ARIA block primitive (RFC 5794): a substitution-permutation network of 12, 14 or 16 rounds for
+ * 128-, 192- and 256-bit keys, alternating two substitution layers around an involutive diffusion layer
+ */
+
+import { BlockCipher } from './block-cipher';
+
+const SB1 = [
+  0x63, 0x7c, 0x77, 0x7b, 0xf2, 0x6b, 0x6f, 0xc5, 0x30, 0x01, 0x67, 0x2b, 0xfe, 0xd7, 0xab, 0x76,
+  0xca, 0x82, 0xc9, 0x7d, 0xfa, 0x59, 0x47, 0xf0, 0xad, 0xd4, 0xa2, 0xaf, 0x9c, 0xa4, 0x72, 0xc0,
+  0xb7, 0xfd, 0x93, 0x26, 0x36, 0x3f, 0xf7, 0xcc, 0x34, 0xa5, 0xe5, 0xf1, 0x71, 0xd8, 0x31, 0x15,
+  0x04, 0xc7, 0x23, 0xc3, 0x18, 0x96, 0x05, 0x9a, 0x07, 0x12, 0x80, 0xe2, 0xeb, 0x27, 0xb2, 0x75,
+  0x09, 0x83, 0x2c, 0x1a, 0x1b, 0x6e, 0x5a, 0xa0, 0x52, 0x3b, 0xd6, 0xb3, 0x29, 0xe3, 0x2f, 0x84,
+  0x53, 0xd1, 0x00, 0xed, 0x20, 0xfc, 0xb1, 0x5b, 0x6a, 0xcb, 0xbe, 0x39, 0x4a, 0x4c, 0x58, 0xcf,
+  0xd0, 0xef, 0xaa, 0xfb, 0x43, 0x4d, 0x33, 0x85, 0x45, 0xf9, 0x02, 0x7f, 0x50, 0x3c, 0x9f, 0xa8,
+  0x51, 0xa3, 0x40, 0x8f, 0x92, 0x9d, 0x38, 0xf5, 0xbc, 0xb6, 0xda, 0x21, 0x10, 0xff, 0xf3, 0xd2,
+  0xcd, 0x0c, 0x13, 0xec, 0x5f, 0x97, 0x44, 0x17, 0xc4, 0xa7, 0x7e, 0x3d, 0x64, 0x5d, 0x19, 0x73,
+  0x60, 0x81, 0x4f, 0xdc, 0x22, 0x2a, 0x90, 0x88, 0x46, 0xee, 0xb8, 0x14, 0xde, 0x5e, 0x0b, 0xdb,
+  0xe0, 0x32, 0x3a, 0x0a, 0x49, 0x06, 0x24, 0x5c, 0xc2, 0xd3, 0xac, 0x62, 0x91, 0x95, 0xe4, 0x79,
+  0xe7, 0xc8, 0x37, 0x6d, 0x8d, 0xd5, 0x4e, 0xa9, 0x6c, 0x56, 0xf4, 0xea, 0x65, 0x7a, 0xae, 0x08,
+  0xba, 0x78, 0x25, 0x2e, 0x1c, 0xa6, 0xb4, 0xc6, 0xe8, 0xdd, 0x74, 0x1f, 0x4b, 0xbd, 0x8b, 0x8a,
+  0x70, 0x3e, 0xb5, 0x66, 0x48, 0x03, 0xf6, 0x0e, 0x61, 0x35, 0x57, 0xb9, 0x86, 0xc1, 0x1d, 0x9e,
+  0xe1, 0xf8, 0x98, 0x11, 0x69, 0xd9, 0x8e, 0x94, 0x9b, 0x1e, 0x87, 0xe9, 0xce, 0x55, 0x28, 0xdf,
+  0x8c, 0xa1, 0x89, 0x0d, 0xbf, 0xe6, 0x42, 0x68, 0x41, 0x99, 0x2d, 0x0f, 0xb0, 0x54, 0xbb, 0x16
+];
+
+const SB2 = [
+  0xe2, 0x4e, 0x54, 0xfc, 0x94, 0xc2, 0x4a, 0xcc, 0x62, 0x0d, 0x6a, 0x46, 0x3c, 0x4d, 0x8b, 0xd1,
+  0x5e, 0xfa, 0x64, 0xcb, 0xb4, 0x97, 0xbe, 0x2b, 0xbc, 0x77, 0x2e, 0x03, 0xd3, 0x19, 0x59, 0xc1,
+  0x1d, 0x06, 0x41, 0x6b, 0x55, 0xf0, 0x99, 0x69, 0xea, 0x9c, 0x18, 0xae, 0x63, 0xdf, 0xe7, 0xbb,
+  0x00, 0x73, 0x66, 0xfb, 0x96, 0x4c, 0x85, 0xe4, 0x3a, 0x09, 0x45, 0xaa, 0x0f, 0xee, 0x10, 0xeb,
+  0x2d, 0x7f, 0xf4, 0x29, 0xac, 0xcf, 0xad, 0x91, 0x8d, 0x78, 0xc8, 0x95, 0xf9, 0x2f, 0xce, 0xcd,
+  0x08, 0x7a, 0x88, 0x38, 0x5c, 0x83, 0x2a, 0x28, 0x47, 0xdb, 0xb8, 0xc7, 0x93, 0xa4, 0x12, 0x53,
+  0xff, 0x87, 0x0e, 0x31, 0x36, 0x21, 0x58, 0x48, 0x01, 0x8e, 0x37, 0x74, 0x32, 0xca, 0xe9, 0xb1,
+  0xb7, 0xab, 0x0c, 0xd7, 0xc4, 0x56, 0x42, 0x26, 0x07, 0x98, 0x60, 0xd9, 0xb6, 0xb9, 0x11, 0x40,
+  0xec, 0x20, 0x8c, 0xbd, 0xa0, 0xc9, 0x84, 0x04, 0x49, 0x23, 0xf1, 0x4f, 0x50, 0x1f, 0x13, 0xdc,
+  0xd8, 0xc0, 0x9e, 0x57, 0xe3, 0xc3, 0x7b, 0x65, 0x3b, 0x02, 0x8f, 0x3e, 0xe8, 0x25, 0x92, 0xe5,
+  0x15, 0xdd, 0xfd, 0x17, 0xa9, 0xbf, 0xd4, 0x9a, 0x7e, 0xc5, 0x39, 0x67, 0xfe, 0x76, 0x9d, 0x43,
+  0xa7, 0xe1, 0xd0, 0xf5, 0x68, 0xf2, 0x1b, 0x34, 0x70, 0x05, 0xa3, 0x8a, 0xd5, 0x79, 0x86, 0xa8,
+  0x30, 0xc6, 0x51, 0x4b, 0x1e, 0xa6, 0x27, 0xf6, 0x35, 0xd2, 0x6e, 0x24, 0x16, 0x82, 0x5f, 0xda,
+  0xe6, 0x75, 0xa2, 0xef, 0x2c, 0xb2, 0x1c, 0x9f, 0x5d, 0x6f, 0x80, 0x0a, 0x72, 0x44, 0x9b, 0x6c,
+  0x90, 0x0b, 0x5b, 0x33, 0x7d, 0x5a, 0x52, 0xf3, 0x61, 0xa1, 0xf7, 0xb0, 0xd6, 0x3f, 0x7c, 0x6d,
+  0xed, 0x14, 0xe0, 0xa5, 0x3d, 0x22, 0xb3, 0xf8, 0x89, 0xde, 0x71, 0x1a, 0xaf, 0xba, 0xb5, 0x81
+];
+
+const invert = (box: number[]): number[] => {
+  const inverse = new Array<number>(256);
+  box.forEach((value, index) => {
+    inverse[value] = index;
+  });
+  return inverse;
+};
+
+const SB3 = invert(SB1);
+const SB4 = invert(SB2);
+
+// Odd rounds use substitution layer type 1, even rounds type 2
+const SL1 = [SB1, SB2, SB3, SB4];
+const SL2 = [SB3, SB4, SB1, SB2];
+
+// Output byte i of the diffusion layer is the XOR of these seven input bytes
+const DIFFUSION = [
+  [3, 4, 6, 8, 9, 13, 14],
+  [2, 5, 7, 8, 9, 12, 15],
+  [1, 4, 6, 10, 11, 12, 15],
+  [0, 5, 7, 10, 11, 13, 14],
+  [0, 2, 5, 8, 11, 14, 15],
+  [1, 3, 4, 9, 10, 14, 15],
+  [0, 2, 7, 9, 10, 12, 13],
+  [1, 3, 6, 8, 11, 12, 13],
+  [0, 1, 4, 7, 10, 13, 15],
+  [0, 1, 5, 6, 11, 12, 14],
+  [2, 3, 5, 6, 8, 13, 15],
+  [2, 3, 4, 7, 9, 12, 14],
+  [1, 2, 6, 7, 9, 11, 12],
+  [0, 3, 6, 7, 8, 10, 13],
+  [0, 3, 4, 5, 9, 11, 14],
+  [1, 2, 4, 5, 8, 10, 15]
+];
+
+// Key schedule constants C1-C3, the fractional part of 1/pi
+const C = [
+  0x517cc1b727220a94fe13abe8fa9a6ee0n,
+  0x6db14acc9e21c820ff28b1d5ef5de2b0n,
+  0xdb92371d2126e9700324977504e8c90en
+];
+
+const MASK_128 = (1n << 128n) - 1n;
+
+function substitute(x: Uint8Array, layer: number[][]): Uint8Array {
+  return x.map((byte, i) => layer[i % 4][byte]);
+}
+
+function diffuse(x: Uint8Array): Uint8Array {
+  return Uint8Array.from(DIFFUSION, inputs => inputs.reduce((acc, i) => acc ^ x[i], 0));
+}
+
+function xorBlocks(a: Uint8Array, b: Uint8Array): Uint8Array {
+  return a.map((byte, i) => byte ^ b[i]);
+}
+
+function oddRound(x: Uint8Array, key: Uint8Array): Uint8Array {
+  return diffuse(substitute(xorBlocks(x, key), SL1));
+}
+
+function evenRound(x: Uint8Array, key: Uint8Array): Uint8Array {
+  return diffuse(substitute(xorBlocks(x, key), SL2));
+}
+
+function toBigInt(bytes: Uint8Array): bigint {
+  return bytes.reduce((value, byte) => (value << 8n) | BigInt(byte), 0n);
+}
+
+function toBytes(value: bigint): Uint8Array {
+  const bytes = new Uint8Array(16);
+  for (let i = 15; i >= 0; i--) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+}
+
+function rotr128(x: bigint, n: number): bigint {
+  const shift = BigInt(n);
+  return ((x >> shift) | (x << (128n - shift))) & MASK_128;
+}
+
+export class AriaBlockCipher implements BlockCipher {
+  readonly blockSize = 16;
+  readonly rounds: number;
+  private readonly encryptionKeys: Uint8Array[];
+  private readonly decryptionKeys: Uint8Array[];
+
+  constructor(key: Uint8Array) {
+    if (![16, 24, 32].includes(key.length)) {
+      throw new Error('ARIA key must be 16, 24 or 32 bytes');
+    }
+    this.rounds = key.length / 4 + 8;
+
+    // KR is the key beyond the first 128 bits, zero-padded to 128 bits
+    const right = new Uint8Array(16);
+    right.set(key.subarray(16));
+    const w0 = key.subarray(0, 16);
+
+    // The constants are used in a rotated order depending on the key size
+    const offset = (key.length - 16) / 8;
+    const [ck1, ck2, ck3] = [0, 1, 2].map(i => toBytes(C[(offset + i) % 3]));
+    const w1 = xorBlocks(oddRound(w0, ck1), right);
+    const w2 = xorBlocks(evenRound(w1, ck2), w0);
+    const w3 = xorBlocks(oddRound(w2, ck3), w1);
+
+    const w = [w0, w1, w2, w3].map(toBigInt);
+    this.encryptionKeys = [];
+    for (let i = 0; i <= this.rounds; i++) {
+      // Each group of four keys mixes every W with its successor rotated right by 19 or 31 bits, then left by 61, 31 and 19
+      const rotation = [19, 31, 67, 97, 109][Math.floor(i / 4)];
+      this.encryptionKeys.push(toBytes(w[i % 4] ^ rotr128(w[(i + 1) % 4], rotation)));
+    }
+
+    // Decryption keys: the encryption keys reversed, with the diffusion layer applied to the inner ones
+    this.decryptionKeys = this.encryptionKeys.map((_, i) => {
+      const source = this.encryptionKeys[this.rounds - i];
+      return i === 0 || i === this.rounds ? source : diffuse(source);
+    });
+  }
+
+  encryptBlock(block: Uint8Array): Uint8Array {
+    return this.crypt(block, this.encryptionKeys);
+  }
+
+  decryptBlock(block: Uint8Array): Uint8Array {
+    return this.crypt(block, this.decryptionKeys);
+  }
+
+  private crypt(block: Uint8Array, keys: Uint8Array[]): Uint8Array {
+    let state = block.slice(0, 16);
+    for (let round = 0; round < this.rounds - 1; round++) {
+      state = round % 2 === 0 ? oddRound(state, keys[round]) : evenRound(state, keys[round]);
+    }
+
+    // The final round replaces the diffusion layer with a last key addition
+    const last = substitute(xorBlocks(state, keys[this.rounds - 1]), SL2);
+    return xorBlocks(last, keys[this.rounds]);
+  }
+}
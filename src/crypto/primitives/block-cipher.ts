@@ -0,0 +1,34 @@
+/**
+ * Shared contract for raw block cipher primitives used by the mode implementations
+ */
+export interface BlockCipher {
+  readonly blockSize: number;
+  encryptBlock(block: Uint8Array): Uint8Array;
+  decryptBlock(block: Uint8Array): Uint8Array;
+}
+
+/**
+ * XOR two byte strings; the result has the length of the first argument
+ */
+export function xorBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a);
+  for (let i = 0; i < result.length && i < b.length; i++) {
+    result[i] ^= b[i];
+  }
+  return result;
+}
+
+/**
+ * Multiply a 128-bit block by x in GF(2^128) (the "dbl" operation of CMAC, SIV and OCB)
+ */
+export function doubleBlock(block: Uint8Array): Uint8Array {
+  const result = new Uint8Array(16);
+  for (let i = 0; i < 15; i++) {
+    result[i] = ((block[i] << 1) | (block[i + 1] >>> 7)) & 0xff;
+  }
+  result[15] = (block[15] << 1) & 0xff;
+  if (block[0] & 0x80) {
+    result[15] ^= 0x87;
+  }
+  return result;
+}
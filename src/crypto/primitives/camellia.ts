@@ -0,0 +1,228 @@
+/**
+ * Camellia block primitive (RFC 3713): an 18-round Feistel network for 128-bit keys and 24 rounds
+ * for 192- and 256-bit keys, with FL/FL^-1 layers every six rounds
+ */
+
+import { BlockCipher } from './block-cipher';
+
+// 64-bit values are carried as [high, low] pairs of unsigned 32-bit words
+type Word64 = [number, number];
+
+const SBOX1 = [
+  112, 130, 44, 236, 179, 39, 192, 229, 228, 133, 87, 53, 234, 12, 174, 65,
+  35, 239, 107, 147, 69, 25, 165, 33, 237, 14, 79, 78, 29, 101, 146, 189,
+  134, 184, 175, 143, 124, 235, 31, 206, 62, 48, 220, 95, 94, 197, 11, 26,
+  166, 225, 57, 202, 213, 71, 93, 61, 217, 1, 90, 214, 81, 86, 108, 77,
+  139, 13, 154, 102, 251, 204, 176, 45, 116, 18, 43, 32, 240, 177, 132, 153,
+  223, 76, 203, 194, 52, 126, 118, 5, 109, 183, 169, 49, 209, 23, 4, 215,
+  20, 88, 58, 97, 222, 27, 17, 28, 50, 15, 156, 22, 83, 24, 242, 34,
+  254, 68, 207, 178, 195, 181, 122, 145, 36, 8, 232, 168, 96, 252, 105, 80,
+  170, 208, 160, 125, 161, 137, 98, 151, 84, 91, 30, 149, 224, 255, 100, 210,
+  16, 196, 0, 72, 163, 247, 117, 219, 138, 3, 230, 218, 9, 63, 221, 148,
+  135, 92, 131, 2, 205, 74, 144, 51, 115, 103, 246, 243, 157, 127, 191, 226,
+  82, 155, 216, 38, 200, 55, 198, 59, 129, 150, 111, 75, 19, 190, 99, 46,
+  233, 121, 167, 140, 159, 110, 188, 142, 41, 245, 249, 182, 47, 253, 180, 89,
+  120, 152, 6, 106, 231, 70, 113, 186, 212, 37, 171, 66, 136, 162, 141, 250,
+  114, 7, 185, 85, 248, 238, 172, 10, 54, 73, 42, 104, 60, 56, 241, 164,
+  64, 40, 211, 123, 187, 201, 67, 193, 21, 227, 173, 244, 119, 199, 128, 158
+];
+
+const rotl8 = (x: number, n: number): number => ((x << n) | (x >>> (8 - n))) & 0xff;
+
+const SBOX2 = SBOX1.map(x => rotl8(x, 1));
+const SBOX3 = SBOX1.map(x => rotl8(x, 7));
+const SBOX4 = SBOX1.map((_, x) => SBOX1[rotl8(x, 1)]);
+
+// Key schedule constants Sigma1-Sigma6
+const SIGMA: Word64[] = [
+  [0xa09e667f, 0x3bcc908b],
+  [0xb67ae858, 0x4caa73b2],
+  [0xc6ef372f, 0xe94f82be],
+  [0x54ff53a5, 0xf1d36f1c],
+  [0x10e527fa, 0xde682d1d],
+  [0xb05688c2, 0xb3e6c1fd]
+];
+
+const MASK_64 = (1n << 64n) - 1n;
+const MASK_128 = (1n << 128n) - 1n;
+
+function rotl32(x: number, n: number): number {
+  return ((x << n) | (x >>> (32 - n))) >>> 0;
+}
+
+function xor64(a: Word64, b: Word64): Word64 {
+  return [(a[0] ^ b[0]) >>> 0, (a[1] ^ b[1]) >>> 0];
+}
+
+function f([inHigh, inLow]: Word64, [keyHigh, keyLow]: Word64): Word64 {
+  const high = (inHigh ^ keyHigh) >>> 0;
+  const low = (inLow ^ keyLow) >>> 0;
+  const t1 = SBOX1[high >>> 24];
+  const t2 = SBOX2[(high >>> 16) & 0xff];
+  const t3 = SBOX3[(high >>> 8) & 0xff];
+  const t4 = SBOX4[high & 0xff];
+  const t5 = SBOX2[low >>> 24];
+  const t6 = SBOX3[(low >>> 16) & 0xff];
+  const t7 = SBOX4[(low >>> 8) & 0xff];
+  const t8 = SBOX1[low & 0xff];
+
+  // The P-function: a byte-oriented linear mixing layer
+  const y1 = t1 ^ t3 ^ t4 ^ t6 ^ t7 ^ t8;
+  const y2 = t1 ^ t2 ^ t4 ^ t5 ^ t7 ^ t8;
+  const y3 = t1 ^ t2 ^ t3 ^ t5 ^ t6 ^ t8;
+  const y4 = t2 ^ t3 ^ t4 ^ t5 ^ t6 ^ t7;
+  const y5 = t1 ^ t2 ^ t6 ^ t7 ^ t8;
+  const y6 = t2 ^ t3 ^ t5 ^ t7 ^ t8;
+  const y7 = t3 ^ t4 ^ t5 ^ t6 ^ t8;
+  const y8 = t1 ^ t4 ^ t5 ^ t6 ^ t7;
+  return [((y1 << 24) | (y2 << 16) | (y3 << 8) | y4) >>> 0, ((y5 << 24) | (y6 << 16) | (y7 << 8) | y8) >>> 0];
+}
+
+function fl([x1, x2]: Word64, [k1, k2]: Word64): Word64 {
+  x2 = (x2 ^ rotl32((x1 & k1) >>> 0, 1)) >>> 0;
+  x1 = (x1 ^ (x2 | k2)) >>> 0;
+  return [x1, x2];
+}
+
+function flInverse([y1, y2]: Word64, [k1, k2]: Word64): Word64 {
+  y1 = (y1 ^ (y2 | k2)) >>> 0;
+  y2 = (y2 ^ rotl32((y1 & k1) >>> 0, 1)) >>> 0;
+  return [y1, y2];
+}
+
+function toWord64(value: bigint): Word64 {
+  return [Number((value >> 32n) & 0xffffffffn), Number(value & 0xffffffffn)];
+}
+
+function fromWord64([high, low]: Word64): bigint {
+  return (BigInt(high) << 32n) | BigInt(low);
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  return bytes.reduce((value, byte) => (value << 8n) | BigInt(byte), 0n);
+}
+
+function rotl128(x: bigint, n: number): bigint {
+  const shift = BigInt(n % 128);
+  return ((x << shift) | (x >> (128n - shift))) & MASK_128;
+}
+
+// Both 64-bit halves of a 128-bit key rotated left by n bits
+function halves(x: bigint, n: number): Word64[] {
+  const rotated = rotl128(x, n);
+  return [toWord64(rotated >> 64n), toWord64(rotated & MASK_64)];
+}
+
+interface Subkeys {
+  kw: Word64[];
+  k: Word64[];
+  ke: Word64[];
+}
+
+export class CamelliaBlockCipher implements BlockCipher {
+  readonly blockSize = 16;
+  private readonly encryptionKeys: Subkeys;
+  private readonly decryptionKeys: Subkeys;
+
+  constructor(key: Uint8Array) {
+    if (![16, 24, 32].includes(key.length)) {
+      throw new Error('Camellia key must be 16, 24 or 32 bytes');
+    }
+
+    const kl = bytesToBigInt(key.subarray(0, 16));
+    let kr = 0n;
+    if (key.length === 24) {
+      const right = bytesToBigInt(key.subarray(16));
+      kr = (right << 64n) | (~right & MASK_64);
+    } else if (key.length === 32) {
+      kr = bytesToBigInt(key.subarray(16));
+    }
+
+    const ka = this.deriveKA(kl, kr);
+    this.encryptionKeys = key.length === 16 ? this.schedule128(kl, ka) : this.schedule256(kl, kr, ka, this.deriveKB(ka, kr));
+
+    // Decryption runs the same network with every subkey sequence reversed
+    const { kw, k, ke } = this.encryptionKeys;
+    this.decryptionKeys = { kw: [kw[2], kw[3], kw[0], kw[1]], k: [...k].reverse(), ke: [...ke].reverse() };
+  }
+
+  encryptBlock(block: Uint8Array): Uint8Array {
+    return this.crypt(block, this.encryptionKeys);
+  }
+
+  decryptBlock(block: Uint8Array): Uint8Array {
+    return this.crypt(block, this.decryptionKeys);
+  }
+
+  private crypt(block: Uint8Array, { kw, k, ke }: Subkeys): Uint8Array {
+    const view = new DataView(block.buffer, block.byteOffset, 16);
+    let d1 = xor64([view.getUint32(0), view.getUint32(4)], kw[0]);
+    let d2 = xor64([view.getUint32(8), view.getUint32(12)], kw[1]);
+
+    for (let round = 0; round < k.length; round += 2) {
+      // FL/FL^-1 layer between each group of six rounds
+      if (round > 0 && round % 6 === 0) {
+        const layer = round / 6 - 1;
+        d1 = fl(d1, ke[layer * 2]);
+        d2 = flInverse(d2, ke[layer * 2 + 1]);
+      }
+      d2 = xor64(d2, f(d1, k[round]));
+      d1 = xor64(d1, f(d2, k[round + 1]));
+    }
+
+    d2 = xor64(d2, kw[2]);
+    d1 = xor64(d1, kw[3]);
+
+    const output = new Uint8Array(16);
+    const outputView = new DataView(output.buffer);
+    [...d2, ...d1].forEach((word, i) => outputView.setUint32(i * 4, word));
+    return output;
+  }
+
+  private deriveKA(kl: bigint, kr: bigint): bigint {
+    const mixed = kl ^ kr;
+    let d1 = toWord64(mixed >> 64n);
+    let d2 = toWord64(mixed & MASK_64);
+    d2 = xor64(d2, f(d1, SIGMA[0]));
+    d1 = xor64(d1, f(d2, SIGMA[1]));
+    d1 = xor64(d1, toWord64(kl >> 64n));
+    d2 = xor64(d2, toWord64(kl & MASK_64));
+    d2 = xor64(d2, f(d1, SIGMA[2]));
+    d1 = xor64(d1, f(d2, SIGMA[3]));
+    return (fromWord64(d1) << 64n) | fromWord64(d2);
+  }
+
+  private deriveKB(ka: bigint, kr: bigint): bigint {
+    const mixed = ka ^ kr;
+    let d1 = toWord64(mixed >> 64n);
+    let d2 = toWord64(mixed & MASK_64);
+    d2 = xor64(d2, f(d1, SIGMA[4]));
+    d1 = xor64(d1, f(d2, SIGMA[5]));
+    return (fromWord64(d1) << 64n) | fromWord64(d2);
+  }
+
+  private schedule128(kl: bigint, ka: bigint): Subkeys {
+    return {
+      kw: [...halves(kl, 0), ...halves(ka, 111)],
+      k: [
+        ...halves(ka, 0), ...halves(kl, 15), ...halves(ka, 15),
+        ...halves(kl, 45), halves(ka, 45)[0], halves(kl, 60)[1], ...halves(ka, 60),
+        ...halves(kl, 94), ...halves(ka, 94), ...halves(kl, 111)
+      ],
+      ke: [...halves(ka, 30), ...halves(kl, 77)]
+    };
+  }
+
+  private schedule256(kl: bigint, kr: bigint, ka: bigint, kb: bigint): Subkeys {
+    return {
+      kw: [...halves(kl, 0), ...halves(kb, 111)],
+      k: [
+        ...halves(kb, 0), ...halves(kr, 15), ...halves(ka, 15),
+        ...halves(kb, 30), ...halves(kl, 45), ...halves(ka, 45),
+        ...halves(kr, 60), ...halves(kb, 60), ...halves(kl, 77),
+        ...halves(kr, 94), ...halves(ka, 94), ...halves(kl, 111)
+      ],
+      ke: [...halves(kr, 30), ...halves(kl, 60), ...halves(ka, 77)]
+    };
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * IDEA block primitive (Lai and Massey, 1991): 8.5 rounds mixing XOR, addition modulo 2^16 and
+ * multiplication modulo 2^16 + 1 on 16-bit words
+ */
+
+import { BlockCipher } from './block-cipher';
+
+const ROUNDS = 8;
+const SUBKEY_COUNT = 6 * ROUNDS + 4;
+
+/**
+ * Multiplication modulo 65537, where the all-zero word stands for 2^16
+ */
+function multiply(a: number, b: number): number {
+  return (((a || 0x10000) * (b || 0x10000)) % 0x10001) & 0xffff;
+}
+
+function multiplicativeInverse(x: number): number {
+  // 0 (2^16) and 1 are their own inverses; otherwise x^(p - 2) mod p by Fermat's little theorem
+  if (x <= 1) {
+    return x;
+  }
+  let result = 1;
+  let base = x;
+  for (let exponent = 0x10001 - 2; exponent > 0; exponent >>>= 1) {
+    if (exponent & 1) {
+      result = (result * base) % 0x10001;
+    }
+    base = (base * base) % 0x10001;
+  }
+  return result;
+}
+
+function additiveInverse(x: number): number {
+  return (0x10000 - x) & 0xffff;
+}
+
+export class IdeaBlockCipher implements BlockCipher {
+  readonly blockSize = 8;
+  private readonly encryptionKeys: number[] = [];
+  private readonly decryptionKeys: number[] = [];
+
+  constructor(key: Uint8Array) {
+    if (key.length !== 16) {
+      throw new Error('IDEA key must be 16 bytes');
+    }
+
+    // Subkeys are consecutive 16-bit slices of the key, which is rotated left 25 bits after every eight
+    let value = key.reduce((acc, byte) => (acc << 8n) | BigInt(byte), 0n);
+    const mask = (1n << 128n) - 1n;
+    while (this.encryptionKeys.length < SUBKEY_COUNT) {
+      for (let i = 7; i >= 0 && this.encryptionKeys.length < SUBKEY_COUNT; i--) {
+        this.encryptionKeys.push(Number((value >> BigInt(i * 16)) & 0xffffn));
+      }
+      value = ((value << 25n) | (value >> 103n)) & mask;
+    }
+
+    // Decryption uses the same structure with the key groups in reverse order, inverting the
+    // multiplicative and additive keys; the middle rounds also swap the two additive keys
+    const ek = this.encryptionKeys;
+    for (let round = 0; round <= ROUNDS; round++) {
+      const source = 6 * (ROUNDS - round);
+      const swap = round > 0 && round < ROUNDS;
+      this.decryptionKeys.push(
+        multiplicativeInverse(ek[source]),
+        additiveInverse(ek[source + (swap ? 2 : 1)]),
+        additiveInverse(ek[source + (swap ? 1 : 2)]),
+        multiplicativeInverse(ek[source + 3])
+      );
+      if (round < ROUNDS) {
+        this.decryptionKeys.push(ek[source - 2], ek[source - 1]);
+      }
+    }
+  }
+
+  encryptBlock(block: Uint8Array): Uint8Array {
+    return this.crypt(block, this.encryptionKeys);
+  }
+
+  decryptBlock(block: Uint8Array): Uint8Array {
+    return this.crypt(block, this.decryptionKeys);
+  }
+
+  private crypt(block: Uint8Array, keys: number[]): Uint8Array {
+    const view = new DataView(block.buffer, block.byteOffset, 8);
+    let x1 = view.getUint16(0);
+    let x2 = view.getUint16(2);
+    let x3 = view.getUint16(4);
+    let x4 = view.getUint16(6);
+
+    for (let round = 0; round < ROUNDS; round++) {
+      const k = keys.slice(round * 6, round * 6 + 6);
+      const a = multiply(x1, k[0]);
+      const b = (x2 + k[1]) & 0xffff;
+      const c = (x3 + k[2]) & 0xffff;
+      const d = multiply(x4, k[3]);
+
+      // Multiply-addition structure
+      const e = multiply(a ^ c, k[4]);
+      const f = multiply(((b ^ d) + e) & 0xffff, k[5]);
+      const g = (e + f) & 0xffff;
+
+      // The inner two words swap places between rounds
+      x1 = a ^ f;
+      x2 = c ^ f;
+      x3 = b ^ g;
+      x4 = d ^ g;
+    }
+
+    // The output transformation undoes the last swap
+    const k = keys.slice(6 * ROUNDS);
+    const output = new Uint8Array(8);
+    const outputView = new DataView(output.buffer);
+    outputView.setUint16(0, multiply(x1, k[0]));
+    outputView.setUint16(2, (x3 + k[1]) & 0xffff);
+    outputView.setUint16(4, (x2 + k[2]) & 0xffff);
+    outputView.setUint16(6, multiply(x4, k[3]));
+    return output;
+  }
+}
@@ -0,0 +1,604 @@
+/**
+ * ML-DSA (FIPS 204), the module-lattice digital signature algorithm standardized from
+ * CRYSTALS-Dilithium, for the ML-DSA-44, ML-DSA-65 and ML-DSA-87 parameter sets
+ */
+
+import { shake128, shake256 } from 'js-sha3';
+import { concatBytes, getRandomBytes, secureCompare } from '@/lib/crypto-utils';
+
+const N = 256;
+const Q = 8380417;
+// Bits dropped from t by Power2Round
+const D = 13;
+// 256^-1 mod q, the scale factor of the inverse NTT
+const INVERSE_256 = 8347681;
+const SHAKE128_RATE = 168;
+const SHAKE256_RATE = 136;
+
+export interface MlDsaParameters {
+  k: number;
+  l: number;
+  eta: number;
+  // Number of ±1 coefficients in the challenge polynomial
+  tau: number;
+  // Collision strength of the commitment hash c~, which is lambda / 4 bytes long
+  lambda: number;
+  gamma1: number;
+  gamma2: number;
+  // Maximum number of hint bits set in a signature
+  omega: number;
+}
+
+export const ML_DSA_PARAMETERS = {
+  'ML-DSA-44': { k: 4, l: 4, eta: 2, tau: 39, lambda: 128, gamma1: 1 << 17, gamma2: (Q - 1) / 88, omega: 80 },
+  'ML-DSA-65': { k: 6, l: 5, eta: 4, tau: 49, lambda: 192, gamma1: 1 << 19, gamma2: (Q - 1) / 32, omega: 55 },
+  'ML-DSA-87': { k: 8, l: 7, eta: 2, tau: 60, lambda: 256, gamma1: 1 << 19, gamma2: (Q - 1) / 32, omega: 75 }
+} satisfies Record<string, MlDsaParameters>;
+
+export type MlDsaParameterSet = keyof typeof ML_DSA_PARAMETERS;
+
+export interface MlDsaKeyPair {
+  publicKey: Uint8Array;
+  secretKey: Uint8Array;
+}
+
+export interface MlDsaSignOptions {
+  // Up to 255 bytes bound into the signature, which must be presented again to verify
+  context?: Uint8Array;
+  // Use an all-zero rnd in place of the fresh randomness of hedged signing
+  deterministic?: boolean;
+}
+
+const bitLength = (x: number): number => 32 - Math.clz32(x);
+
+// Packed sizes of one polynomial: t1 and t0, s1 and s2, z, and w1
+const T1_BITS = bitLength(Q - 1) - D;
+const secretBits = ({ eta }: MlDsaParameters) => bitLength(2 * eta);
+const maskBits = ({ gamma1 }: MlDsaParameters) => 1 + bitLength(gamma1 - 1);
+const highBitsBits = ({ gamma2 }: MlDsaParameters) => bitLength((Q - 1) / (2 * gamma2) - 1);
+
+export function publicKeySize({ k }: MlDsaParameters): number {
+  return 32 + 32 * T1_BITS * k;
+}
+
+export function secretKeySize(params: MlDsaParameters): number {
+  const { k, l } = params;
+  return 128 + 32 * secretBits(params) * (k + l) + 32 * D * k;
+}
+
+export function signatureSize(params: MlDsaParameters): number {
+  const { k, l, lambda, omega } = params;
+  return lambda / 4 + 32 * maskBits(params) * l + omega + k;
+}
+
+type Poly = Int32Array;
+
+function bitReverse8(x: number): number {
+  let result = 0;
+  for (let i = 0; i < 8; i++) {
+    result |= ((x >>> i) & 1) << (7 - i);
+  }
+  return result;
+}
+
+function powMod(base: number, exponent: number): number {
+  let result = 1;
+  for (let i = 0; i < exponent; i++) {
+    result = (result * base) % Q;
+  }
+  return result;
+}
+
+// 1753 is a primitive 512th root of unity modulo q
+const ZETAS = Array.from({ length: N }, (_, i) => powMod(1753, bitReverse8(i)));
+
+const mod = (x: number): number => ((x % Q) + Q) % Q;
+
+// The representative of x in (-q/2, q/2], for x in [0, q)
+const centered = (x: number): number => (x > Q >>> 1 ? x - Q : x);
+
+// x mod± alpha for even alpha and x >= 0: the representative in (-alpha/2, alpha/2]
+function modPlusMinus(x: number, alpha: number): number {
+  const r = x % alpha;
+  return r > alpha >>> 1 ? r - alpha : r;
+}
+
+const shake128Bytes = (data: Uint8Array, length: number) => new Uint8Array(shake128.arrayBuffer(data, length * 8));
+const shake256Bytes = (data: Uint8Array, length: number) => new Uint8Array(shake256.arrayBuffer(data, length * 8));
+
+const integerToBytes16 = (x: number) => Uint8Array.of(x & 0xff, x >>> 8);
+
+/**
+ * Algorithm 41: the number-theoretic transform, returning a new polynomial
+ */
+function ntt(f: Poly): Poly {
+  const w = f.slice();
+  let m = 0;
+  for (let len = 128; len >= 1; len >>= 1) {
+    for (let start = 0; start < N; start += 2 * len) {
+      const zeta = ZETAS[++m];
+      for (let j = start; j < start + len; j++) {
+        const t = (zeta * w[j + len]) % Q;
+        w[j + len] = mod(w[j] - t);
+        w[j] = (w[j] + t) % Q;
+      }
+    }
+  }
+  return w;
+}
+
+/**
+ * Algorithm 42: the inverse NTT, returning a new polynomial
+ */
+function inverseNtt(f: Poly): Poly {
+  const w = f.slice();
+  let m = N;
+  for (let len = 1; len < N; len <<= 1) {
+    for (let start = 0; start < N; start += 2 * len) {
+      const zeta = Q - ZETAS[--m];
+      for (let j = start; j < start + len; j++) {
+        const t = w[j];
+        w[j] = (t + w[j + len]) % Q;
+        w[j + len] = (zeta * mod(t - w[j + len])) % Q;
+      }
+    }
+  }
+  return w.map(x => (x * INVERSE_256) % Q);
+}
+
+// In the NTT domain multiplication is coefficient-wise
+function multiplyNtts(f: Poly, g: Poly): Poly {
+  return f.map((x, i) => (x * g[i]) % Q);
+}
+
+function addPolys(f: Poly, g: Poly): Poly {
+  return f.map((x, i) => (x + g[i]) % Q);
+}
+
+function subtractPolys(f: Poly, g: Poly): Poly {
+  return f.map((x, i) => mod(x - g[i]));
+}
+
+// Â ∘ v for a matrix and vector in the NTT domain
+function multiplyMatrixVector(a: Poly[][], v: Poly[]): Poly[] {
+  return a.map(row => row.map((f, j) => multiplyNtts(f, v[j])).reduce(addPolys));
+}
+
+function infinityNorm(v: Poly[]): number {
+  let max = 0;
+  for (const f of v) {
+    for (const x of f) {
+      max = Math.max(max, Math.abs(centered(x)));
+    }
+  }
+  return max;
+}
+
+/**
+ * Algorithm 16 (SimpleBitPack) for values already in [0, 2^bits), least significant bit first
+ */
+function packBits(values: ArrayLike<number>, bits: number): Uint8Array {
+  const bytes = new Uint8Array((values.length * bits) >>> 3);
+  let buffer = 0;
+  let buffered = 0;
+  let offset = 0;
+  for (let i = 0; i < values.length; i++) {
+    buffer |= values[i] << buffered;
+    buffered += bits;
+    while (buffered >= 8) {
+      bytes[offset++] = buffer & 0xff;
+      buffer >>>= 8;
+      buffered -= 8;
+    }
+  }
+  return bytes;
+}
+
+// Algorithm 18 (SimpleBitUnpack): 256 values of the given width
+function unpackBits(bytes: Uint8Array, bits: number): Poly {
+  const f = new Int32Array(N);
+  const mask = (1 << bits) - 1;
+  let buffer = 0;
+  let buffered = 0;
+  let offset = 0;
+  for (let i = 0; i < N; i++) {
+    while (buffered < bits) {
+      buffer |= bytes[offset++] << buffered;
+      buffered += 8;
+    }
+    f[i] = buffer & mask;
+    buffer >>>= bits;
+    buffered -= bits;
+  }
+  return f;
+}
+
+// Algorithms 17 and 19: coefficients in [-a, b] are stored as b - w
+function packSigned(f: Poly, a: number, b: number): Uint8Array {
+  return packBits(Array.from(f, x => b - centered(x)), bitLength(a + b));
+}
+
+function unpackSigned(bytes: Uint8Array, a: number, b: number): Poly {
+  return unpackBits(bytes, bitLength(a + b)).map(z => mod(b - z));
+}
+
+function packVector(v: Poly[], pack: (f: Poly) => Uint8Array): Uint8Array {
+  return concatBytes(...v.map(pack));
+}
+
+// Split bytes into count equal chunks and decode each
+function unpackVector(bytes: Uint8Array, count: number, unpack: (chunk: Uint8Array) => Poly): Poly[] {
+  const size = bytes.length / count;
+  return Array.from({ length: count }, (_, i) => unpack(bytes.subarray(size * i, size * (i + 1))));
+}
+
+/**
+ * Algorithm 20: the positions of the set hint bits of each polynomial, then the running counts
+ */
+function packHints(h: Poly[], omega: number): Uint8Array {
+  const bytes = new Uint8Array(omega + h.length);
+  let index = 0;
+  h.forEach((f, i) => {
+    f.forEach((bit, j) => {
+      if (bit) {
+        bytes[index++] = j;
+      }
+    });
+    bytes[omega + i] = index;
+  });
+  return bytes;
+}
+
+/**
+ * Algorithm 21: null for a malformed encoding, so that every hint vector has exactly one
+ */
+function unpackHints(bytes: Uint8Array, k: number, omega: number): Poly[] | null {
+  const h = Array.from({ length: k }, () => new Int32Array(N));
+  let index = 0;
+  for (let i = 0; i < k; i++) {
+    const end = bytes[omega + i];
+    if (end < index || end > omega) {
+      return null;
+    }
+    const first = index;
+    for (; index < end; index++) {
+      // Positions must be strictly increasing within each polynomial
+      if (index > first && bytes[index - 1] >= bytes[index]) {
+        return null;
+      }
+      h[i][bytes[index]] = 1;
+    }
+  }
+  return bytes.subarray(index, omega).every(byte => byte === 0) ? h : null;
+}
+
+/**
+ * Algorithms 22 and 23: rho || t1
+ */
+function encodePublicKey(rho: Uint8Array, t1: Poly[]): Uint8Array {
+  return concatBytes(rho, packVector(t1, f => packBits(f, T1_BITS)));
+}
+
+function decodePublicKey({ k }: MlDsaParameters, publicKey: Uint8Array) {
+  return {
+    rho: publicKey.subarray(0, 32),
+    t1: unpackVector(publicKey.subarray(32), k, chunk => unpackBits(chunk, T1_BITS))
+  };
+}
+
+interface SecretKey {
+  rho: Uint8Array;
+  key: Uint8Array;
+  tr: Uint8Array;
+  s1: Poly[];
+  s2: Poly[];
+  t0: Poly[];
+}
+
+/**
+ * Algorithms 24 and 25: rho || K || tr || s1 || s2 || t0
+ */
+function encodeSecretKey({ eta }: MlDsaParameters, { rho, key, tr, s1, s2, t0 }: SecretKey): Uint8Array {
+  return concatBytes(
+    rho,
+    key,
+    tr,
+    packVector(s1, f => packSigned(f, eta, eta)),
+    packVector(s2, f => packSigned(f, eta, eta)),
+    packVector(t0, f => packSigned(f, (1 << (D - 1)) - 1, 1 << (D - 1)))
+  );
+}
+
+function decodeSecretKey(params: MlDsaParameters, secretKey: Uint8Array): SecretKey {
+  const { k, l, eta } = params;
+  const s1End = 128 + 32 * secretBits(params) * l;
+  const s2End = s1End + 32 * secretBits(params) * k;
+  return {
+    rho: secretKey.subarray(0, 32),
+    key: secretKey.subarray(32, 64),
+    tr: secretKey.subarray(64, 128),
+    s1: unpackVector(secretKey.subarray(128, s1End), l, chunk => unpackSigned(chunk, eta, eta)),
+    s2: unpackVector(secretKey.subarray(s1End, s2End), k, chunk => unpackSigned(chunk, eta, eta)),
+    t0: unpackVector(secretKey.subarray(s2End), k, chunk => unpackSigned(chunk, (1 << (D - 1)) - 1, 1 << (D - 1)))
+  };
+}
+
+/**
+ * Algorithms 26 and 27: c~ || z || h; decoding gives null when the hints are malformed
+ */
+function encodeSignature({ gamma1, omega }: MlDsaParameters, cTilde: Uint8Array, z: Poly[], h: Poly[]): Uint8Array {
+  return concatBytes(cTilde, packVector(z, f => packSigned(f, gamma1 - 1, gamma1)), packHints(h, omega));
+}
+
+function decodeSignature(params: MlDsaParameters, signature: Uint8Array) {
+  const { k, l, lambda, gamma1, omega } = params;
+  const zEnd = lambda / 4 + 32 * maskBits(params) * l;
+  return {
+    cTilde: signature.subarray(0, lambda / 4),
+    z: unpackVector(signature.subarray(lambda / 4, zEnd), l, chunk => unpackSigned(chunk, gamma1 - 1, gamma1)),
+    h: unpackHints(signature.subarray(zEnd), k, omega)
+  };
+}
+
+// Algorithm 28
+function encodeW1(params: MlDsaParameters, w1: Poly[]): Uint8Array {
+  return packVector(w1, f => packBits(f, highBitsBits(params)));
+}
+
+/**
+ * Algorithm 29: a polynomial with tau coefficients of ±1 and the rest zero, from SHAKE256(c~)
+ */
+function sampleInBall(cTilde: Uint8Array, tau: number): Poly {
+  const c = new Int32Array(N);
+  let stream = shake256Bytes(cTilde, SHAKE256_RATE);
+  // The first 8 bytes give the signs, one bit each
+  let offset = 8;
+  for (let i = N - tau; i < N; i++) {
+    let j: number;
+    do {
+      if (offset === stream.length) {
+        stream = shake256Bytes(cTilde, stream.length + SHAKE256_RATE);
+      }
+      j = stream[offset++];
+    } while (j > i);
+    const sign = (stream[(i + tau - N) >>> 3] >>> ((i + tau - N) & 7)) & 1;
+    c[i] = c[j];
+    c[j] = sign ? Q - 1 : 1;
+  }
+  return c;
+}
+
+/**
+ * Algorithm 30: rejection-sample a uniform NTT-domain polynomial from SHAKE128(seed), 23 bits at a time
+ */
+function rejectionSampleNtt(seed: Uint8Array): Poly {
+  const a = new Int32Array(N);
+  let stream = shake128Bytes(seed, 5 * SHAKE128_RATE);
+  let offset = 0;
+  for (let j = 0; j < N;) {
+    // Squeezing more output extends the same XOF stream, so earlier bytes are unchanged
+    if (offset + 3 > stream.length) {
+      stream = shake128Bytes(seed, stream.length + SHAKE128_RATE);
+    }
+    const z = stream[offset] | (stream[offset + 1] << 8) | ((stream[offset + 2] & 0x7f) << 16);
+    offset += 3;
+    if (z < Q) {
+      a[j++] = z;
+    }
+  }
+  return a;
+}
+
+// Algorithm 15: map a half-byte to [-eta, eta] modulo q, or null to reject it
+function coefficientFromHalfByte(b: number, eta: number): number | null {
+  if (eta === 2 && b < 15) {
+    return mod(2 - (b % 5));
+  }
+  if (eta === 4 && b < 9) {
+    return mod(4 - b);
+  }
+  return null;
+}
+
+/**
+ * Algorithm 31: rejection-sample a polynomial with coefficients in [-eta, eta] from SHAKE256(seed)
+ */
+function rejectionSampleBounded(seed: Uint8Array, eta: number): Poly {
+  const a = new Int32Array(N);
+  let stream = shake256Bytes(seed, 2 * SHAKE256_RATE);
+  let offset = 0;
+  for (let j = 0; j < N;) {
+    if (offset === stream.length) {
+      stream = shake256Bytes(seed, stream.length + SHAKE256_RATE);
+    }
+    const z = stream[offset++];
+    for (const candidate of [coefficientFromHalfByte(z & 0x0f, eta), coefficientFromHalfByte(z >>> 4, eta)]) {
+      if (candidate !== null && j < N) {
+        a[j++] = candidate;
+      }
+    }
+  }
+  return a;
+}
+
+// Algorithm 32: Â[r][s] = RejNTTPoly(rho || s || r)
+function expandA(rho: Uint8Array, { k, l }: MlDsaParameters): Poly[][] {
+  return Array.from({ length: k }, (_, r) =>
+    Array.from({ length: l }, (_, s) => rejectionSampleNtt(concatBytes(rho, Uint8Array.of(s, r))))
+  );
+}
+
+// Algorithm 33: the secret vectors s1 and s2, with 16-bit little-endian nonces 0 .. l + k - 1
+function expandS(rhoPrime: Uint8Array, { k, l, eta }: MlDsaParameters): { s1: Poly[]; s2: Poly[] } {
+  const sample = (r: number) => rejectionSampleBounded(concatBytes(rhoPrime, integerToBytes16(r)), eta);
+  return {
+    s1: Array.from({ length: l }, (_, r) => sample(r)),
+    s2: Array.from({ length: k }, (_, r) => sample(l + r))
+  };
+}
+
+// Algorithm 34: the masking vector y with coefficients in [-gamma1 + 1, gamma1]
+function expandMask(params: MlDsaParameters, rhoDoublePrime: Uint8Array, kappa: number): Poly[] {
+  const { l, gamma1 } = params;
+  const bits = maskBits(params);
+  return Array.from({ length: l }, (_, r) =>
+    unpackSigned(shake256Bytes(concatBytes(rhoDoublePrime, integerToBytes16(kappa + r)), 32 * bits), gamma1 - 1, gamma1)
+  );
+}
+
+/**
+ * Algorithm 35: split r into r1 * 2^d + r0 with r0 in (-2^(d-1), 2^(d-1)]; r0 is returned modulo q
+ */
+function power2Round(f: Poly): { high: Poly; low: Poly } {
+  const low = f.map(r => mod(modPlusMinus(r, 1 << D)));
+  return { high: f.map((r, i) => (r - centered(low[i])) >> D), low };
+}
+
+/**
+ * Algorithm 36: split r into r1 * 2 * gamma2 + r0, folding the top value q - 1 back to r1 = 0
+ */
+function decompose(r: number, gamma2: number): [number, number] {
+  const r0 = modPlusMinus(r, 2 * gamma2);
+  if (r - r0 === Q - 1) {
+    return [0, r0 - 1];
+  }
+  return [(r - r0) / (2 * gamma2), r0];
+}
+
+const highBits = (r: number, gamma2: number): number => decompose(r, gamma2)[0];
+
+// Algorithm 39: whether adding z to r changes its high bits
+function makeHint(z: Poly, r: Poly, gamma2: number): Poly {
+  return r.map((x, i) => (highBits(x, gamma2) !== highBits((x + z[i]) % Q, gamma2) ? 1 : 0));
+}
+
+// Algorithm 40: correct the high bits of r with the hint h
+function useHint(h: Poly, r: Poly, gamma2: number): Poly {
+  const m = (Q - 1) / (2 * gamma2);
+  return r.map((x, i) => {
+    const [r1, r0] = decompose(x, gamma2);
+    if (!h[i]) {
+      return r1;
+    }
+    return r0 > 0 ? (r1 + 1) % m : (r1 - 1 + m) % m;
+  });
+}
+
+// Pure ML-DSA signs 0x00 || |ctx| || ctx || M (algorithms 2 and 3)
+function encodeMessage(message: Uint8Array, context: Uint8Array): Uint8Array {
+  if (context.length > 255) {
+    throw new Error('ML-DSA context string must be at most 255 bytes');
+  }
+  return concatBytes(Uint8Array.of(0, context.length), context, message);
+}
+
+/**
+ * Algorithms 1/6: expand the 32-byte seed xi into (rho, rho', K), sample s1 and s2 and publish
+ * the high bits t1 of t = A s1 + s2. Deterministic when the seed is given.
+ */
+export function mlDsaKeyGen(params: MlDsaParameters, seed: Uint8Array = getRandomBytes(32)): MlDsaKeyPair {
+  const { k, l } = params;
+  if (seed.length !== 32) {
+    throw new Error('ML-DSA key generation seed must be 32 bytes');
+  }
+  const expanded = shake256Bytes(concatBytes(seed, Uint8Array.of(k, l)), 128);
+  const rho = expanded.subarray(0, 32);
+  const { s1, s2 } = expandS(expanded.subarray(32, 96), params);
+
+  const t = multiplyMatrixVector(expandA(rho, params), s1.map(ntt)).map((f, i) => addPolys(inverseNtt(f), s2[i]));
+  const rounded = t.map(power2Round);
+  const publicKey = encodePublicKey(rho, rounded.map(({ high }) => high));
+  const secretKey = encodeSecretKey(params, {
+    rho,
+    key: expanded.subarray(96),
+    tr: shake256Bytes(publicKey, 64),
+    s1,
+    s2,
+    t0: rounded.map(({ low }) => low)
+  });
+  return { publicKey, secretKey };
+}
+
+/**
+ * Algorithms 2/7: Fiat-Shamir with aborts. Each attempt commits to w = A y for a fresh mask y and
+ * is rejected unless z = y + c s1 and the hints reveal nothing about the secret key.
+ */
+export function mlDsaSign(
+  params: MlDsaParameters,
+  secretKey: Uint8Array,
+  message: Uint8Array,
+  { context = new Uint8Array(0), deterministic = false }: MlDsaSignOptions = {}
+): Uint8Array {
+  const { l, tau, lambda, gamma1, gamma2, omega } = params;
+  if (secretKey.length !== secretKeySize(params)) {
+    throw new Error(`ML-DSA secret key must be ${secretKeySize(params)} bytes`);
+  }
+  const encoded = encodeMessage(message, context);
+  const rnd = deterministic ? new Uint8Array(32) : getRandomBytes(32);
+  const { rho, key, tr, s1, s2, t0 } = decodeSecretKey(params, secretKey);
+  const beta = tau * params.eta;
+
+  const s1Hat = s1.map(ntt);
+  const s2Hat = s2.map(ntt);
+  const t0Hat = t0.map(ntt);
+  const a = expandA(rho, params);
+  const mu = shake256Bytes(concatBytes(tr, encoded), 64);
+  const rhoDoublePrime = shake256Bytes(concatBytes(key, rnd, mu), 64);
+
+  for (let kappa = 0; ; kappa += l) {
+    const y = expandMask(params, rhoDoublePrime, kappa);
+    const w = multiplyMatrixVector(a, y.map(ntt)).map(inverseNtt);
+    const w1 = w.map(f => f.map(x => highBits(x, gamma2)));
+    const cTilde = shake256Bytes(concatBytes(mu, encodeW1(params, w1)), lambda / 4);
+    const cHat = ntt(sampleInBall(cTilde, tau));
+
+    const z = y.map((f, i) => addPolys(f, inverseNtt(multiplyNtts(cHat, s1Hat[i]))));
+    const r = w.map((f, i) => subtractPolys(f, inverseNtt(multiplyNtts(cHat, s2Hat[i]))));
+    const lowNorm = Math.max(...r.map(f => Math.max(...Array.from(f, x => Math.abs(decompose(x, gamma2)[1])))));
+    if (infinityNorm(z) >= gamma1 - beta || lowNorm >= gamma2 - beta) {
+      continue;
+    }
+
+    const ct0 = t0Hat.map(f => inverseNtt(multiplyNtts(cHat, f)));
+    const h = ct0.map((f, i) => makeHint(f.map(x => mod(-x)), addPolys(r[i], f), gamma2));
+    const hintCount = h.reduce((sum, f) => sum + f.reduce((count, bit) => count + bit, 0), 0);
+    if (infinityNorm(ct0) >= gamma2 || hintCount > omega) {
+      continue;
+    }
+    return encodeSignature(params, cTilde, z, h);
+  }
+}
+
+/**
+ * Algorithms 3/8: recompute the commitment from z, c and t1 with the hints and compare challenges.
+ * Signatures of the wrong length or with malformed hints are invalid rather than an error.
+ */
+export function mlDsaVerify(
+  params: MlDsaParameters,
+  publicKey: Uint8Array,
+  message: Uint8Array,
+  signature: Uint8Array,
+  context: Uint8Array = new Uint8Array(0)
+): boolean {
+  const { tau, lambda, gamma1, gamma2 } = params;
+  if (publicKey.length !== publicKeySize(params)) {
+    throw new Error(`ML-DSA public key must be ${publicKeySize(params)} bytes`);
+  }
+  const encoded = encodeMessage(message, context);
+  if (signature.length !== signatureSize(params)) {
+    return false;
+  }
+  const { rho, t1 } = decodePublicKey(params, publicKey);
+  const { cTilde, z, h } = decodeSignature(params, signature);
+  if (!h || infinityNorm(z) >= gamma1 - tau * params.eta) {
+    return false;
+  }
+
+  const mu = shake256Bytes(concatBytes(shake256Bytes(publicKey, 64), encoded), 64);
+  const cHat = ntt(sampleInBall(cTilde, tau));
+  const t1Hat = t1.map(f => ntt(f.map(x => x << D)));
+  const wApprox = multiplyMatrixVector(expandA(rho, params), z.map(ntt))
+    .map((f, i) => inverseNtt(subtractPolys(f, multiplyNtts(cHat, t1Hat[i]))));
+  const w1 = wApprox.map((f, i) => useHint(h[i], f, gamma2));
+  return secureCompare(shake256Bytes(concatBytes(mu, encodeW1(params, w1)), lambda / 4), cTilde);
+}
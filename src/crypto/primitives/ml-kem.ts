@@ -0,0 +1,365 @@
+/**
+ * ML-KEM (FIPS 203), the module-lattice key encapsulation mechanism standardized from
+ * CRYSTALS-Kyber, for the ML-KEM-512, ML-KEM-768 and ML-KEM-1024 parameter sets
+ */
+
+import { sha3_256, sha3_512, shake128, shake256 } from 'js-sha3';
+import { concatBytes, getRandomBytes, secureCompare } from '@/lib/crypto-utils';
+
+const N = 256;
+const Q = 3329;
+// 128^-1 mod q, the scale factor of the inverse NTT
+const INVERSE_128 = 3303;
+const SHAKE128_RATE = 168;
+
+export interface MlKemParameters {
+  k: number;
+  eta1: number;
+  eta2: number;
+  du: number;
+  dv: number;
+}
+
+export const ML_KEM_PARAMETERS = {
+  'ML-KEM-512': { k: 2, eta1: 3, eta2: 2, du: 10, dv: 4 },
+  'ML-KEM-768': { k: 3, eta1: 2, eta2: 2, du: 10, dv: 4 },
+  'ML-KEM-1024': { k: 4, eta1: 2, eta2: 2, du: 11, dv: 5 }
+} satisfies Record<string, MlKemParameters>;
+
+export type MlKemParameterSet = keyof typeof ML_KEM_PARAMETERS;
+
+export interface MlKemKeyPair {
+  encapsulationKey: Uint8Array;
+  decapsulationKey: Uint8Array;
+}
+
+export interface MlKemEncapsulation {
+  sharedSecret: Uint8Array;
+  ciphertext: Uint8Array;
+}
+
+export function encapsulationKeySize({ k }: MlKemParameters): number {
+  return 384 * k + 32;
+}
+
+export function decapsulationKeySize({ k }: MlKemParameters): number {
+  return 768 * k + 96;
+}
+
+export function ciphertextSize({ k, du, dv }: MlKemParameters): number {
+  return 32 * (du * k + dv);
+}
+
+type Poly = Int32Array;
+
+function bitReverse7(x: number): number {
+  let result = 0;
+  for (let i = 0; i < 7; i++) {
+    result |= ((x >>> i) & 1) << (6 - i);
+  }
+  return result;
+}
+
+function powMod(base: number, exponent: number): number {
+  let result = 1;
+  for (let i = 0; i < exponent; i++) {
+    result = (result * base) % Q;
+  }
+  return result;
+}
+
+// 17 is a primitive 256th root of unity modulo q
+const ZETAS = Array.from({ length: 128 }, (_, i) => powMod(17, bitReverse7(i)));
+const GAMMAS = Array.from({ length: 128 }, (_, i) => powMod(17, 2 * bitReverse7(i) + 1));
+
+const mod = (x: number): number => ((x % Q) + Q) % Q;
+
+const sha3_256Bytes = (data: Uint8Array) => new Uint8Array(sha3_256.arrayBuffer(data));
+const sha3_512Bytes = (data: Uint8Array) => new Uint8Array(sha3_512.arrayBuffer(data));
+const shake256Bytes = (data: Uint8Array, length: number) => new Uint8Array(shake256.arrayBuffer(data, length * 8));
+
+/**
+ * Algorithm 9: the number-theoretic transform, in place
+ */
+function ntt(f: Poly): Poly {
+  let i = 1;
+  for (let len = 128; len >= 2; len >>= 1) {
+    for (let start = 0; start < N; start += 2 * len) {
+      const zeta = ZETAS[i++];
+      for (let j = start; j < start + len; j++) {
+        const t = (zeta * f[j + len]) % Q;
+        f[j + len] = mod(f[j] - t);
+        f[j] = (f[j] + t) % Q;
+      }
+    }
+  }
+  return f;
+}
+
+/**
+ * Algorithm 10: the inverse NTT, in place
+ */
+function inverseNtt(f: Poly): Poly {
+  let i = 127;
+  for (let len = 2; len <= 128; len <<= 1) {
+    for (let start = 0; start < N; start += 2 * len) {
+      const zeta = ZETAS[i--];
+      for (let j = start; j < start + len; j++) {
+        const t = f[j];
+        f[j] = (t + f[j + len]) % Q;
+        f[j + len] = (zeta * mod(f[j + len] - t)) % Q;
+      }
+    }
+  }
+  return f.map(x => (x * INVERSE_128) % Q);
+}
+
+/**
+ * Algorithms 11 and 12: multiply in the NTT domain, as 128 products of degree-one polynomials
+ */
+function multiplyNtts(f: Poly, g: Poly): Poly {
+  const h = new Int32Array(N);
+  for (let i = 0; i < 128; i++) {
+    const [a0, a1, b0, b1] = [f[2 * i], f[2 * i + 1], g[2 * i], g[2 * i + 1]];
+    h[2 * i] = (a0 * b0 + ((a1 * b1) % Q) * GAMMAS[i]) % Q;
+    h[2 * i + 1] = (a0 * b1 + a1 * b0) % Q;
+  }
+  return h;
+}
+
+function addPolys(f: Poly, g: Poly): Poly {
+  return f.map((x, i) => (x + g[i]) % Q);
+}
+
+function subtractPolys(f: Poly, g: Poly): Poly {
+  return f.map((x, i) => mod(x - g[i]));
+}
+
+// Inner product of two vectors in the NTT domain
+function dotNtts(a: Poly[], b: Poly[]): Poly {
+  return a.map((f, i) => multiplyNtts(f, b[i])).reduce(addPolys);
+}
+
+/**
+ * Algorithm 7: rejection-sample a uniform NTT-domain polynomial from SHAKE128(seed)
+ */
+function sampleNtt(seed: Uint8Array): Poly {
+  const a = new Int32Array(N);
+  let stream = new Uint8Array(0);
+  let offset = 0;
+  for (let j = 0; j < N;) {
+    // Squeezing more output extends the same XOF stream, so earlier bytes are unchanged
+    if (offset + 3 > stream.length) {
+      stream = new Uint8Array(shake128.arrayBuffer(seed, (stream.length + 3 * SHAKE128_RATE) * 8));
+    }
+    const [b0, b1, b2] = stream.subarray(offset, offset + 3);
+    offset += 3;
+    const d1 = b0 + 256 * (b1 & 0x0f);
+    const d2 = (b1 >>> 4) + 16 * b2;
+    if (d1 < Q) {
+      a[j++] = d1;
+    }
+    if (d2 < Q && j < N) {
+      a[j++] = d2;
+    }
+  }
+  return a;
+}
+
+/**
+ * Algorithm 8: a centered binomial sample with parameter eta from PRF_eta(s, b) = SHAKE256(s || b)
+ */
+function samplePolyCbd(seed: Uint8Array, nonce: number, eta: number): Poly {
+  const bytes = shake256Bytes(concatBytes(seed, Uint8Array.of(nonce)), 64 * eta);
+  const bit = (i: number) => (bytes[i >>> 3] >>> (i & 7)) & 1;
+  const f = new Int32Array(N);
+  for (let i = 0; i < N; i++) {
+    let x = 0;
+    let y = 0;
+    for (let j = 0; j < eta; j++) {
+      x += bit(2 * i * eta + j);
+      y += bit(2 * i * eta + eta + j);
+    }
+    f[i] = mod(x - y);
+  }
+  return f;
+}
+
+/**
+ * Algorithm 5: pack 256 d-bit integers, least significant bit first
+ */
+function byteEncode(f: Poly, d: number): Uint8Array {
+  const bytes = new Uint8Array(32 * d);
+  for (let i = 0; i < N; i++) {
+    for (let j = 0; j < d; j++) {
+      const bit = i * d + j;
+      bytes[bit >>> 3] |= ((f[i] >>> j) & 1) << (bit & 7);
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Algorithm 6: the inverse of byteEncode; 12-bit values are reduced modulo q
+ */
+function byteDecode(bytes: Uint8Array, d: number): Poly {
+  const f = new Int32Array(N);
+  for (let i = 0; i < N; i++) {
+    let value = 0;
+    for (let j = 0; j < d; j++) {
+      const bit = i * d + j;
+      value |= ((bytes[bit >>> 3] >>> (bit & 7)) & 1) << j;
+    }
+    f[i] = d === 12 ? value % Q : value;
+  }
+  return f;
+}
+
+// Compress_d(x) = round(2^d / q * x) mod 2^d, in integer arithmetic
+function compress(f: Poly, d: number): Poly {
+  return f.map(x => Math.floor(((x << d) + (Q >>> 1)) / Q) & ((1 << d) - 1));
+}
+
+// Decompress_d(y) = round(q / 2^d * y)
+function decompress(f: Poly, d: number): Poly {
+  return f.map(y => (y * Q + (1 << (d - 1))) >>> d);
+}
+
+function encodeVector(v: Poly[], d: number): Uint8Array {
+  return concatBytes(...v.map(f => byteEncode(f, d)));
+}
+
+function decodeVector(bytes: Uint8Array, k: number, d: number): Poly[] {
+  return Array.from({ length: k }, (_, i) => byteDecode(bytes.subarray(32 * d * i, 32 * d * (i + 1)), d));
+}
+
+// Â[i][j] = SampleNTT(rho || j || i); encryption uses the transpose
+function expandMatrix(rho: Uint8Array, k: number): Poly[][] {
+  return Array.from({ length: k }, (_, i) =>
+    Array.from({ length: k }, (_, j) => sampleNtt(concatBytes(rho, Uint8Array.of(j, i))))
+  );
+}
+
+/**
+ * Algorithm 13: K-PKE key generation from the 32-byte seed d
+ */
+function pkeKeyGen(params: MlKemParameters, d: Uint8Array): { ek: Uint8Array; dk: Uint8Array } {
+  const { k, eta1 } = params;
+  const g = sha3_512Bytes(concatBytes(d, Uint8Array.of(k)));
+  const rho = g.subarray(0, 32);
+  const sigma = g.subarray(32);
+
+  const a = expandMatrix(rho, k);
+  let nonce = 0;
+  const s = Array.from({ length: k }, () => ntt(samplePolyCbd(sigma, nonce++, eta1)));
+  const e = Array.from({ length: k }, () => ntt(samplePolyCbd(sigma, nonce++, eta1)));
+  const t = a.map((row, i) => addPolys(dotNtts(row, s), e[i]));
+
+  return { ek: concatBytes(encodeVector(t, 12), rho), dk: encodeVector(s, 12) };
+}
+
+/**
+ * Algorithm 14: K-PKE encryption of the 32-byte message m with randomness r
+ */
+function pkeEncrypt(params: MlKemParameters, ek: Uint8Array, m: Uint8Array, r: Uint8Array): Uint8Array {
+  const { k, eta1, eta2, du, dv } = params;
+  const t = decodeVector(ek, k, 12);
+  const a = expandMatrix(ek.subarray(384 * k), k);
+
+  let nonce = 0;
+  const y = Array.from({ length: k }, () => ntt(samplePolyCbd(r, nonce++, eta1)));
+  const e1 = Array.from({ length: k }, () => samplePolyCbd(r, nonce++, eta2));
+  const e2 = samplePolyCbd(r, nonce, eta2);
+
+  const u = Array.from({ length: k }, (_, i) => addPolys(inverseNtt(dotNtts(a.map(row => row[i]), y)), e1[i]));
+  const mu = decompress(byteDecode(m, 1), 1);
+  const v = addPolys(addPolys(inverseNtt(dotNtts(t, y)), e2), mu);
+
+  return concatBytes(encodeVector(u.map(f => compress(f, du)), du), byteEncode(compress(v, dv), dv));
+}
+
+/**
+ * Algorithm 15: K-PKE decryption back to the 32-byte message
+ */
+function pkeDecrypt(params: MlKemParameters, dk: Uint8Array, c: Uint8Array): Uint8Array {
+  const { k, du, dv } = params;
+  const u = decodeVector(c, k, du).map(f => ntt(decompress(f, du)));
+  const v = decompress(byteDecode(c.subarray(32 * du * k), dv), dv);
+  const s = decodeVector(dk, k, 12);
+  const w = subtractPolys(v, inverseNtt(dotNtts(s, u)));
+  return byteEncode(compress(w, 1), 1);
+}
+
+/**
+ * Algorithm 16/19: key generation, deterministic when the 32-byte seeds d and z are given
+ */
+export function mlKemKeyGen(
+  params: MlKemParameters,
+  d: Uint8Array = getRandomBytes(32),
+  z: Uint8Array = getRandomBytes(32)
+): MlKemKeyPair {
+  if (d.length !== 32 || z.length !== 32) {
+    throw new Error('ML-KEM key generation seeds must be 32 bytes');
+  }
+  const { ek, dk } = pkeKeyGen(params, d);
+  return {
+    encapsulationKey: ek,
+    decapsulationKey: concatBytes(dk, ek, sha3_256Bytes(ek), z)
+  };
+}
+
+/**
+ * Algorithm 17/20: derive a shared secret and its ciphertext from an encapsulation key,
+ * deterministic when the 32-byte message m is given
+ */
+export function mlKemEncapsulate(
+  params: MlKemParameters,
+  encapsulationKey: Uint8Array,
+  m: Uint8Array = getRandomBytes(32)
+): MlKemEncapsulation {
+  // Section 7.2 input checks: the key length and that every coefficient is reduced modulo q
+  if (encapsulationKey.length !== encapsulationKeySize(params)) {
+    throw new Error(`ML-KEM encapsulation key must be ${encapsulationKeySize(params)} bytes`);
+  }
+  const t = encapsulationKey.subarray(0, 384 * params.k);
+  if (!secureCompare(encodeVector(decodeVector(t, params.k, 12), 12), t)) {
+    throw new Error('ML-KEM encapsulation key has coefficients that are not reduced modulo q');
+  }
+  if (m.length !== 32) {
+    throw new Error('ML-KEM encapsulation randomness must be 32 bytes');
+  }
+
+  const g = sha3_512Bytes(concatBytes(m, sha3_256Bytes(encapsulationKey)));
+  return {
+    sharedSecret: g.slice(0, 32),
+    ciphertext: pkeEncrypt(params, encapsulationKey, m, g.subarray(32))
+  };
+}
+
+/**
+ * Algorithm 18/21: recover the shared secret. A ciphertext that does not re-encrypt identically
+ * yields the implicit-rejection secret J(z || c) instead of an error, so failures reveal nothing.
+ */
+export function mlKemDecapsulate(params: MlKemParameters, decapsulationKey: Uint8Array, ciphertext: Uint8Array): Uint8Array {
+  const { k } = params;
+  // Section 7.3 input checks: the lengths and the embedded hash of the encapsulation key
+  if (ciphertext.length !== ciphertextSize(params)) {
+    throw new Error(`ML-KEM ciphertext must be ${ciphertextSize(params)} bytes`);
+  }
+  if (decapsulationKey.length !== decapsulationKeySize(params)) {
+    throw new Error(`ML-KEM decapsulation key must be ${decapsulationKeySize(params)} bytes`);
+  }
+  const dk = decapsulationKey.subarray(0, 384 * k);
+  const ek = decapsulationKey.subarray(384 * k, 768 * k + 32);
+  const h = decapsulationKey.subarray(768 * k + 32, 768 * k + 64);
+  const z = decapsulationKey.subarray(768 * k + 64);
+  if (!secureCompare(sha3_256Bytes(ek), h)) {
+    throw new Error('ML-KEM decapsulation key is corrupted: the encapsulation key hash does not match');
+  }
+
+  const m = pkeDecrypt(params, dk, ciphertext);
+  const g = sha3_512Bytes(concatBytes(m, h));
+  const rejection = shake256Bytes(concatBytes(z, ciphertext), 32);
+  const reencrypted = pkeEncrypt(params, ek, m, g.subarray(32));
+  return secureCompare(reencrypted, ciphertext) ? g.slice(0, 32) : rejection;
+}
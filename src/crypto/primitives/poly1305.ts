@@ -0,0 +1,63 @@
+/**
+ * Poly1305 one-time authenticator (RFC 8439 Section 2.5)
+ */
+
+const P1305 = (1n << 130n) - 5n;
+const CLAMP = 0x0ffffffc0ffffffc0ffffffc0fffffffn;
+const MASK_128 = (1n << 128n) - 1n;
+
+function bytesToBigIntLE(bytes: Uint8Array): bigint {
+  let value = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    value = (value << 8n) | BigInt(bytes[i]);
+  }
+  return value;
+}
+
+function bigIntToBytesLE(value: bigint, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+}
+
+/**
+ * Compute the 16-byte Poly1305 tag of a message under a 32-byte one-time key
+ */
+export function poly1305(key: Uint8Array, message: Uint8Array): Uint8Array {
+  if (key.length !== 32) {
+    throw new Error('Poly1305 key must be 32 bytes');
+  }
+
+  const r = bytesToBigIntLE(key.subarray(0, 16)) & CLAMP;
+  const s = bytesToBigIntLE(key.subarray(16, 32));
+  let accumulator = 0n;
+
+  for (let offset = 0; offset < message.length; offset += 16) {
+    const chunk = message.subarray(offset, Math.min(offset + 16, message.length));
+    const n = bytesToBigIntLE(chunk) | (1n << BigInt(chunk.length * 8));
+    accumulator = ((accumulator + n) * r) % P1305;
+  }
+
+  return bigIntToBytesLE((accumulator + s) & MASK_128, 16);
+}
+
+/**
+ * Build the RFC 8439 AEAD MAC input: aad || pad16 || ciphertext || pad16 || len(aad) || len(ciphertext)
+ */
+export function poly1305AeadData(aad: Uint8Array, ciphertext: Uint8Array): Uint8Array {
+  const pad = (length: number) => (16 - (length % 16)) % 16;
+  const aadPadded = aad.length + pad(aad.length);
+  const ciphertextPadded = ciphertext.length + pad(ciphertext.length);
+  const data = new Uint8Array(aadPadded + ciphertextPadded + 16);
+  const view = new DataView(data.buffer);
+
+  data.set(aad, 0);
+  data.set(ciphertext, aadPadded);
+  view.setBigUint64(aadPadded + ciphertextPadded, BigInt(aad.length), true);
+  view.setBigUint64(aadPadded + ciphertextPadded + 8, BigInt(ciphertext.length), true);
+
+  return data;
+}
@@ -0,0 +1,153 @@
+/**
+ * Serpent block primitive (Anderson, Biham and Knudsen, 1998) in the bitslice representation,
+ * with the little-endian byte order used by the NESSIE test vectors
+ */
+
+import { BlockCipher } from './block-cipher';
+
+const ROUNDS = 32;
+const PHI = 0x9e3779b9;
+
+const S_BOXES = [
+  [3, 8, 15, 1, 10, 6, 5, 11, 14, 13, 4, 2, 7, 0, 9, 12],
+  [15, 12, 2, 7, 9, 0, 5, 10, 1, 11, 14, 8, 6, 13, 3, 4],
+  [8, 6, 7, 9, 3, 12, 10, 15, 13, 1, 14, 4, 0, 11, 5, 2],
+  [0, 15, 11, 8, 12, 9, 6, 3, 13, 1, 2, 4, 10, 7, 5, 14],
+  [1, 15, 8, 3, 12, 0, 11, 6, 2, 5, 4, 10, 9, 14, 7, 13],
+  [15, 5, 2, 11, 4, 10, 9, 12, 0, 3, 14, 8, 13, 6, 7, 1],
+  [7, 2, 12, 5, 8, 4, 6, 11, 14, 9, 1, 15, 13, 3, 10, 0],
+  [1, 13, 15, 0, 14, 8, 2, 11, 7, 4, 12, 10, 9, 3, 5, 6]
+];
+
+const INVERSE_S_BOXES = S_BOXES.map(box => {
+  const inverse = new Array<number>(16);
+  box.forEach((value, index) => {
+    inverse[value] = index;
+  });
+  return inverse;
+});
+
+function rotl(x: number, n: number): number {
+  return ((x << n) | (x >>> (32 - n))) >>> 0;
+}
+
+function rotr(x: number, n: number): number {
+  return ((x >>> n) | (x << (32 - n))) >>> 0;
+}
+
+/**
+ * Apply a 4-bit S-box to all 32 bit columns of the four words at once: bit j of each word
+ * forms one S-box input, with the first word as the least significant bit
+ */
+function substitute(box: number[], words: number[]): number[] {
+  const output = [0, 0, 0, 0];
+  for (let bit = 0; bit < 32; bit++) {
+    const input =
+      ((words[0] >>> bit) & 1) |
+      (((words[1] >>> bit) & 1) << 1) |
+      (((words[2] >>> bit) & 1) << 2) |
+      (((words[3] >>> bit) & 1) << 3);
+    const value = box[input];
+    for (let i = 0; i < 4; i++) {
+      output[i] |= ((value >>> i) & 1) << bit;
+    }
+  }
+  return output.map(word => word >>> 0);
+}
+
+function linearTransform([x0, x1, x2, x3]: number[]): number[] {
+  x0 = rotl(x0, 13);
+  x2 = rotl(x2, 3);
+  x1 = (x1 ^ x0 ^ x2) >>> 0;
+  x3 = (x3 ^ x2 ^ (x0 << 3)) >>> 0;
+  x1 = rotl(x1, 1);
+  x3 = rotl(x3, 7);
+  x0 = (x0 ^ x1 ^ x3) >>> 0;
+  x2 = (x2 ^ x3 ^ (x1 << 7)) >>> 0;
+  x0 = rotl(x0, 5);
+  x2 = rotl(x2, 22);
+  return [x0, x1, x2, x3];
+}
+
+function inverseLinearTransform([x0, x1, x2, x3]: number[]): number[] {
+  x2 = rotr(x2, 22);
+  x0 = rotr(x0, 5);
+  x2 = (x2 ^ x3 ^ (x1 << 7)) >>> 0;
+  x0 = (x0 ^ x1 ^ x3) >>> 0;
+  x3 = rotr(x3, 7);
+  x1 = rotr(x1, 1);
+  x3 = (x3 ^ x2 ^ (x0 << 3)) >>> 0;
+  x1 = (x1 ^ x0 ^ x2) >>> 0;
+  x2 = rotr(x2, 3);
+  x0 = rotr(x0, 13);
+  return [x0, x1, x2, x3];
+}
+
+function xorWords(a: number[], b: number[]): number[] {
+  return a.map((word, i) => (word ^ b[i]) >>> 0);
+}
+
+export class SerpentBlockCipher implements BlockCipher {
+  readonly blockSize = 16;
+  private readonly subkeys: number[][] = [];
+
+  constructor(key: Uint8Array) {
+    if (![16, 24, 32].includes(key.length)) {
+      throw new Error('Serpent key must be 16, 24 or 32 bytes');
+    }
+
+    // Short keys are padded to 256 bits with a single one bit followed by zeros
+    const padded = new Uint8Array(32);
+    padded.set(key);
+    if (key.length < 32) {
+      padded[key.length] = 0x01;
+    }
+
+    const view = new DataView(padded.buffer);
+    const w: number[] = [];
+    for (let i = 0; i < 8; i++) {
+      w.push(view.getUint32(i * 4, true));
+    }
+    for (let i = 0; i < 4 * (ROUNDS + 1); i++) {
+      w.push(rotl((w[i] ^ w[i + 3] ^ w[i + 5] ^ w[i + 7] ^ PHI ^ i) >>> 0, 11));
+    }
+
+    // Round key i comes from S-box (3 - i) mod 8 applied to the prekeys
+    for (let i = 0; i <= ROUNDS; i++) {
+      const prekeys = w.slice(8 + 4 * i, 12 + 4 * i);
+      this.subkeys.push(substitute(S_BOXES[(35 - i) % 8], prekeys));
+    }
+  }
+
+  encryptBlock(block: Uint8Array): Uint8Array {
+    let words = this.readWords(block);
+    for (let round = 0; round < ROUNDS; round++) {
+      words = substitute(S_BOXES[round % 8], xorWords(words, this.subkeys[round]));
+      words = round < ROUNDS - 1 ? linearTransform(words) : xorWords(words, this.subkeys[ROUNDS]);
+    }
+    return this.writeWords(words);
+  }
+
+  decryptBlock(block: Uint8Array): Uint8Array {
+    let words = xorWords(this.readWords(block), this.subkeys[ROUNDS]);
+    for (let round = ROUNDS - 1; round >= 0; round--) {
+      if (round < ROUNDS - 1) {
+        words = inverseLinearTransform(words);
+      }
+      words = xorWords(substitute(INVERSE_S_BOXES[round % 8], words), this.subkeys[round]);
+    }
+    return this.writeWords(words);
+  }
+
+  private readWords(block: Uint8Array): number[] {
+    const view = new DataView(block.buffer, block.byteOffset, 16);
+    return [0, 1, 2, 3].map(i => view.getUint32(i * 4, true));
+  }
+
+  private writeWords(words: number[]): Uint8Array {
+    const block = new Uint8Array(16);
+    const view = new DataView(block.buffer);
+    words.forEach((word, i) => view.setUint32(i * 4, word, true));
+    return block;
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * SHA-256 (FIPS 180-4) over raw bytes. The incremental hasher can finish from its current state
+ * without being consumed, so callers that hash many messages behind a common prefix compress that
+ * prefix only once.
+ */
+
+const K = new Int32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+const INITIAL_STATE = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+
+const BLOCK_SIZE = 64;
+
+// Message schedule and scratch space, shared by every hasher since compression never re-enters itself
+const W = new Int32Array(64);
+const SCRATCH_STATE = new Int32Array(8);
+const SCRATCH_BLOCK = new Uint8Array(BLOCK_SIZE);
+const SCRATCH_VIEW = new DataView(SCRATCH_BLOCK.buffer);
+
+const rotr = (x: number, n: number): number => (x >>> n) | (x << (32 - n));
+
+function compress(state: Int32Array, block: Uint8Array, offset: number): void {
+  for (let i = 0; i < 16; i++) {
+    const j = offset + 4 * i;
+    W[i] = (block[j] << 24) | (block[j + 1] << 16) | (block[j + 2] << 8) | block[j + 3];
+  }
+  for (let i = 16; i < 64; i++) {
+    const s0 = rotr(W[i - 15], 7) ^ rotr(W[i - 15], 18) ^ (W[i - 15] >>> 3);
+    const s1 = rotr(W[i - 2], 17) ^ rotr(W[i - 2], 19) ^ (W[i - 2] >>> 10);
+    W[i] = (W[i - 16] + s0 + W[i - 7] + s1) | 0;
+  }
+
+  let a = state[0];
+  let b = state[1];
+  let c = state[2];
+  let d = state[3];
+  let e = state[4];
+  let f = state[5];
+  let g = state[6];
+  let h = state[7];
+  for (let i = 0; i < 64; i++) {
+    const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + W[i]) | 0;
+    const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+    h = g;
+    g = f;
+    f = e;
+    e = (d + t1) | 0;
+    d = c;
+    c = b;
+    b = a;
+    a = (t1 + t2) | 0;
+  }
+
+  state[0] = (state[0] + a) | 0;
+  state[1] = (state[1] + b) | 0;
+  state[2] = (state[2] + c) | 0;
+  state[3] = (state[3] + d) | 0;
+  state[4] = (state[4] + e) | 0;
+  state[5] = (state[5] + f) | 0;
+  state[6] = (state[6] + g) | 0;
+  state[7] = (state[7] + h) | 0;
+}
+
+function stateToBytes(state: Int32Array): Uint8Array {
+  const output = new Uint8Array(32);
+  for (let i = 0; i < 8; i++) {
+    output[4 * i] = state[i] >>> 24;
+    output[4 * i + 1] = state[i] >>> 16;
+    output[4 * i + 2] = state[i] >>> 8;
+    output[4 * i + 3] = state[i];
+  }
+  return output;
+}
+
+export class Sha256 {
+  private readonly state: Int32Array;
+  private readonly buffer: Uint8Array;
+  private bufferLength: number;
+  private length: number;
+
+  constructor(source?: Sha256) {
+    this.state = source ? source.state.slice() : Int32Array.from(INITIAL_STATE);
+    this.buffer = source ? source.buffer.slice() : new Uint8Array(BLOCK_SIZE);
+    this.bufferLength = source?.bufferLength ?? 0;
+    this.length = source?.length ?? 0;
+  }
+
+  update(data: Uint8Array): this {
+    this.length += data.length;
+    let offset = 0;
+    if (this.bufferLength > 0) {
+      offset = Math.min(data.length, BLOCK_SIZE - this.bufferLength);
+      this.buffer.set(data.subarray(0, offset), this.bufferLength);
+      this.bufferLength += offset;
+      if (this.bufferLength < BLOCK_SIZE) {
+        return this;
+      }
+      compress(this.state, this.buffer, 0);
+      this.bufferLength = 0;
+    }
+    for (; offset + BLOCK_SIZE <= data.length; offset += BLOCK_SIZE) {
+      compress(this.state, data, offset);
+    }
+    this.buffer.set(data.subarray(offset));
+    this.bufferLength = data.length - offset;
+    return this;
+  }
+
+  /**
+   * Pad and finish; the hasher must not be updated afterwards
+   */
+  digest(): Uint8Array {
+    const bitLength = this.length * 8;
+    this.buffer[this.bufferLength] = 0x80;
+    this.buffer.fill(0, this.bufferLength + 1);
+    if (this.bufferLength >= 56) {
+      compress(this.state, this.buffer, 0);
+      this.buffer.fill(0);
+    }
+    const view = new DataView(this.buffer.buffer);
+    view.setUint32(56, Math.floor(bitLength / 0x100000000));
+    view.setUint32(60, bitLength >>> 0);
+    compress(this.state, this.buffer, 0);
+
+    return stateToBytes(this.state);
+  }
+
+  /**
+   * The digest of everything hashed so far followed by data, leaving this hasher unchanged.
+   * Short inputs that finish within the current block are hashed without any copying.
+   */
+  digestWith(...data: Uint8Array[]): Uint8Array {
+    const total = data.reduce((sum, part) => sum + part.length, 0);
+    if (this.bufferLength + total >= 56) {
+      const hasher = this.clone();
+      data.forEach(part => hasher.update(part));
+      return hasher.digest();
+    }
+
+    SCRATCH_BLOCK.set(this.buffer.subarray(0, this.bufferLength));
+    let offset = this.bufferLength;
+    for (const part of data) {
+      SCRATCH_BLOCK.set(part, offset);
+      offset += part.length;
+    }
+    SCRATCH_BLOCK[offset] = 0x80;
+    SCRATCH_BLOCK.fill(0, offset + 1);
+    const bitLength = (this.length + total) * 8;
+    SCRATCH_VIEW.setUint32(56, Math.floor(bitLength / 0x100000000));
+    SCRATCH_VIEW.setUint32(60, bitLength >>> 0);
+    SCRATCH_STATE.set(this.state);
+    compress(SCRATCH_STATE, SCRATCH_BLOCK, 0);
+    return stateToBytes(SCRATCH_STATE);
+  }
+
+  clone(): Sha256 {
+    return new Sha256(this);
+  }
+}
+
+export function sha256(data: Uint8Array): Uint8Array {
+  return new Sha256().update(data).digest();
+}
@@ -0,0 +1,570 @@
+/**
+ * SLH-DSA (FIPS 205), the stateless hash-based signature scheme standardized from SPHINCS+, for the
+ * security category 1 parameter sets SLH-DSA-SHA2-128s/128f and SLH-DSA-SHAKE-128s/128f
+ */
+
+import { shake256 } from 'js-sha3';
+import { concatBytes, getRandomBytes, hmacSha256, secureCompare } from '@/lib/crypto-utils';
+import { Sha256, sha256 } from './sha256';
+
+export interface SlhDsaParameters {
+  hash: 'sha2' | 'shake';
+  // Bytes per hash value
+  n: number;
+  // Total hypertree height and number of layers
+  h: number;
+  d: number;
+  // FORS tree height and number of trees
+  a: number;
+  k: number;
+  // Message digest bytes
+  m: number;
+}
+
+export const SLH_DSA_PARAMETERS = {
+  'SLH-DSA-SHA2-128s': { hash: 'sha2', n: 16, h: 63, d: 7, a: 12, k: 14, m: 30 },
+  'SLH-DSA-SHAKE-128s': { hash: 'shake', n: 16, h: 63, d: 7, a: 12, k: 14, m: 30 },
+  'SLH-DSA-SHA2-128f': { hash: 'sha2', n: 16, h: 66, d: 22, a: 6, k: 33, m: 34 },
+  'SLH-DSA-SHAKE-128f': { hash: 'shake', n: 16, h: 66, d: 22, a: 6, k: 33, m: 34 }
+} satisfies Record<string, SlhDsaParameters>;
+
+export type SlhDsaParameterSet = keyof typeof SLH_DSA_PARAMETERS;
+
+export interface SlhDsaKeyPair {
+  publicKey: Uint8Array;
+  secretKey: Uint8Array;
+}
+
+export interface SlhDsaSignOptions {
+  // Up to 255 bytes bound into the signature, which must be presented again to verify
+  context?: Uint8Array;
+  // Substitute PK.seed for the fresh randomness of hedged signing
+  deterministic?: boolean;
+}
+
+// Winternitz parameter: every set uses base-16 digits
+const LG_W = 4;
+const W = 1 << LG_W;
+
+const ADDRESS_TYPES = {
+  WOTS_HASH: 0,
+  WOTS_PK: 1,
+  TREE: 2,
+  FORS_TREE: 3,
+  FORS_ROOTS: 4,
+  WOTS_PRF: 5,
+  FORS_PRF: 6
+} as const;
+
+type AddressType = (typeof ADDRESS_TYPES)[keyof typeof ADDRESS_TYPES];
+
+function wotsLengths(n: number): { len1: number; len2: number; len: number } {
+  const len1 = (8 * n) / LG_W;
+  const len2 = Math.floor(Math.log2(len1 * (W - 1)) / LG_W) + 1;
+  return { len1, len2, len: len1 + len2 };
+}
+
+export function publicKeySize({ n }: SlhDsaParameters): number {
+  return 2 * n;
+}
+
+export function secretKeySize({ n }: SlhDsaParameters): number {
+  return 4 * n;
+}
+
+export function signatureSize({ n, h, d, a, k }: SlhDsaParameters): number {
+  return (1 + k * (1 + a) + h + d * wotsLengths(n).len) * n;
+}
+
+/**
+ * The 32-byte ADRS structure: layer, tree address, type, then three type-specific words
+ * (key pair; chain or tree height; hash or tree index)
+ */
+class Address {
+  readonly bytes = new Uint8Array(32);
+  private readonly view = new DataView(this.bytes.buffer);
+
+  setLayer(layer: number): void {
+    this.view.setUint32(0, layer);
+  }
+
+  setTree(tree: bigint): void {
+    this.view.setUint32(4, 0);
+    this.view.setBigUint64(8, tree);
+  }
+
+  // setTypeAndClear: changing the type zeroes the three words that follow it
+  setType(type: AddressType): void {
+    this.view.setUint32(16, type);
+    this.bytes.fill(0, 20);
+  }
+
+  get keyPair(): number {
+    return this.view.getUint32(20);
+  }
+
+  setKeyPair(keyPair: number): void {
+    this.view.setUint32(20, keyPair);
+  }
+
+  setChain(chain: number): void {
+    this.view.setUint32(24, chain);
+  }
+
+  setTreeHeight(height: number): void {
+    this.view.setUint32(24, height);
+  }
+
+  setHash(hash: number): void {
+    this.view.setUint32(28, hash);
+  }
+
+  setTreeIndex(index: number): void {
+    this.view.setUint32(28, index);
+  }
+
+  copy(): Address {
+    const address = new Address();
+    address.bytes.set(this.bytes);
+    return address;
+  }
+
+  // The 22-byte ADRSc used by the SHA2 instantiation (FIPS 205 section 11.2): the low bytes of the
+  // layer, tree address and type, then the three words unchanged
+  compressInto(output: Uint8Array): Uint8Array {
+    const b = this.bytes;
+    output[0] = b[3];
+    output.set(b.subarray(8, 16), 1);
+    output[9] = b[19];
+    output.set(b.subarray(20, 32), 10);
+    return output;
+  }
+}
+
+/**
+ * The tweakable hash behind F, H and T_l, keyed by PK.seed and the address. PRF has the same
+ * shape with SK.seed as its input, so it is thash(address, skSeed) in both instantiations.
+ */
+type TweakableHash = (address: Address, ...values: Uint8Array[]) => Uint8Array;
+
+interface Context {
+  params: SlhDsaParameters;
+  thash: TweakableHash;
+  skSeed: Uint8Array;
+}
+
+const shakeBytes = (data: Uint8Array, length: number) => new Uint8Array(shake256.arrayBuffer(data, length * 8));
+
+function createTweakableHash({ hash, n }: SlhDsaParameters, pkSeed: Uint8Array): TweakableHash {
+  if (hash === 'shake') {
+    return (address, ...values) => shakeBytes(concatBytes(pkSeed, address.bytes, ...values), n);
+  }
+  // PK.seed is padded to a full SHA-256 block, so its compression can be shared by every call
+  const seeded = new Sha256().update(concatBytes(pkSeed, new Uint8Array(64 - n)));
+  const compressedAddress = new Uint8Array(22);
+  return (address, ...values) => seeded.digestWith(address.compressInto(compressedAddress), ...values).subarray(0, n);
+}
+
+function mgf1Sha256(seed: Uint8Array, length: number): Uint8Array {
+  const output = new Uint8Array(Math.ceil(length / 32) * 32);
+  const counter = new Uint8Array(4);
+  for (let i = 0; i * 32 < length; i++) {
+    new DataView(counter.buffer).setUint32(0, i);
+    output.set(sha256(concatBytes(seed, counter)), i * 32);
+  }
+  return output.subarray(0, length);
+}
+
+// PRF_msg: the randomizer R
+function prfMessage({ hash, n }: SlhDsaParameters, skPrf: Uint8Array, optRand: Uint8Array, message: Uint8Array): Uint8Array {
+  return hash === 'shake'
+    ? shakeBytes(concatBytes(skPrf, optRand, message), n)
+    : hmacSha256(skPrf, concatBytes(optRand, message)).slice(0, n);
+}
+
+// H_msg: the digest that selects the FORS key and the hypertree leaf
+function hashMessage(
+  { hash, m }: SlhDsaParameters,
+  r: Uint8Array,
+  pkSeed: Uint8Array,
+  pkRoot: Uint8Array,
+  message: Uint8Array
+): Uint8Array {
+  return hash === 'shake'
+    ? shakeBytes(concatBytes(r, pkSeed, pkRoot, message), m)
+    : mgf1Sha256(concatBytes(r, pkSeed, sha256(concatBytes(r, pkSeed, pkRoot, message))), m);
+}
+
+/**
+ * Algorithm 4: split a byte string into outLength integers of b bits each, most significant first
+ */
+function base2b(x: Uint8Array, b: number, outLength: number): number[] {
+  const digits: number[] = [];
+  let total = 0;
+  let bits = 0;
+  for (let i = 0; digits.length < outLength;) {
+    while (bits < b) {
+      total = (total << 8) | x[i++];
+      bits += 8;
+    }
+    bits -= b;
+    digits.push((total >>> bits) & ((1 << b) - 1));
+    total &= (1 << bits) - 1;
+  }
+  return digits;
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  return bytes.reduce((value, byte) => (value << 8n) | BigInt(byte), 0n);
+}
+
+function chain(ctx: Context, x: Uint8Array, start: number, steps: number, address: Address): Uint8Array {
+  let node = x;
+  for (let j = start; j < start + steps; j++) {
+    address.setHash(j);
+    node = ctx.thash(address, node);
+  }
+  return node;
+}
+
+// The base-16 digits of the message followed by those of its checksum
+function wotsDigits({ n }: SlhDsaParameters, message: Uint8Array): number[] {
+  const { len1, len2 } = wotsLengths(n);
+  const digits = base2b(message, LG_W, len1);
+  const checksum = digits.reduce((sum, digit) => sum + W - 1 - digit, 0) << ((8 - ((len2 * LG_W) % 8)) % 8);
+  const checksumBytes = new Uint8Array(Math.ceil((len2 * LG_W) / 8));
+  for (let i = checksumBytes.length - 1, value = checksum; i >= 0; i--, value >>>= 8) {
+    checksumBytes[i] = value & 0xff;
+  }
+  return [...digits, ...base2b(checksumBytes, LG_W, len2)];
+}
+
+function wotsSecret(ctx: Context, address: Address, chainIndex: number): Uint8Array {
+  const secretAddress = address.copy();
+  secretAddress.setType(ADDRESS_TYPES.WOTS_PRF);
+  secretAddress.setKeyPair(address.keyPair);
+  secretAddress.setChain(chainIndex);
+  return ctx.thash(secretAddress, ctx.skSeed);
+}
+
+function wotsCompress(ctx: Context, address: Address, chainEnds: Uint8Array[]): Uint8Array {
+  const publicKeyAddress = address.copy();
+  publicKeyAddress.setType(ADDRESS_TYPES.WOTS_PK);
+  publicKeyAddress.setKeyPair(address.keyPair);
+  return ctx.thash(publicKeyAddress, ...chainEnds);
+}
+
+/**
+ * Algorithm 6: a WOTS+ public key, the compressed ends of all len hash chains
+ */
+function wotsPublicKey(ctx: Context, address: Address): Uint8Array {
+  const { len } = wotsLengths(ctx.params.n);
+  const ends = Array.from({ length: len }, (_, i) => {
+    address.setChain(i);
+    return chain(ctx, wotsSecret(ctx, address, i), 0, W - 1, address);
+  });
+  return wotsCompress(ctx, address, ends);
+}
+
+/**
+ * Algorithm 7: advance each chain as far as its message digit
+ */
+function wotsSign(ctx: Context, message: Uint8Array, address: Address): Uint8Array {
+  return concatBytes(...wotsDigits(ctx.params, message).map((digit, i) => {
+    address.setChain(i);
+    return chain(ctx, wotsSecret(ctx, address, i), 0, digit, address);
+  }));
+}
+
+/**
+ * Algorithm 8: complete each chain from the signature to recover the public key
+ */
+function wotsPublicKeyFromSignature(ctx: Context, signature: Uint8Array, message: Uint8Array, address: Address): Uint8Array {
+  const { n } = ctx.params;
+  const ends = wotsDigits(ctx.params, message).map((digit, i) => {
+    address.setChain(i);
+    return chain(ctx, signature.subarray(i * n, (i + 1) * n), digit, W - 1 - digit, address);
+  });
+  return wotsCompress(ctx, address, ends);
+}
+
+// Every level of a Merkle tree, leaves first and the root last
+function merkleLevels(leaves: Uint8Array[], node: (height: number, index: number, left: Uint8Array, right: Uint8Array) => Uint8Array): Uint8Array[][] {
+  const levels = [leaves];
+  for (let height = 1; levels[height - 1].length > 1; height++) {
+    const below = levels[height - 1];
+    levels.push(Array.from({ length: below.length / 2 }, (_, i) => node(height, i, below[2 * i], below[2 * i + 1])));
+  }
+  return levels;
+}
+
+function authenticationPath(levels: Uint8Array[][], index: number): Uint8Array[] {
+  return levels.slice(0, -1).map((level, height) => level[(index >>> height) ^ 1]);
+}
+
+// Climb from a leaf to the root; index is the leaf's position among all leaves sharing the address
+function rootFromAuthenticationPath(ctx: Context, leaf: Uint8Array, index: number, path: Uint8Array[], address: Address): Uint8Array {
+  return path.reduce((node, sibling, height) => {
+    address.setTreeHeight(height + 1);
+    address.setTreeIndex(index >>> (height + 1));
+    return ((index >>> height) & 1) === 0 ? ctx.thash(address, node, sibling) : ctx.thash(address, sibling, node);
+  }, leaf);
+}
+
+/**
+ * Algorithm 9 for every node at once: the XMSS tree whose layer and tree address are set in address
+ */
+function xmssTree(ctx: Context, address: Address): Uint8Array[][] {
+  const height = ctx.params.h / ctx.params.d;
+  const leaves = Array.from({ length: 1 << height }, (_, i) => {
+    address.setType(ADDRESS_TYPES.WOTS_HASH);
+    address.setKeyPair(i);
+    return wotsPublicKey(ctx, address);
+  });
+  address.setType(ADDRESS_TYPES.TREE);
+  return merkleLevels(leaves, (z, i, left, right) => {
+    address.setTreeHeight(z);
+    address.setTreeIndex(i);
+    return ctx.thash(address, left, right);
+  });
+}
+
+/**
+ * Algorithm 10: a WOTS+ signature of message under leaf index and its authentication path,
+ * returned with the tree's root so the next layer can sign it
+ */
+function xmssSign(ctx: Context, message: Uint8Array, index: number, address: Address): { signature: Uint8Array; root: Uint8Array } {
+  const levels = xmssTree(ctx, address);
+  address.setType(ADDRESS_TYPES.WOTS_HASH);
+  address.setKeyPair(index);
+  return {
+    signature: concatBytes(wotsSign(ctx, message, address), ...authenticationPath(levels, index)),
+    root: levels[levels.length - 1][0]
+  };
+}
+
+/**
+ * Algorithm 11
+ */
+function xmssRootFromSignature(ctx: Context, index: number, signature: Uint8Array, message: Uint8Array, address: Address): Uint8Array {
+  const { n, h, d } = ctx.params;
+  const { len } = wotsLengths(n);
+  address.setType(ADDRESS_TYPES.WOTS_HASH);
+  address.setKeyPair(index);
+  const leaf = wotsPublicKeyFromSignature(ctx, signature.subarray(0, len * n), message, address);
+
+  const path = Array.from({ length: h / d }, (_, i) => signature.subarray((len + i) * n, (len + i + 1) * n));
+  address.setType(ADDRESS_TYPES.TREE);
+  return rootFromAuthenticationPath(ctx, leaf, index, path, address);
+}
+
+/**
+ * Algorithm 12: sign with the bottom XMSS tree, then have each layer sign the root of the one below
+ */
+function hypertreeSign(ctx: Context, message: Uint8Array, tree: bigint, leaf: number): Uint8Array {
+  const height = ctx.params.h / ctx.params.d;
+  const address = new Address();
+  const layers: Uint8Array[] = [];
+  let root = message;
+  for (let layer = 0; layer < ctx.params.d; layer++) {
+    address.setLayer(layer);
+    address.setTree(tree);
+    const signed = xmssSign(ctx, root, leaf, address);
+    layers.push(signed.signature);
+    root = signed.root;
+    leaf = Number(tree & BigInt((1 << height) - 1));
+    tree >>= BigInt(height);
+  }
+  return concatBytes(...layers);
+}
+
+/**
+ * Algorithm 13
+ */
+function hypertreeVerify(ctx: Context, message: Uint8Array, signature: Uint8Array, tree: bigint, leaf: number, pkRoot: Uint8Array): boolean {
+  const { n, h, d } = ctx.params;
+  const height = h / d;
+  const layerSize = (wotsLengths(n).len + height) * n;
+  const address = new Address();
+  let node = message;
+  for (let layer = 0; layer < d; layer++) {
+    address.setLayer(layer);
+    address.setTree(tree);
+    node = xmssRootFromSignature(ctx, leaf, signature.subarray(layer * layerSize, (layer + 1) * layerSize), node, address);
+    leaf = Number(tree & BigInt((1 << height) - 1));
+    tree >>= BigInt(height);
+  }
+  return secureCompare(node, pkRoot);
+}
+
+function forsSecret(ctx: Context, address: Address, index: number): Uint8Array {
+  const secretAddress = address.copy();
+  secretAddress.setType(ADDRESS_TYPES.FORS_PRF);
+  secretAddress.setKeyPair(address.keyPair);
+  secretAddress.setTreeIndex(index);
+  return ctx.thash(secretAddress, ctx.skSeed);
+}
+
+function forsCompress(ctx: Context, address: Address, roots: Uint8Array[]): Uint8Array {
+  const rootsAddress = address.copy();
+  rootsAddress.setType(ADDRESS_TYPES.FORS_ROOTS);
+  rootsAddress.setKeyPair(address.keyPair);
+  return ctx.thash(rootsAddress, ...roots);
+}
+
+/**
+ * Algorithm 16: reveal one secret leaf per FORS tree, chosen by the a-bit digits of the digest,
+ * with its authentication path; the roots come back as well to form the FORS public key
+ */
+function forsSign(ctx: Context, digest: Uint8Array, address: Address): { signature: Uint8Array; publicKey: Uint8Array } {
+  const { a, k } = ctx.params;
+  const parts: Uint8Array[] = [];
+  const roots: Uint8Array[] = [];
+  base2b(digest, a, k).forEach((index, i) => {
+    const offset = i << a;
+    const leaves = Array.from({ length: 1 << a }, (_, j) => {
+      const secret = forsSecret(ctx, address, offset + j);
+      address.setTreeHeight(0);
+      address.setTreeIndex(offset + j);
+      return ctx.thash(address, secret);
+    });
+    const levels = merkleLevels(leaves, (z, j, left, right) => {
+      address.setTreeHeight(z);
+      address.setTreeIndex((offset >>> z) + j);
+      return ctx.thash(address, left, right);
+    });
+    parts.push(forsSecret(ctx, address, offset + index), ...authenticationPath(levels, index));
+    roots.push(levels[a][0]);
+  });
+  return { signature: concatBytes(...parts), publicKey: forsCompress(ctx, address, roots) };
+}
+
+/**
+ * Algorithm 17
+ */
+function forsPublicKeyFromSignature(ctx: Context, signature: Uint8Array, digest: Uint8Array, address: Address): Uint8Array {
+  const { n, a, k } = ctx.params;
+  const roots = base2b(digest, a, k).map((index, i) => {
+    const start = i * (a + 1) * n;
+    const leafIndex = (i << a) + index;
+    address.setTreeHeight(0);
+    address.setTreeIndex(leafIndex);
+    const leaf = ctx.thash(address, signature.subarray(start, start + n));
+    const path = Array.from({ length: a }, (_, j) => signature.subarray(start + (j + 1) * n, start + (j + 2) * n));
+    return rootFromAuthenticationPath(ctx, leaf, leafIndex, path, address);
+  });
+  return forsCompress(ctx, address, roots);
+}
+
+// Lines 7-12 of algorithms 19 and 20: the FORS digest and the hypertree leaf it is signed under
+function splitDigest({ h, d, a, k }: SlhDsaParameters, digest: Uint8Array): { md: Uint8Array; tree: bigint; leaf: number } {
+  const height = h / d;
+  const mdLength = Math.ceil((k * a) / 8);
+  const treeLength = Math.ceil((h - height) / 8);
+  const leafLength = Math.ceil(height / 8);
+  const treeBytes = digest.subarray(mdLength, mdLength + treeLength);
+  const leafBytes = digest.subarray(mdLength + treeLength, mdLength + treeLength + leafLength);
+  return {
+    md: digest.subarray(0, mdLength),
+    tree: bytesToBigInt(treeBytes) & ((1n << BigInt(h - height)) - 1n),
+    leaf: Number(bytesToBigInt(leafBytes) & ((1n << BigInt(height)) - 1n))
+  };
+}
+
+// Pure SLH-DSA signs 0x00 || |ctx| || ctx || M (algorithms 22 and 24)
+function encodeMessage(message: Uint8Array, context: Uint8Array): Uint8Array {
+  if (context.length > 255) {
+    throw new Error('SLH-DSA context string must be at most 255 bytes');
+  }
+  return concatBytes(Uint8Array.of(0, context.length), context, message);
+}
+
+/**
+ * Algorithms 18/21: the key pair is SK.seed || SK.prf || PK.seed || PK.root and PK.seed || PK.root,
+ * where PK.root is the root of the top XMSS tree. Deterministic when the 3n-byte seed is given.
+ */
+export function slhDsaKeyGen(params: SlhDsaParameters, seed: Uint8Array = getRandomBytes(3 * params.n)): SlhDsaKeyPair {
+  const { n, d } = params;
+  if (seed.length !== 3 * n) {
+    throw new Error(`SLH-DSA key generation seed must be ${3 * n} bytes`);
+  }
+  const skSeed = seed.subarray(0, n);
+  const pkSeed = seed.subarray(2 * n);
+  const ctx = { params, thash: createTweakableHash(params, pkSeed), skSeed };
+
+  const address = new Address();
+  address.setLayer(d - 1);
+  const levels = xmssTree(ctx, address);
+  const pkRoot = levels[levels.length - 1][0];
+  return {
+    publicKey: concatBytes(pkSeed, pkRoot),
+    secretKey: concatBytes(seed, pkRoot)
+  };
+}
+
+/**
+ * Algorithms 19/22: R || FORS signature || hypertree signature
+ */
+export function slhDsaSign(
+  params: SlhDsaParameters,
+  secretKey: Uint8Array,
+  message: Uint8Array,
+  { context = new Uint8Array(0), deterministic = false }: SlhDsaSignOptions = {}
+): Uint8Array {
+  const { n } = params;
+  if (secretKey.length !== secretKeySize(params)) {
+    throw new Error(`SLH-DSA secret key must be ${secretKeySize(params)} bytes`);
+  }
+  const skSeed = secretKey.subarray(0, n);
+  const skPrf = secretKey.subarray(n, 2 * n);
+  const pkSeed = secretKey.subarray(2 * n, 3 * n);
+  const pkRoot = secretKey.subarray(3 * n);
+  const encoded = encodeMessage(message, context);
+
+  const r = prfMessage(params, skPrf, deterministic ? pkSeed : getRandomBytes(n), encoded);
+  const { md, tree, leaf } = splitDigest(params, hashMessage(params, r, pkSeed, pkRoot, encoded));
+  const ctx = { params, thash: createTweakableHash(params, pkSeed), skSeed };
+
+  const address = new Address();
+  address.setTree(tree);
+  address.setType(ADDRESS_TYPES.FORS_TREE);
+  address.setKeyPair(leaf);
+  const fors = forsSign(ctx, md, address);
+  return concatBytes(r, fors.signature, hypertreeSign(ctx, fors.publicKey, tree, leaf));
+}
+
+/**
+ * Algorithms 20/24. Signatures of the wrong length are invalid rather than an error.
+ */
+export function slhDsaVerify(
+  params: SlhDsaParameters,
+  publicKey: Uint8Array,
+  message: Uint8Array,
+  signature: Uint8Array,
+  context: Uint8Array = new Uint8Array(0)
+): boolean {
+  const { n, a, k } = params;
+  if (publicKey.length !== publicKeySize(params)) {
+    throw new Error(`SLH-DSA public key must be ${publicKeySize(params)} bytes`);
+  }
+  const encoded = encodeMessage(message, context);
+  if (signature.length !== signatureSize(params)) {
+    return false;
+  }
+  const pkSeed = publicKey.subarray(0, n);
+  const pkRoot = publicKey.subarray(n);
+
+  const r = signature.subarray(0, n);
+  const forsSignature = signature.subarray(n, n + k * (a + 1) * n);
+  const hypertreeSignature = signature.subarray(n + k * (a + 1) * n);
+  const { md, tree, leaf } = splitDigest(params, hashMessage(params, r, pkSeed, pkRoot, encoded));
+  // Verification never touches SK.seed
+  const ctx = { params, thash: createTweakableHash(params, pkSeed), skSeed: new Uint8Array(0) };
+
+  const address = new Address();
+  address.setTree(tree);
+  address.setType(ADDRESS_TYPES.FORS_TREE);
+  address.setKeyPair(leaf);
+  const forsPublicKey = forsPublicKeyFromSignature(ctx, forsSignature, md, address);
+  return hypertreeVerify(ctx, forsPublicKey, hypertreeSignature, tree, leaf, pkRoot);
+}
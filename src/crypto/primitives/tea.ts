@@ -0,0 +1,103 @@
+/**
+ * TEA and XTEA block primitives (Wheeler & Needham, 1994 and 1997)
+ *
+ * Blocks and keys are read as big-endian 32-bit words.
+ */
+
+import { BlockCipher } from './block-cipher';
+
+const ROUNDS = 32;
+const DELTA = 0x9e3779b9;
+
+function readWords(bytes: Uint8Array, count: number): number[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return Array.from({ length: count }, (_, i) => view.getUint32(i * 4));
+}
+
+function writeWords(v0: number, v1: number): Uint8Array {
+  const block = new Uint8Array(8);
+  const view = new DataView(block.buffer);
+  view.setUint32(0, v0);
+  view.setUint32(4, v1);
+  return block;
+}
+
+function validateKey(key: Uint8Array, name: string): void {
+  if (key.length !== 16) {
+    throw new Error(`${name} key must be 16 bytes`);
+  }
+}
+
+export class TEABlockCipher implements BlockCipher {
+  readonly blockSize = 8;
+  private readonly key: number[];
+
+  constructor(key: Uint8Array) {
+    validateKey(key, 'TEA');
+    this.key = readWords(key, 4);
+  }
+
+  encryptBlock(block: Uint8Array): Uint8Array {
+    let [v0, v1] = readWords(block, 2);
+    const [k0, k1, k2, k3] = this.key;
+    let sum = 0;
+
+    for (let i = 0; i < ROUNDS; i++) {
+      sum = (sum + DELTA) >>> 0;
+      v0 = (v0 + ((((v1 << 4) + k0) ^ (v1 + sum) ^ ((v1 >>> 5) + k1)) >>> 0)) >>> 0;
+      v1 = (v1 + ((((v0 << 4) + k2) ^ (v0 + sum) ^ ((v0 >>> 5) + k3)) >>> 0)) >>> 0;
+    }
+
+    return writeWords(v0, v1);
+  }
+
+  decryptBlock(block: Uint8Array): Uint8Array {
+    let [v0, v1] = readWords(block, 2);
+    const [k0, k1, k2, k3] = this.key;
+    let sum = (DELTA * ROUNDS) >>> 0;
+
+    for (let i = 0; i < ROUNDS; i++) {
+      v1 = (v1 - ((((v0 << 4) + k2) ^ (v0 + sum) ^ ((v0 >>> 5) + k3)) >>> 0)) >>> 0;
+      v0 = (v0 - ((((v1 << 4) + k0) ^ (v1 + sum) ^ ((v1 >>> 5) + k1)) >>> 0)) >>> 0;
+      sum = (sum - DELTA) >>> 0;
+    }
+
+    return writeWords(v0, v1);
+  }
+}
+
+export class XTEABlockCipher implements BlockCipher {
+  readonly blockSize = 8;
+  private readonly key: number[];
+
+  constructor(key: Uint8Array) {
+    validateKey(key, 'XTEA');
+    this.key = readWords(key, 4);
+  }
+
+  encryptBlock(block: Uint8Array): Uint8Array {
+    let [v0, v1] = readWords(block, 2);
+    let sum = 0;
+
+    for (let i = 0; i < ROUNDS; i++) {
+      v0 = (v0 + (((((v1 << 4) ^ (v1 >>> 5)) + v1) ^ (sum + this.key[sum & 3])) >>> 0)) >>> 0;
+      sum = (sum + DELTA) >>> 0;
+      v1 = (v1 + (((((v0 << 4) ^ (v0 >>> 5)) + v0) ^ (sum + this.key[(sum >>> 11) & 3])) >>> 0)) >>> 0;
+    }
+
+    return writeWords(v0, v1);
+  }
+
+  decryptBlock(block: Uint8Array): Uint8Array {
+    let [v0, v1] = readWords(block, 2);
+    let sum = (DELTA * ROUNDS) >>> 0;
+
+    for (let i = 0; i < ROUNDS; i++) {
+      v1 = (v1 - (((((v0 << 4) ^ (v0 >>> 5)) + v0) ^ (sum + this.key[(sum >>> 11) & 3])) >>> 0)) >>> 0;
+      sum = (sum - DELTA) >>> 0;
+      v0 = (v0 - (((((v1 << 4) ^ (v1 >>> 5)) + v1) ^ (sum + this.key[sum & 3])) >>> 0)) >>> 0;
+    }
+
+    return writeWords(v0, v1);
+  }
+}
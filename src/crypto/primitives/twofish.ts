@@ -0,0 +1,243 @@
+/**
+ * Twofish block primitive (Schneier, Kelsey, Whiting, Wagner, Hall and Ferguson, 1998)
+ */
+
+import { BlockCipher } from './block-cipher';
+
+const ROUNDS = 16;
+
+// 4-bit permutations t0-t3 from which the fixed byte permutations q0 and q1 are built
+const Q_NIBBLE_TABLES = [
+  [
+    [0x8, 0x1, 0x7, 0xd, 0x6, 0xf, 0x3, 0x2, 0x0, 0xb, 0x5, 0x9, 0xe, 0xc, 0xa, 0x4],
+    [0xe, 0xc, 0xb, 0x8, 0x1, 0x2, 0x3, 0x5, 0xf, 0x4, 0xa, 0x6, 0x7, 0x0, 0x9, 0xd],
+    [0xb, 0xa, 0x5, 0xe, 0x6, 0xd, 0x9, 0x0, 0xc, 0x8, 0xf, 0x3, 0x2, 0x4, 0x7, 0x1],
+    [0xd, 0x7, 0xf, 0x4, 0x1, 0x2, 0x6, 0xe, 0x9, 0xb, 0x3, 0x0, 0x8, 0x5, 0xc, 0xa]
+  ],
+  [
+    [0x2, 0x8, 0xb, 0xd, 0xf, 0x7, 0x6, 0xe, 0x3, 0x1, 0x9, 0x4, 0x0, 0xa, 0xc, 0x5],
+    [0x1, 0xe, 0x2, 0xb, 0x4, 0xc, 0x3, 0x7, 0x6, 0xd, 0xa, 0x5, 0xf, 0x9, 0x0, 0x8],
+    [0x4, 0xc, 0x7, 0x5, 0x1, 0x6, 0x9, 0xa, 0x0, 0xe, 0xd, 0x8, 0x2, 0xb, 0x3, 0xf],
+    [0xb, 0x9, 0x5, 0x1, 0xc, 0x3, 0xd, 0xe, 0x6, 0x4, 0x7, 0xf, 0x2, 0x0, 0x8, 0xa]
+  ]
+];
+
+const MDS = [
+  [0x01, 0xef, 0x5b, 0x5b],
+  [0x5b, 0xef, 0xef, 0x01],
+  [0xef, 0x5b, 0x01, 0xef],
+  [0xef, 0x01, 0xef, 0x5b]
+];
+
+// Reed-Solomon code that condenses each 8 key bytes into one S-box key word
+const RS = [
+  [0x01, 0xa4, 0x55, 0x87, 0x5a, 0x58, 0xdb, 0x9e],
+  [0xa4, 0x56, 0x82, 0xf3, 0x1e, 0xc6, 0x68, 0xe5],
+  [0x02, 0xa1, 0xfc, 0xc1, 0x47, 0xae, 0x3d, 0x19],
+  [0xa4, 0x55, 0x87, 0x5a, 0x58, 0xdb, 0x9e, 0x03]
+];
+
+const MDS_POLYNOMIAL = 0x169;
+const RS_POLYNOMIAL = 0x14d;
+
+// Which q permutation each byte lane passes through before mixing in key words 3, 2, 1 and 0,
+// and finally before the MDS matrix
+const Q_ORDER = [
+  [1, 0, 0, 1],
+  [1, 1, 0, 0],
+  [0, 1, 0, 1],
+  [0, 0, 1, 1],
+  [1, 0, 1, 0]
+];
+
+function rotr4(x: number): number {
+  return ((x >>> 1) | (x << 3)) & 0xf;
+}
+
+function buildQ(t: number[][]): Uint8Array {
+  const q = new Uint8Array(256);
+  for (let x = 0; x < 256; x++) {
+    let a = x >>> 4;
+    let b = x & 0xf;
+    for (let round = 0; round < 2; round++) {
+      const mixedA = a ^ b;
+      const mixedB = (a ^ rotr4(b) ^ (a << 3)) & 0xf;
+      a = t[round * 2][mixedA];
+      b = t[round * 2 + 1][mixedB];
+    }
+    q[x] = (b << 4) | a;
+  }
+  return q;
+}
+
+const Q = Q_NIBBLE_TABLES.map(buildQ);
+
+function gfMultiply(a: number, b: number, polynomial: number): number {
+  let result = 0;
+  while (b > 0) {
+    if (b & 1) {
+      result ^= a;
+    }
+    a <<= 1;
+    if (a & 0x100) {
+      a ^= polynomial;
+    }
+    b >>>= 1;
+  }
+  return result;
+}
+
+// MDS_COLUMNS[j][y] is column j of the MDS matrix multiplied by y, packed little-endian
+const MDS_COLUMNS = [0, 1, 2, 3].map(column => {
+  const table = new Uint32Array(256);
+  for (let y = 0; y < 256; y++) {
+    let word = 0;
+    for (let row = 0; row < 4; row++) {
+      word |= gfMultiply(MDS[row][column], y, MDS_POLYNOMIAL) << (row * 8);
+    }
+    table[y] = word >>> 0;
+  }
+  return table;
+});
+
+function rotl(x: number, n: number): number {
+  return ((x << n) | (x >>> (32 - n))) >>> 0;
+}
+
+function rotr(x: number, n: number): number {
+  return ((x >>> n) | (x << (32 - n))) >>> 0;
+}
+
+/**
+ * One byte lane of the h function: alternate q permutations with the key words' bytes
+ */
+function hByte(x: number, lane: number, words: number[]): number {
+  let y = x;
+  for (let i = words.length - 1; i >= 0; i--) {
+    y = Q[Q_ORDER[3 - i][lane]][y] ^ ((words[i] >>> (lane * 8)) & 0xff);
+  }
+  return Q[Q_ORDER[4][lane]][y];
+}
+
+function h(x: number, words: number[]): number {
+  let result = 0;
+  for (let lane = 0; lane < 4; lane++) {
+    result ^= MDS_COLUMNS[lane][hByte((x >>> (lane * 8)) & 0xff, lane, words)];
+  }
+  return result >>> 0;
+}
+
+export class TwofishBlockCipher implements BlockCipher {
+  readonly blockSize = 16;
+  private readonly subkeys = new Uint32Array(40);
+  // The key-dependent S-boxes with the MDS matrix folded in, one table per byte lane
+  private readonly sBoxes: Uint32Array[];
+
+  constructor(key: Uint8Array) {
+    if (![16, 24, 32].includes(key.length)) {
+      throw new Error('Twofish key must be 16, 24 or 32 bytes');
+    }
+
+    const view = new DataView(key.buffer, key.byteOffset, key.length);
+    const k = key.length / 8;
+    const even: number[] = [];
+    const odd: number[] = [];
+    const sWords: number[] = [];
+    for (let i = 0; i < k; i++) {
+      even.push(view.getUint32(i * 8, true));
+      odd.push(view.getUint32(i * 8 + 4, true));
+      sWords.unshift(this.reedSolomon(key.subarray(i * 8, i * 8 + 8)));
+    }
+
+    for (let i = 0; i < 20; i++) {
+      const a = h(Math.imul(2 * i, 0x01010101) >>> 0, even);
+      const b = rotl(h(Math.imul(2 * i + 1, 0x01010101) >>> 0, odd), 8);
+      this.subkeys[2 * i] = (a + b) >>> 0;
+      this.subkeys[2 * i + 1] = rotl((a + 2 * b) >>> 0, 9);
+    }
+
+    this.sBoxes = [0, 1, 2, 3].map(lane => {
+      const table = new Uint32Array(256);
+      for (let x = 0; x < 256; x++) {
+        table[x] = MDS_COLUMNS[lane][hByte(x, lane, sWords)];
+      }
+      return table;
+    });
+  }
+
+  encryptBlock(block: Uint8Array): Uint8Array {
+    const [r0, r1, r2, r3] = this.readWords(block, 0);
+    let a = r0;
+    let b = r1;
+    let c = r2;
+    let d = r3;
+
+    for (let round = 0; round < ROUNDS; round++) {
+      const [f0, f1] = this.f(a, b, round);
+      const nextC = rotr((c ^ f0) >>> 0, 1);
+      const nextD = (rotl(d, 1) ^ f1) >>> 0;
+      [a, b, c, d] = [nextC, nextD, a, b];
+    }
+
+    // The final swap is undone before output whitening
+    return this.writeWords([c, d, a, b], 4);
+  }
+
+  decryptBlock(block: Uint8Array): Uint8Array {
+    const [w0, w1, w2, w3] = this.readWords(block, 4);
+    let a = w2;
+    let b = w3;
+    let c = w0;
+    let d = w1;
+
+    for (let round = ROUNDS - 1; round >= 0; round--) {
+      const [f0, f1] = this.f(c, d, round);
+      const previousC = (rotl(a, 1) ^ f0) >>> 0;
+      const previousD = rotr((b ^ f1) >>> 0, 1);
+      [a, b, c, d] = [c, d, previousC, previousD];
+    }
+
+    return this.writeWords([a, b, c, d], 0);
+  }
+
+  private f(r0: number, r1: number, round: number): [number, number] {
+    const t0 = this.g(r0);
+    const t1 = this.g(rotl(r1, 8));
+    return [
+      (t0 + t1 + this.subkeys[2 * round + 8]) >>> 0,
+      (t0 + 2 * t1 + this.subkeys[2 * round + 9]) >>> 0
+    ];
+  }
+
+  private g(x: number): number {
+    const [s0, s1, s2, s3] = this.sBoxes;
+    return (s0[x & 0xff] ^ s1[(x >>> 8) & 0xff] ^ s2[(x >>> 16) & 0xff] ^ s3[x >>> 24]) >>> 0;
+  }
+
+  private reedSolomon(bytes: Uint8Array): number {
+    let word = 0;
+    for (let row = 0; row < 4; row++) {
+      let value = 0;
+      for (let column = 0; column < 8; column++) {
+        value ^= gfMultiply(RS[row][column], bytes[column], RS_POLYNOMIAL);
+      }
+      word |= value << (row * 8);
+    }
+    return word >>> 0;
+  }
+
+  /**
+   * Read the four little-endian words of a block, XORed with the whitening subkeys at offset
+   */
+  private readWords(block: Uint8Array, whitening: number): number[] {
+    const view = new DataView(block.buffer, block.byteOffset, 16);
+    return [0, 1, 2, 3].map(i => (view.getUint32(i * 4, true) ^ this.subkeys[whitening + i]) >>> 0);
+  }
+
+  private writeWords(words: number[], whitening: number): Uint8Array {
+    const block = new Uint8Array(16);
+    const view = new DataView(block.buffer);
+    words.forEach((word, i) => view.setUint32(i * 4, (word ^ this.subkeys[whitening + i]) >>> 0, true));
+    return block;
+  }
+}
@@ -1,5 +1,7 @@
-import { CipherEngine, CipherMetadata } from '@/types/crypto';
+import { CipherEngine, CipherMetadata, CiphertextEnvelope, CryptoOperation, DecryptionParams } from '@/types/crypto';
 import { cipherSearch } from '@/lib/search';
+import { hexToBytes, EnvelopeError } from '@/lib/crypto-utils';
+import { parseEnvelope, hashAdditionalData, EnvelopeOptions } from './envelope';
 import AESEngine from './engines/aes';
 import ChaCha20Engine from './engines/chacha20';
 import { RSAEngine } from './engines/rsa';
@@ -20,6 +22,9 @@ import { SeedEngine } from './engines/seed';
 import { AriaEngine } from './engines/aria';
 import { KyberEngine } from './engines/kyber';
 import { SphincsEngine } from './engines/sphincs';
+import { DilithiumEngine } from './engines/dilithium';
+import { Ed25519Engine } from './engines/ed25519';
+import { X25519Engine } from './engines/x25519';
 
 // Registry of all available cipher engines
 export class CipherRegistry {
@@ -48,6 +53,9 @@ export class CipherRegistry {
     this.register(new AriaEngine());
     this.register(new KyberEngine());
     this.register(new SphincsEngine());
+    this.register(new DilithiumEngine());
+    this.register(new Ed25519Engine());
+    this.register(new X25519Engine());
     
     // Initialize search index
     this.initializeSearch();
@@ -138,6 +146,59 @@ export class CipherRegistry {
   static getAllIds(): string[] {
     return Array.from(this.engines.keys());
   }
+
+  /**
+   * Decrypt an envelope (either encoding) with the engine it names. Associated data is not stored
+   * in the envelope, so it must be supplied again and is checked against the recorded hash first.
+   * Neither is an RSA-OAEP label, which the padding check itself verifies.
+   */
+  static async openEnvelope(
+    envelope: string | CiphertextEnvelope,
+    key: string,
+    options: Pick<EnvelopeOptions, 'additionalData' | 'additionalDataComponents'> & Pick<DecryptionParams, 'oaepLabel'> = {}
+  ): Promise<CryptoOperation<Uint8Array>> {
+    try {
+      const parsed = typeof envelope === 'string' ? parseEnvelope(envelope) : envelope;
+
+      const engine = this.getEngine(parsed.cipher);
+      if (!engine) {
+        throw new EnvelopeError(`Unknown cipher in envelope: ${parsed.cipher}`);
+      }
+      if (hashAdditionalData(options) !== parsed.aadHash) {
+        throw new EnvelopeError('The associated data does not match the hash recorded in the envelope');
+      }
+
+      const operation = await engine.decryptBytes({
+        ciphertext: hexToBytes(parsed.ciphertext),
+        key,
+        iv: parsed.iv,
+        nonce: parsed.nonce,
+        counter: parsed.counter,
+        offset: parsed.offset,
+        tag: parsed.tag,
+        mode: parsed.mode,
+        variant: parsed.variant,
+        padding: parsed.padding,
+        oaepHash: parsed.oaepHash,
+        mgf1Hash: parsed.mgf1Hash,
+        oaepLabel: options.oaepLabel,
+        salt: parsed.salt,
+        iterations: parsed.kdf?.iterations,
+        additionalData: options.additionalData,
+        additionalDataComponents: options.additionalDataComponents
+      });
+
+      // Report how a passphrase-derived key was produced so the caller can show or re-derive it
+      const { salt, kdf } = parsed;
+      return kdf && operation.metadata ? { ...operation, metadata: { ...operation.metadata, salt, kdf } } : operation;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Cannot open envelope: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ...(error instanceof EnvelopeError && { errorCode: 'INVALID_ENVELOPE' as const })
+      };
+    }
+  }
 }
 
 export default CipherRegistry;
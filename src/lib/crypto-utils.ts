@@ -1,3 +1,6 @@
+import CryptoJS from 'crypto-js';
+import { DataFormat, HashAlgorithm, KdfAlgorithm } from '@/types/crypto';
+
 /**
  * Secure random number generation utilities
  */
@@ -92,51 +95,150 @@ export function base64ToHex(base64: string): string {
 }
 
 /**
- * Format conversion utilities
+ * Convert hex to bytes
  */
-export function convertFormat(
-  input: string,
-  fromFormat: 'text' | 'hex' | 'base64',
-  toFormat: 'text' | 'hex' | 'base64'
-): string {
-  if (fromFormat === toFormat) return input;
-  
-  try {
-    // First convert to text as intermediate format
-    let text: string;
-    switch (fromFormat) {
-      case 'text':
-        text = input;
-        break;
-      case 'hex':
-        text = hexToString(input);
-        break;
-      case 'base64':
-        text = base64ToString(input);
-        break;
-      default:
-        text = input;
-    }
-    
-    // Then convert from text to target format
-    switch (toFormat) {
-      case 'text':
-        return text;
-      case 'hex':
-        return stringToHex(text);
-      case 'base64':
-        return stringToBase64(text);
-      default:
-        return text;
+export function hexToBytes(hex: string): Uint8Array {
+  if (!isValidHex(hex)) {
+    throw new Error('Invalid hex string');
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Convert bytes to hex
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Concatenate byte arrays
+ */
+export function concatBytes(...arrays: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(arrays.reduce((total, array) => total + array.length, 0));
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+}
+
+/**
+ * Convert bytes to base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Convert bytes to unpadded base64url (RFC 4648 section 5)
+ */
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Convert base64 to bytes, accepting the URL-safe alphabet and missing padding
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const standard = base64.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = standard + '='.repeat((4 - standard.length % 4) % 4);
+  if (!isValidBase64(padded)) {
+    throw new Error('Invalid base64 string');
+  }
+  return Uint8Array.from(atob(padded), char => char.charCodeAt(0));
+}
+
+/**
+ * Decode user input in the given format; whitespace is ignored in hex and base64
+ */
+export function decodeData(input: string, format: DataFormat): Uint8Array {
+  switch (format) {
+    case 'text':
+      return new TextEncoder().encode(input);
+    case 'hex': {
+      const hex = input.replace(/\s/g, '').replace(/^0x/i, '');
+      if (!isValidHex(hex)) {
+        throw new Error('Invalid hex: expected an even number of 0-9 and a-f characters');
+      }
+      return hexToBytes(hex);
     }
-  } catch (error) {
-    throw new Error(`Failed to convert from ${fromFormat} to ${toFormat}: ${error}`);
+    case 'base64':
+      try {
+        return base64ToBytes(input.replace(/\s/g, ''));
+      } catch {
+        throw new Error('Invalid base64: expected A-Z, a-z, 0-9, +, / (or -, _) with optional = padding');
+      }
   }
 }
 
 /**
- * Validation utilities
+ * Encode bytes for display in the given format
  */
+export function encodeData(bytes: Uint8Array, format: DataFormat): string {
+  switch (format) {
+    case 'text':
+      try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+      } catch {
+        throw new Error('Data is not valid UTF-8 text; view it as hex or base64 instead');
+      }
+    case 'hex':
+      return bytesToHex(bytes);
+    case 'base64':
+      return bytesToBase64(bytes);
+  }
+}
+
+/**
+ * Guess the encoding of pasted input. Hex is checked first since most hex strings are also valid
+ * base64; base64 additionally needs padded length and a digit or symbol so that plain words stay text.
+ */
+export function detectDataFormat(input: string): DataFormat {
+  const trimmed = input.trim();
+  if (trimmed.length === 0 || /[ \t]/.test(trimmed)) {
+    return 'text';
+  }
+
+  const compact = trimmed.replace(/\s/g, '');
+  if (isValidHex(compact.replace(/^0x/i, ''))) {
+    return 'hex';
+  }
+  if (
+    compact.length >= 8 &&
+    compact.length % 4 === 0 &&
+    /[0-9+/=_-]/.test(compact) &&
+    /^[A-Za-z0-9+/_-]+={0,2}$/.test(compact) &&
+    isValidBase64(compact.replace(/-/g, '+').replace(/_/g, '/'))
+  ) {
+    return 'base64';
+  }
+  return 'text';
+}
+
+/**
+ * Format conversion utilities
+ */
+export function convertFormat(input: string, fromFormat: DataFormat, toFormat: DataFormat): string {
+  if (fromFormat === toFormat) return input;
+
+  try {
+    return encodeData(decodeData(input, fromFormat), toFormat);
+  } catch (error) {
+    throw new Error(`Failed to convert from ${fromFormat} to ${toFormat}: ${error instanceof Error ? error.message : error}`);
+  }
+}
 
 /**
  * Check if string is valid hex
@@ -243,18 +345,89 @@ export function secureCompare(a: Uint8Array, b: Uint8Array): boolean {
   return result === 0;
 }
 
+/**
+ * Raised when an authenticated cipher rejects a tag
+ */
+export class AuthenticationError extends Error {
+  constructor(message: string = 'Authentication failed. The ciphertext, tag or associated data has been modified.') {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Raised when a ciphertext envelope is malformed or does not match what it is opened with
+ */
+export class EnvelopeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EnvelopeError';
+  }
+}
+
+/**
+ * Raised when block cipher padding does not match the selected scheme
+ */
+export class PaddingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaddingError';
+  }
+}
+
+const KDF_HASHES: Record<KdfAlgorithm, { webCrypto: string; hasher: typeof CryptoJS.algo.SHA256 }> = {
+  'PBKDF2-SHA1': { webCrypto: 'SHA-1', hasher: CryptoJS.algo.SHA1 },
+  'PBKDF2-SHA256': { webCrypto: 'SHA-256', hasher: CryptoJS.algo.SHA256 },
+  'PBKDF2-SHA512': { webCrypto: 'SHA-512', hasher: CryptoJS.algo.SHA512 }
+};
+
+export const KDF_ALGORITHMS = Object.keys(KDF_HASHES) as KdfAlgorithm[];
+
+// Output sizes in bytes
+export const HASH_SIZES: Record<HashAlgorithm, number> = {
+  'SHA-1': 20,
+  'SHA-256': 32,
+  'SHA-384': 48,
+  'SHA-512': 64
+};
+
+export const HASH_ALGORITHMS = Object.keys(HASH_SIZES) as HashAlgorithm[];
+
+/**
+ * Synchronous PBKDF2 (RFC 8018) on CryptoJS, used where Web Crypto is unavailable.
+ * A string salt is taken as UTF-8; the derived key is returned as hex.
+ */
+export function pbkdf2(
+  passphrase: string,
+  salt: string | Uint8Array,
+  iterations: number,
+  keyLength: number,
+  algorithm: KdfAlgorithm = 'PBKDF2-SHA256'
+): string {
+  const saltWords = typeof salt === 'string' ? CryptoJS.enc.Utf8.parse(salt) : CryptoJS.enc.Hex.parse(bytesToHex(salt));
+  const derived = CryptoJS.PBKDF2(CryptoJS.enc.Utf8.parse(passphrase), saltWords, {
+    keySize: Math.ceil(keyLength / 4),
+    iterations,
+    hasher: KDF_HASHES[algorithm].hasher
+  });
+
+  // keySize counts 32-bit words, so trim keys that are not a whole number of words
+  return derived.toString(CryptoJS.enc.Hex).slice(0, keyLength * 2);
+}
+
 /**
  * Derive key from passphrase using PBKDF2
  */
 export async function deriveKeyFromPassphrase(
   passphrase: string,
-  salt: string,
+  salt: string | Uint8Array,
   iterations: number,
-  keyLength: number
+  keyLength: number,
+  algorithm: KdfAlgorithm = 'PBKDF2-SHA256'
 ): Promise<string> {
   const encoder = new TextEncoder();
   const passphraseBuffer = encoder.encode(passphrase);
-  const saltBuffer = encoder.encode(salt);
+  const saltBuffer = typeof salt === 'string' ? encoder.encode(salt) : salt;
   
   if (typeof window !== 'undefined' && window.crypto && window.crypto.subtle) {
     try {
@@ -271,7 +444,7 @@ export async function deriveKeyFromPassphrase(
           name: 'PBKDF2',
           salt: saltBuffer,
           iterations: iterations,
-          hash: 'SHA-256'
+          hash: KDF_HASHES[algorithm].webCrypto
         },
         keyMaterial,
         keyLength * 8
@@ -287,12 +460,34 @@ export async function deriveKeyFromPassphrase(
   }
   
   // Fallback implementation (not as secure, for demonstration only)
-  const crypto = await import('crypto-js');
-  const derived = crypto.PBKDF2(passphrase, salt, {
-    keySize: keyLength / 4,
-    iterations: iterations,
-    hasher: crypto.algo.SHA256
-  });
-  
-  return derived.toString();
+  return pbkdf2(passphrase, salt, iterations, keyLength, algorithm);
+}
+
+const toWordArray = (bytes: Uint8Array) => CryptoJS.enc.Hex.parse(bytesToHex(bytes));
+
+/**
+ * HMAC-SHA256 of raw bytes
+ */
+export function hmacSha256(key: Uint8Array, data: Uint8Array): Uint8Array {
+  return hexToBytes(CryptoJS.HmacSHA256(toWordArray(data), toWordArray(key)).toString(CryptoJS.enc.Hex));
+}
+
+/**
+ * HKDF-SHA256 (RFC 5869): extract a pseudorandom key from the input keying material, then
+ * expand it to the requested length
+ */
+export function hkdfSha256(ikm: Uint8Array, salt: Uint8Array, info: Uint8Array, length: number): Uint8Array {
+  if (length > 255 * 32) {
+    throw new Error('HKDF-SHA256 output is limited to 8160 bytes');
+  }
+
+  // An absent salt is a hash-length string of zeros
+  const prk = hmacSha256(salt.length ? salt : new Uint8Array(32), ikm);
+  const output = new Uint8Array(length);
+  let block = new Uint8Array(0);
+  for (let counter = 1, offset = 0; offset < length; counter++, offset += 32) {
+    block = hmacSha256(prk, concatBytes(block, info, Uint8Array.of(counter)));
+    output.set(block.subarray(0, length - offset), offset);
+  }
+  return output;
 }
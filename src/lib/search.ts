@@ -121,11 +121,12 @@ export class CipherSearchEngine {
       'rsa': ['rivest shamir adleman'],
       'des': ['data encryption standard'],
       '3des': ['triple des', 'tdea', 'triple data encryption algorithm'],
-      'chacha20': ['chacha', 'salsa20 variant'],
-      'salsa20': ['salsa', 'chacha20 variant'],
+      'chacha20': ['chacha', 'salsa20 variant', 'xchacha20', 'xchacha'],
+      'salsa20': ['salsa', 'chacha20 variant', 'xsalsa20', 'xsalsa'],
       'ecc': ['elliptic curve cryptography', 'elliptic curve'],
-      'kyber': ['crystals kyber', 'quantum resistant'],
-      'sphincs': ['sphincs+', 'hash based signature'],
+      'kyber': ['ml-kem', 'crystals kyber', 'fips 203', 'quantum resistant'],
+      'sphincs': ['sphincs+', 'slh-dsa', 'fips 205', 'hash based signature'],
+      'dilithium': ['ml-dsa', 'crystals dilithium', 'fips 204', 'lattice signature'],
       'blowfish': ['twofish predecessor'],
       'twofish': ['blowfish successor'],
       'rc4': ['rivest cipher 4', 'arcfour'],
@@ -136,7 +137,9 @@ export class CipherSearchEngine {
       'serpent': ['aes finalist'],
       'camellia': ['ntt camellia'],
       'seed': ['korean cipher'],
-      'aria': ['korean standard']
+      'aria': ['korean standard'],
+      'ed25519': ['eddsa', 'edwards curve signature', 'curve25519', 'rfc 8032'],
+      'x25519': ['curve25519', 'ecdh', 'nacl box', 'key agreement', 'rfc 7748']
     };
 
     return alternatives[cipherId] || [];
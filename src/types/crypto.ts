@@ -1,11 +1,25 @@
 export type CipherCategory = 'symmetric' | 'asymmetric' | 'post-quantum';
 
-export type CipherMode = 'ECB' | 'CBC' | 'CFB' | 'OFB' | 'CTR' | 'GCM' | 'CCM' | 'Stream' | 'PKCS1' | 'OAEP';
+export type DataFormat = 'text' | 'hex' | 'base64';
+
+export type PaddingScheme = 'PKCS7' | 'ISO7816-4' | 'ANSIX923' | 'ISO10126' | 'Zero' | 'None';
+
+// Digests selectable for RSA-OAEP and its MGF1 mask generation
+export type HashAlgorithm = 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512';
+
+// RSASSA-PSS and RSASSA-PKCS1-v1_5 (RFC 8017 section 8)
+export type SignatureScheme = 'PSS' | 'PKCS1';
+
+export type CipherMode = 'ECB' | 'CBC' | 'CFB' | 'OFB' | 'CTR' | 'GCM' | 'CCM' | 'SIV' | 'OCB' | 'CFB1' | 'CFB8' | 'PCBC' | 'CTS' | 'Stream' | 'PKCS1' | 'OAEP';
 
 export interface CipherVariant {
   id: string;
   name: string;
   keySize: number;
+  aead?: boolean;
+  // Variants of key-pair engines that take another key: 'shared' a single symmetric key, and
+  // 'own-and-peer' the caller's private key followed by the peer's public key for both operations
+  keyUsage?: 'shared' | 'own-and-peer';
 }
 
 export interface CipherReference {
@@ -32,8 +46,23 @@ export interface CipherMetadata {
   };
   ivRequired: boolean;
   ivSize?: number;
+  ivSizeByMode?: Partial<Record<CipherMode, number>>;
+  tagSizesByMode?: Partial<Record<CipherMode, number[]>>;
+  keyMultiplierByMode?: Partial<Record<CipherMode, number>>;
+  paddingSchemes?: PaddingScheme[];
+  // Hashes offered for OAEP and MGF1; the Sandbox shows hash and label controls in OAEP mode
+  oaepHashes?: HashAlgorithm[];
   nonceRequired: boolean;
   nonceSize?: number;
+  // Extended-nonce variants (XChaCha20, XSalsa20) override nonceSize
+  nonceSizeByVariant?: Record<string, number>;
+  // Signature schemes that cannot encrypt; the Sandbox offers them only sign and verify
+  signatureOnly?: boolean;
+  // Signatures that bind a context string and can be signed deterministically (FIPS 204 and 205)
+  signatureContext?: boolean;
+  // Signature paddings and message hashes to choose from, for engines that offer a choice
+  signatureSchemes?: SignatureScheme[];
+  signatureHashes?: HashAlgorithm[];
   securityNotes: SecurityNote[];
   references: CipherReference[];
   complexity: 'low' | 'medium' | 'high';
@@ -48,8 +77,19 @@ export interface EncryptionParams {
   mode?: CipherMode;
   variant?: string;
   additionalData?: string;
+  additionalDataComponents?: string[];
+  tagLength?: number;
+  padding?: PaddingScheme;
+  oaepHash?: HashAlgorithm;
+  // Defaults to the OAEP hash
+  mgf1Hash?: HashAlgorithm;
+  // OAEP label (text), bound into the padding and required again to decrypt
+  oaepLabel?: string;
   salt?: string;
   iterations?: number;
+  counter?: number;
+  // Byte offset into the keystream to start at, for seekable stream ciphers (Salsa20)
+  offset?: number;
 }
 
 export interface DecryptionParams {
@@ -57,17 +97,83 @@ export interface DecryptionParams {
   key: string;
   iv?: string;
   nonce?: string;
+  tag?: string;
   mode?: CipherMode;
   variant?: string;
   additionalData?: string;
+  additionalDataComponents?: string[];
+  tagLength?: number;
+  padding?: PaddingScheme;
+  oaepHash?: HashAlgorithm;
+  // Defaults to the OAEP hash
+  mgf1Hash?: HashAlgorithm;
+  // OAEP label (text), bound into the padding and required again to decrypt
+  oaepLabel?: string;
   salt?: string;
   iterations?: number;
+  counter?: number;
+  // Byte offset into the keystream to start at, for seekable stream ciphers (Salsa20)
+  offset?: number;
+}
+
+// Byte-oriented counterparts of the string params; keys, IVs and nonces stay hex
+export interface ByteEncryptionParams extends Omit<EncryptionParams, 'plaintext'> {
+  plaintext: Uint8Array;
+}
+
+export interface ByteDecryptionParams extends Omit<DecryptionParams, 'ciphertext'> {
+  ciphertext: Uint8Array;
+}
+
+// Keys stay in the engine's text encoding: the private key to sign, the public key to verify
+export interface SignatureParams {
+  message: Uint8Array;
+  key: string;
+  variant?: string;
+  // Context string bound into the signature by schemes that support one (FIPS 204 and 205)
+  context?: string;
+  // Sign without fresh randomness, so the same message always gets the same signature
+  deterministic?: boolean;
+  scheme?: SignatureScheme;
+  hash?: HashAlgorithm;
+  // PSS salt length in bytes; defaults to the hash length
+  saltLength?: number;
+}
+
+export interface VerificationParams {
+  message: Uint8Array;
+  signature: Uint8Array;
+  key: string;
+  variant?: string;
+  context?: string;
+  scheme?: SignatureScheme;
+  hash?: HashAlgorithm;
+  saltLength?: number;
+}
+
+// Our private key and the peer's public key, in the engine's text encoding
+export interface KeyAgreementParams {
+  privateKey: string;
+  publicKey: string;
+  variant?: string;
+}
+
+// One 64-byte keystream block of a stream cipher, at a 64-bit block counter
+export interface KeystreamBlockParams {
+  key: string;
+  nonce: string;
+  counter: number | bigint;
+  variant?: string;
 }
 
-export interface CryptoOperation {
+export type CryptoErrorCode = 'AUTHENTICATION_FAILED' | 'INVALID_PADDING' | 'INVALID_ENVELOPE';
+
+export interface CryptoOperation<T = string> {
   success: boolean;
-  result?: string;
-  error?: string;  metadata?: {
+  result?: T;
+  error?: string;
+  errorCode?: CryptoErrorCode;
+  metadata?: {
     keyLength: number;
     ivLength?: number;
     nonceLength?: number;
@@ -75,14 +181,48 @@ export interface CryptoOperation {
     variant?: string;
     iv?: string;
     nonce?: string;
+    counter?: number;
+    offset?: number;
+    tag?: string;
+    tagLength?: number;
+    padding?: PaddingScheme;
+    oaepHash?: HashAlgorithm;
+    mgf1Hash?: HashAlgorithm;
+    signatureLength?: number;
+    signatureScheme?: SignatureScheme;
+    hash?: HashAlgorithm;
+    saltLength?: number;
+    // Hex encoded message representative EM that the signature is computed over, as recovered
+    // from the signature with the public key
+    encodedMessage?: string;
+    // Wall-clock time of the operation, recorded by the Sandbox
+    elapsedMs?: number;
+    // Set when the key was derived from a passphrase
+    salt?: string;
+    kdf?: KdfParams;
   };
 }
 
+// Public and private halves of an asymmetric key, in the engine's own text encoding
+export interface KeyPair {
+  publicKey: string;
+  privateKey: string;
+}
+
 export interface CipherEngine {
   metadata: CipherMetadata;
   encrypt(params: EncryptionParams): Promise<CryptoOperation>;
   decrypt(params: DecryptionParams): Promise<CryptoOperation>; 
+  encryptBytes(params: ByteEncryptionParams): Promise<CryptoOperation<Uint8Array>>;
+  decryptBytes(params: ByteDecryptionParams): Promise<CryptoOperation<Uint8Array>>;
   generateKey(keySize?: number): Promise<string>;
+  // Public-key engines encrypt with the public key and decrypt with the private key
+  generateKeyPair?(variant?: string): Promise<KeyPair>;
+  // Signature schemes sign with the private key; verify resolves to whether the signature is valid
+  sign?(params: SignatureParams): Promise<CryptoOperation<Uint8Array>>;
+  verify?(params: VerificationParams): Promise<CryptoOperation<boolean>>;
+  // Key-agreement engines combine a private key with a peer's public key into a shared secret
+  deriveSharedSecret?(params: KeyAgreementParams): Promise<CryptoOperation<Uint8Array>>;
   generateIV?(ivSize?: number): Promise<string>;
   generateNonce?(nonceSize?: number): Promise<string>;
   validateKey(key: string, keySize?: number): boolean;
@@ -90,20 +230,81 @@ export interface CipherEngine {
   validateNonce?(nonce: string): boolean;
 }
 
+export type KdfAlgorithm = 'PBKDF2-SHA1' | 'PBKDF2-SHA256' | 'PBKDF2-SHA512';
+
+export interface KdfParams {
+  algorithm: KdfAlgorithm;
+  iterations: number;
+  keyLength: number;
+}
+
+/**
+ * Self-describing ciphertext: everything except the key needed to decrypt it again.
+ * Binary fields are hex; any AEAD tag is carried separately from the ciphertext body.
+ */
+export interface CiphertextEnvelope {
+  version: number;
+  cipher: string;
+  variant?: string;
+  mode?: CipherMode;
+  iv?: string;
+  nonce?: string;
+  counter?: number;
+  // Byte offset into the keystream (Salsa20)
+  offset?: number;
+  padding?: PaddingScheme;
+  oaepHash?: HashAlgorithm;
+  mgf1Hash?: HashAlgorithm;
+  salt?: string;
+  kdf?: KdfParams;
+  aadHash?: string;
+  tag?: string;
+  ciphertext: string;
+}
+
+export type EnvelopeEncoding = 'json' | 'compact';
+
+export type KeyMode = 'raw' | 'passphrase';
+
+export type SandboxOperation = 'encrypt' | 'decrypt' | 'sign' | 'verify';
+
 export interface SandboxState {
-  mode: 'encrypt' | 'decrypt';
+  mode: SandboxOperation;
   plaintext: string;
   ciphertext: string;
   key: string;
+  // Used instead of key by engines that generate key pairs
+  publicKey: string;
+  privateKey: string;
   iv: string;
   nonce: string;
   selectedMode: CipherMode;
   selectedVariant: string;
   additionalData: string;
+  tagLength: number;
+  padding: PaddingScheme;
+  oaepHash: HashAlgorithm;
+  mgf1Hash: HashAlgorithm;
+  oaepLabel: string;
+  // A raw hex key, or one derived from a passphrase with the KDF settings below
+  keyMode: KeyMode;
+  passphrase: string;
+  kdfAlgorithm: KdfAlgorithm;
   salt: string;
   iterations: number;
-  inputFormat: 'text' | 'hex' | 'base64';
-  outputFormat: 'text' | 'hex' | 'base64';
+  // Sign and verify reuse the plaintext field for the message
+  signature: string;
+  signatureContext: string;
+  deterministic: boolean;
+  signatureScheme: SignatureScheme;
+  signatureHash: HashAlgorithm;
+  saltLength: number;
+  // Encoding of the plaintext field
+  inputFormat: DataFormat;
+  // Encoding of the ciphertext and signature fields
+  outputFormat: DataFormat;
+  envelope: string;
+  envelopeEncoding: EnvelopeEncoding;
   isProcessing: boolean;
   result?: CryptoOperation;
 }